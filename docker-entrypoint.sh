@@ -48,6 +48,353 @@ SQL
   echo "  staff_end_date: applied"
 fi
 
+# Migration: add_shift_patterns
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='ShiftPattern'" | grep -q ShiftPattern; then
+  echo "  shift_patterns: already applied"
+else
+  echo "  shift_patterns: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "ShiftPattern" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "staffId" TEXT,
+    "role" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "weeks" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ShiftPattern_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "Staff" ("staffId") ON DELETE SET NULL ON UPDATE CASCADE
+);
+CREATE INDEX "ShiftPattern_staffId_idx" ON "ShiftPattern"("staffId");
+CREATE INDEX "ShiftPattern_role_idx" ON "ShiftPattern"("role");
+SQL
+  echo "  shift_patterns: applied"
+fi
+
+# Migration: add_shift_pattern_anchor
+if sqlite3 "$DB_PATH" "PRAGMA table_info('ShiftPattern')" | grep -q anchorDate; then
+  echo "  shift_pattern_anchor: already applied"
+else
+  echo "  shift_pattern_anchor: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "ShiftPattern" ADD COLUMN "anchorDate" DATETIME;
+SQL
+  echo "  shift_pattern_anchor: applied"
+fi
+
+# Migration: add_holiday_states
+if sqlite3 "$DB_PATH" "PRAGMA table_info('PublicHoliday')" | grep -q '|state|'; then
+  echo "  holiday_states: already applied"
+else
+  echo "  holiday_states: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "PublicHoliday" ADD COLUMN "state" TEXT NOT NULL DEFAULT 'ALL';
+DROP INDEX "PublicHoliday_date_key";
+CREATE UNIQUE INDEX "PublicHoliday_date_state_key" ON "PublicHoliday"("date", "state");
+CREATE INDEX "PublicHoliday_state_idx" ON "PublicHoliday"("state");
+CREATE TABLE "AppSetting" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+SQL
+  echo "  holiday_states: applied"
+fi
+
+# Migration: add_staff_calendar_token
+if sqlite3 "$DB_PATH" "PRAGMA table_info('Staff')" | grep -q calendarToken; then
+  echo "  staff_calendar_token: already applied"
+else
+  echo "  staff_calendar_token: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "Staff" ADD COLUMN "calendarToken" TEXT;
+CREATE UNIQUE INDEX "Staff_calendarToken_key" ON "Staff"("calendarToken");
+SQL
+  echo "  staff_calendar_token: applied"
+fi
+
+# Migration: add_shift_swap_requests
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='ShiftSwapRequest'" | grep -q ShiftSwapRequest; then
+  echo "  shift_swap_requests: already applied"
+else
+  echo "  shift_swap_requests: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "ShiftSwapRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "requesterId" TEXT NOT NULL,
+    "colleagueId" TEXT NOT NULL,
+    "requesterDate" DATETIME NOT NULL,
+    "colleagueDate" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'proposed',
+    "reason" TEXT,
+    "reviewNote" TEXT,
+    "acceptedAt" DATETIME,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ShiftSwapRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "Staff" ("staffId") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ShiftSwapRequest_colleagueId_fkey" FOREIGN KEY ("colleagueId") REFERENCES "Staff" ("staffId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+CREATE INDEX "ShiftSwapRequest_status_idx" ON "ShiftSwapRequest"("status");
+CREATE INDEX "ShiftSwapRequest_requesterId_idx" ON "ShiftSwapRequest"("requesterId");
+CREATE INDEX "ShiftSwapRequest_colleagueId_idx" ON "ShiftSwapRequest"("colleagueId");
+SQL
+  echo "  shift_swap_requests: applied"
+fi
+
+# Migration: add_leave_request_id
+if sqlite3 "$DB_PATH" "PRAGMA table_info('LeaveHistory')" | grep -q requestId; then
+  echo "  leave_request_id: already applied"
+else
+  echo "  leave_request_id: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "LeaveHistory" ADD COLUMN "requestId" TEXT;
+CREATE INDEX "LeaveHistory_requestId_idx" ON "LeaveHistory"("requestId");
+SQL
+  echo "  leave_request_id: applied"
+fi
+
+# Migration: add_users
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='User'" | grep -q User; then
+  echo "  users: already applied"
+else
+  echo "  users: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "username" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'staff',
+    "staffId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastLoginAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "User_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "Staff" ("staffId") ON DELETE SET NULL ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX "User_username_key" ON "User"("username");
+CREATE UNIQUE INDEX "User_staffId_key" ON "User"("staffId");
+SQL
+  echo "  users: applied"
+fi
+
+# Migration: add_audit_events
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='AuditEvent'" | grep -q AuditEvent; then
+  echo "  audit_events: already applied"
+else
+  echo "  audit_events: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT NOT NULL,
+    "staffId" TEXT,
+    "summary" TEXT NOT NULL,
+    "before" TEXT,
+    "after" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+CREATE INDEX "AuditEvent_staffId_idx" ON "AuditEvent"("staffId");
+CREATE INDEX "AuditEvent_action_idx" ON "AuditEvent"("action");
+SQL
+  echo "  audit_events: applied"
+fi
+
+# Migration: add_schedule_publications
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='SchedulePublication'" | grep -q SchedulePublication; then
+  echo "  schedule_publications: already applied"
+else
+  echo "  schedule_publications: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "SchedulePublication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "replacedRows" TEXT NOT NULL,
+    "leaveChanges" TEXT NOT NULL,
+    "publishedById" TEXT,
+    "publishedByName" TEXT NOT NULL,
+    "rolledBackAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX "SchedulePublication_year_month_idx" ON "SchedulePublication"("year", "month");
+CREATE UNIQUE INDEX "SchedulePublication_year_month_version_key" ON "SchedulePublication"("year", "month", "version");
+SQL
+  echo "  schedule_publications: applied"
+fi
+
+# Migration: add_coverage_rules
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='CoverageRule'" | grep -q CoverageRule; then
+  echo "  coverage_rules: already applied"
+else
+  echo "  coverage_rules: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "CoverageRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT,
+    "weekdays" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "minPharmacists" INTEGER NOT NULL DEFAULT 0,
+    "minStaff" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+SQL
+  echo "  coverage_rules: applied"
+fi
+
+# Migration: add_partial_leave
+if sqlite3 "$DB_PATH" "PRAGMA table_info('ScheduleOverride')" | grep -q leavePortion; then
+  echo "  partial_leave: already applied"
+else
+  echo "  partial_leave: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "LeaveHistory" ADD COLUMN "amount" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "LeaveHistory" ADD COLUMN "portion" TEXT;
+ALTER TABLE "ScheduleDraft" ADD COLUMN "leaveHours" REAL;
+ALTER TABLE "ScheduleDraft" ADD COLUMN "leavePortion" TEXT;
+ALTER TABLE "ScheduleOverride" ADD COLUMN "leaveHours" REAL;
+ALTER TABLE "ScheduleOverride" ADD COLUMN "leavePortion" TEXT;
+SQL
+  echo "  partial_leave: applied"
+fi
+
+# Migration: add_leave_carry_forward
+if sqlite3 "$DB_PATH" "PRAGMA table_info('LeaveBalance')" | grep -q alCarried; then
+  echo "  leave_carry_forward: already applied"
+else
+  echo "  leave_carry_forward: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "LeaveBalance" ADD COLUMN "alCarried" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "LeaveBalance" ADD COLUMN "alCarriedExpiresAt" DATETIME;
+SQL
+  echo "  leave_carry_forward: applied"
+fi
+
+# Migration: add_temp_staff
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='TempStaff'" | grep -q TempStaff; then
+  echo "  temp_staff: already applied"
+else
+  echo "  temp_staff: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "TempStaff" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "qualification" TEXT NOT NULL DEFAULT 'Pharmacist',
+    "phone" TEXT,
+    "email" TEXT,
+    "hourlyRate" REAL,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+ALTER TABLE "ReplacementShift" ADD COLUMN "tempStaffId" TEXT;
+CREATE UNIQUE INDEX "TempStaff_name_key" ON "TempStaff"("name");
+CREATE INDEX "ReplacementShift_tempStaffId_idx" ON "ReplacementShift"("tempStaffId");
+SQL
+  echo "  temp_staff: applied"
+fi
+
+# Migration: add_replacement_shift_drafts
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='ReplacementShiftDraft'" | grep -q ReplacementShiftDraft; then
+  echo "  replacement_shift_drafts: already applied"
+else
+  echo "  replacement_shift_drafts: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "ReplacementShiftDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "originalStaffId" TEXT NOT NULL,
+    "tempStaffId" TEXT,
+    "tempStaffName" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "workHours" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+ALTER TABLE "SchedulePublication" ADD COLUMN "replacedReplacements" TEXT;
+CREATE INDEX "ReplacementShiftDraft_date_idx" ON "ReplacementShiftDraft"("date");
+CREATE INDEX "ReplacementShiftDraft_originalStaffId_idx" ON "ReplacementShiftDraft"("originalStaffId");
+SQL
+  echo "  replacement_shift_drafts: applied"
+fi
+
+# Migration: add_shift_types
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='ShiftType'" | grep -q ShiftType; then
+  echo "  shift_types: already applied"
+else
+  echo "  shift_types: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "ShiftType" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "timing" TEXT,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "workHours" REAL NOT NULL,
+    "breakHours" REAL NOT NULL DEFAULT 0,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+CREATE UNIQUE INDEX "ShiftType_key_key" ON "ShiftType"("key");
+INSERT INTO "ShiftType" ("id", "key", "label", "timing", "startTime", "endTime", "workHours", "breakHours", "color", "sortOrder", "updatedAt") VALUES
+    ('shift_11h', '11h', '11h', NULL, '09:15', '21:45', 11, 1.5, '#2563eb', 1, CURRENT_TIMESTAMP),
+    ('shift_9h_early', '9h_early', '9h', 'early', '09:15', '19:15', 9, 1, '#16a34a', 2, CURRENT_TIMESTAMP),
+    ('shift_9h_late', '9h_late', '9h', 'late', '11:45', '21:45', 9, 1, '#15803d', 3, CURRENT_TIMESTAMP),
+    ('shift_8h_early', '8h_early', '8h', 'early', '09:15', '18:15', 8, 1, '#d97706', 4, CURRENT_TIMESTAMP),
+    ('shift_8h_late', '8h_late', '8h', 'late', '12:45', '21:45', 8, 1, '#b45309', 5, CURRENT_TIMESTAMP),
+    ('shift_7h_early', '7h_early', '7h', 'early', '09:15', '17:15', 7, 1, '#9333ea', 6, CURRENT_TIMESTAMP),
+    ('shift_7h_late', '7h_late', '7h', 'late', '13:45', '21:45', 7, 1, '#7e22ce', 7, CURRENT_TIMESTAMP),
+    ('shift_9h_early_ramadan', '9h_early_ramadan', '8h+1h', 'early', '09:15', '17:15', 8, 0, '#f59e0b', 8, CURRENT_TIMESTAMP),
+    ('shift_11h_ramadan', '11h_ramadan', '11h', NULL, '09:45', '21:45', 11, 1, '#f59e0b', 9, CURRENT_TIMESTAMP);
+SQL
+  echo "  shift_types: applied"
+fi
+
+# Migration: add_shift_seasons
+if sqlite3 "$DB_PATH" "SELECT name FROM sqlite_master WHERE type='table' AND name='ShiftSeason'" | grep -q ShiftSeason; then
+  echo "  shift_seasons: already applied"
+else
+  echo "  shift_seasons: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+CREATE TABLE "ShiftSeason" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "shiftMap" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+CREATE INDEX "ShiftSeason_startDate_endDate_idx" ON "ShiftSeason"("startDate", "endDate");
+SQL
+  echo "  shift_seasons: applied"
+fi
+
+# Migration: add_shift_type_seasonal
+if sqlite3 "$DB_PATH" "PRAGMA table_info('ShiftType')" | grep -q isSeasonal; then
+  echo "  shift_type_seasonal: already applied"
+else
+  echo "  shift_type_seasonal: applying..."
+  sqlite3 "$DB_PATH" <<'SQL'
+ALTER TABLE "ShiftType" ADD COLUMN "isSeasonal" BOOLEAN NOT NULL DEFAULT false;
+UPDATE "ShiftType" SET "isSeasonal" = true WHERE "key" IN ('9h_early_ramadan', '11h_ramadan');
+SQL
+  echo "  shift_type_seasonal: applied"
+fi
+
 echo "Schema up to date."
 echo "Starting application..."
 exec node server.js
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ShiftPattern" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "staffId" TEXT,
+    "role" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "weeks" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ShiftPattern_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "Staff" ("staffId") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ShiftPattern_staffId_idx" ON "ShiftPattern"("staffId");
+
+-- CreateIndex
+CREATE INDEX "ShiftPattern_role_idx" ON "ShiftPattern"("role");
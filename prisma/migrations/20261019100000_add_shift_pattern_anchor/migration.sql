@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShiftPattern" ADD COLUMN "anchorDate" DATETIME;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "PublicHoliday" ADD COLUMN "state" TEXT NOT NULL DEFAULT 'ALL';
+
+-- DropIndex
+DROP INDEX "PublicHoliday_date_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicHoliday_date_state_key" ON "PublicHoliday"("date", "state");
+
+-- CreateIndex
+CREATE INDEX "PublicHoliday_state_idx" ON "PublicHoliday"("state");
+
+-- CreateTable
+CREATE TABLE "AppSetting" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ShiftSwapRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "requesterId" TEXT NOT NULL,
+    "colleagueId" TEXT NOT NULL,
+    "requesterDate" DATETIME NOT NULL,
+    "colleagueDate" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'proposed',
+    "reason" TEXT,
+    "reviewNote" TEXT,
+    "acceptedAt" DATETIME,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ShiftSwapRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "Staff" ("staffId") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ShiftSwapRequest_colleagueId_fkey" FOREIGN KEY ("colleagueId") REFERENCES "Staff" ("staffId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_status_idx" ON "ShiftSwapRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_requesterId_idx" ON "ShiftSwapRequest"("requesterId");
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_colleagueId_idx" ON "ShiftSwapRequest"("colleagueId");
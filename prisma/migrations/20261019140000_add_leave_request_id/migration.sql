@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LeaveHistory" ADD COLUMN "requestId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "LeaveHistory_requestId_idx" ON "LeaveHistory"("requestId");
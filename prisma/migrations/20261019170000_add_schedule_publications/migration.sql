@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "SchedulePublication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "replacedRows" TEXT NOT NULL,
+    "leaveChanges" TEXT NOT NULL,
+    "publishedById" TEXT,
+    "publishedByName" TEXT NOT NULL,
+    "rolledBackAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulePublication_year_month_idx" ON "SchedulePublication"("year", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchedulePublication_year_month_version_key" ON "SchedulePublication"("year", "month", "version");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "CoverageRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT,
+    "weekdays" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "minPharmacists" INTEGER NOT NULL DEFAULT 0,
+    "minStaff" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
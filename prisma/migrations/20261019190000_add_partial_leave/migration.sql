@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "LeaveHistory" ADD COLUMN "amount" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "LeaveHistory" ADD COLUMN "portion" TEXT;
+
+-- AlterTable
+ALTER TABLE "ScheduleDraft" ADD COLUMN "leaveHours" REAL;
+ALTER TABLE "ScheduleDraft" ADD COLUMN "leavePortion" TEXT;
+
+-- AlterTable
+ALTER TABLE "ScheduleOverride" ADD COLUMN "leaveHours" REAL;
+ALTER TABLE "ScheduleOverride" ADD COLUMN "leavePortion" TEXT;
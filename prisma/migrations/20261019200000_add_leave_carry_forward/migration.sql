@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "LeaveBalance" ADD COLUMN "alCarried" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "LeaveBalance" ADD COLUMN "alCarriedExpiresAt" DATETIME;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TempStaff" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "qualification" TEXT NOT NULL DEFAULT 'Pharmacist',
+    "phone" TEXT,
+    "email" TEXT,
+    "hourlyRate" REAL,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "ReplacementShift" ADD COLUMN "tempStaffId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TempStaff_name_key" ON "TempStaff"("name");
+
+-- CreateIndex
+CREATE INDEX "ReplacementShift_tempStaffId_idx" ON "ReplacementShift"("tempStaffId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ReplacementShiftDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "originalStaffId" TEXT NOT NULL,
+    "tempStaffId" TEXT,
+    "tempStaffName" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "workHours" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "SchedulePublication" ADD COLUMN "replacedReplacements" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ReplacementShiftDraft_date_idx" ON "ReplacementShiftDraft"("date");
+
+-- CreateIndex
+CREATE INDEX "ReplacementShiftDraft_originalStaffId_idx" ON "ReplacementShiftDraft"("originalStaffId");
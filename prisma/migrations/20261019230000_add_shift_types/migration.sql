@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ShiftType" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "timing" TEXT,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "workHours" REAL NOT NULL,
+    "breakHours" REAL NOT NULL DEFAULT 0,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShiftType_key_key" ON "ShiftType"("key");
+
+-- Seed the built-in shifts
+INSERT INTO "ShiftType" ("id", "key", "label", "timing", "startTime", "endTime", "workHours", "breakHours", "color", "sortOrder", "updatedAt") VALUES
+    ('shift_11h', '11h', '11h', NULL, '09:15', '21:45', 11, 1.5, '#2563eb', 1, CURRENT_TIMESTAMP),
+    ('shift_9h_early', '9h_early', '9h', 'early', '09:15', '19:15', 9, 1, '#16a34a', 2, CURRENT_TIMESTAMP),
+    ('shift_9h_late', '9h_late', '9h', 'late', '11:45', '21:45', 9, 1, '#15803d', 3, CURRENT_TIMESTAMP),
+    ('shift_8h_early', '8h_early', '8h', 'early', '09:15', '18:15', 8, 1, '#d97706', 4, CURRENT_TIMESTAMP),
+    ('shift_8h_late', '8h_late', '8h', 'late', '12:45', '21:45', 8, 1, '#b45309', 5, CURRENT_TIMESTAMP),
+    ('shift_7h_early', '7h_early', '7h', 'early', '09:15', '17:15', 7, 1, '#9333ea', 6, CURRENT_TIMESTAMP),
+    ('shift_7h_late', '7h_late', '7h', 'late', '13:45', '21:45', 7, 1, '#7e22ce', 7, CURRENT_TIMESTAMP),
+    ('shift_9h_early_ramadan', '9h_early_ramadan', '8h+1h', 'early', '09:15', '17:15', 8, 0, '#f59e0b', 8, CURRENT_TIMESTAMP),
+    ('shift_11h_ramadan', '11h_ramadan', '11h', NULL, '09:45', '21:45', 11, 1, '#f59e0b', 9, CURRENT_TIMESTAMP);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ShiftType" ADD COLUMN "isSeasonal" BOOLEAN NOT NULL DEFAULT false;
+
+-- The built-in Ramadan shifts
+UPDATE "ShiftType" SET "isSeasonal" = true WHERE "key" IN ('9h_early_ramadan', '11h_ramadan');
@@ -1,5 +1,6 @@
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
+import { canEditRota } from '@/lib/permissions';
 import AdminLayoutClient from './AdminLayoutClient';
 
 export default async function AdminLayout({
@@ -13,6 +14,10 @@ export default async function AdminLayout({
     redirect('/login');
   }
 
+  if (!canEditRota(session.user.role)) {
+    redirect('/me');
+  }
+
   return (
     <AdminLayoutClient>
       {children}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { isAuditAction } from '@/lib/audit';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// Parse YYYY-MM-DD as local midnight
+function parseLocalDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+const parseJson = (val: string | null): unknown => (val === null ? null : JSON.parse(val));
+
+// GET /api/audit - List audit events, newest first
+// Query: staffId?, from? / to? (YYYY-MM-DD, inclusive), action?, limit?
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const staffId = searchParams.get('staffId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const action = searchParams.get('action');
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(Math.max(limitParam, 1), MAX_LIMIT);
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    if (action && !isAuditAction(action)) {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+
+    const createdAt: { gte?: Date; lt?: Date } = {};
+    if (from) createdAt.gte = parseLocalDate(from);
+    if (to) {
+      const end = parseLocalDate(to);
+      end.setDate(end.getDate() + 1);
+      createdAt.lt = end;
+    }
+
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        ...(staffId && { staffId }),
+        ...(action && { action }),
+        ...((from || to) && { createdAt }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    // Staff names are looked up separately so events outlive deleted staff records
+    const staffIds = Array.from(new Set(events.map((e) => e.staffId).filter((id): id is string => !!id)));
+    const staff = await prisma.staff.findMany({
+      where: { staffId: { in: staffIds } },
+      select: { staffId: true, name: true },
+    });
+    const staffNames = new Map(staff.map((s) => [s.staffId, s.name]));
+
+    return NextResponse.json(
+      events.map((event) => ({
+        id: event.id,
+        action: event.action,
+        actorId: event.actorId,
+        actorName: event.actorName,
+        staffId: event.staffId,
+        staffName: event.staffId ? staffNames.get(event.staffId) || event.staffId : null,
+        summary: event.summary,
+        before: parseJson(event.before),
+        after: parseJson(event.after),
+        createdAt: event.createdAt.toISOString(),
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit events' }, { status: 500 });
+  }
+}
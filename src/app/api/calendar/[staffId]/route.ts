@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { format, addMonths } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { getMonthSchedule } from '@/lib/month-schedule';
+import { buildCalendar, type CalendarEvent } from '@/lib/ical';
+import { describePartialLeave } from '@/lib/partial-leave';
+
+interface RouteParams {
+  params: Promise<{ staffId: string }>;
+}
+
+// Months included in the feed, relative to the current month
+const MONTHS_BEFORE = 1;
+const MONTHS_AFTER = 3;
+
+const LEAVE_NAMES: Record<string, string> = {
+  AL: 'Annual Leave',
+  RL: 'Replacement Leave',
+  EL: 'Emergency Leave',
+  ML: 'Medical Leave',
+  MAT: 'Maternity Leave',
+};
+
+function isValidToken(expected: string | null, provided: string | null): boolean {
+  if (!expected || !provided) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// GET /api/calendar/[staffId].ics?token=... - Read-only iCalendar feed of a staff member's published shifts
+// Public route (see middleware): access is controlled by the staff member's secret calendar token
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { staffId: feedName } = await params;
+    const staffId = feedName.replace(/\.ics$/, '');
+    const token = new URL(request.url).searchParams.get('token');
+
+    const staff = await prisma.staff.findUnique({ where: { staffId } });
+
+    // Same response for unknown staff and bad tokens so feeds can't be probed
+    if (!staff || !staff.isActive || !isValidToken(staff.calendarToken, token)) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const events: CalendarEvent[] = [];
+    const now = new Date();
+
+    for (let offset = -MONTHS_BEFORE; offset <= MONTHS_AFTER; offset++) {
+      const monthDate = addMonths(now, offset);
+      const schedule = await getMonthSchedule(monthDate.getFullYear(), monthDate.getMonth() + 1);
+
+      schedule.days
+        .filter((day) => day.isCurrentMonth)
+        .forEach((day) => {
+          const staffShift = day.staffShifts[staffId];
+          if (!staffShift) return; // Not employed on this date
+
+          const dayKey = format(day.date, 'yyyyMMdd');
+
+          if (day.isHoliday) {
+            events.push({
+              uid: `${staffId}-${dayKey}-holiday@pharmacy-timetable`,
+              date: day.date,
+              summary: `Public Holiday: ${day.holidayName}`,
+            });
+            return;
+          }
+
+          if (staffShift.isLeave) {
+            const leaveType = staffShift.leaveType || 'AL';
+            events.push({
+              uid: `${staffId}-${dayKey}-leave@pharmacy-timetable`,
+              date: day.date,
+              summary: LEAVE_NAMES[leaveType] || leaveType,
+            });
+            return;
+          }
+
+          // A replacement covering this staff member means they are off
+          const isReplaced = day.replacementShifts?.some((rep) => rep.originalStaffId === staffId);
+          if (!staffShift.shift || isReplaced) return;
+
+          const { shift, partialLeave } = staffShift;
+          events.push({
+            uid: `${staffId}-${dayKey}-shift@pharmacy-timetable`,
+            date: day.date,
+            startTime: shift.startTime,
+            endTime: shift.endTime,
+            summary: `Shift ${shift.startTime}-${shift.endTime}`,
+            description: partialLeave
+              ? `${shift.workHours} working hours, ${describePartialLeave(partialLeave)} leave`
+              : `${shift.workHours} working hours`,
+          });
+        });
+    }
+
+    return new NextResponse(buildCalendar(`${staff.name} - Shifts`, events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${staffId}.ics"`,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar feed' }, { status: 500 });
+  }
+}
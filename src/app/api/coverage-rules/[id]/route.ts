@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { toCoverageRule, validateCoverageRule } from '@/lib/coverage';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/coverage-rules/[id] - Update a coverage rule
+// Body: any of { name, weekdays, startTime, endTime, minPharmacists, minStaff, isActive }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.coverageRule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Coverage rule not found' }, { status: 404 });
+    }
+
+    // Validate the rule as it will be after the update
+    const merged = { ...toCoverageRule(existing), ...body };
+    const validationError = validateCoverageRule(merged);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const rule = await prisma.coverageRule.update({
+      where: { id },
+      data: {
+        ...(body.name !== undefined && { name: body.name?.trim() || null }),
+        ...(body.weekdays !== undefined && { weekdays: JSON.stringify([...new Set(body.weekdays as number[])].sort()) }),
+        ...(body.startTime !== undefined && { startTime: body.startTime }),
+        ...(body.endTime !== undefined && { endTime: body.endTime }),
+        ...(body.minPharmacists !== undefined && { minPharmacists: body.minPharmacists }),
+        ...(body.minStaff !== undefined && { minStaff: body.minStaff }),
+        ...(body.isActive !== undefined && { isActive: !!body.isActive }),
+      },
+    });
+
+    return NextResponse.json(toCoverageRule(rule));
+  } catch (error) {
+    console.error('Error updating coverage rule:', error);
+    return NextResponse.json({ error: 'Failed to update coverage rule' }, { status: 500 });
+  }
+}
+
+// DELETE /api/coverage-rules/[id] - Delete a coverage rule
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.coverageRule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Coverage rule not found' }, { status: 404 });
+    }
+
+    await prisma.coverageRule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting coverage rule:', error);
+    return NextResponse.json({ error: 'Failed to delete coverage rule' }, { status: 500 });
+  }
+}
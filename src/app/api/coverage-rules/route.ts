@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { toCoverageRule, validateCoverageRule } from '@/lib/coverage';
+
+// GET /api/coverage-rules - List coverage rules
+export async function GET() {
+  try {
+    const rules = await prisma.coverageRule.findMany({
+      orderBy: [{ startTime: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json(rules.map(toCoverageRule));
+  } catch (error) {
+    console.error('Error fetching coverage rules:', error);
+    return NextResponse.json({ error: 'Failed to fetch coverage rules' }, { status: 500 });
+  }
+}
+
+// POST /api/coverage-rules - Add a coverage rule
+// Body: { name?, weekdays: number[], startTime: "HH:mm", endTime: "HH:mm", minPharmacists, minStaff }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, weekdays, startTime, endTime, minPharmacists = 0, minStaff = 0 } = body;
+
+    const validationError = validateCoverageRule({ weekdays, startTime, endTime, minPharmacists, minStaff });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const rule = await prisma.coverageRule.create({
+      data: {
+        name: name?.trim() || null,
+        weekdays: JSON.stringify([...new Set(weekdays as number[])].sort()),
+        startTime,
+        endTime,
+        minPharmacists,
+        minStaff,
+      },
+    });
+
+    return NextResponse.json(toCoverageRule(rule), { status: 201 });
+  } catch (error) {
+    console.error('Error creating coverage rule:', error);
+    return NextResponse.json({ error: 'Failed to create coverage rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildTimetablePdf } from '@/lib/timetable-pdf';
+
+// GET /api/export/pdf?year=2026&month=10&staffPages=true - Printable A4 landscape PDF of the published month
+// staffPages adds a page per staff member with their weekly hour totals
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '');
+    const month = parseInt(searchParams.get('month') || '');
+    const staffPages = searchParams.get('staffPages') === 'true';
+
+    if (!year || !month || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'Missing or invalid query params: year, month' }, { status: 400 });
+    }
+
+    const pdf = await buildTimetablePdf(year, month, staffPages);
+    const filename = `pharmacy-schedule-${year}-${String(month).padStart(2, '0')}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting timetable PDF:', error);
+    return NextResponse.json({ error: 'Failed to export timetable PDF' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { isValidHolidayState } from '@/lib/holidays';
+import { toHolidayResponse } from '@/lib/holiday-settings';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Parse date string "yyyy-MM-dd" as local date (not UTC)
+function parseLocalDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// PATCH /api/holidays/[id] - Update a public holiday
+// Body: { date?: "YYYY-MM-DD", name?: string, state?: string }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { date, name, state } = await request.json();
+
+    const holiday = await prisma.publicHoliday.findUnique({ where: { id } });
+    if (!holiday) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (name !== undefined && !name?.trim()) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+
+    if (state !== undefined && !isValidHolidayState(state)) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 400 });
+    }
+
+    const newDate = date !== undefined ? parseLocalDate(date) : holiday.date;
+    const newState = state ?? holiday.state;
+
+    // Keep one holiday per date per state
+    const conflict = await prisma.publicHoliday.findUnique({
+      where: { date_state: { date: newDate, state: newState } },
+    });
+    if (conflict && conflict.id !== id) {
+      return NextResponse.json(
+        { error: `A holiday already exists on this date for this state: ${conflict.name}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.publicHoliday.update({
+      where: { id },
+      data: {
+        date: newDate,
+        year: newDate.getFullYear(),
+        state: newState,
+        ...(name !== undefined && { name: name.trim() }),
+      },
+    });
+
+    return NextResponse.json(toHolidayResponse(updated));
+  } catch (error) {
+    console.error('Error updating holiday:', error);
+    return NextResponse.json({ error: 'Failed to update holiday' }, { status: 500 });
+  }
+}
+
+// DELETE /api/holidays/[id] - Remove a public holiday
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const holiday = await prisma.publicHoliday.findUnique({ where: { id } });
+    if (!holiday) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    await prisma.publicHoliday.delete({ where: { id } });
+
+    return NextResponse.json({ success: true, message: 'Holiday deleted' });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json({ error: 'Failed to delete holiday' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { isValidHolidayState, NATIONWIDE } from '@/lib/holidays';
+import { getBranchHolidayState, holidaysForState, toHolidayResponse } from '@/lib/holiday-settings';
+
+// Parse date string "yyyy-MM-dd" as local date (not UTC)
+function parseLocalDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// GET /api/holidays - Get public holidays
+// Query params: year (optional), state (optional: a state code, or "all" for every set)
+// Without state, returns the holidays observed by this branch (nationwide + branch state)
+// Public: the timetable marks holidays for everyone
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.get('year');
+    const state = searchParams.get('state');
+
+    if (state && state !== 'all' && !isValidHolidayState(state)) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 400 });
+    }
+
+    const stateFilter = state === 'all' ? {} : holidaysForState(state || await getBranchHolidayState());
+
+    const holidays = await prisma.publicHoliday.findMany({
+      where: {
+        ...stateFilter,
+        ...(year && { year: parseInt(year) }),
+      },
+      orderBy: [{ date: 'asc' }, { state: 'asc' }],
+    });
+
+    return NextResponse.json(holidays.map(toHolidayResponse));
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json({ error: 'Failed to fetch holidays' }, { status: 500 });
+  }
+}
+
+// POST /api/holidays - Add a public holiday
+// Body: { date: "YYYY-MM-DD", name: string, state?: string } - state defaults to nationwide
+export async function POST(request: NextRequest) {
+  try {
+    const { date, name, state = NATIONWIDE } = await request.json();
+
+    if (!date || !name?.trim()) {
+      return NextResponse.json({ error: 'Missing required fields: date, name' }, { status: 400 });
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (!isValidHolidayState(state)) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 400 });
+    }
+
+    const holidayDate = parseLocalDate(date);
+
+    const existing = await prisma.publicHoliday.findUnique({
+      where: { date_state: { date: holidayDate, state } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `A holiday already exists on ${date} for this state: ${existing.name}` },
+        { status: 409 }
+      );
+    }
+
+    const holiday = await prisma.publicHoliday.create({
+      data: {
+        date: holidayDate,
+        name: name.trim(),
+        year: holidayDate.getFullYear(),
+        state,
+      },
+    });
+
+    return NextResponse.json(toHolidayResponse(holiday), { status: 201 });
+  } catch (error) {
+    console.error('Error creating holiday:', error);
+    return NextResponse.json({ error: 'Failed to create holiday' }, { status: 500 });
+  }
+}
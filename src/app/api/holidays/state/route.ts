@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidHolidayState, NATIONWIDE } from '@/lib/holidays';
+import { getBranchHolidayState, setBranchHolidayState } from '@/lib/holiday-settings';
+
+// GET /api/holidays/state - Get the state whose holiday set this branch observes
+export async function GET() {
+  try {
+    const state = await getBranchHolidayState();
+    return NextResponse.json({ state });
+  } catch (error) {
+    console.error('Error fetching holiday state:', error);
+    return NextResponse.json({ error: 'Failed to fetch holiday state' }, { status: 500 });
+  }
+}
+
+// PUT /api/holidays/state - Assign the branch to a state's holiday set
+// Body: { state: string } - a state code (nationwide holidays always apply)
+export async function PUT(request: NextRequest) {
+  try {
+    const { state } = await request.json();
+
+    if (!isValidHolidayState(state) || state === NATIONWIDE) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 400 });
+    }
+
+    await setBranchHolidayState(state);
+
+    return NextResponse.json({ state });
+  } catch (error) {
+    console.error('Error updating holiday state:', error);
+    return NextResponse.json({ error: 'Failed to update holiday state' }, { status: 500 });
+  }
+}
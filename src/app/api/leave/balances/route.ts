@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getCarriedDays } from '@/lib/leave-rollover';
+import { getProrationRounding } from '@/lib/leave-entitlements';
+import { monthsOfService, proratedEntitlements } from '@/lib/leave-proration';
 
 export interface MaternityPeriod {
   startDate: string;
@@ -14,6 +17,8 @@ export interface LeaveBalanceSummary {
   year: number;
   al: {
     entitlement: number;
+    carried: number; // carried from last year and still usable (see carriedExpiresAt)
+    carriedExpiresAt: string | null;
     used: number;
     remaining: number;
   };
@@ -27,6 +32,12 @@ export interface LeaveBalanceSummary {
     used: number;
     remaining: number;
   };
+  // Set when the staff member joined or left during the year and entitlements were pro-rated
+  proration: {
+    months: number;
+    alFull: number;
+    mlFull: number;
+  } | null;
   mat: {
     entitlement: number;
     used: number;
@@ -35,16 +46,18 @@ export interface LeaveBalanceSummary {
   };
 }
 
-// GET /api/leave/balances?year=2025
+// GET /api/leave/balances?year=2025&staffId=xxx (staffId optional)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()));
+    const staffId = searchParams.get('staffId');
 
     const balances = await prisma.leaveBalance.findMany({
       where: {
         year,
         staff: { isActive: true },
+        ...(staffId && { staffId }),
       },
       include: { staff: true },
     });
@@ -64,15 +77,21 @@ export async function GET(request: NextRequest) {
       });
     });
 
-    const summaries: LeaveBalanceSummary[] = balances.map((b) => ({
+    // Carried AL still usable today (expired carry only keeps what was taken in time)
+    const carried = await Promise.all(balances.map((b) => getCarriedDays(prisma, b)));
+    const serviceMonths = balances.map((b) => monthsOfService(b.year, b.staff.startDate, b.staff.endDate));
+
+    const summaries: LeaveBalanceSummary[] = balances.map((b, i) => ({
       staffId: b.staffId,
       staffName: b.staff.name,
       staffRole: b.staff.role,
       year: b.year,
       al: {
         entitlement: b.alEntitlement,
+        carried: carried[i],
+        carriedExpiresAt: b.alCarriedExpiresAt ? b.alCarriedExpiresAt.toISOString() : null,
         used: b.alUsed,
-        remaining: b.alEntitlement - b.alUsed,
+        remaining: b.alEntitlement + carried[i] - b.alUsed,
       },
       rl: {
         earned: b.rlEarned,
@@ -84,6 +103,10 @@ export async function GET(request: NextRequest) {
         used: b.mlUsed,
         remaining: b.mlEntitlement - b.mlUsed,
       },
+      proration:
+        serviceMonths[i] < 12
+          ? { months: serviceMonths[i], alFull: b.staff.alEntitlement, mlFull: b.staff.mlEntitlement }
+          : null,
       mat: {
         entitlement: b.matEntitlement,
         used: b.matUsed,
@@ -113,27 +136,23 @@ export async function POST(request: NextRequest) {
       where: { isActive: true },
     });
 
-    // Create or update balances for each staff member
+    // Create or update balances for each staff member, pro-rated to their service in the year
+    const rounding = await getProrationRounding();
     for (const member of staff) {
+      const entitlements = proratedEntitlements(member, year, rounding);
       await prisma.leaveBalance.upsert({
         where: { staffId_year: { staffId: member.staffId, year } },
         create: {
           staffId: member.staffId,
           year,
-          alEntitlement: member.alEntitlement,
+          ...entitlements,
           alUsed: 0,
           rlEarned: 0,
           rlUsed: 0,
-          mlEntitlement: member.mlEntitlement,
           mlUsed: 0,
-          matEntitlement: member.matEntitlement,
           matUsed: 0,
         },
-        update: {
-          alEntitlement: member.alEntitlement,
-          mlEntitlement: member.mlEntitlement,
-          matEntitlement: member.matEntitlement,
-        },
+        update: entitlements,
       });
     }
 
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getDay } from 'date-fns';
+import { getBranchHolidayState, holidaysForState } from '@/lib/holiday-settings';
+import { getAuditActor, recordAudit, type AuditEntry } from '@/lib/audit-log';
+import { getProrationRounding } from '@/lib/leave-entitlements';
+import { proratedEntitlements } from '@/lib/leave-proration';
 
 // POST /api/leave/calculate-rl - Calculate RL credits for all staff
 // RL is earned when a public holiday falls on a staff's default off day
@@ -17,13 +21,24 @@ export async function POST(request: NextRequest) {
       where: { isActive: true },
     });
 
-    // Get all public holidays for the year
+    // Get the public holidays this branch observes for the year (nationwide + branch state)
+    const holidayState = await getBranchHolidayState();
     const holidays = await prisma.publicHoliday.findMany({
-      where: { year },
+      where: { year, ...holidaysForState(holidayState) },
     });
 
+    // Existing credits, so only real changes reach the audit log
+    const existingBalances = await prisma.leaveBalance.findMany({
+      where: { year, staffId: { in: staff.map((s) => s.staffId) } },
+      select: { staffId: true, rlEarned: true },
+    });
+    const previousRl = new Map(existingBalances.map((b) => [b.staffId, b.rlEarned]));
+
+    const rounding = await getProrationRounding();
+
     // Calculate RL for each staff member
     const rlCredits: Record<string, { earned: number; holidays: string[] }> = {};
+    const auditEntries: AuditEntry[] = [];
 
     for (const member of staff) {
       const defaultOffDays = JSON.parse(member.defaultOffDays) as number[];
@@ -43,6 +58,7 @@ export async function POST(request: NextRequest) {
       rlCredits[member.staffId] = { earned: rlEarned, holidays: matchingHolidays };
 
       // Upsert leave balance
+      const { alEntitlement } = proratedEntitlements(member, year, rounding);
       await prisma.leaveBalance.upsert({
         where: {
           staffId_year: { staffId: member.staffId, year },
@@ -50,19 +66,36 @@ export async function POST(request: NextRequest) {
         create: {
           staffId: member.staffId,
           year,
-          alEntitlement: member.alEntitlement,
+          alEntitlement,
           rlEarned,
         },
         update: {
           rlEarned,
-          alEntitlement: member.alEntitlement,
+          alEntitlement,
         },
       });
+
+      const before = previousRl.get(member.staffId) ?? null;
+      if (before !== rlEarned) {
+        auditEntries.push({
+          action: 'rl.calculate',
+          staffId: member.staffId,
+          summary: `RL for ${year} recalculated for ${member.name}: ${rlEarned} day${rlEarned === 1 ? '' : 's'}`,
+          before: { rlEarned: before },
+          after: { rlEarned, holidays: matchingHolidays },
+        });
+      }
+    }
+
+    if (auditEntries.length === 0) {
+      auditEntries.push({ action: 'rl.calculate', summary: `RL for ${year} recalculated (no changes)` });
     }
+    await recordAudit(prisma, await getAuditActor(), auditEntries);
 
     return NextResponse.json({
       success: true,
       year,
+      holidayState,
       totalHolidays: holidays.length,
       rlCredits,
     });
@@ -35,6 +35,8 @@ export async function GET(request: NextRequest) {
       staffName: h.staff.name,
       date: format(h.date, 'yyyy-MM-dd'),
       leaveType: h.leaveType,
+      amount: h.amount,
+      portion: h.portion,
     }));
 
     return NextResponse.json(transformed);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { subDays, startOfDay } from 'date-fns';
+import { subDays, startOfDay, format } from 'date-fns';
+import { getAuditActor, recordAudit } from '@/lib/audit-log';
 
 // POST /api/leave/maternity/end-early - End maternity leave early
 export async function POST(request: NextRequest) {
@@ -47,6 +48,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const actor = await getAuditActor();
+
     // Execute all cleanup in one transaction
     const result = await prisma.$transaction(async (tx) => {
       // Step 3: Delete ScheduleOverride MAT entries from returnDate onward
@@ -87,7 +90,12 @@ export async function POST(request: NextRequest) {
               date: { gte: startOfMonthDate, lte: endOfMonthDate },
             },
           });
-          if (remainingDrafts === 0) {
+          const remainingReplacements = await tx.replacementShiftDraft.count({
+            where: {
+              date: { gte: startOfMonthDate, lte: endOfMonthDate },
+            },
+          });
+          if (remainingDrafts === 0 && remainingReplacements === 0) {
             await tx.draftMonth.deleteMany({
               where: { year: y, month: m },
             });
@@ -140,8 +148,19 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      const daysRemoved = deletedOverrides.count + deletedDrafts.count;
+      await recordAudit(tx, actor, [
+        {
+          action: 'maternity.end_early',
+          staffId,
+          summary: `Maternity leave ended early, returning ${format(returnDateObj, 'd MMM yyyy')}`,
+          before: { endDate: format(periodEnd, 'yyyy-MM-dd'), status: activePeriod.status },
+          after: { endDate: format(newEndDate, 'yyyy-MM-dd'), status: 'ended_early', daysRemoved },
+        },
+      ]);
+
       return {
-        daysRemoved: deletedOverrides.count + deletedDrafts.count,
+        daysRemoved,
         newEndDate: newEndDate.toISOString(),
       };
     });
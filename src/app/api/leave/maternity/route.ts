@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { eachDayOfInterval, addDays, startOfDay } from 'date-fns';
+import { eachDayOfInterval, addDays, startOfDay, format } from 'date-fns';
+import { getAuditActor, recordAudit } from '@/lib/audit-log';
+import { openDraftMonths } from '@/lib/schedule-drafts';
 
 // POST /api/leave/maternity - Create 98 days of maternity leave
 export async function POST(request: NextRequest) {
@@ -70,6 +72,8 @@ export async function POST(request: NextRequest) {
       affectedMonths.add(`${year}-${month}`);
     });
 
+    const actor = await getAuditActor();
+
     // Create all records in a transaction
     await prisma.$transaction(async (tx) => {
       // Create the MaternityLeavePeriod record
@@ -82,6 +86,9 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // Open a draft for each affected month (seeded from its published month), then add the leave
+      await openDraftMonths(tx, days);
+
       // Create ScheduleDraft entries for each day
       for (const day of days) {
         await tx.scheduleDraft.upsert({
@@ -102,22 +109,20 @@ export async function POST(request: NextRequest) {
             shiftType: null,
             isLeave: true,
             leaveType: 'MAT',
+            leavePortion: null,
+            leaveHours: null,
           },
         });
       }
 
-      // Create/update DraftMonth records for each affected month
-      for (const monthKey of affectedMonths) {
-        const [yearStr, monthStr] = monthKey.split('-');
-        const year = parseInt(yearStr);
-        const month = parseInt(monthStr);
-
-        await tx.draftMonth.upsert({
-          where: { year_month: { year, month } },
-          create: { year, month },
-          update: { updatedAt: new Date() },
-        });
-      }
+      await recordAudit(tx, actor, [
+        {
+          action: 'maternity.create',
+          staffId,
+          summary: `Maternity leave for ${staff.name} from ${format(start, 'd MMM yyyy')} (${days.length} days)`,
+          after: { startDate: format(start, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd'), days: days.length },
+        },
+      ]);
     });
 
     return NextResponse.json({
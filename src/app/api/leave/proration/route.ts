@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit } from '@/lib/audit-log';
+import { getProrationRounding, setProrationRounding, syncBalanceEntitlements } from '@/lib/leave-entitlements';
+import { isProrationRounding } from '@/lib/leave-proration';
+
+// GET /api/leave/proration - Rounding rule for pro-rated entitlements
+export async function GET() {
+  try {
+    return NextResponse.json({ rounding: await getProrationRounding() });
+  } catch (error) {
+    console.error('Error fetching proration rounding:', error);
+    return NextResponse.json({ error: 'Failed to fetch proration rounding' }, { status: 500 });
+  }
+}
+
+// PUT /api/leave/proration - Change the rounding rule and re-pro-rate balances
+// Body: { rounding: 'nearest' | 'up' | 'down', year } (balances from `year` on are recalculated)
+export async function PUT(request: NextRequest) {
+  try {
+    const { rounding, year } = await request.json();
+
+    if (!isProrationRounding(rounding)) {
+      return NextResponse.json({ error: 'Rounding must be nearest, up or down' }, { status: 400 });
+    }
+    if (!year) {
+      return NextResponse.json({ error: 'Missing required field: year' }, { status: 400 });
+    }
+
+    const actor = await getAuditActor();
+    const changed = await prisma.$transaction(async (tx) => {
+      await setProrationRounding(tx, rounding);
+      const changes = await syncBalanceEntitlements(tx, { fromYear: year }, rounding);
+
+      const staff = await tx.staff.findMany({
+        where: { staffId: { in: changes.map((c) => c.staffId) } },
+        select: { staffId: true, name: true },
+      });
+      const staffName = (staffId: string) => staff.find((s) => s.staffId === staffId)?.name || staffId;
+      await recordAudit(
+        tx,
+        actor,
+        changes.map((change) => ({
+          action: 'leave.entitlement' as const,
+          staffId: change.staffId,
+          summary: `${change.year} entitlement for ${staffName(change.staffId)} recalculated: ${change.after.al} AL, ${change.after.ml} ML`,
+          before: change.before,
+          after: change.after,
+        }))
+      );
+      return changes.length;
+    });
+
+    return NextResponse.json({ rounding, updated: changed });
+  } catch (error) {
+    console.error('Error updating proration rounding:', error);
+    return NextResponse.json({ error: 'Failed to update proration rounding' }, { status: 500 });
+  }
+}
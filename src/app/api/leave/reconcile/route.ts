@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit, type AuditEntry } from '@/lib/audit-log';
+import { reconcileLeave } from '@/lib/leave-reconcile';
+
+const FIELD_LABELS = { alUsed: 'AL', rlUsed: 'RL', mlUsed: 'ML', matUsed: 'MAT' } as const;
+
+// GET /api/leave/reconcile?year=2026 - Dry run: how leave history and used counters differ from the published schedule
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()));
+
+    return NextResponse.json(await reconcileLeave(prisma, year));
+  } catch (error) {
+    console.error('Error checking leave balances:', error);
+    return NextResponse.json({ error: 'Failed to check leave balances' }, { status: 500 });
+  }
+}
+
+// POST /api/leave/reconcile - Rebuild a year's leave history and used counters from the published schedule
+// Body: { year }
+export async function POST(request: NextRequest) {
+  try {
+    const { year } = await request.json();
+
+    if (!year) {
+      return NextResponse.json({ error: 'Missing required field: year' }, { status: 400 });
+    }
+
+    const actor = await getAuditActor();
+    const report = await prisma.$transaction(async (tx) => {
+      const result = await reconcileLeave(tx, year, true);
+
+      const entries: AuditEntry[] = result.counters.map((fix) => ({
+        action: 'leave.reconcile',
+        staffId: fix.staffId,
+        summary: `${year} ${FIELD_LABELS[fix.field]} used for ${fix.staffName} corrected: ${fix.before} → ${fix.after}`,
+        before: { [fix.field]: fix.before },
+        after: { [fix.field]: fix.after },
+      }));
+      if (result.history.length > 0) {
+        entries.push({
+          action: 'leave.reconcile',
+          summary: `${year} leave history rebuilt from the published schedule: ${result.history.length} day${result.history.length === 1 ? '' : 's'} fixed`,
+          after: { history: result.history },
+        });
+      }
+      await recordAudit(tx, actor, entries);
+
+      return result;
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error reconciling leave balances:', error);
+    return NextResponse.json({ error: 'Failed to reconcile leave balances' }, { status: 500 });
+  }
+}
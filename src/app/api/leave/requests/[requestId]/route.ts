@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import { isRequestableLeaveType, checkLeaveBalance, applyLeaveToDrafts } from '@/lib/leave-requests';
+import { getAuditActor, recordAudit } from '@/lib/audit-log';
+
+interface RouteParams {
+  params: Promise<{ requestId: string }>;
+}
+
+// PATCH /api/leave/requests/[requestId] - Approve or reject a pending leave request
+// Body: { action: "approve" | "reject", note?: string }
+// Approving writes the leave into the draft schedule; the pending rows are removed and
+// publishing the month records the approved history and deducts the balance as usual
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { requestId } = await params;
+    const { action, note } = await request.json();
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ error: 'action must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const rows = await prisma.leaveHistory.findMany({
+      where: { requestId, status: 'pending' },
+      orderBy: { date: 'asc' },
+    });
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'Pending leave request not found' }, { status: 404 });
+    }
+
+    const { staffId, leaveType } = rows[0];
+    const dates = rows.map((row) => row.date);
+
+    const actor = await getAuditActor();
+    const range = `${format(dates[0], 'd MMM')}–${format(dates[dates.length - 1], 'd MMM yyyy')}`;
+    const requestSnapshot = { leaveType, dates: dates.map((date) => format(date, 'yyyy-MM-dd')) };
+
+    if (action === 'reject') {
+      const notes = [rows[0].notes, note?.trim() && `Rejected: ${note.trim()}`].filter(Boolean).join('\n') || null;
+      await prisma.leaveHistory.updateMany({
+        where: { requestId, status: 'pending' },
+        data: { status: 'rejected', notes },
+      });
+      await recordAudit(prisma, actor, [
+        {
+          action: 'leave_request.reject',
+          staffId,
+          summary: `${leaveType} request for ${range} rejected`,
+          before: { ...requestSnapshot, status: 'pending' },
+          after: { status: 'rejected', note: note?.trim() || null },
+        },
+      ]);
+      return NextResponse.json({ requestId, status: 'rejected' });
+    }
+
+    // Balances may have moved since the request was submitted
+    if (isRequestableLeaveType(leaveType)) {
+      const balanceError = await checkLeaveBalance(staffId, leaveType, dates, requestId);
+      if (balanceError) {
+        return NextResponse.json({ error: balanceError }, { status: 409 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await applyLeaveToDrafts(tx, staffId, leaveType, dates);
+      await tx.leaveHistory.deleteMany({ where: { requestId, status: 'pending' } });
+      await recordAudit(tx, actor, [
+        {
+          action: 'leave_request.approve',
+          staffId,
+          summary: `${leaveType} request for ${range} approved into the draft`,
+          before: { ...requestSnapshot, status: 'pending' },
+          after: { status: 'approved' },
+        },
+      ]);
+    });
+
+    return NextResponse.json({ requestId, status: 'approved', daysApproved: dates.length });
+  } catch (error) {
+    console.error('Error reviewing leave request:', error);
+    return NextResponse.json({ error: 'Failed to review leave request' }, { status: 500 });
+  }
+}
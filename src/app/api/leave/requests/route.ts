@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { format, differenceInCalendarDays } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import {
+  REQUESTABLE_LEAVE_TYPES,
+  MAX_REQUEST_DAYS,
+  isRequestableLeaveType,
+  getRequestDays,
+  checkLeaveBalance,
+} from '@/lib/leave-requests';
+
+// Parse date string "yyyy-MM-dd" as local date (not UTC)
+function parseLocalDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// GET /api/leave/requests?status=pending&staffId=xxx - List leave requests, one entry per request
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'pending';
+    const staffId = searchParams.get('staffId');
+
+    const rows = await prisma.leaveHistory.findMany({
+      where: { status, requestId: { not: null }, ...(staffId && { staffId }) },
+      include: { staff: true },
+      orderBy: { date: 'asc' },
+    });
+
+    // Group the per-day rows back into requests
+    const requests = new Map<string, {
+      requestId: string;
+      staffId: string;
+      staffName: string;
+      leaveType: string;
+      status: string;
+      notes: string | null;
+      dates: string[];
+      createdAt: string;
+    }>();
+    rows.forEach((row) => {
+      const requestId = row.requestId!;
+      if (!requests.has(requestId)) {
+        requests.set(requestId, {
+          requestId,
+          staffId: row.staffId,
+          staffName: row.staff.name,
+          leaveType: row.leaveType,
+          status: row.status,
+          notes: row.notes,
+          dates: [],
+          createdAt: row.createdAt.toISOString(),
+        });
+      }
+      requests.get(requestId)!.dates.push(format(row.date, 'yyyy-MM-dd'));
+    });
+
+    const sorted = Array.from(requests.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return NextResponse.json(sorted);
+  } catch (error) {
+    console.error('Error fetching leave requests:', error);
+    return NextResponse.json({ error: 'Failed to fetch leave requests' }, { status: 500 });
+  }
+}
+
+// POST /api/leave/requests - Submit a leave request (pending admin approval)
+// Body: { staffId, leaveType: "AL" | "RL" | "EL" | "ML", startDate: "YYYY-MM-DD", endDate?: "YYYY-MM-DD", reason? }
+// One pending LeaveHistory row is created per working day in the range.
+// Staff accounts always request for their own staff record; only admins and schedulers pick staffId
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { leaveType, startDate, endDate, reason } = body;
+
+    let staffId = body.staffId;
+    if (session.user.role === 'staff') {
+      if (!session.user.staffId) {
+        return NextResponse.json({ error: 'Your account is not linked to a staff member' }, { status: 403 });
+      }
+      staffId = session.user.staffId;
+    }
+
+    if (!staffId || !leaveType || !startDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: staffId, leaveType, startDate' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRequestableLeaveType(leaveType)) {
+      return NextResponse.json(
+        { error: `leaveType must be one of: ${REQUESTABLE_LEAVE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(startDate) || (endDate && !datePattern.test(endDate))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const start = parseLocalDate(startDate);
+    const end = parseLocalDate(endDate || startDate);
+    if (end < start) {
+      return NextResponse.json({ error: 'endDate must be on or after startDate' }, { status: 400 });
+    }
+    if (differenceInCalendarDays(end, start) + 1 > MAX_REQUEST_DAYS) {
+      return NextResponse.json({ error: `Requests can cover at most ${MAX_REQUEST_DAYS} days` }, { status: 400 });
+    }
+
+    const staff = await prisma.staff.findUnique({ where: { staffId } });
+    if (!staff || !staff.isActive) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    const days = await getRequestDays(staffId, start, end);
+    if ('error' in days) {
+      return NextResponse.json({ error: days.error }, { status: 400 });
+    }
+
+    // Days already requested can't be requested again
+    const overlapping = await prisma.leaveHistory.findFirst({
+      where: { staffId, status: 'pending', date: { in: days.dates } },
+    });
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `A leave request is already pending for ${format(overlapping.date, 'd MMM yyyy')}` },
+        { status: 409 }
+      );
+    }
+
+    const balanceError = await checkLeaveBalance(staffId, leaveType, days.dates);
+    if (balanceError) {
+      return NextResponse.json({ error: balanceError }, { status: 400 });
+    }
+
+    const requestId = randomUUID();
+    await prisma.leaveHistory.createMany({
+      data: days.dates.map((date) => ({
+        staffId,
+        date,
+        leaveType,
+        status: 'pending',
+        notes: reason?.trim() || null,
+        requestId,
+      })),
+    });
+
+    return NextResponse.json(
+      { requestId, leaveType, dates: days.dates.map((d) => format(d, 'yyyy-MM-dd')) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating leave request:', error);
+    return NextResponse.json({ error: 'Failed to create leave request' }, { status: 500 });
+  }
+}
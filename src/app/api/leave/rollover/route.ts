@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit } from '@/lib/audit-log';
+import {
+  applyRollover,
+  formatCarryExpiry,
+  getCarryForwardSettings,
+  isValidCarryExpiry,
+  planRollover,
+  setCarryForwardSettings,
+} from '@/lib/leave-rollover';
+
+// GET /api/leave/rollover?year=2026 - Preview carrying unused AL from a year into the next
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()));
+
+    const settings = await getCarryForwardSettings();
+    const [plan, existing] = await Promise.all([
+      planRollover(prisma, year, settings),
+      prisma.leaveBalance.count({ where: { year: year + 1 } }),
+    ]);
+
+    return NextResponse.json({ fromYear: year, toYear: year + 1, settings, plan, existing });
+  } catch (error) {
+    console.error('Error previewing leave rollover:', error);
+    return NextResponse.json({ error: 'Failed to preview leave rollover' }, { status: 500 });
+  }
+}
+
+// POST /api/leave/rollover - Create next year's balances with capped AL carry-forward
+// Body: { year, cap, expiry: "MM-dd" } (cap and expiry are saved as the new defaults)
+export async function POST(request: NextRequest) {
+  try {
+    const { year, cap, expiry } = await request.json();
+
+    if (!year) {
+      return NextResponse.json({ error: 'Missing required field: year' }, { status: 400 });
+    }
+    if (typeof cap !== 'number' || cap < 0) {
+      return NextResponse.json({ error: 'Carry-forward cap must be zero or more days' }, { status: 400 });
+    }
+    if (!isValidCarryExpiry(expiry)) {
+      return NextResponse.json({ error: 'Expiry must be a date in MM-dd form' }, { status: 400 });
+    }
+
+    const settings = { cap, expiry };
+    const actor = await getAuditActor();
+
+    const result = await prisma.$transaction(async (tx) => {
+      await setCarryForwardSettings(tx, settings);
+
+      const previous = await tx.leaveBalance.findMany({
+        where: { year: year + 1 },
+        select: { staffId: true, alCarried: true },
+      });
+      const plan = await planRollover(tx, year, settings);
+      const { expiresAt } = await applyRollover(tx, year, plan, settings);
+
+      await recordAudit(
+        tx,
+        actor,
+        plan
+          .filter((row) => previous.find((p) => p.staffId === row.staffId)?.alCarried !== row.carried)
+          .map((row) => ({
+            action: 'leave.rollover' as const,
+            staffId: row.staffId,
+            summary: `${row.carried} AL day${row.carried === 1 ? '' : 's'} carried from ${year} to ${year + 1} for ${row.staffName}${
+              row.carried > 0 ? ` (until ${formatCarryExpiry(expiresAt)})` : ''
+            }`,
+            before: { alCarried: previous.find((p) => p.staffId === row.staffId)?.alCarried ?? null },
+            after: { alCarried: row.carried, unused: row.unused },
+          }))
+      );
+
+      return plan;
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Rolled over ${result.length} staff members into ${year + 1}`,
+      plan: result,
+    });
+  } catch (error) {
+    console.error('Error rolling over leave year:', error);
+    return NextResponse.json({ error: 'Failed to roll over leave year' }, { status: 500 });
+  }
+}
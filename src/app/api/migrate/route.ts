@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getDay } from 'date-fns';
 import { STAFF_MEMBERS, SHIFT_DEFINITIONS } from '@/staff-data';
-import { PUBLIC_HOLIDAYS } from '@/lib/schedule-generator';
+import { SEED_PUBLIC_HOLIDAYS, NATIONWIDE } from '@/lib/holidays';
+import { getBranchHolidayState, holidaysForState } from '@/lib/holiday-settings';
+import { getSeedPatterns } from '@/lib/shift-patterns';
+import { getProrationRounding } from '@/lib/leave-entitlements';
+import { proratedEntitlements } from '@/lib/leave-proration';
 
 // Parse date string "yyyy-MM-dd" as local date (not UTC)
 function parseLocalDate(dateStr: string): Date {
@@ -29,6 +33,7 @@ export async function POST(request: NextRequest) {
     const results = {
       staffSeeded: 0,
       holidaysSeeded: 0,
+      patternsSeeded: 0,
       overridesMigrated: 0,
       balancesInitialized: 0,
       errors: [] as string[],
@@ -61,15 +66,17 @@ export async function POST(request: NextRequest) {
     }
 
     // 2. Seed public holidays
-    for (const holiday of PUBLIC_HOLIDAYS) {
+    for (const holiday of SEED_PUBLIC_HOLIDAYS) {
       try {
         const date = parseLocalDate(holiday.date);
+        const state = holiday.state || NATIONWIDE;
         await prisma.publicHoliday.upsert({
-          where: { date },
+          where: { date_state: { date, state } },
           create: {
             date,
             name: holiday.name,
             year: date.getFullYear(),
+            state,
           },
           update: { name: holiday.name },
         });
@@ -79,6 +86,34 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // 2b. Seed shift patterns from hardcoded SHIFT_PATTERNS / DEFAULT_SHIFT_PATTERNS
+    // Only seeds owners with no pattern yet, so admin edits are never overwritten
+    for (const seed of getSeedPatterns()) {
+      try {
+        const owner = seed.staffId ? { staffId: seed.staffId } : { staffId: null, role: seed.role };
+        const existing = await prisma.shiftPattern.findFirst({ where: owner });
+        if (existing) continue;
+
+        // Staff-specific patterns need the staff row (seeded above)
+        if (seed.staffId) {
+          const staff = await prisma.staff.findUnique({ where: { staffId: seed.staffId } });
+          if (!staff) continue;
+        }
+
+        await prisma.shiftPattern.create({
+          data: {
+            staffId: seed.staffId,
+            role: seed.role,
+            version: 1,
+            weeks: JSON.stringify(seed.weeks),
+          },
+        });
+        results.patternsSeeded++;
+      } catch (error) {
+        results.errors.push(`Failed to seed shift pattern ${seed.staffId || seed.role}: ${error}`);
+      }
+    }
+
     // 3. Migrate localStorage overrides if provided
     if (localStorageData && typeof localStorageData === 'object' && !seedOnly) {
       for (const monthOverrides of Object.values(localStorageData)) {
@@ -153,10 +188,12 @@ export async function POST(request: NextRequest) {
     // 4. Initialize leave balances for current and next year
     const currentYear = new Date().getFullYear();
     const years = [currentYear, currentYear + 1];
+    const holidayState = await getBranchHolidayState();
+    const rounding = await getProrationRounding();
 
     for (const year of years) {
       const staff = await prisma.staff.findMany({ where: { isActive: true } });
-      const holidays = await prisma.publicHoliday.findMany({ where: { year } });
+      const holidays = await prisma.publicHoliday.findMany({ where: { year, ...holidaysForState(holidayState) } });
 
       for (const member of staff) {
         try {
@@ -171,16 +208,17 @@ export async function POST(request: NextRequest) {
             }
           }
 
+          const entitlements = proratedEntitlements(member, year, rounding);
           await prisma.leaveBalance.upsert({
             where: { staffId_year: { staffId: member.staffId, year } },
             create: {
               staffId: member.staffId,
               year,
-              alEntitlement: member.alEntitlement,
-              mlEntitlement: member.mlEntitlement,
+              alEntitlement: entitlements.alEntitlement,
+              mlEntitlement: entitlements.mlEntitlement,
               rlEarned,
             },
-            update: { rlEarned, mlEntitlement: member.mlEntitlement },
+            update: { rlEarned, mlEntitlement: entitlements.mlEntitlement },
           });
           results.balancesInitialized++;
         } catch (error) {
@@ -203,11 +241,12 @@ export async function POST(request: NextRequest) {
 // GET /api/migrate - Check migration status
 export async function GET() {
   try {
-    const [staffCount, holidayCount, overrideCount, balanceCount] = await Promise.all([
+    const [staffCount, holidayCount, overrideCount, balanceCount, patternCount] = await Promise.all([
       prisma.staff.count(),
       prisma.publicHoliday.count(),
       prisma.scheduleOverride.count(),
       prisma.leaveBalance.count(),
+      prisma.shiftPattern.count(),
     ]);
 
     return NextResponse.json({
@@ -217,6 +256,7 @@ export async function GET() {
         holidays: holidayCount,
         overrides: overrideCount,
         balances: balanceCount,
+        patterns: patternCount,
       },
     });
   } catch (error) {
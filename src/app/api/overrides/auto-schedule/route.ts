@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { startOfMonth, endOfMonth } from 'date-fns';
+import { getAuditActor, recordAudit, scheduleAuditEntries } from '@/lib/audit-log';
+import { getAutoSchedule } from '@/lib/auto-schedule';
+import { openDraftMonths } from '@/lib/schedule-drafts';
+
+// GET /api/overrides/auto-schedule?year=2025&month=1 - Preview the rota the auto-scheduler proposes
+// Returns the cells it would change in the draft and the constraints it could not satisfy
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '');
+    const month = parseInt(searchParams.get('month') || '');
+
+    if (!year || !month || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'Missing or invalid query params: year, month' }, { status: 400 });
+    }
+
+    const { changes, changedCells, issues } = await getAutoSchedule(year, month);
+
+    return NextResponse.json({ year, month, changes, changedCells, issues });
+  } catch (error) {
+    console.error('Error building auto schedule:', error);
+    return NextResponse.json({ error: 'Failed to build auto schedule' }, { status: 500 });
+  }
+}
+
+// POST /api/overrides/auto-schedule - Write the proposed rota into the month's draft
+// Body: { year, month }. The proposal is recomputed here, so it matches the current data.
+export async function POST(request: NextRequest) {
+  try {
+    const { year, month } = await request.json();
+
+    if (!year || !month) {
+      return NextResponse.json({ error: 'Missing required fields: year, month' }, { status: 400 });
+    }
+
+    const { cells, changedCells, issues } = await getAutoSchedule(year, month);
+    const monthRange = { date: { gte: startOfMonth(new Date(year, month - 1)), lte: endOfMonth(new Date(year, month - 1)) } };
+    const actor = await getAuditActor();
+
+    await prisma.$transaction(async (tx) => {
+      const existingDraft = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+      const beforeRows = existingDraft
+        ? await tx.scheduleDraft.findMany({ where: monthRange })
+        : await tx.scheduleOverride.findMany({ where: monthRange });
+
+      await openDraftMonths(tx, [new Date(year, month - 1, 1)]);
+
+      for (const cell of cells) {
+        const [y, m, d] = cell.date.split('-').map(Number);
+        const date = new Date(y, m - 1, d);
+        const data = {
+          shiftType: cell.shiftKey,
+          isLeave: cell.isLeave,
+          leaveType: cell.leaveType,
+          customStartTime: null,
+          customEndTime: null,
+          customWorkHours: null,
+          leavePortion: null,
+          leaveHours: null,
+        };
+        await tx.scheduleDraft.upsert({
+          where: { date_staffId: { date, staffId: cell.staffId } },
+          update: data,
+          create: { date, staffId: cell.staffId, ...data },
+        });
+      }
+
+      const afterRows = await tx.scheduleDraft.findMany({ where: monthRange });
+      await recordAudit(tx, actor, scheduleAuditEntries('draft.auto_fill', 'Auto-filled draft for', year, month, beforeRows, afterRows));
+    });
+
+    return NextResponse.json({ success: true, isDraft: true, changedCells, issues });
+  } catch (error) {
+    console.error('Error applying auto schedule:', error);
+    return NextResponse.json({ error: 'Failed to apply auto schedule' }, { status: 500 });
+  }
+}
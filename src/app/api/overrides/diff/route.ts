@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getDraftDiff } from '@/lib/draft-diff';
+
+// GET /api/overrides/diff?year=2025&month=1 - Preview what publishing the month's draft changes
+// Returns the changed cells (published vs draft), leave publishing will deduct, and weeks whose hours move
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '');
+    const month = parseInt(searchParams.get('month') || '');
+
+    if (!year || !month || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'Missing or invalid query params: year, month' }, { status: 400 });
+    }
+
+    const draftMonth = await prisma.draftMonth.findUnique({
+      where: { year_month: { year, month } },
+    });
+    if (!draftMonth) {
+      return NextResponse.json({ error: 'No draft found for this month' }, { status: 404 });
+    }
+
+    const diff = await getDraftDiff(year, month);
+
+    return NextResponse.json({ year, month, ...diff });
+  } catch (error) {
+    console.error('Error building draft diff:', error);
+    return NextResponse.json({ error: 'Failed to build draft diff' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { startOfMonth, endOfMonth } from 'date-fns';
+import { getAuditActor, recordAudit, scheduleAuditEntries } from '@/lib/audit-log';
 
 // POST /api/overrides/discard - Discard draft, revert to published state
 export async function POST(request: NextRequest) {
@@ -23,11 +24,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No draft found for this month' }, { status: 404 });
     }
 
+    const actor = await getAuditActor();
+
     await prisma.$transaction(async (tx) => {
+      // Record what the discard throws away, relative to the published month
+      const monthRange = { date: { gte: startDate, lte: endDate } };
+      const [drafts, published] = await Promise.all([
+        tx.scheduleDraft.findMany({ where: monthRange }),
+        tx.scheduleOverride.findMany({ where: monthRange }),
+      ]);
+      await recordAudit(tx, actor, scheduleAuditEntries('draft.discard', 'Discarded draft for', year, month, drafts, published));
+
       // Delete all drafts for this month
       await tx.scheduleDraft.deleteMany({
         where: { date: { gte: startDate, lte: endDate } },
       });
+      await tx.replacementShiftDraft.deleteMany({
+        where: { date: { gte: startDate, lte: endDate } },
+      });
 
       // Delete the DraftMonth record
       await tx.draftMonth.delete({
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { startOfMonth, endOfMonth } from 'date-fns';
+import { getAuditActor, recordAudit, scheduleAuditEntries } from '@/lib/audit-log';
+import { parseCSV } from '@/lib/csv';
+import { readWorkbook, WorkbookTooLargeError } from '@/lib/xlsx';
+import { applyRotaImport, parseRotaImport } from '@/lib/rota-import';
+
+// Largest file accepted; a month's rota is a few kilobytes
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// POST /api/overrides/import - Import a month's rota from a CSV or XLSX file in the exportToCSV layout
+// Form data: file, year, month, apply. Without apply=true only the validation report is returned;
+// with it the parsed cells are written into the month's draft (cells with problems are skipped).
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const year = parseInt(String(form.get('year') || ''));
+    const month = parseInt(String(form.get('month') || ''));
+    const apply = form.get('apply') === 'true';
+
+    if (!(file instanceof File) || !year || !month || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'Missing required fields: file, year, month' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: 'File is too large (1 MB max)' }, { status: 400 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    // XLSX files are ZIP archives, which start with "PK"
+    const isWorkbook = data.subarray(0, 2).toString('latin1') === 'PK';
+    let table: string[][];
+    try {
+      table = isWorkbook ? readWorkbook(data) : parseCSV(data.toString('utf8'));
+    } catch (error) {
+      if (error instanceof WorkbookTooLargeError) {
+        return NextResponse.json({ error: `Workbook is too large: ${error.message}` }, { status: 400 });
+      }
+      return NextResponse.json({ error: 'Could not read the file as CSV or XLSX' }, { status: 400 });
+    }
+
+    const { report, cells } = await parseRotaImport(table, year, month);
+    if (!apply) {
+      return NextResponse.json(report);
+    }
+    if (report.cells === 0) {
+      return NextResponse.json({ error: 'Nothing to import' }, { status: 400 });
+    }
+
+    const monthRange = { date: { gte: startOfMonth(new Date(year, month - 1)), lte: endOfMonth(new Date(year, month - 1)) } };
+    const actor = await getAuditActor();
+
+    await prisma.$transaction(async (tx) => {
+      const existingDraft = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+      const beforeRows = existingDraft
+        ? await tx.scheduleDraft.findMany({ where: monthRange })
+        : await tx.scheduleOverride.findMany({ where: monthRange });
+
+      await applyRotaImport(tx, year, month, cells);
+
+      const afterRows = await tx.scheduleDraft.findMany({ where: monthRange });
+      await recordAudit(tx, actor, scheduleAuditEntries('draft.import', `Imported ${file.name} into draft for`, year, month, beforeRows, afterRows));
+    });
+
+    return NextResponse.json({ ...report, success: true, isDraft: true });
+  } catch (error) {
+    console.error('Error importing rota:', error);
+    return NextResponse.json({ error: 'Failed to import rota' }, { status: 500 });
+  }
+}
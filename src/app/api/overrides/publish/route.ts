@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { startOfMonth, endOfMonth } from 'date-fns';
+import { getAuditActor, recordAudit, scheduleAuditEntries } from '@/lib/audit-log';
+import { recordPublication, type PublishedLeaveChange } from '@/lib/schedule-publications';
+import { parseOffDays } from '@/lib/month-schedule';
+import { dailyHours, leaveDays } from '@/lib/partial-leave';
 
 // POST /api/overrides/publish - Publish draft to live
-// This copies ScheduleDraft to ScheduleOverride and updates leave balances
+// This copies ScheduleDraft to ScheduleOverride, ReplacementShiftDraft to ReplacementShift,
+// and updates leave balances.
+// Part-day leave deducts a fraction of a day (0.5 for a half day, hours / daily hours otherwise).
+// The replaced overrides and replacements and the leave changes are kept as a SchedulePublication for rollback.
 export async function POST(request: NextRequest) {
   try {
     const { year, month } = await request.json();
@@ -24,19 +31,57 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No draft found for this month' }, { status: 404 });
     }
 
+    const actor = await getAuditActor();
+
     await prisma.$transaction(async (tx) => {
       // Fetch all drafts for this month
       const drafts = await tx.scheduleDraft.findMany({
         where: { date: { gte: startDate, lte: endDate } },
       });
 
+      // Keep the outgoing published rows for the audit log and publish history
+      const previouslyPublished = await tx.scheduleOverride.findMany({
+        where: { date: { gte: startDate, lte: endDate } },
+      });
+      await recordAudit(tx, actor, scheduleAuditEntries('schedule.publish', 'Published', year, month, previouslyPublished, drafts));
+
       // Delete existing published overrides for this month
       await tx.scheduleOverride.deleteMany({
         where: { date: { gte: startDate, lte: endDate } },
       });
 
+      // Replace the month's published replacement shifts with the drafted ones
+      const [draftReplacements, previousReplacements] = await Promise.all([
+        tx.replacementShiftDraft.findMany({ where: { date: { gte: startDate, lte: endDate } } }),
+        tx.replacementShift.findMany({ where: { date: { gte: startDate, lte: endDate } } }),
+      ]);
+      await tx.replacementShift.deleteMany({
+        where: { date: { gte: startDate, lte: endDate } },
+      });
+      for (const rep of draftReplacements) {
+        await tx.replacementShift.create({
+          data: {
+            id: rep.id,
+            date: rep.date,
+            originalStaffId: rep.originalStaffId,
+            tempStaffId: rep.tempStaffId,
+            tempStaffName: rep.tempStaffName,
+            startTime: rep.startTime,
+            endTime: rep.endTime,
+            workHours: rep.workHours,
+          },
+        });
+      }
+
       // Track leave changes for balance updates
-      const leaveChanges: { staffId: string; leaveType: string; date: Date }[] = [];
+      const leaveChanges: { staffId: string; leaveType: string; date: Date; amount: number; portion: string | null }[] = [];
+      const publishedLeave: PublishedLeaveChange[] = [];
+
+      // Daily hours per staff member, to turn leave hours into days
+      const staff = await tx.staff.findMany({ select: { staffId: true, weeklyHours: true, defaultOffDays: true } });
+      const hoursPerDay = new Map(
+        staff.map((s) => [s.staffId, dailyHours({ weeklyHours: s.weeklyHours, defaultOffDays: parseOffDays(s.defaultOffDays) })])
+      );
 
       // Copy drafts to published overrides
       for (const draft of drafts) {
@@ -50,15 +95,20 @@ export async function POST(request: NextRequest) {
             customStartTime: draft.customStartTime,
             customEndTime: draft.customEndTime,
             customWorkHours: draft.customWorkHours,
+            leavePortion: draft.leavePortion,
+            leaveHours: draft.leaveHours,
           },
         });
 
-        // Track leave for balance updates
-        if (draft.isLeave && draft.leaveType) {
+        // Track leave for balance updates (whole days, or part-day leave next to a shift)
+        if (draft.leaveType && (draft.isLeave || draft.leavePortion)) {
+          const portion = draft.isLeave ? null : draft.leavePortion;
           leaveChanges.push({
             staffId: draft.staffId,
             leaveType: draft.leaveType,
             date: draft.date,
+            amount: leaveDays(portion, draft.leaveHours, hoursPerDay.get(draft.staffId) || 0),
+            portion,
           });
         }
       }
@@ -77,18 +127,20 @@ export async function POST(request: NextRequest) {
 
           if (!existingHistory) {
             // Create leave history entry
-            await tx.leaveHistory.create({
+            const history = await tx.leaveHistory.create({
               data: {
                 staffId: change.staffId,
                 date: change.date,
                 leaveType: change.leaveType,
                 status: 'approved',
+                amount: change.amount,
+                portion: change.portion,
               },
             });
 
             // Update balance - use the leave date's year, not the calendar view year
             const leaveYear = change.date.getFullYear();
-            const fieldMap: Record<string, string> = {
+            const fieldMap: Record<string, NonNullable<PublishedLeaveChange['field']>> = {
               AL: 'alUsed',
               RL: 'rlUsed',
               ML: 'mlUsed',
@@ -97,8 +149,9 @@ export async function POST(request: NextRequest) {
             const field = fieldMap[change.leaveType];
             await tx.leaveBalance.updateMany({
               where: { staffId: change.staffId, year: leaveYear },
-              data: { [field]: { increment: 1 } },
+              data: { [field]: { increment: change.amount } },
             });
+            publishedLeave.push({ historyId: history.id, staffId: change.staffId, year: leaveYear, field, amount: change.amount });
           }
         } else if (change.leaveType === 'EL') {
           // EL doesn't have balance tracking, just record history
@@ -111,22 +164,42 @@ export async function POST(request: NextRequest) {
           });
 
           if (!existingHistory) {
-            await tx.leaveHistory.create({
+            const history = await tx.leaveHistory.create({
               data: {
                 staffId: change.staffId,
                 date: change.date,
                 leaveType: 'EL',
                 status: 'approved',
+                amount: change.amount,
+                portion: change.portion,
               },
             });
+            publishedLeave.push({
+              historyId: history.id,
+              staffId: change.staffId,
+              year: change.date.getFullYear(),
+              field: null,
+              amount: change.amount,
+            });
           }
         }
       }
 
+      await recordPublication(tx, actor, {
+        year,
+        month,
+        replacedRows: previouslyPublished,
+        replacedReplacements: previousReplacements,
+        leaveChanges: publishedLeave,
+      });
+
       // Delete all drafts for this month
       await tx.scheduleDraft.deleteMany({
         where: { date: { gte: startDate, lte: endDate } },
       });
+      await tx.replacementShiftDraft.deleteMany({
+        where: { date: { gte: startDate, lte: endDate } },
+      });
 
       // Delete the DraftMonth record
       await tx.draftMonth.delete({
@@ -1,21 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { startOfMonth, endOfMonth, format } from 'date-fns';
-import { SHIFT_DEFINITIONS } from '@/staff-data';
-
-// Helper to find shift key from shift definition
-function findShiftKey(shift: { startTime: string; endTime: string; workHours: number }): string | null {
-  for (const [key, def] of Object.entries(SHIFT_DEFINITIONS)) {
-    if (def.startTime === shift.startTime && def.endTime === shift.endTime && def.workHours === shift.workHours) {
-      return key;
-    }
-  }
-  return null;
-}
+import { getAuditActor, recordAudit, replacementAuditEntries, scheduleAuditEntries } from '@/lib/audit-log';
+import { toPartialLeave } from '@/lib/partial-leave';
+import { validateDraftReplacements, writeDraftMonth, writeDraftReplacements } from '@/lib/schedule-drafts';
+import { getShiftCatalog } from '@/lib/shift-catalog';
 
 // GET /api/overrides?year=2025&month=1&view=published|admin
-// view=published (default): Returns only published ScheduleOverride data
-// view=admin: Returns ScheduleDraft if exists, otherwise ScheduleOverride
+// view=published (default): Returns only published ScheduleOverride and ReplacementShift data
+// view=admin: Returns ScheduleDraft and ReplacementShiftDraft if a draft exists, otherwise the published data
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -35,7 +28,7 @@ export async function GET(request: NextRequest) {
     // Determine which table to fetch from
     const useDraft = view === 'admin' && hasDraft;
 
-    const [scheduleData, replacementShifts] = await Promise.all([
+    const [scheduleData, replacementShifts, shiftCatalog] = await Promise.all([
       useDraft
         ? prisma.scheduleDraft.findMany({
             where: { date: { gte: startDate, lte: endDate } },
@@ -43,9 +36,14 @@ export async function GET(request: NextRequest) {
         : prisma.scheduleOverride.findMany({
             where: { date: { gte: startDate, lte: endDate } },
           }),
-      prisma.replacementShift.findMany({
-        where: { date: { gte: startDate, lte: endDate } },
-      }),
+      useDraft
+        ? prisma.replacementShiftDraft.findMany({
+            where: { date: { gte: startDate, lte: endDate } },
+          })
+        : prisma.replacementShift.findMany({
+            where: { date: { gte: startDate, lte: endDate } },
+          }),
+      getShiftCatalog(),
     ]);
 
     // Transform to match current localStorage structure
@@ -57,7 +55,7 @@ export async function GET(request: NextRequest) {
 
       let shift = null;
       if (override.shiftType) {
-        shift = SHIFT_DEFINITIONS[override.shiftType];
+        shift = shiftCatalog[override.shiftType] || null;
       } else if (override.customStartTime && override.customEndTime && override.customWorkHours != null) {
         shift = {
           type: 'custom',
@@ -71,7 +69,8 @@ export async function GET(request: NextRequest) {
       overridesByDate[dateKey][override.staffId] = {
         shift,
         isLeave: override.isLeave,
-        leaveType: override.leaveType,
+        leaveType: override.isLeave ? override.leaveType : null,
+        partialLeave: toPartialLeave(override),
       };
     });
 
@@ -83,6 +82,7 @@ export async function GET(request: NextRequest) {
       (overridesByDate[dateKey].replacements as unknown[]).push({
         id: rep.id,
         originalStaffId: rep.originalStaffId,
+        tempStaffId: rep.tempStaffId,
         tempStaffName: rep.tempStaffName,
         startTime: rep.startTime,
         endTime: rep.endTime,
@@ -105,7 +105,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/overrides - Save overrides as DRAFT (not published)
+// POST /api/overrides - Save overrides and replacement shifts as DRAFT (not published)
 // Leave balances are NOT updated here - only on publish
 export async function POST(request: NextRequest) {
   try {
@@ -115,104 +115,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields: year, month, overrides' }, { status: 400 });
     }
 
+    const validationError = validateDraftReplacements(overrides);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
     const startDate = startOfMonth(new Date(year, month - 1));
     const endDate = endOfMonth(new Date(year, month - 1));
+    const actor = await getAuditActor();
 
     // Use transaction for atomic updates
     await prisma.$transaction(async (tx) => {
-      // Delete existing drafts for this month, but PRESERVE maternity leave entries
-      await tx.scheduleDraft.deleteMany({
-        where: {
-          date: { gte: startDate, lte: endDate },
-          NOT: { leaveType: 'MAT' } // Don't delete maternity leave entries
-        },
-      });
-
-      // Insert new draft overrides
-      for (const [dateKey, dayOverrides] of Object.entries(overrides)) {
-        // Parse date as local date (not UTC) to avoid timezone shift
-        // parseISO treats "2026-02-01" as UTC which shifts the date in non-UTC timezones
-        const [y, m, d] = dateKey.split('-').map(Number);
-        const date = new Date(y, m - 1, d);
-
-        for (const [key, value] of Object.entries(dayOverrides as Record<string, unknown>)) {
-          // Skip replacements for now (they go directly to ReplacementShift)
-          if (key === 'replacements') {
-            continue;
-          }
-
-          // Handle staff schedule draft
-          const override = value as {
-            shift?: { type?: string; startTime: string; endTime: string; workHours: number };
-            isLeave: boolean;
-            leaveType?: string;
-          };
-
-          let shiftType: string | null = null;
-          let customStartTime: string | null = null;
-          let customEndTime: string | null = null;
-          let customWorkHours: number | null = null;
-
-          if (override.shift) {
-            if (override.shift.type === 'custom') {
-              // Explicitly custom — always store as custom fields, never match to a named shift
-              customStartTime = override.shift.startTime;
-              customEndTime = override.shift.endTime;
-              customWorkHours = override.shift.workHours;
-            } else {
-              shiftType = findShiftKey(override.shift);
-              if (!shiftType) {
-                // Unknown shift — store raw times as custom
-                customStartTime = override.shift.startTime;
-                customEndTime = override.shift.endTime;
-                customWorkHours = override.shift.workHours;
-              }
-            }
-          }
-
-          // Check if there's an existing MAT entry - don't overwrite it unless explicitly setting MAT
-          const existingEntry = await tx.scheduleDraft.findUnique({
-            where: { date_staffId: { date, staffId: key } },
-            select: { leaveType: true },
-          });
-
-          // Skip if existing entry is MAT and incoming is not MAT
-          if (existingEntry?.leaveType === 'MAT' && override.leaveType !== 'MAT') {
-            continue; // Preserve the MAT entry
-          }
-
-          await tx.scheduleDraft.upsert({
-            where: {
-              date_staffId: { date, staffId: key },
-            },
-            update: {
-              shiftType,
-              isLeave: override.isLeave || false,
-              leaveType: override.leaveType || null,
-              customStartTime: shiftType ? null : customStartTime,
-              customEndTime: shiftType ? null : customEndTime,
-              customWorkHours: shiftType ? null : customWorkHours,
-            },
-            create: {
-              date,
-              staffId: key,
-              shiftType,
-              isLeave: override.isLeave || false,
-              leaveType: override.leaveType || null,
-              customStartTime: shiftType ? null : customStartTime,
-              customEndTime: shiftType ? null : customEndTime,
-              customWorkHours: shiftType ? null : customWorkHours,
-            },
-          });
-        }
-      }
-
-      // Mark this month as having a draft
-      await tx.draftMonth.upsert({
-        where: { year_month: { year, month } },
-        update: { updatedAt: new Date() },
-        create: { year, month },
-      });
+      // What the admin saw before this save: the existing draft, or the published month
+      const monthRange = { date: { gte: startDate, lte: endDate } };
+      const existingDraft = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+      const beforeRows = existingDraft
+        ? await tx.scheduleDraft.findMany({ where: monthRange })
+        : await tx.scheduleOverride.findMany({ where: monthRange });
+      const beforeReplacements = existingDraft
+        ? await tx.replacementShiftDraft.findMany({ where: monthRange })
+        : await tx.replacementShift.findMany({ where: monthRange });
+
+      await writeDraftMonth(tx, year, month, overrides);
+      await writeDraftReplacements(tx, year, month, overrides);
+
+      const afterRows = await tx.scheduleDraft.findMany({ where: monthRange });
+      const afterReplacements = await tx.replacementShiftDraft.findMany({ where: monthRange });
+      await recordAudit(tx, actor, [
+        ...scheduleAuditEntries('draft.save', 'Saved draft for', year, month, beforeRows, afterRows),
+        ...replacementAuditEntries(beforeReplacements, afterReplacements),
+      ]);
     });
 
     return NextResponse.json({ success: true, isDraft: true });
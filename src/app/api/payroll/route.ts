@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { differenceInCalendarDays, isValid, parse } from 'date-fns';
+import { buildPayroll, payrollTable } from '@/lib/payroll';
+import { toCSV } from '@/lib/csv';
+import { buildWorkbook } from '@/lib/xlsx';
+
+// Longest pay period one export may cover
+const MAX_PERIOD_DAYS = 366;
+
+// GET /api/payroll?from=2026-10-01&to=2026-10-31&format=csv|xlsx - Payroll export of the published schedule
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parse(searchParams.get('from') || '', 'yyyy-MM-dd', new Date());
+    const to = parse(searchParams.get('to') || '', 'yyyy-MM-dd', new Date());
+    const fileFormat = searchParams.get('format') || 'csv';
+
+    if (!isValid(from) || !isValid(to)) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+    if (to < from || differenceInCalendarDays(to, from) >= MAX_PERIOD_DAYS) {
+      return NextResponse.json({ error: `Pay period must run forwards and cover at most ${MAX_PERIOD_DAYS} days` }, { status: 400 });
+    }
+    if (fileFormat !== 'csv' && fileFormat !== 'xlsx') {
+      return NextResponse.json({ error: 'format must be csv or xlsx' }, { status: 400 });
+    }
+
+    const table = payrollTable(await buildPayroll(from, to), from, to);
+    const filename = `payroll-${searchParams.get('from')}-to-${searchParams.get('to')}.${fileFormat}`;
+
+    if (fileFormat === 'xlsx') {
+      return new NextResponse(new Uint8Array(buildWorkbook('Payroll', table)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(toCSV(table), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting payroll:', error);
+    return NextResponse.json({ error: 'Failed to export payroll' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit, scheduleAuditEntries } from '@/lib/audit-log';
+import { rollbackPublication, parseReplacedRows, monthRange } from '@/lib/schedule-publications';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/publications/[id]/rollback - Restore the schedule as it was before this publish
+// Undoes this publish and every later one for the month, including their leave history and balance changes
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const publication = await prisma.schedulePublication.findUnique({ where: { id } });
+    if (!publication) {
+      return NextResponse.json({ error: 'Publication not found' }, { status: 404 });
+    }
+    if (publication.rolledBackAt) {
+      return NextResponse.json({ error: 'This publish has already been rolled back' }, { status: 409 });
+    }
+
+    const { year, month } = publication;
+
+    // A draft is based on the current published month, so it would be out of step after a rollback
+    const draftMonth = await prisma.draftMonth.findUnique({ where: { year_month: { year, month } } });
+    if (draftMonth) {
+      return NextResponse.json(
+        { error: 'Publish or discard the draft for this month before rolling back' },
+        { status: 409 }
+      );
+    }
+
+    const actor = await getAuditActor();
+
+    const undone = await prisma.$transaction(async (tx) => {
+      const current = await tx.scheduleOverride.findMany({ where: { date: monthRange(year, month) } });
+      const rolledBack = await rollbackPublication(tx, publication);
+      await recordAudit(
+        tx,
+        actor,
+        scheduleAuditEntries('schedule.rollback', `Rolled back to before publish #${publication.version} of`, year, month, current, parseReplacedRows(publication))
+      );
+      return rolledBack;
+    });
+
+    return NextResponse.json({ success: true, undoneVersions: undone.map((p) => p.version) });
+  } catch (error) {
+    console.error('Error rolling back publication:', error);
+    return NextResponse.json({ error: 'Failed to roll back publication' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { diffScheduleByStaff } from '@/lib/audit-log';
+import { parseReplacedRows, monthRange } from '@/lib/schedule-publications';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/publications/[id] - The schedule as it was before this publish, diffed against the live schedule
+// Each staff entry maps changed dates to the shift label then ("before") and now ("after")
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const publication = await prisma.schedulePublication.findUnique({ where: { id } });
+    if (!publication) {
+      return NextResponse.json({ error: 'Publication not found' }, { status: 404 });
+    }
+
+    const current = await prisma.scheduleOverride.findMany({
+      where: { date: monthRange(publication.year, publication.month) },
+    });
+    const diffs = diffScheduleByStaff(parseReplacedRows(publication), current);
+
+    const staff = await prisma.staff.findMany({
+      where: { staffId: { in: diffs.map((d) => d.staffId) } },
+      select: { staffId: true, name: true },
+    });
+    const staffNames = new Map(staff.map((s) => [s.staffId, s.name]));
+
+    return NextResponse.json({
+      id: publication.id,
+      year: publication.year,
+      month: publication.month,
+      version: publication.version,
+      publishedByName: publication.publishedByName,
+      createdAt: publication.createdAt.toISOString(),
+      rolledBackAt: publication.rolledBackAt?.toISOString() || null,
+      diff: diffs.map((d) => ({ ...d, staffName: staffNames.get(d.staffId) || d.staffId })),
+    });
+  } catch (error) {
+    console.error('Error fetching publication:', error);
+    return NextResponse.json({ error: 'Failed to fetch publication' }, { status: 500 });
+  }
+}
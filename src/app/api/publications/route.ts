@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+// GET /api/publications?year=2026&month=10 - Publish history for a month, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '');
+    const month = parseInt(searchParams.get('month') || '');
+
+    if (!year || !month || month < 1 || month > 12) {
+      return NextResponse.json({ error: 'Missing or invalid query params: year, month' }, { status: 400 });
+    }
+
+    const publications = await prisma.schedulePublication.findMany({
+      where: { year, month },
+      orderBy: { version: 'desc' },
+    });
+
+    return NextResponse.json(
+      publications.map((p) => ({
+        id: p.id,
+        year: p.year,
+        month: p.month,
+        version: p.version,
+        publishedByName: p.publishedByName,
+        createdAt: p.createdAt.toISOString(),
+        rolledBackAt: p.rolledBackAt?.toISOString() || null,
+        leaveChangeCount: JSON.parse(p.leaveChanges).length,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching publications:', error);
+    return NextResponse.json({ error: 'Failed to fetch publications' }, { status: 500 });
+  }
+}
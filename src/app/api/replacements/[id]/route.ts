@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import { describeReplacement, getAuditActor, recordAudit } from '@/lib/audit-log';
+import { findDraftReplacement } from '@/lib/schedule-drafts';
+import { replacementBreakHours, replacementWorkHours, validateReplacementTimes } from '@/lib/replacement-shifts';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/replacements/[id] - Change a replacement shift's times in the month's draft
+// Body: any of { startTime, endTime, breakHours }; work hours are recalculated less the break
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const actor = await getAuditActor();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await findDraftReplacement(tx, id);
+      if (!existing) return null;
+
+      // Validate the shift as it will be after the update; the break defaults to the one it was saved with
+      const merged = {
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+        breakHours: replacementBreakHours(existing),
+        ...body,
+      };
+      const validationError = validateReplacementTimes(merged);
+      if (validationError) return { error: validationError };
+
+      const replacement = await tx.replacementShiftDraft.update({
+        where: { id },
+        data: {
+          startTime: merged.startTime,
+          endTime: merged.endTime,
+          workHours: replacementWorkHours(merged.startTime, merged.endTime, merged.breakHours),
+        },
+      });
+      await recordAudit(tx, actor, [
+        {
+          action: 'replacement.update',
+          staffId: replacement.originalStaffId,
+          summary: `Changed replacement on ${format(replacement.date, 'yyyy-MM-dd')} to ${describeReplacement(replacement)}`,
+          before: describeReplacement(existing),
+          after: describeReplacement(replacement),
+        },
+      ]);
+      return { replacement };
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Replacement shift not found' }, { status: 404 });
+    }
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const { replacement } = result;
+    return NextResponse.json({
+      id: replacement.id,
+      date: format(replacement.date, 'yyyy-MM-dd'),
+      originalStaffId: replacement.originalStaffId,
+      tempStaffId: replacement.tempStaffId,
+      tempStaffName: replacement.tempStaffName,
+      startTime: replacement.startTime,
+      endTime: replacement.endTime,
+      workHours: replacement.workHours,
+    });
+  } catch (error) {
+    console.error('Error updating replacement shift:', error);
+    return NextResponse.json({ error: 'Failed to update replacement shift' }, { status: 500 });
+  }
+}
+
+// DELETE /api/replacements/[id] - Remove a replacement shift from the month's draft
+// The person it covered stays off; set their shift again in edit mode if needed
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const actor = await getAuditActor();
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const existing = await findDraftReplacement(tx, id);
+      if (!existing) return null;
+
+      await tx.replacementShiftDraft.delete({ where: { id } });
+      await recordAudit(tx, actor, [
+        {
+          action: 'replacement.delete',
+          staffId: existing.originalStaffId,
+          summary: `Removed replacement on ${format(existing.date, 'yyyy-MM-dd')}: ${describeReplacement(existing)}`,
+          before: describeReplacement(existing),
+        },
+      ]);
+      return existing;
+    });
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Replacement shift not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting replacement shift:', error);
+    return NextResponse.json({ error: 'Failed to delete replacement shift' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/shift-patterns/[id] - Deactivate a pattern
+// The staff member (or role) falls back to the role default / hardcoded pattern
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const pattern = await prisma.shiftPattern.findUnique({ where: { id } });
+    if (!pattern) {
+      return NextResponse.json({ error: 'Shift pattern not found' }, { status: 404 });
+    }
+
+    await prisma.shiftPattern.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({ success: true, message: 'Shift pattern deactivated' });
+  } catch (error) {
+    console.error('Error deleting shift pattern:', error);
+    return NextResponse.json({ error: 'Failed to delete shift pattern' }, { status: 500 });
+  }
+}
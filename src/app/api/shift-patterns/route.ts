@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { validateWeeks, validateAnchorDate, normalizeWeeks, toRotationPattern } from '@/lib/shift-patterns';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import type { RotationWeek } from '@/types/schedule';
+
+// GET /api/shift-patterns - Get the active (latest) rotation pattern for each staff member and role
+// Public: the timetable is generated client-side from these patterns
+export async function GET() {
+  try {
+    const patterns = await prisma.shiftPattern.findMany({
+      where: { isActive: true },
+      orderBy: [{ staffId: 'asc' }, { role: 'asc' }],
+    });
+
+    return NextResponse.json(patterns.map(toRotationPattern));
+  } catch (error) {
+    console.error('Error fetching shift patterns:', error);
+    return NextResponse.json({ error: 'Failed to fetch shift patterns' }, { status: 500 });
+  }
+}
+
+// POST /api/shift-patterns - Save a new version of a staff or role pattern
+// Body: { staffId?: string, role?: string, weeks: RotationWeek[], anchorDate?: string } - exactly one of staffId/role
+// anchorDate (YYYY-MM-DD) is the first day of cycle week 1; omitted keeps the previous version's anchor
+export async function POST(request: NextRequest) {
+  try {
+    const { staffId, role, weeks, anchorDate } = await request.json();
+
+    if ((!staffId && !role) || (staffId && role)) {
+      return NextResponse.json(
+        { error: 'Provide exactly one of staffId or role' },
+        { status: 400 }
+      );
+    }
+
+    const weeksError = validateWeeks(weeks, await getShiftCatalog());
+    if (weeksError) {
+      return NextResponse.json({ error: weeksError }, { status: 400 });
+    }
+
+    if (anchorDate !== undefined && anchorDate !== null) {
+      const anchorError = validateAnchorDate(anchorDate);
+      if (anchorError) {
+        return NextResponse.json({ error: anchorError }, { status: 400 });
+      }
+    }
+
+    if (staffId) {
+      const staff = await prisma.staff.findUnique({ where: { staffId } });
+      if (!staff) {
+        return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+      }
+    }
+
+    const owner = staffId ? { staffId } : { staffId: null, role };
+
+    const created = await prisma.$transaction(async (tx) => {
+      const latest = await tx.shiftPattern.findFirst({
+        where: owner,
+        orderBy: { version: 'desc' },
+      });
+
+      // Keep the previous anchor unless the request sets (or clears) it
+      let nextAnchor = latest?.anchorDate ?? null;
+      if (anchorDate !== undefined) {
+        nextAnchor = anchorDate ? new Date(anchorDate) : null;
+      }
+
+      // Retire the previous version so only one pattern is active per owner
+      await tx.shiftPattern.updateMany({
+        where: { ...owner, isActive: true },
+        data: { isActive: false },
+      });
+
+      return tx.shiftPattern.create({
+        data: {
+          staffId: staffId || null,
+          role: staffId ? null : role,
+          version: (latest?.version ?? 0) + 1,
+          weeks: JSON.stringify(normalizeWeeks(weeks as RotationWeek[])),
+          anchorDate: nextAnchor,
+        },
+      });
+    });
+
+    return NextResponse.json(toRotationPattern(created), { status: 201 });
+  } catch (error) {
+    console.error('Error saving shift pattern:', error);
+    return NextResponse.json({ error: 'Failed to save shift pattern' }, { status: 500 });
+  }
+}
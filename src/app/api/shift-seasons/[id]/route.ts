@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import { findOverlappingSeason, toShiftSeason, validateShiftSeason } from '@/lib/shift-seasons';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/shift-seasons/[id] - Update a season
+// Body: any of { name, startDate, endDate, shiftMap, isActive }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.shiftSeason.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Shift season not found' }, { status: 404 });
+    }
+
+    // Validate the season as it will be after the update
+    const merged = { ...toShiftSeason(existing), ...body };
+    const validationError = validateShiftSeason(merged, await getShiftCatalog());
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (merged.isActive) {
+      const others = await prisma.shiftSeason.findMany({ where: { isActive: true, id: { not: id } } });
+      const overlapping = findOverlappingSeason(others.map(toShiftSeason), merged);
+      if (overlapping) {
+        return NextResponse.json(
+          { error: `Overlaps ${overlapping.name} (${overlapping.startDate} to ${overlapping.endDate})` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const season = await prisma.shiftSeason.update({
+      where: { id },
+      data: {
+        ...(body.name !== undefined && { name: body.name.trim() }),
+        ...(body.startDate !== undefined && { startDate: new Date(body.startDate) }),
+        ...(body.endDate !== undefined && { endDate: new Date(body.endDate) }),
+        ...(body.shiftMap !== undefined && { shiftMap: JSON.stringify(body.shiftMap) }),
+        ...(body.isActive !== undefined && { isActive: !!body.isActive }),
+      },
+    });
+
+    return NextResponse.json(toShiftSeason(season));
+  } catch (error) {
+    console.error('Error updating shift season:', error);
+    return NextResponse.json({ error: 'Failed to update shift season' }, { status: 500 });
+  }
+}
+
+// DELETE /api/shift-seasons/[id] - Remove a season
+// Days it covered go back to the pattern's usual shifts; hand-set overrides are unchanged
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.shiftSeason.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Shift season not found' }, { status: 404 });
+    }
+
+    await prisma.shiftSeason.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting shift season:', error);
+    return NextResponse.json({ error: 'Failed to delete shift season' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import { findOverlappingSeason, toShiftSeason, validateShiftSeason } from '@/lib/shift-seasons';
+
+// GET /api/shift-seasons - List every shift season, latest first
+// Public: the timetable is generated client-side and swaps shifts during a season
+export async function GET() {
+  try {
+    const seasons = await prisma.shiftSeason.findMany({ orderBy: { startDate: 'desc' } });
+
+    return NextResponse.json(seasons.map(toShiftSeason));
+  } catch (error) {
+    console.error('Error fetching shift seasons:', error);
+    return NextResponse.json({ error: 'Failed to fetch shift seasons' }, { status: 500 });
+  }
+}
+
+// POST /api/shift-seasons - Add a season
+// Body: { name, startDate: "YYYY-MM-DD", endDate: "YYYY-MM-DD", shiftMap: { [patternKey]: seasonalKey } }
+export async function POST(request: NextRequest) {
+  try {
+    const { name, startDate, endDate, shiftMap } = await request.json();
+
+    const validationError = validateShiftSeason({ name, startDate, endDate, shiftMap }, await getShiftCatalog());
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Only one season can apply to a day
+    const existing = await prisma.shiftSeason.findMany({ where: { isActive: true } });
+    const overlapping = findOverlappingSeason(existing.map(toShiftSeason), { startDate, endDate });
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `Overlaps ${overlapping.name} (${overlapping.startDate} to ${overlapping.endDate})` },
+        { status: 409 }
+      );
+    }
+
+    const season = await prisma.shiftSeason.create({
+      data: {
+        name: name.trim(),
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        shiftMap: JSON.stringify(shiftMap),
+      },
+    });
+
+    return NextResponse.json(toShiftSeason(season), { status: 201 });
+  } catch (error) {
+    console.error('Error creating shift season:', error);
+    return NextResponse.json({ error: 'Failed to create shift season' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { toShiftTypeEntry, validateShiftType } from '@/lib/shift-types';
+import { toRotationPattern } from '@/lib/shift-patterns';
+import { toShiftSeason } from '@/lib/shift-seasons';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/shift-types/[id] - Update a shift type
+// Body: any of { label, timing, startTime, endTime, workHours, breakHours, color, isSeasonal, sortOrder, isActive }
+// The key is fixed: stored overrides and patterns refer to it. Retire a type with isActive: false.
+// Times and hours are fixed too once a saved or draft cell, a rotation pattern or a season's shift
+// map uses the key, so past and generated months keep their hours; retire the type and add a new key instead.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.shiftType.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Shift type not found' }, { status: 404 });
+    }
+
+    if (body.key !== undefined && body.key !== existing.key) {
+      return NextResponse.json({ error: 'A shift type key cannot be changed' }, { status: 400 });
+    }
+
+    const timesChanged = (['startTime', 'endTime', 'workHours', 'breakHours'] as const).some(
+      (field) => body[field] !== undefined && body[field] !== existing[field]
+    );
+    if (timesChanged) {
+      const [overrides, drafts, patterns, seasons] = await Promise.all([
+        prisma.scheduleOverride.count({ where: { shiftType: existing.key } }),
+        prisma.scheduleDraft.count({ where: { shiftType: existing.key } }),
+        prisma.shiftPattern.findMany(),
+        prisma.shiftSeason.findMany(),
+      ]);
+      const inPattern = patterns.some((p) =>
+        toRotationPattern(p).weeks.some((week) => Object.values(week).includes(existing.key))
+      );
+      const inSeason = seasons.some((s) =>
+        Object.entries(toShiftSeason(s).shiftMap).some(([from, to]) => from === existing.key || to === existing.key)
+      );
+      if (overrides + drafts > 0 || inPattern || inSeason) {
+        return NextResponse.json(
+          { error: `${existing.label} is used in the schedule, so its times and hours can't change. Retire it and add a new shift type instead.` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Validate the shift type as it will be after the update
+    const merged = { ...toShiftTypeEntry(existing), ...body };
+    const validationError = validateShiftType(merged);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const shiftType = await prisma.shiftType.update({
+      where: { id },
+      data: {
+        ...(body.label !== undefined && { label: body.label.trim() }),
+        ...(body.timing !== undefined && { timing: body.timing || null }),
+        ...(body.startTime !== undefined && { startTime: body.startTime }),
+        ...(body.endTime !== undefined && { endTime: body.endTime }),
+        ...(body.workHours !== undefined && { workHours: body.workHours }),
+        ...(body.breakHours !== undefined && { breakHours: body.breakHours }),
+        ...(body.color !== undefined && { color: body.color }),
+        ...(body.isSeasonal !== undefined && { isSeasonal: body.isSeasonal }),
+        ...(typeof body.sortOrder === 'number' && { sortOrder: body.sortOrder }),
+        ...(body.isActive !== undefined && { isActive: !!body.isActive }),
+      },
+    });
+
+    return NextResponse.json(toShiftTypeEntry(shiftType));
+  } catch (error) {
+    console.error('Error updating shift type:', error);
+    return NextResponse.json({ error: 'Failed to update shift type' }, { status: 500 });
+  }
+}
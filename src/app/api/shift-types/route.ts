@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { toShiftTypeEntry, validateShiftType } from '@/lib/shift-types';
+
+// GET /api/shift-types - List every shift type, retired ones included, in sort order
+// Public: the timetable labels and colours shifts from this catalog
+export async function GET() {
+  try {
+    const shiftTypes = await prisma.shiftType.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { key: 'asc' }],
+    });
+
+    return NextResponse.json(shiftTypes.map(toShiftTypeEntry));
+  } catch (error) {
+    console.error('Error fetching shift types:', error);
+    return NextResponse.json({ error: 'Failed to fetch shift types' }, { status: 500 });
+  }
+}
+
+// POST /api/shift-types - Add a shift type to the catalog
+// Body: { key, label, timing?: "early" | "late", startTime, endTime, workHours, breakHours?, color?, isSeasonal?, sortOrder? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { key, label, timing = null, startTime, endTime, workHours, breakHours = 0, color = '#6b7280', isSeasonal = false, sortOrder } = body;
+
+    const validationError = validateShiftType({ key, label, timing, startTime, endTime, workHours, breakHours, color, isSeasonal });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const existing = await prisma.shiftType.findUnique({ where: { key } });
+    if (existing) {
+      return NextResponse.json({ error: `A shift type with key "${key}" already exists` }, { status: 409 });
+    }
+
+    // New types go to the end of the list unless a position is given
+    const last = await prisma.shiftType.findFirst({ orderBy: { sortOrder: 'desc' } });
+
+    const shiftType = await prisma.shiftType.create({
+      data: {
+        key,
+        label: label.trim(),
+        timing: timing || null,
+        startTime,
+        endTime,
+        workHours,
+        breakHours,
+        color,
+        isSeasonal,
+        sortOrder: typeof sortOrder === 'number' ? sortOrder : (last?.sortOrder ?? 0) + 1,
+      },
+    });
+
+    return NextResponse.json(toShiftTypeEntry(shiftType), { status: 201 });
+  } catch (error) {
+    console.error('Error creating shift type:', error);
+    return NextResponse.json({ error: 'Failed to create shift type' }, { status: 500 });
+  }
+}
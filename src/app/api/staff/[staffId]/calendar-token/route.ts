@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import prisma from '@/lib/prisma';
+
+interface RouteParams {
+  params: Promise<{ staffId: string }>;
+}
+
+// GET /api/staff/[staffId]/calendar-token - Get the staff member's calendar feed token (null if disabled)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { staffId } = await params;
+
+    const staff = await prisma.staff.findUnique({
+      where: { staffId },
+      select: { calendarToken: true },
+    });
+
+    if (!staff) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ token: staff.calendarToken });
+  } catch (error) {
+    console.error('Error fetching calendar token:', error);
+    return NextResponse.json({ error: 'Failed to fetch calendar token' }, { status: 500 });
+  }
+}
+
+// POST /api/staff/[staffId]/calendar-token - Create a new token (replaces and revokes any existing one)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { staffId } = await params;
+
+    const staff = await prisma.staff.findUnique({ where: { staffId } });
+    if (!staff) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.staff.update({
+      where: { staffId },
+      data: { calendarToken: randomBytes(24).toString('hex') },
+    });
+
+    return NextResponse.json({ token: updated.calendarToken }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar token:', error);
+    return NextResponse.json({ error: 'Failed to create calendar token' }, { status: 500 });
+  }
+}
+
+// DELETE /api/staff/[staffId]/calendar-token - Revoke the token; existing subscriptions stop updating
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { staffId } = await params;
+
+    const staff = await prisma.staff.findUnique({ where: { staffId } });
+    if (!staff) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    await prisma.staff.update({
+      where: { staffId },
+      data: { calendarToken: null },
+    });
+
+    return NextResponse.json({ success: true, message: 'Calendar feed revoked' });
+  } catch (error) {
+    console.error('Error revoking calendar token:', error);
+    return NextResponse.json({ error: 'Failed to revoke calendar token' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit, staffAuditSnapshot } from '@/lib/audit-log';
+import { getProrationRounding, syncBalanceEntitlements } from '@/lib/leave-entitlements';
 
 interface RouteParams {
   params: Promise<{ staffId: string }>;
@@ -65,11 +67,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     if (startDate !== undefined) updateData.startDate = startDate ? new Date(startDate) : null;
     if (endDate !== undefined) updateData.endDate = endDate ? new Date(endDate) : null;
 
+    const existing = await prisma.staff.findUnique({ where: { staffId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
     // Validate: endDate must be after startDate if both are set
     if (startDate !== undefined || endDate !== undefined) {
-      const existing = await prisma.staff.findUnique({ where: { staffId }, select: { startDate: true, endDate: true } });
-      const effectiveStart = startDate !== undefined ? (startDate ? new Date(startDate) : null) : existing?.startDate;
-      const effectiveEnd = endDate !== undefined ? (endDate ? new Date(endDate) : null) : existing?.endDate;
+      const effectiveStart = startDate !== undefined ? (startDate ? new Date(startDate) : null) : existing.startDate;
+      const effectiveEnd = endDate !== undefined ? (endDate ? new Date(endDate) : null) : existing.endDate;
       if (effectiveStart && effectiveEnd && effectiveEnd <= effectiveStart) {
         return NextResponse.json(
           { error: 'End date must be after start date' },
@@ -78,23 +84,42 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    const staff = await prisma.staff.update({
-      where: { staffId },
-      data: updateData,
-    });
-
-    // If leave entitlements changed, update current year's leave balance
-    const currentYear = new Date().getFullYear();
-    const balanceUpdate: Record<string, number> = {};
-    if (alEntitlement !== undefined) balanceUpdate.alEntitlement = alEntitlement;
-    if (mlEntitlement !== undefined) balanceUpdate.mlEntitlement = mlEntitlement;
+    const actor = await getAuditActor();
+    const rounding = await getProrationRounding();
+    const entitlementsChanged =
+      alEntitlement !== undefined || mlEntitlement !== undefined || startDate !== undefined || endDate !== undefined;
 
-    if (Object.keys(balanceUpdate).length > 0) {
-      await prisma.leaveBalance.updateMany({
-        where: { staffId, year: currentYear },
-        data: balanceUpdate,
+    // The update, the balance sync and their audit events are saved together or not at all
+    const staff = await prisma.$transaction(async (tx) => {
+      const updated = await tx.staff.update({
+        where: { staffId },
+        data: updateData,
       });
-    }
+
+      // If leave entitlements or service dates changed, re-pro-rate this year's and later balances
+      const entitlementChanges = entitlementsChanged
+        ? await syncBalanceEntitlements(tx, { staffId, fromYear: new Date().getFullYear() }, rounding)
+        : [];
+
+      await recordAudit(tx, actor, [
+        {
+          action: 'staff.update',
+          staffId,
+          summary: `Updated ${updated.name}`,
+          before: staffAuditSnapshot(existing),
+          after: staffAuditSnapshot(updated),
+        },
+        ...entitlementChanges.map((change) => ({
+          action: 'leave.entitlement' as const,
+          staffId,
+          summary: `${change.year} entitlement for ${updated.name} recalculated: ${change.after.al} AL, ${change.after.ml} ML`,
+          before: change.before,
+          after: change.after,
+        })),
+      ]);
+
+      return updated;
+    });
 
     return NextResponse.json({
       id: staff.staffId,
@@ -120,10 +145,29 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { staffId } = await params;
 
+    const existing = await prisma.staff.findUnique({ where: { staffId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    const actor = await getAuditActor();
+
     // Soft delete by setting isActive to false
-    await prisma.staff.update({
-      where: { staffId },
-      data: { isActive: false },
+    await prisma.$transaction(async (tx) => {
+      const staff = await tx.staff.update({
+        where: { staffId },
+        data: { isActive: false },
+      });
+
+      await recordAudit(tx, actor, [
+        {
+          action: 'staff.delete',
+          staffId,
+          summary: `Deactivated ${staff.name}`,
+          before: staffAuditSnapshot(existing),
+          after: staffAuditSnapshot(staff),
+        },
+      ]);
     });
 
     return NextResponse.json({ success: true, message: 'Staff deactivated' });
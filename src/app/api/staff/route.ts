@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getAuditActor, recordAudit, staffAuditSnapshot } from '@/lib/audit-log';
+import { proratedEntitlements } from '@/lib/leave-proration';
+import { getProrationRounding } from '@/lib/leave-entitlements';
 
 // Helper to parse defaultOffDays, handling double-stringify bug
 const parseOffDays = (val: string): number[] => {
@@ -72,33 +75,44 @@ export async function POST(request: NextRequest) {
     // New staff start at index 4 (after legacy staff)
     const newColorIndex = Math.max(4, staffWithColors);
 
-    const staff = await prisma.staff.create({
-      data: {
-        staffId: staffId.toLowerCase().replace(/\s/g, ''),
-        name,
-        role,
-        weeklyHours,
-        defaultOffDays: JSON.stringify(defaultOffDays || [0, 6]),
-        alEntitlement: alEntitlement || 14,
-        mlEntitlement: mlEntitlement || 14,
-        startDate: startDate ? new Date(startDate) : null,
-        colorIndex: newColorIndex,
-      },
-    });
+    const actor = await getAuditActor();
+    const rounding = await getProrationRounding();
 
-    // Initialize leave balance for current year
-    const currentYear = new Date().getFullYear();
-    await prisma.leaveBalance.create({
-      data: {
-        staffId: staff.staffId,
-        year: currentYear,
-        alEntitlement: staff.alEntitlement,
-        alUsed: 0,
-        rlEarned: 0,
-        rlUsed: 0,
-        mlEntitlement: staff.mlEntitlement,
-        mlUsed: 0,
-      },
+    // The new record, its first balance and the audit event are saved together or not at all
+    const staff = await prisma.$transaction(async (tx) => {
+      const created = await tx.staff.create({
+        data: {
+          staffId: staffId.toLowerCase().replace(/\s/g, ''),
+          name,
+          role,
+          weeklyHours,
+          defaultOffDays: JSON.stringify(defaultOffDays || [0, 6]),
+          alEntitlement: alEntitlement || 14,
+          mlEntitlement: mlEntitlement || 14,
+          startDate: startDate ? new Date(startDate) : null,
+          colorIndex: newColorIndex,
+        },
+      });
+
+      // Initialize leave balance for current year, pro-rated from the start date
+      const currentYear = new Date().getFullYear();
+      await tx.leaveBalance.create({
+        data: {
+          staffId: created.staffId,
+          year: currentYear,
+          ...proratedEntitlements(created, currentYear, rounding),
+          alUsed: 0,
+          rlEarned: 0,
+          rlUsed: 0,
+          mlUsed: 0,
+        },
+      });
+
+      await recordAudit(tx, actor, [
+        { action: 'staff.create', staffId: created.staffId, summary: `Added ${created.name}`, after: staffAuditSnapshot(created) },
+      ]);
+
+      return created;
     });
 
     return NextResponse.json(
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { canEditRota } from '@/lib/permissions';
+import { format } from 'date-fns';
+import { planSwap, applySwapToDrafts } from '@/lib/shift-swaps';
+import { getAuditActor, recordAudit, describeShift, type AuditEntry } from '@/lib/audit-log';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Status each action moves a request from, and to, and who may take it: the colleague,
+// the staff member who proposed the swap, or a rota editor (admin or scheduler)
+const TRANSITIONS: Record<string, { from: string[]; to: string; actor: 'colleague' | 'requester' | 'editor' }> = {
+  accept: { from: ['proposed'], to: 'accepted', actor: 'colleague' },
+  decline: { from: ['proposed'], to: 'declined', actor: 'colleague' },
+  approve: { from: ['accepted'], to: 'approved', actor: 'editor' },
+  reject: { from: ['accepted'], to: 'rejected', actor: 'editor' },
+  cancel: { from: ['proposed', 'accepted'], to: 'cancelled', actor: 'requester' },
+};
+
+// PATCH /api/swaps/[id] - Move a swap request through its workflow
+// Body: { action: "accept" | "decline" | "approve" | "reject" | "cancel", note?: string }
+// Approving writes both staff's new shifts into the draft schedule
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { action, note } = await request.json();
+
+    const transition = TRANSITIONS[action];
+    if (!transition) {
+      return NextResponse.json(
+        { error: `action must be one of: ${Object.keys(TRANSITIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const swap = await prisma.shiftSwapRequest.findUnique({
+      where: { id },
+      include: { requester: true, colleague: true },
+    });
+    if (!swap) {
+      return NextResponse.json({ error: 'Swap request not found' }, { status: 404 });
+    }
+
+    const session = await auth();
+    const user = session?.user;
+    const allowed =
+      transition.actor === 'editor'
+        ? canEditRota(user?.role)
+        : !!user?.staffId && user.staffId === (transition.actor === 'colleague' ? swap.colleagueId : swap.requesterId);
+    if (!allowed) {
+      const who = { colleague: swap.colleague.name, requester: swap.requester.name, editor: 'an admin or scheduler' };
+      return NextResponse.json({ error: `Only ${who[transition.actor]} can ${action} this swap` }, { status: 403 });
+    }
+
+    if (!transition.from.includes(swap.status)) {
+      return NextResponse.json({ error: `Cannot ${action} a request that is ${swap.status}` }, { status: 409 });
+    }
+
+    if (action === 'approve') {
+      // The schedule may have changed since the swap was proposed
+      const result = await planSwap({
+        requesterId: swap.requesterId,
+        colleagueId: swap.colleagueId,
+        requesterDate: swap.requesterDate,
+        colleagueDate: swap.colleagueDate,
+        staff: {
+          [swap.requesterId]: { name: swap.requester.name, weeklyHours: swap.requester.weeklyHours },
+          [swap.colleagueId]: { name: swap.colleague.name, weeklyHours: swap.colleague.weeklyHours },
+        },
+      });
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 409 });
+      }
+
+      // Each person's old shift on a date is the one their partner takes over
+      const { changes } = result.plan;
+      const auditEntries: AuditEntry[] = [swap.requester, swap.colleague].map((member) => {
+        const before: Record<string, string> = {};
+        const after: Record<string, string> = {};
+        for (const change of changes.filter((c) => c.staffId === member.staffId)) {
+          const dateKey = format(change.date, 'yyyy-MM-dd');
+          const partner = changes.find((c) => c.staffId !== member.staffId && format(c.date, 'yyyy-MM-dd') === dateKey);
+          before[dateKey] = describeShift(partner?.shift ?? null);
+          after[dateKey] = describeShift(change.shift);
+        }
+        return {
+          action: 'swap.approve',
+          staffId: member.staffId,
+          summary: `Shift swap between ${swap.requester.name} and ${swap.colleague.name} approved`,
+          before,
+          after,
+        };
+      });
+      const actor = await getAuditActor();
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await applySwapToDrafts(tx, changes);
+        await recordAudit(tx, actor, auditEntries);
+        return tx.shiftSwapRequest.update({
+          where: { id },
+          data: { status: transition.to, reviewedAt: new Date(), reviewNote: note || null },
+        });
+      });
+
+      return NextResponse.json({ id: updated.id, status: updated.status, plan: result.plan });
+    }
+
+    const updated = await prisma.shiftSwapRequest.update({
+      where: { id },
+      data: {
+        status: transition.to,
+        ...(action === 'accept' && { acceptedAt: new Date() }),
+        ...(action === 'reject' && { reviewedAt: new Date(), reviewNote: note || null }),
+      },
+    });
+
+    return NextResponse.json({ id: updated.id, status: updated.status });
+  } catch (error) {
+    console.error('Error updating swap request:', error);
+    return NextResponse.json({ error: 'Failed to update swap request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { planSwap } from '@/lib/shift-swaps';
+
+// Parse date string "yyyy-MM-dd" as local date (not UTC)
+function parseLocalDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// GET /api/swaps?status=proposed - List shift swap requests (newest first)
+// Staff accounts only see swaps they proposed or were asked to take
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const ownStaffId = session?.user?.role === 'staff' ? session.user.staffId ?? '' : null;
+
+    const swaps = await prisma.shiftSwapRequest.findMany({
+      where: {
+        ...(status && { status }),
+        ...(ownStaffId !== null && { OR: [{ requesterId: ownStaffId }, { colleagueId: ownStaffId }] }),
+      },
+      include: {
+        requester: { select: { name: true } },
+        colleague: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(
+      swaps.map((swap) => ({
+        id: swap.id,
+        requesterId: swap.requesterId,
+        requesterName: swap.requester.name,
+        colleagueId: swap.colleagueId,
+        colleagueName: swap.colleague.name,
+        requesterDate: format(swap.requesterDate, 'yyyy-MM-dd'),
+        colleagueDate: format(swap.colleagueDate, 'yyyy-MM-dd'),
+        status: swap.status,
+        reason: swap.reason,
+        reviewNote: swap.reviewNote,
+        acceptedAt: swap.acceptedAt?.toISOString() || null,
+        reviewedAt: swap.reviewedAt?.toISOString() || null,
+        createdAt: swap.createdAt.toISOString(),
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching swap requests:', error);
+    return NextResponse.json({ error: 'Failed to fetch swap requests' }, { status: 500 });
+  }
+}
+
+// POST /api/swaps - Propose a swap
+// Body: { requesterId, colleagueId, requesterDate: "YYYY-MM-DD", colleagueDate?: "YYYY-MM-DD", reason? }
+// colleagueDate defaults to requesterDate (swap shifts on the same day).
+// Staff accounts always propose as themselves; only admins and schedulers pick requesterId
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { colleagueId, requesterDate, colleagueDate, reason } = body;
+
+    let requesterId = body.requesterId;
+    if (session.user.role === 'staff') {
+      if (!session.user.staffId) {
+        return NextResponse.json({ error: 'Your account is not linked to a staff member' }, { status: 403 });
+      }
+      requesterId = session.user.staffId;
+    }
+
+    if (!requesterId || !colleagueId || !requesterDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: requesterId, colleagueId, requesterDate' },
+        { status: 400 }
+      );
+    }
+
+    if (requesterId === colleagueId) {
+      return NextResponse.json({ error: 'Cannot swap with yourself' }, { status: 400 });
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(requesterDate) || (colleagueDate && !datePattern.test(colleagueDate))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const staff = await prisma.staff.findMany({
+      where: { staffId: { in: [requesterId, colleagueId] }, isActive: true },
+    });
+    const requester = staff.find((s) => s.staffId === requesterId);
+    const colleague = staff.find((s) => s.staffId === colleagueId);
+
+    if (!requester || !colleague) {
+      return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+    }
+
+    if (requester.role !== colleague.role) {
+      return NextResponse.json({ error: 'Swaps are only allowed between staff with the same role' }, { status: 400 });
+    }
+
+    const swapDates = {
+      requesterDate: parseLocalDate(requesterDate),
+      colleagueDate: parseLocalDate(colleagueDate || requesterDate),
+    };
+
+    const result = await planSwap({
+      requesterId,
+      colleagueId,
+      ...swapDates,
+      staff: Object.fromEntries(staff.map((s) => [s.staffId, { name: s.name, weeklyHours: s.weeklyHours }])),
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const swap = await prisma.shiftSwapRequest.create({
+      data: {
+        requesterId,
+        colleagueId,
+        ...swapDates,
+        reason: reason || null,
+      },
+    });
+
+    return NextResponse.json({ id: swap.id, status: swap.status, plan: result.plan }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating swap request:', error);
+    return NextResponse.json({ error: 'Failed to create swap request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { normalizeTempName, toTempStaffMember, validateTempStaff } from '@/lib/temp-staff';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/temp-staff/[id] - Update a temp
+// Body: any of { name, qualification, phone, email, hourlyRate, notes, isActive }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.tempStaff.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Temp staff not found' }, { status: 404 });
+    }
+
+    // Validate the temp as it will be after the update
+    const merged = { ...toTempStaffMember(existing), ...body };
+    const validationError = validateTempStaff(merged);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (body.name !== undefined) {
+      const others = await prisma.tempStaff.findMany({ where: { id: { not: id } }, select: { name: true } });
+      if (others.some((t) => normalizeTempName(t.name) === normalizeTempName(body.name))) {
+        return NextResponse.json({ error: `${body.name.trim()} is already in the registry` }, { status: 409 });
+      }
+    }
+
+    const temp = await prisma.tempStaff.update({
+      where: { id },
+      data: {
+        ...(body.name !== undefined && { name: body.name.trim().replace(/\s+/g, ' ') }),
+        ...(body.qualification !== undefined && { qualification: body.qualification }),
+        ...(body.phone !== undefined && { phone: body.phone?.trim() || null }),
+        ...(body.email !== undefined && { email: body.email?.trim() || null }),
+        ...(body.hourlyRate !== undefined && { hourlyRate: body.hourlyRate }),
+        ...(body.notes !== undefined && { notes: body.notes?.trim() || null }),
+        ...(body.isActive !== undefined && { isActive: !!body.isActive }),
+      },
+    });
+
+    return NextResponse.json(toTempStaffMember(temp));
+  } catch (error) {
+    console.error('Error updating temp staff:', error);
+    return NextResponse.json({ error: 'Failed to update temp staff' }, { status: 500 });
+  }
+}
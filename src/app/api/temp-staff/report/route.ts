@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { differenceInCalendarDays, isValid, parse } from 'date-fns';
+import { buildTempStaffReport } from '@/lib/temp-staff-report';
+
+// Longest period one report may cover
+const MAX_PERIOD_DAYS = 366;
+
+// GET /api/temp-staff/report?from=2026-01-01&to=2026-12-31 - Hours and cost per temp, by month
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = parse(searchParams.get('from') || '', 'yyyy-MM-dd', new Date());
+    const to = parse(searchParams.get('to') || '', 'yyyy-MM-dd', new Date());
+
+    if (!isValid(from) || !isValid(to)) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+    if (to < from || differenceInCalendarDays(to, from) >= MAX_PERIOD_DAYS) {
+      return NextResponse.json({ error: `Period must run forwards and cover at most ${MAX_PERIOD_DAYS} days` }, { status: 400 });
+    }
+
+    return NextResponse.json(await buildTempStaffReport(from, to));
+  } catch (error) {
+    console.error('Error building temp staff report:', error);
+    return NextResponse.json({ error: 'Failed to build temp staff report' }, { status: 500 });
+  }
+}
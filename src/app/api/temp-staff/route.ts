@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { normalizeTempName, toTempStaffMember, validateTempStaff } from '@/lib/temp-staff';
+
+// GET /api/temp-staff?active=true - List the temp staff registry (only active temps with active=true)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get('active') === 'true';
+
+    const temps = await prisma.tempStaff.findMany({
+      where: activeOnly ? { isActive: true } : undefined,
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(temps.map(toTempStaffMember));
+  } catch (error) {
+    console.error('Error fetching temp staff:', error);
+    return NextResponse.json({ error: 'Failed to fetch temp staff' }, { status: 500 });
+  }
+}
+
+// POST /api/temp-staff - Add a temp to the registry
+// Body: { name, qualification: "Pharmacist" | "Assistant Pharmacist", phone?, email?, hourlyRate?, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, qualification = 'Pharmacist', phone, email, hourlyRate = null, notes } = body;
+
+    const validationError = validateTempStaff({ name, qualification, hourlyRate, email });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const existing = await prisma.tempStaff.findMany({ select: { name: true } });
+    if (existing.some((t) => normalizeTempName(t.name) === normalizeTempName(name))) {
+      return NextResponse.json({ error: `${name.trim()} is already in the registry` }, { status: 409 });
+    }
+
+    const temp = await prisma.tempStaff.create({
+      data: {
+        name: name.trim().replace(/\s+/g, ' '),
+        qualification,
+        phone: phone?.trim() || null,
+        email: email?.trim() || null,
+        hourlyRate,
+        notes: notes?.trim() || null,
+      },
+    });
+
+    return NextResponse.json(toTempStaffMember(temp), { status: 201 });
+  } catch (error) {
+    console.error('Error creating temp staff:', error);
+    return NextResponse.json({ error: 'Failed to create temp staff' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth, generatePasswordHash } from '@/lib/auth';
+import { isValidRole, ROLES } from '@/lib/permissions';
+import { toUserResponse, MIN_PASSWORD_LENGTH } from '@/lib/users';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/users/[id] - Update a user account
+// Body: { role?, staffId?: string | null, password?, isActive? }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { role, staffId, password, isActive } = await request.json();
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (role !== undefined && !isValidRole(role)) {
+      return NextResponse.json({ error: `role must be one of: ${ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Admins can't lock themselves out
+    const session = await auth();
+    if (session?.user?.id === id && ((role !== undefined && role !== 'admin') || isActive === false)) {
+      return NextResponse.json({ error: 'You cannot remove your own admin access' }, { status: 400 });
+    }
+
+    const newRole = role ?? user.role;
+    const newStaffId = staffId !== undefined ? staffId || null : user.staffId;
+    if (newRole === 'staff' && !newStaffId) {
+      return NextResponse.json({ error: 'Staff accounts must be linked to a staff member' }, { status: 400 });
+    }
+
+    if (newStaffId && newStaffId !== user.staffId) {
+      const staff = await prisma.staff.findUnique({ where: { staffId: newStaffId }, include: { user: true } });
+      if (!staff) {
+        return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+      }
+      if (staff.user) {
+        return NextResponse.json(
+          { error: `${staff.name} already has an account: ${staff.user.username}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: {
+        role: newRole,
+        staffId: newStaffId,
+        ...(isActive !== undefined && { isActive: !!isActive }),
+        ...(password !== undefined && { passwordHash: await generatePasswordHash(password) }),
+      },
+      include: { staff: true },
+    });
+
+    return NextResponse.json(toUserResponse(updated));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
+  }
+}
+
+// DELETE /api/users/[id] - Delete a user account
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const session = await auth();
+    if (session?.user?.id === id) {
+      return NextResponse.json({ error: 'You cannot delete your own account' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await prisma.user.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json({ error: 'Failed to delete user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { generatePasswordHash } from '@/lib/auth';
+import { isValidRole, ROLES } from '@/lib/permissions';
+import { isValidUsername, toUserResponse, MIN_PASSWORD_LENGTH } from '@/lib/users';
+
+// GET /api/users - List user accounts
+export async function GET() {
+  try {
+    const users = await prisma.user.findMany({
+      include: { staff: true },
+      orderBy: { username: 'asc' },
+    });
+
+    return NextResponse.json(users.map(toUserResponse));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+}
+
+// POST /api/users - Create a user account
+// Body: { username, password, role: "admin" | "scheduler" | "staff", staffId? }
+// staffId links the account to a staff member and is required for the staff role
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password, role, staffId } = await request.json();
+    const normalizedUsername = typeof username === 'string' ? username.trim().toLowerCase() : '';
+
+    if (!normalizedUsername || !password || !role) {
+      return NextResponse.json(
+        { error: 'Missing required fields: username, password, role' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUsername(normalizedUsername)) {
+      return NextResponse.json(
+        { error: 'Username must be 3-32 characters: letters, numbers, dot, dash or underscore' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidRole(role)) {
+      return NextResponse.json({ error: `role must be one of: ${ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    if (role === 'staff' && !staffId) {
+      return NextResponse.json({ error: 'Staff accounts must be linked to a staff member' }, { status: 400 });
+    }
+
+    if (staffId) {
+      const staff = await prisma.staff.findUnique({ where: { staffId }, include: { user: true } });
+      if (!staff) {
+        return NextResponse.json({ error: 'Staff not found' }, { status: 404 });
+      }
+      if (staff.user) {
+        return NextResponse.json(
+          { error: `${staff.name} already has an account: ${staff.user.username}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const existing = await prisma.user.findUnique({ where: { username: normalizedUsername } });
+    if (existing) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username: normalizedUsername,
+        passwordHash: await generatePasswordHash(password),
+        role,
+        staffId: staffId || null,
+      },
+      include: { staff: true },
+    });
+
+    return NextResponse.json(toUserResponse(user), { status: 201 });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import AdminLayoutClient from '../admin/AdminLayoutClient';
+
+export default async function MeLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login?from=/me');
+  }
+
+  return (
+    <AdminLayoutClient>
+      {children}
+    </AdminLayoutClient>
+  );
+}
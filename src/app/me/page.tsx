@@ -0,0 +1,7 @@
+'use client';
+
+import MyLeave from '@/components/MyLeave';
+
+export default function MyLeavePage() {
+  return <MyLeave />;
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { LogIn, LogOut } from 'lucide-react';
+import { LogIn, LogOut, CalendarCheck } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import AldeIcon from './AldeIcon';
 
@@ -16,6 +16,7 @@ interface AppHeaderProps {
   activeTab?: string;
   onTabChange?: (tabId: string) => void;
   onLoginClick?: () => void;
+  onRequestLeaveClick?: () => void;
   onLogout?: () => void;
   isOnline?: boolean;
 }
@@ -26,6 +27,7 @@ export default function AppHeader({
   activeTab,
   onTabChange,
   onLoginClick,
+  onRequestLeaveClick,
   onLogout,
   isOnline = true,
 }: AppHeaderProps) {
@@ -75,6 +77,17 @@ export default function AppHeader({
               </>
             )}
 
+            {/* Leave request (public only) */}
+            {mode === 'public' && onRequestLeaveClick && (
+              <button
+                onClick={onRequestLeaveClick}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 hover:text-brand transition-colors"
+              >
+                <CalendarCheck className="h-4 w-4" />
+                <span className="hidden sm:inline">Request Leave</span>
+              </button>
+            )}
+
             {/* Auth Button */}
             {mode === 'public' ? (
               <button
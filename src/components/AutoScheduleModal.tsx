@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Check, Loader2, Wand2, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import ScheduleDiffTable from './ScheduleDiffTable';
+
+interface AutoScheduleIssue {
+  kind: 'coverage' | 'hours';
+  date: string;
+  staffId: string | null;
+  staffName: string | null;
+  message: string;
+}
+
+interface AutoSchedulePreview {
+  changes: {
+    staffId: string;
+    staffName: string;
+    before: Record<string, string | null>;
+    after: Record<string, string | null>;
+  }[];
+  changedCells: number;
+  issues: AutoScheduleIssue[];
+}
+
+interface AutoScheduleModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function AutoScheduleModal({ isOpen, year, month, onClose, onApplied }: AutoScheduleModalProps) {
+  const [preview, setPreview] = useState<AutoSchedulePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchPreview = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setPreview(null);
+        const response = await fetch(apiUrl(`/api/overrides/auto-schedule?year=${year}&month=${month}`));
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to build a rota');
+        }
+        setPreview(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to build a rota');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPreview();
+  }, [isOpen, year, month]);
+
+  if (!isOpen) return null;
+
+  const handleApply = async () => {
+    try {
+      setIsApplying(true);
+      setError(null);
+      const response = await fetch(apiUrl('/api/overrides/auto-schedule'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, month }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to apply the rota');
+      }
+      onApplied();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the rota');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const coverageIssues = preview?.issues.filter((i) => i.kind === 'coverage') || [];
+  const hoursIssues = preview?.issues.filter((i) => i.kind === 'hours') || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <Wand2 className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Auto-fill Rota</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Proposed shifts for {format(new Date(year, month - 1), 'MMMM yyyy')}, based on leave, holidays, weekly hours and
+            coverage rules
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            <span className="ml-2 text-sm text-gray-600">Building rota...</span>
+          </div>
+        ) : preview && (
+          <div className="space-y-6">
+            {/* Unmet constraints */}
+            {preview.issues.length > 0 && (
+              <section className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <h3 className="flex items-center gap-1.5 text-sm font-medium text-amber-800 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {preview.issues.length} constraint{preview.issues.length === 1 ? '' : 's'} could not be met
+                </h3>
+                <ul className="space-y-1 text-sm text-amber-800">
+                  {coverageIssues.map((issue, idx) => (
+                    <li key={`coverage-${idx}`}>
+                      <span className="font-medium">{format(new Date(`${issue.date}T00:00:00`), 'EEE d MMM')}:</span>{' '}
+                      {issue.message}
+                    </li>
+                  ))}
+                  {hoursIssues.map((issue, idx) => (
+                    <li key={`hours-${idx}`}>
+                      <span className="font-medium">Week of {format(new Date(`${issue.date}T00:00:00`), 'd MMM')}:</span>{' '}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {/* Proposed changes */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                Shifts ({preview.changedCells} cell{preview.changedCells === 1 ? '' : 's'} to change)
+              </h3>
+              {preview.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">The current schedule already fits; nothing to change.</p>
+              ) : (
+                <ScheduleDiffTable
+                  rows={preview.changes.map((c) => ({ staffId: c.staffId, staffName: c.staffName, from: c.before, to: c.after }))}
+                />
+              )}
+            </section>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isLoading || isApplying || !preview || preview.changedCells === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+            Apply to Draft
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            Applying writes these shifts into the month&apos;s draft, which you can still edit, review and publish.
+            Approved leave, holidays and default off days stay off; custom-time shifts are kept as they are.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
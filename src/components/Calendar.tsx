@@ -2,11 +2,23 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { generateMonthSchedule, getWeeklyHourSummaries, getMonthlyHourTotals, exportToCSV } from '../lib/schedule-generator';
-import { STAFF_MEMBERS, SHIFT_DEFINITIONS, RAMADAN_SHIFT_KEYS, getStaffColors } from '../staff-data';
-import type { MonthSchedule, DaySchedule, ShiftDefinition, StaffMember, ReplacementShift } from '../types/schedule';
+import { STAFF_MEMBERS, getStaffColors } from '../staff-data';
+import type { MonthSchedule, DaySchedule, ShiftDefinition, StaffMember, ReplacementShift, PartialLeave } from '../types/schedule';
 import { useStaffMembers, isStaffActiveOnDate, type DatabaseStaffMember } from '../hooks/useStaff';
-import { format, getISOWeek, differenceInMinutes } from 'date-fns';
-import { Download, Edit, Save, X, UserPlus, ChevronLeft, ChevronRight, ChevronDown, User, Clock, Check, Trash2, Copy, ClipboardPaste, MoreVertical, Clipboard } from 'lucide-react';
+import { useShiftPatterns } from '../hooks/useShiftPatterns';
+import { useHolidays } from '../hooks/useHolidays';
+import { useShiftTypes } from '../hooks/useShiftTypes';
+import { useShiftSeasons } from '../hooks/useShiftSeasons';
+import { useCoverageRules } from '../hooks/useCoverageRules';
+import { useTempStaff } from '../hooks/useTempStaff';
+import { checkDayCoverage, describeViolation, type CoverageViolation } from '../lib/coverage';
+import { PARTIAL_LEAVE_TYPES, LEAVE_PORTION_LABELS, describePartialLeave } from '../lib/partial-leave';
+import type { TempStaffMember } from '../lib/temp-staff';
+import { replacementWorkHours, replacementBreakHours } from '../lib/replacement-shifts';
+import { findShiftKey, offeredShiftKeys, type ShiftCatalog } from '../lib/shift-types';
+import { seasonsInRange, type ShiftSeason } from '../lib/shift-seasons';
+import { format, getISOWeek } from 'date-fns';
+import { Download, Edit, Pencil, Save, X, UserPlus, ChevronLeft, ChevronRight, ChevronDown, User, Clock, Check, Trash2, Copy, ClipboardPaste, MoreVertical, Clipboard, CalendarCheck, History, AlertTriangle, Wand2, FileSpreadsheet, Printer, Upload, CalendarDays, GanttChart, Moon } from 'lucide-react';
 import AldeIcon from './AldeIcon';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../context/AuthContext';
@@ -19,6 +31,13 @@ import MobileDrawerMenu, { type Tab } from './mobile/MobileDrawerMenu';
 import ShiftPickerBottomSheet from './mobile/ShiftPickerBottomSheet';
 import MobileBottomBar from './mobile/MobileBottomBar';
 import MaternityLeaveModal from './MaternityLeaveModal';
+import LeaveRequestModal from './LeaveRequestModal';
+import PublishHistoryModal from './PublishHistoryModal';
+import AutoScheduleModal from './AutoScheduleModal';
+import PayrollExportModal from './PayrollExportModal';
+import PdfExportModal from './PdfExportModal';
+import RotaImportModal from './RotaImportModal';
+import PublishReviewModal from './PublishReviewModal';
 import CalendarSkeleton from './CalendarSkeleton';
 
 
@@ -53,6 +72,23 @@ function calculateBarWidth(startTime: string, endTime: string): number {
   return Math.max(0, ((endMinutes - startMinutes) / TIMELINE_DURATION) * 100);
 }
 
+// Convert minutes since midnight back to "HH:MM"
+function minutesToTime(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Parts of the timeline not covered by any of the given minute ranges
+function findTimelineGaps(ranges: { start: number; end: number }[]): { start: number; end: number }[] {
+  const gaps: { start: number; end: number }[] = [];
+  let covered = TIMELINE_START;
+  [...ranges].sort((a, b) => a.start - b.start).forEach(({ start, end }) => {
+    if (start > covered) gaps.push({ start: covered, end: Math.min(start, TIMELINE_END) });
+    covered = Math.max(covered, end);
+  });
+  if (covered < TIMELINE_END) gaps.push({ start: covered, end: TIMELINE_END });
+  return gaps.filter(gap => gap.end > gap.start);
+}
+
 // Note: Bar colors are now dynamically retrieved via getStaffColors(staffId, colorIndex).bar
 
 // ================================================================================================
@@ -63,18 +99,68 @@ function isCustomTimeKey(value: string): boolean {
   return value.startsWith('custom_');
 }
 
+// Paid hours for a span, less any break
+function spanWorkHours(startTime: string, endTime: string, breakHours = 0): number {
+  const hours = (timeToMinutes(endTime) - timeToMinutes(startTime)) / 60 - breakHours;
+  return Math.max(0, Math.round(hours * 10) / 10);
+}
+
+// "custom_<start>_<end>[_<hours>]"; without hours the whole span is paid
 function parseCustomTimeKey(value: string): { startTime: string; endTime: string; workHours: number } | null {
   if (!isCustomTimeKey(value)) return null;
-  const [, startTime, endTime] = value.split('_');
+  const [, startTime, endTime, hours] = value.split('_');
   if (!startTime || !endTime) return null;
-  const [sh, sm] = startTime.split(':').map(Number);
-  const [eh, em] = endTime.split(':').map(Number);
-  const workHours = Math.round(((eh * 60 + em) - (sh * 60 + sm)) / 60 * 10) / 10;
+  const workHours = hours ? Number(hours) : spanWorkHours(startTime, endTime);
   return { startTime, endTime, workHours };
 }
 
-function makeCustomTimeKey(startTime: string, endTime: string): string {
-  return `custom_${startTime}_${endTime}`;
+function makeCustomTimeKey(startTime: string, endTime: string, workHours?: number): string {
+  const key = `custom_${startTime}_${endTime}`;
+  return workHours == null || workHours === spanWorkHours(startTime, endTime) ? key : `${key}_${workHours}`;
+}
+
+// Part-day leave rides on the shift's value: "<shift>+<type>_<portion>[_<hours>]", e.g. "custom_13:30_21:45+al_am"
+function parsePartialLeaveKey(value: string): { shiftValue: string; partialLeave: PartialLeave } | null {
+  const [shiftValue, leave] = value.split('+');
+  if (!shiftValue || !leave) return null;
+  const [leaveType, portion, hours] = leave.split('_');
+  return {
+    shiftValue,
+    partialLeave: {
+      leaveType: leaveType.toUpperCase() as PartialLeave['leaveType'],
+      portion: portion as PartialLeave['portion'],
+      hours: portion === 'hours' ? Number(hours) || null : null,
+    },
+  };
+}
+
+function makePartialLeaveKey(shiftValue: string, partialLeave: PartialLeave): string {
+  const hours = partialLeave.portion === 'hours' ? `_${partialLeave.hours}` : '';
+  return `${shiftValue}+${partialLeave.leaveType.toLowerCase()}_${partialLeave.portion}${hours}`;
+}
+
+// Shift for an edit value without part-day leave (catalog key or custom time)
+function shiftFromValue(value: string, shiftCatalog: ShiftCatalog): ShiftDefinition | null {
+  if (isCustomTimeKey(value)) {
+    const parsed = parseCustomTimeKey(value);
+    return parsed ? { type: 'custom', timing: null, ...parsed } : null;
+  }
+  return shiftCatalog[value] || null;
+}
+
+// Edit value for dragged or typed times: an active shift type with those times, otherwise a custom time
+// paying the span less breakHours
+function valueForTimes(startTime: string, endTime: string, shiftCatalog: ShiftCatalog, breakHours = 0): string {
+  const catalogKey = offeredShiftKeys(shiftCatalog).find(k =>
+    shiftCatalog[k].startTime === startTime && shiftCatalog[k].endTime === endTime
+  );
+  return catalogKey || makeCustomTimeKey(startTime, endTime, spanWorkHours(startTime, endTime, breakHours));
+}
+
+// Rotation cycle label, e.g. "Cycle 2/3" (hidden for single-week rotations)
+function getCycleLabel(cycleWeek?: { index: number; length: number }): string | null {
+  if (!cycleWeek || cycleWeek.length <= 1) return null;
+  return `Cycle ${cycleWeek.index + 1}/${cycleWeek.length}`;
 }
 
 // ================================================================================================
@@ -115,7 +201,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   } | null>(null);
 
   // Type for override structure
-  type OverrideData = Record<string, { shift: ShiftDefinition | null; isLeave: boolean; leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT' } | ReplacementShift[]>;
+  type OverrideData = Record<string, { shift: ShiftDefinition | null; isLeave: boolean; leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT'; partialLeave?: PartialLeave } | ReplacementShift[]>;
 
   // Calculate previous and next month for fetching adjacent month overrides
   const prevMonth = selectedMonth === 1 ? 12 : selectedMonth - 1;
@@ -143,6 +229,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   const {
     overrides: prevMonthOverrides,
     saveOverrides: savePrevMonth,
+    refetch: refetchPrevMonth,
   } = useScheduleOverridesDB({
     year: prevYear,
     month: prevMonth,
@@ -153,6 +240,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   const {
     overrides: nextMonthOverrides,
     saveOverrides: saveNextMonth,
+    refetch: refetchNextMonth,
   } = useScheduleOverridesDB({
     year: nextYear,
     month: nextMonth,
@@ -162,12 +250,31 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   // Fetch staff from database (with legacy staff fallback)
   const { staff: dynamicStaff, isLoading: isLoadingStaff } = useStaffMembers();
 
+  // Leave requests need a sign-in, and staff accounts can only request for themselves
+  const { role, staffId: ownStaffId } = useAuth();
+  const leaveRequestStaff = role === 'staff' ? dynamicStaff.filter((s) => s.id === ownStaffId) : dynamicStaff;
+  const handleRequestLeaveClick = () => {
+    if (role) setLeaveRequestModalOpen(true);
+    else setLoginModalOpen(true);
+  };
+
+  // Fetch rotation patterns from database (falls back to hardcoded patterns if empty)
+  const { patterns: rotationPatterns, isLoading: isLoadingPatterns } = useShiftPatterns();
+  const { holidays, isLoading: isLoadingHolidays } = useHolidays();
+  const { catalog: shiftCatalog } = useShiftTypes();
+  const { seasons } = useShiftSeasons();
+
+  // Minimum coverage rules are only checked in the admin view
+  const { rules: coverageRules } = useCoverageRules(mode === 'admin');
+  const { temps } = useTempStaff(mode === 'admin');
+
   // Local state for manual overrides (synced from DB)
   const [manualOverrides, setManualOverrides] = useState<Record<string, OverrideData>>({});
   
   // State for the replacement modal
   const [isReplacementModalOpen, setReplacementModalOpen] = useState(false);
   const [replacementContext, setReplacementContext] = useState<{ dayKey: string; staffId: string } | null>(null);
+  const [editingReplacement, setEditingReplacement] = useState<ReplacementShift | null>(null);
 
   // State for the maternity leave modal
   const [isMaternityModalOpen, setMaternityModalOpen] = useState(false);
@@ -177,9 +284,26 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   const [isCustomTimeModalOpen, setCustomTimeModalOpen] = useState(false);
   const [customTimeContext, setCustomTimeContext] = useState<{ dayKey: string; staffId: string } | null>(null);
 
+  // State for the part-day leave modal
+  const [isPartialLeaveModalOpen, setPartialLeaveModalOpen] = useState(false);
+  const [partialLeaveContext, setPartialLeaveContext] = useState<{ dayKey: string; staffId: string } | null>(null);
+
   // State for the login modal
   const [isLoginModalOpen, setLoginModalOpen] = useState(false);
 
+  // State for the staff leave request modal (public view)
+  const [isLeaveRequestModalOpen, setLeaveRequestModalOpen] = useState(false);
+
+  // State for the publish history modal (admin view)
+  const [isHistoryModalOpen, setHistoryModalOpen] = useState(false);
+  const [isAutoScheduleOpen, setAutoScheduleOpen] = useState(false);
+  const [isPayrollExportOpen, setPayrollExportOpen] = useState(false);
+  const [isPdfExportOpen, setPdfExportOpen] = useState(false);
+  const [isRotaImportOpen, setRotaImportOpen] = useState(false);
+
+  // State for the review step shown before publishing
+  const [isPublishReviewOpen, setPublishReviewOpen] = useState(false);
+
   // Auto-open login modal when redirected from /login page
   useEffect(() => {
     if (autoOpenLogin) {
@@ -191,6 +315,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   // Initialize to null to avoid desktop→mobile flash; skeleton shows until detected
   const [isMobile, setIsMobile] = useState<boolean | null>(null);
   const [selectedDayIndex, setSelectedDayIndex] = useState(0); // Index within the current month's schedule
+  const [calendarView, setCalendarView] = useState<'month' | 'week'>('month'); // Desktop: month grid or week timeline of selectedDayIndex
   const [pendingPosition, setPendingPosition] = useState<'start' | 'end' | null>(null);
   const [pendingDateToSelect, setPendingDateToSelect] = useState<Date | null>(null);
 
@@ -319,13 +444,14 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
             if (staffMember && !isStaffActiveOnDate(staffMember, day.date)) {
               return;
             }
-            const override = overrides[dayKey][staffId] as { shift: ShiftDefinition | null; isLeave: boolean; leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT' };
+            const override = overrides[dayKey][staffId] as { shift: ShiftDefinition | null; isLeave: boolean; leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT'; partialLeave?: PartialLeave };
             if (override && typeof override === 'object' && !Array.isArray(override)) {
               finalDay.staffShifts[staffId] = {
                 ...finalDay.staffShifts[staffId],
                 shift: override.shift,
                 isLeave: override.isLeave,
                 leaveType: override.leaveType,
+                partialLeave: override.partialLeave,
                 isOverride: true,
               };
             }
@@ -336,10 +462,17 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
       return { ...baseSchedule, days: updatedDays };
     };
 
-    const baseSchedule = generateMonthSchedule(selectedMonth, selectedYear, dynamicStaff);
+    const baseSchedule = generateMonthSchedule(selectedMonth, selectedYear, dynamicStaff, rotationPatterns, holidays, shiftCatalog, seasons);
     const updatedSchedule = applyOverrides(baseSchedule, manualOverrides, dynamicStaff);
     setSchedule(updatedSchedule);
-  }, [selectedMonth, selectedYear, manualOverrides, dynamicStaff]);
+  }, [selectedMonth, selectedYear, manualOverrides, dynamicStaff, rotationPatterns, holidays, shiftCatalog, seasons]);
+
+  // Seasons that swap shifts on some day of the month, for the banner
+  const monthSeasons = useMemo(() => seasonsInRange(
+    seasons,
+    format(new Date(selectedYear, selectedMonth - 1, 1), 'yyyy-MM-dd'),
+    format(new Date(selectedYear, selectedMonth, 0), 'yyyy-MM-dd')
+  ), [seasons, selectedMonth, selectedYear]);
 
   // Safety: Exit edit mode if user loses admin privileges
   useEffect(() => {
@@ -358,20 +491,15 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
       Object.keys(day.staffShifts).forEach(staffId => {
         const staffShift = day.staffShifts[staffId];
         if (!staffShift) return;
-        const { shift, isLeave, leaveType } = staffShift;
+        const { shift, isLeave, leaveType, partialLeave } = staffShift;
         let key = 'off';
         if (isLeave) {
           key = `leave_${leaveType?.toLowerCase()}`;
         } else if (shift) {
-          // FIX: Use content-based comparison instead of reference comparison
-          // Compare shift properties to find matching SHIFT_DEFINITIONS key
-          const foundKey = Object.keys(SHIFT_DEFINITIONS).find(k => {
-            const def = SHIFT_DEFINITIONS[k];
-            return def.startTime === shift.startTime &&
-                   def.endTime === shift.endTime &&
-                   def.workHours === shift.workHours;
-          });
-          key = foundKey || makeCustomTimeKey(shift.startTime, shift.endTime);
+          // Content-based match, so retired shift types still resolve to their key
+          const foundKey = shift.type === 'custom' ? null : findShiftKey(shift, shiftCatalog);
+          key = foundKey || makeCustomTimeKey(shift.startTime, shift.endTime, shift.workHours);
+          if (partialLeave) key = makePartialLeaveKey(key, partialLeave);
         }
         buffer[dayKey][staffId] = key;
       });
@@ -405,8 +533,11 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
         let newShift: ShiftDefinition | null = null;
         let isLeave = false;
         let leaveType: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT' | undefined = undefined;
+        const partial = parsePartialLeaveKey(value);
 
-        if (value.startsWith('leave')) {
+        if (partial) {
+          newShift = shiftFromValue(partial.shiftValue, shiftCatalog);
+        } else if (value.startsWith('leave')) {
           isLeave = true;
           leaveType = value.split('_')[1].toUpperCase() as 'AL' | 'RL' | 'EL' | 'ML' | 'MAT';
         } else if (isCustomTimeKey(value)) {
@@ -415,10 +546,15 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
             newShift = { type: 'custom', timing: null, ...parsed };
           }
         } else if (value !== 'off') {
-          newShift = SHIFT_DEFINITIONS[value];
+          newShift = shiftCatalog[value];
         }
 
-        newOverrides[dayKey][staffId] = { shift: newShift, isLeave, leaveType };
+        newOverrides[dayKey][staffId] = {
+          shift: newShift,
+          isLeave,
+          leaveType,
+          partialLeave: partial && newShift ? partial.partialLeave : undefined,
+        };
       });
     });
     setManualOverrides(newOverrides);
@@ -480,13 +616,16 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
     setIsEditMode(false);
   };
 
-  // Publish draft to live
-  const handlePublish = async () => {
-    if (!confirm('Publish changes?\n\nThis will make all draft changes visible to all staff.')) {
-      return;
-    }
+  // Review the draft's changes before publishing
+  const handlePublish = () => {
+    setPublishReviewOpen(true);
+  };
+
+  // Publish draft to live (confirmed from the review step)
+  const handleConfirmPublish = async () => {
     const result = await publishDraft();
     if (result.success) {
+      setPublishReviewOpen(false);
       await refetch(); // Refresh to show published state
     } else {
       alert('Failed to publish: ' + (result.error || 'Unknown error'));
@@ -524,6 +663,12 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
       setCustomTimeModalOpen(true);
       return;
     }
+    // Intercept part-day leave selection to show modal
+    if (value === 'partial_leave_picker') {
+      setPartialLeaveContext({ dayKey, staffId });
+      setPartialLeaveModalOpen(true);
+      return;
+    }
     setEditBuffer(prev => ({ ...prev, [dayKey]: { ...prev[dayKey], [staffId]: value } }));
   };
 
@@ -598,8 +743,8 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
     });
   };
 
-  const handleSaveReplacement = async (name: string, start: string, end: string, breakHours: string) => {
-    if (!replacementContext || !name) return;
+  const handleSaveReplacement = async (temp: TempStaffMember | null, start: string, end: string, breakHours: string) => {
+    if (!replacementContext || !temp) return;
 
     const { dayKey, staffId } = replacementContext;
 
@@ -613,25 +758,30 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
     const existingReplacements = newOverrides[dayKey].replacements;
     const replacements: ReplacementShift[] = Array.isArray(existingReplacements) ? [...existingReplacements] : [];
 
-    const startDate = new Date(`${dayKey}T${start}`);
-    const endDate = new Date(`${dayKey}T${end}`);
-    const shiftDuration = differenceInMinutes(endDate, startDate) / 60; // Duration in hours
-    const finalWorkHours = shiftDuration - parseFloat(breakHours); // Subtract break time
-
     replacements.push({
       id: `rep-${Date.now()}`,
       originalStaffId: staffId,
-      tempStaffName: name,
+      tempStaffId: temp.id,
+      tempStaffName: temp.name,
       startTime: start,
       endTime: end,
-      workHours: finalWorkHours > 0 ? finalWorkHours : 0,
+      workHours: replacementWorkHours(start, end, parseFloat(breakHours) || 0), // Less the break
+      breakHours: parseFloat(breakHours) || 0,
     });
 
     newOverrides[dayKey].replacements = replacements;
 
     setManualOverrides(newOverrides);
-    // Save overrides to database (with localStorage fallback)
-    const result = await saveOverrides(newOverrides);
+    // Save the day into its own month's draft (database with localStorage fallback)
+    const [y, m] = dayKey.split('-').map(Number);
+    let result: { success: boolean; error?: string };
+    if (y === prevYear && m === prevMonth) {
+      result = await savePrevMonth({ ...prevMonthOverrides, [dayKey]: newOverrides[dayKey] });
+    } else if (y === nextYear && m === nextMonth) {
+      result = await saveNextMonth({ ...nextMonthOverrides, [dayKey]: newOverrides[dayKey] });
+    } else {
+      result = await saveOverrides(newOverrides);
+    }
     if (!result.success) {
       console.warn('Saved locally, will sync when online:', result.error);
     }
@@ -641,6 +791,34 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
     handleEditBufferChange(dayKey, staffId, 'off');
   };
 
+  // Change a replacement's times or remove it; the API writes to the draft of the replacement's month
+  const handleUpdateReplacement = async (replacement: ReplacementShift, start: string, end: string, breakHours: string) => {
+    const response = await fetch(apiUrl(`/api/replacements/${replacement.id}`), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ startTime: start, endTime: end, breakHours: parseFloat(breakHours) || 0 }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      alert('Failed to update replacement: ' + (data.error || 'Unknown error'));
+      return;
+    }
+    setEditingReplacement(null);
+    await Promise.all([refetch(), refetchPrevMonth(), refetchNextMonth()]);
+  };
+
+  const handleDeleteReplacement = async (replacement: ReplacementShift) => {
+    if (!confirm(`Remove ${replacement.tempStaffName}'s replacement shift?`)) return;
+    const response = await fetch(apiUrl(`/api/replacements/${replacement.id}`), { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      alert('Failed to remove replacement: ' + (data.error || 'Unknown error'));
+      return;
+    }
+    setEditingReplacement(null);
+    await Promise.all([refetch(), refetchPrevMonth(), refetchNextMonth()]);
+  };
+
   // Handle maternity leave confirmation
   const handleMaternityLeaveConfirm = async (staffId: string, startDate: Date) => {
     try {
@@ -694,6 +872,21 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   const weeklyHourSummaries = useMemo(() => schedule ? getWeeklyHourSummaries(schedule, dynamicStaff) : [], [schedule, dynamicStaff]);
   const monthlyHourTotals = useMemo(() => schedule ? getMonthlyHourTotals(schedule, dynamicStaff) : {}, [schedule, dynamicStaff]);
 
+  // Registry temps' qualifications by TempStaff id
+  const tempRoles = useMemo(() => Object.fromEntries(temps.map((t) => [t.id, t.qualification])), [temps]);
+
+  // Coverage rule violations per day (saved schedule, not the unsaved edit buffer)
+  const coverageByDay = useMemo(() => {
+    const byDay: Record<string, CoverageViolation[]> = {};
+    if (!schedule || coverageRules.length === 0) return byDay;
+    const staffRoles = Object.fromEntries(dynamicStaff.map((s) => [s.id, s.role]));
+    schedule.days.forEach((day) => {
+      const violations = checkDayCoverage(day, coverageRules, staffRoles, tempRoles);
+      if (violations.length > 0) byDay[format(day.date, 'yyyy-MM-dd')] = violations;
+    });
+    return byDay;
+  }, [schedule, coverageRules, dynamicStaff, tempRoles]);
+
   // Mobile: Get current week number for display
   const currentWeekNumber = useMemo(() => {
     if (!schedule || !schedule.days[selectedDayIndex]) return 1;
@@ -740,7 +933,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
   };
 
   // Show skeleton while loading data OR while mobile detection is pending
-  if (!schedule || isLoadingOverrides || isLoadingStaff || isMobile === null) {
+  if (!schedule || isLoadingOverrides || isLoadingStaff || isLoadingPatterns || isLoadingHolidays || isMobile === null) {
     return <CalendarSkeleton />;
   }
 
@@ -751,6 +944,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
         <MobileView
           schedule={schedule}
           staffMembers={dynamicStaff}
+          shiftCatalog={shiftCatalog}
           selectedDayIndex={selectedDayIndex}
           setSelectedDayIndex={setSelectedDayIndex}
           currentWeekNumber={currentWeekNumber}
@@ -765,6 +959,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
           onGoToToday={handleGoToToday}
           mode={mode}
           onLoginClick={() => setLoginModalOpen(true)}
+          onRequestLeaveClick={handleRequestLeaveClick}
           hideMobileLogout={hideMobileLogout}
           isEditMode={isEditMode}
           editBuffer={editBuffer}
@@ -780,6 +975,9 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
             setMaternityContext({ dayKey, staffId });
             setMaternityModalOpen(true);
           }}
+          onUpdateReplacement={handleUpdateReplacement}
+          onDeleteReplacement={handleDeleteReplacement}
+          coverageByDay={coverageByDay}
         />
         {/* Login Modal for mobile */}
         <LoginModal
@@ -787,6 +985,20 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
           onClose={() => setLoginModalOpen(false)}
           redirectTo={loginRedirectTo}
         />
+        {/* Leave Request Modal for mobile */}
+        <LeaveRequestModal
+          isOpen={isLeaveRequestModalOpen}
+          onClose={() => setLeaveRequestModalOpen(false)}
+          staffMembers={leaveRequestStaff}
+        />
+        {/* Publish Review Modal for mobile */}
+        <PublishReviewModal
+          isOpen={isPublishReviewOpen}
+          year={selectedYear}
+          month={selectedMonth}
+          onClose={() => setPublishReviewOpen(false)}
+          onConfirm={handleConfirmPublish}
+        />
         {/* Maternity Leave Modal for mobile */}
         {maternityContext && (
           <MaternityLeaveModal
@@ -817,6 +1029,24 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
             }}
           />
         )}
+        {/* Part-day Leave Modal for mobile */}
+        {isPartialLeaveModalOpen && partialLeaveContext && (
+          <PartialLeaveModal
+            context={partialLeaveContext}
+            staffMembers={dynamicStaff}
+            shiftCatalog={shiftCatalog}
+            currentValue={editBuffer[partialLeaveContext.dayKey]?.[partialLeaveContext.staffId] || 'off'}
+            onClose={() => {
+              setPartialLeaveModalOpen(false);
+              setPartialLeaveContext(null);
+            }}
+            onApply={(key) => {
+              handleEditBufferChange(partialLeaveContext.dayKey, partialLeaveContext.staffId, key);
+              setPartialLeaveModalOpen(false);
+              setPartialLeaveContext(null);
+            }}
+          />
+        )}
       </>
     );
   }
@@ -830,6 +1060,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
           mode={mode}
           isOnline={isOnline}
           onLoginClick={() => setLoginModalOpen(true)}
+          onRequestLeaveClick={handleRequestLeaveClick}
         />
       )}
 
@@ -846,30 +1077,57 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
           onPublish={handlePublish}
           onDiscardDraft={handleDiscardDraft}
           onDownloadCSV={handleDownloadCSV}
-          onPrevMonth={handlePrevMonth}
-          onNextMonth={handleNextMonth}
-          onToday={handleToday}
+          onExportPayroll={() => setPayrollExportOpen(true)}
+          onExportPdf={() => setPdfExportOpen(true)}
+          onShowHistory={() => setHistoryModalOpen(true)}
+          onAutoSchedule={() => setAutoScheduleOpen(true)}
+          onImportRota={() => setRotaImportOpen(true)}
+          calendarView={calendarView}
+          onCalendarViewChange={setCalendarView}
+          onPrevMonth={calendarView === 'week' ? handlePrevWeek : handlePrevMonth}
+          onNextMonth={calendarView === 'week' ? handleNextWeek : handleNextMonth}
+          onToday={calendarView === 'week' ? handleGoToToday : handleToday}
           copiedWeekNumber={copiedWeek?.weekNumber}
           onClearClipboard={() => setCopiedWeek(null)}
         />
 
+        {monthSeasons.map(season => (
+          <SeasonBanner key={season.id} season={season} shiftCatalog={shiftCatalog} />
+        ))}
+
         <div id="calendar-container" className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          <div className="calendar-grid">
-            {DAYS.map((day, idx) => (
-              <div key={day} className={`py-3 text-center text-xs font-semibold text-gray-500 uppercase tracking-wider bg-gray-50 ${idx > 0 ? 'border-l border-gray-200' : ''}`}>{day}</div>
-            ))}
-            {schedule.days.map(day => (
-              <CalendarDay
-                key={format(day.date, 'yyyy-MM-dd')}
-                day={day}
-                staffMembers={dynamicStaff}
-                isEditMode={isEditMode}
-                editBuffer={editBuffer}
-                onEditBufferChange={handleEditBufferChange}
-                onWeekMenuClick={handleWeekMenuClick}
-              />
-            ))}
-          </div>
+          {calendarView === 'week' ? (
+            <WeekTimeline
+              days={schedule.days.slice(Math.floor(selectedDayIndex / 7) * 7, Math.floor(selectedDayIndex / 7) * 7 + 7)}
+              staffMembers={dynamicStaff}
+              shiftCatalog={shiftCatalog}
+              isEditMode={isEditMode}
+              editBuffer={editBuffer}
+              onEditBufferChange={handleEditBufferChange}
+              coverageByDay={coverageByDay}
+              tempRoles={tempRoles}
+            />
+          ) : (
+            <div className="calendar-grid">
+              {DAYS.map((day, idx) => (
+                <div key={day} className={`py-3 text-center text-xs font-semibold text-gray-500 uppercase tracking-wider bg-gray-50 ${idx > 0 ? 'border-l border-gray-200' : ''}`}>{day}</div>
+              ))}
+              {schedule.days.map(day => (
+                <CalendarDay
+                  key={format(day.date, 'yyyy-MM-dd')}
+                  day={day}
+                  staffMembers={dynamicStaff}
+                  shiftCatalog={shiftCatalog}
+                  isEditMode={isEditMode}
+                  editBuffer={editBuffer}
+                  onEditBufferChange={handleEditBufferChange}
+                  onWeekMenuClick={handleWeekMenuClick}
+                  onEditReplacement={setEditingReplacement}
+                  coverageViolations={coverageByDay[format(day.date, 'yyyy-MM-dd')]}
+                />
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Admin-only features: Staff Hours Overview */}
@@ -883,11 +1141,21 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
         {isReplacementModalOpen && (
           <ReplacementModal
             context={replacementContext}
+            temps={temps.filter(t => t.isActive)}
             onClose={() => setReplacementModalOpen(false)}
             onSave={handleSaveReplacement}
           />
         )}
 
+        {editingReplacement && (
+          <EditReplacementModal
+            replacement={editingReplacement}
+            onClose={() => setEditingReplacement(null)}
+            onSave={(start, end, breakHours) => handleUpdateReplacement(editingReplacement, start, end, breakHours)}
+            onDelete={() => handleDeleteReplacement(editingReplacement)}
+          />
+        )}
+
         {/* Login Modal */}
         <LoginModal
           isOpen={isLoginModalOpen}
@@ -895,6 +1163,76 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
           redirectTo={loginRedirectTo}
         />
 
+        {/* Leave Request Modal */}
+        <LeaveRequestModal
+          isOpen={isLeaveRequestModalOpen}
+          onClose={() => setLeaveRequestModalOpen(false)}
+          staffMembers={leaveRequestStaff}
+        />
+
+        {/* Publish Review Modal */}
+        <PublishReviewModal
+          isOpen={isPublishReviewOpen}
+          year={selectedYear}
+          month={selectedMonth}
+          onClose={() => setPublishReviewOpen(false)}
+          onConfirm={handleConfirmPublish}
+        />
+
+        {/* Publish History Modal */}
+        {isAdmin && (
+          <PublishHistoryModal
+            isOpen={isHistoryModalOpen}
+            year={selectedYear}
+            month={selectedMonth}
+            hasDraft={hasDraft}
+            onClose={() => setHistoryModalOpen(false)}
+            onRestored={refetch}
+          />
+        )}
+
+        {/* Auto-fill Rota Modal */}
+        {isAdmin && (
+          <AutoScheduleModal
+            isOpen={isAutoScheduleOpen}
+            year={selectedYear}
+            month={selectedMonth}
+            onClose={() => setAutoScheduleOpen(false)}
+            onApplied={refetch}
+          />
+        )}
+
+        {/* Import Rota Modal */}
+        {isAdmin && (
+          <RotaImportModal
+            isOpen={isRotaImportOpen}
+            year={selectedYear}
+            month={selectedMonth}
+            onClose={() => setRotaImportOpen(false)}
+            onApplied={refetch}
+          />
+        )}
+
+        {/* Payroll Export Modal */}
+        {isAdmin && (
+          <PayrollExportModal
+            isOpen={isPayrollExportOpen}
+            year={selectedYear}
+            month={selectedMonth}
+            onClose={() => setPayrollExportOpen(false)}
+          />
+        )}
+
+        {/* Printable PDF Modal */}
+        {isAdmin && (
+          <PdfExportModal
+            isOpen={isPdfExportOpen}
+            year={selectedYear}
+            month={selectedMonth}
+            onClose={() => setPdfExportOpen(false)}
+          />
+        )}
+
         {/* Maternity Leave Modal */}
         {maternityContext && (
           <MaternityLeaveModal
@@ -926,6 +1264,24 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
             }}
           />
         )}
+        {/* Part-day Leave Modal */}
+        {isPartialLeaveModalOpen && partialLeaveContext && (
+          <PartialLeaveModal
+            context={partialLeaveContext}
+            staffMembers={dynamicStaff}
+            shiftCatalog={shiftCatalog}
+            currentValue={editBuffer[partialLeaveContext.dayKey]?.[partialLeaveContext.staffId] || 'off'}
+            onClose={() => {
+              setPartialLeaveModalOpen(false);
+              setPartialLeaveContext(null);
+            }}
+            onApply={(key) => {
+              handleEditBufferChange(partialLeaveContext.dayKey, partialLeaveContext.staffId, key);
+              setPartialLeaveModalOpen(false);
+              setPartialLeaveContext(null);
+            }}
+          />
+        )}
 
         {/* Week Action Popup (Copy/Paste) */}
         {weekMenuOpen && (
@@ -947,7 +1303,7 @@ export default function Calendar({ mode = 'public', hideTitle = false, hideMobil
 // Sub-Components for a Cleaner Structure
 // ================================================================================================
 
-function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSelectedYear, isEditMode, isAdmin, hasDraft, onEnterEditMode, onSaveChanges, onCancelEdit, onPublish, onDiscardDraft, onDownloadCSV, onPrevMonth, onNextMonth, onToday, copiedWeekNumber, onClearClipboard }: {
+function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSelectedYear, isEditMode, isAdmin, hasDraft, onEnterEditMode, onSaveChanges, onCancelEdit, onPublish, onDiscardDraft, onDownloadCSV, onExportPayroll, onExportPdf, onShowHistory, onAutoSchedule, onImportRota, calendarView, onCalendarViewChange, onPrevMonth, onNextMonth, onToday, copiedWeekNumber, onClearClipboard }: {
   selectedMonth: number;
   setSelectedMonth: (month: number) => void;
   selectedYear: number;
@@ -961,6 +1317,13 @@ function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSel
   onPublish: () => void;
   onDiscardDraft: () => void;
   onDownloadCSV: () => void;
+  onExportPayroll: () => void;
+  onExportPdf: () => void;
+  onShowHistory: () => void;
+  onAutoSchedule: () => void;
+  onImportRota: () => void;
+  calendarView: 'month' | 'week';
+  onCalendarViewChange: (view: 'month' | 'week') => void;
   onPrevMonth: () => void;
   onNextMonth: () => void;
   onToday: () => void;
@@ -993,6 +1356,19 @@ function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSel
             </select>
             <ChevronDown className="absolute right-1 h-4 w-4 text-gray-500 pointer-events-none" />
           </div>
+          {/* View toggle: month grid or week timeline */}
+          <div className="inline-flex items-center ml-1 p-0.5 bg-[#f1f1ef] rounded-md">
+            {(['month', 'week'] as const).map(view => (
+              <button
+                key={view}
+                onClick={() => onCalendarViewChange(view)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded text-[13px] transition-colors ${calendarView === view ? 'bg-white text-[#37352f] shadow-sm' : 'text-[#91918e] hover:text-[#37352f]'}`}
+              >
+                {view === 'month' ? <CalendarDays size={13} /> : <GanttChart size={13} />}
+                {view === 'month' ? 'Month' : 'Week'}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Right: Navigation + Admin buttons */}
@@ -1028,6 +1404,37 @@ function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSel
                 <Download size={14}/>
                 <span>CSV</span>
               </button>
+              {/* PDF Button */}
+              <button onClick={onExportPdf} className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                <Printer size={14}/>
+                <span>PDF</span>
+              </button>
+              {/* Payroll Export Button */}
+              <button onClick={onExportPayroll} className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                <FileSpreadsheet size={14}/>
+                <span>Payroll</span>
+              </button>
+              {/* Publish History Button */}
+              {!isEditMode && (
+                <button onClick={onShowHistory} className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                  <History size={14}/>
+                  <span>History</span>
+                </button>
+              )}
+              {/* Auto-fill Rota Button */}
+              {!isEditMode && (
+                <button onClick={onAutoSchedule} className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                  <Wand2 size={14}/>
+                  <span>Auto-fill</span>
+                </button>
+              )}
+              {/* Import Rota Button */}
+              {!isEditMode && (
+                <button onClick={onImportRota} className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                  <Upload size={14}/>
+                  <span>Import</span>
+                </button>
+              )}
               {/* Draft Workflow Buttons */}
               {isEditMode ? (
                 /* State 1: Currently editing - Show Clipboard Badge + Save Draft + Cancel */
@@ -1078,13 +1485,16 @@ function CalendarToolbar({ selectedMonth, setSelectedMonth, selectedYear, setSel
   );
 }
 
-function CalendarDay({ day, staffMembers, isEditMode, editBuffer, onEditBufferChange, onWeekMenuClick }: {
+function CalendarDay({ day, staffMembers, shiftCatalog, isEditMode, editBuffer, onEditBufferChange, onWeekMenuClick, onEditReplacement, coverageViolations }: {
   day: DaySchedule,
   staffMembers: DatabaseStaffMember[],
+  shiftCatalog: ShiftCatalog,
   isEditMode: boolean,
   editBuffer: Record<string, Record<string, string>>,
   onEditBufferChange: (dayKey: string, staffId: string, value: string) => void,
-  onWeekMenuClick?: (e: React.MouseEvent, weekNumber: number) => void
+  onWeekMenuClick?: (e: React.MouseEvent, weekNumber: number) => void,
+  onEditReplacement?: (replacement: ReplacementShift) => void,
+  coverageViolations?: CoverageViolation[]
 }) {
   const dayKey = format(day.date, 'yyyy-MM-dd');
   const today = new Date();
@@ -1096,7 +1506,7 @@ function CalendarDay({ day, staffMembers, isEditMode, editBuffer, onEditBufferCh
   const activeStaff = staffMembers.filter(staff => day.staffShifts[staff.id] !== undefined);
 
   return (
-    <div className={`border-t border-l border-gray-100 p-2 md:p-3 min-h-[160px] md:min-h-[200px] ${day.isHoliday ? 'bg-red-50' : day.isCurrentMonth ? 'bg-white' : 'bg-gray-50/50'}`}>
+    <div className={`border-t border-l border-gray-100 p-2 md:p-3 min-h-[160px] md:min-h-[200px] ${day.isHoliday ? 'bg-red-50' : day.isCurrentMonth ? 'bg-white' : 'bg-gray-50/50'} ${coverageViolations ? 'ring-2 ring-inset ring-red-300' : ''}`}>
       <div className="flex justify-between items-start mb-2 md:mb-3">
         {/* Date number with blue circle for today */}
         {isToday ? (
@@ -1130,20 +1540,26 @@ function CalendarDay({ day, staffMembers, isEditMode, editBuffer, onEditBufferCh
             key={staff.id}
             staff={staff}
             day={day}
+            shiftCatalog={shiftCatalog}
             isEditMode={isEditMode}
             editValue={editBuffer[dayKey]?.[staff.id]}
             onEditChange={(value) => onEditBufferChange(dayKey, staff.id, value)}
           />
         ))}
         {(day.replacementShifts || []).map(rep => (
-          <ReplacementCard key={rep.id} replacement={rep} />
+          <ReplacementCard
+            key={rep.id}
+            replacement={rep}
+            onEdit={isEditMode && onEditReplacement ? () => onEditReplacement(rep) : undefined}
+          />
         ))}
       </div>
+      {coverageViolations && <CoverageWarning violations={coverageViolations} />}
     </div>
   );
 }
 
-function StaffCard({ staff, day, isEditMode, editValue, onEditChange }: { staff: DatabaseStaffMember, day: DaySchedule, isEditMode: boolean, editValue: string, onEditChange: (value: string) => void }) {
+function StaffCard({ staff, day, shiftCatalog, isEditMode, editValue, onEditChange }: { staff: DatabaseStaffMember, day: DaySchedule, shiftCatalog: ShiftCatalog, isEditMode: boolean, editValue: string, onEditChange: (value: string) => void }) {
   const staffShift = day.staffShifts[staff.id];
   // Use getStaffColors for dynamic color lookup (works for both legacy and new staff)
   const staffColors = getStaffColors(staff.id, staff.colorIndex);
@@ -1163,11 +1579,17 @@ function StaffCard({ staff, day, isEditMode, editValue, onEditChange }: { staff:
   const cardBg = isOff ? 'bg-gray-50' : colorTheme.bg;
   const cardText = isOff ? 'text-gray-400' : colorTheme.text;
 
+  // Show the rotation week once per calendar row (Monday)
+  const cycleLabel = day.dayOfWeek === 1 ? getCycleLabel(staffShift.cycleWeek) : null;
+
   return (
     <div className={`${cardBg} ${cardText} rounded-lg p-1.5 md:p-2 text-[10px] md:text-xs`}>
-      <div className="font-bold mb-0.5 md:mb-1 truncate">{staff.name}</div>
+      <div className="flex items-center justify-between gap-1 mb-0.5 md:mb-1">
+        <span className="font-bold truncate">{staff.name}</span>
+        {cycleLabel && <span className="text-[9px] md:text-[10px] opacity-60 whitespace-nowrap">{cycleLabel}</span>}
+      </div>
       {isEditMode ? (
-        <ShiftDropdown value={editValue} onChange={onEditChange} />
+        <ShiftDropdown value={editValue} onChange={onEditChange} shiftCatalog={shiftCatalog} />
       ) : (
         <ShiftDisplay staffShift={staffShift} staffId={staff.id} colorIndex={staff.colorIndex} />
       )}
@@ -1221,12 +1643,22 @@ function ShiftDisplay({ staffShift, staffId, colorIndex }: { staffShift: DaySche
           }}
         />
       </div>
+      {staffShift.partialLeave && (
+        <div className="mt-0.5 md:mt-1 font-bold text-orange-600 text-[9px] md:text-[10px]">
+          {describePartialLeave(staffShift.partialLeave)}
+        </div>
+      )}
     </div>
   );
 }
 
-function ShiftDropdown({ value, onChange }: { value: string, onChange: (value: string) => void }) {
-  const customParsed = isCustomTimeKey(value) ? parseCustomTimeKey(value) : null;
+function ShiftDropdown({ value, onChange, shiftCatalog }: { value: string, onChange: (value: string) => void, shiftCatalog: ShiftCatalog }) {
+  const partialParsed = parsePartialLeaveKey(value);
+  const customParsed = !partialParsed && isCustomTimeKey(value) ? parseCustomTimeKey(value) : null;
+  const partialShift = partialParsed ? shiftFromValue(partialParsed.shiftValue, shiftCatalog) : null;
+  const offered = offeredShiftKeys(shiftCatalog);
+  // A retired shift type only appears while the cell still uses it
+  const retiredShift = shiftCatalog[value]?.retired ? shiftCatalog[value] : null;
 
   return (
     <select value={value} onChange={e => onChange(e.target.value)} className="w-full p-1 border-gray-300 rounded-md text-xs bg-white/50">
@@ -1239,19 +1671,28 @@ function ShiftDropdown({ value, onChange }: { value: string, onChange: (value: s
         <option value="leave_el">Emergency Leave</option>
         <option value="leave_ml">Medical Leave</option>
         <option value="leave_mat">Maternity Leave (98 days)...</option>
+        <option value="partial_leave_picker">Part-day Leave...</option>
+        {partialParsed && (
+          <option value={value}>
+            {`✎ ${describePartialLeave(partialParsed.partialLeave)}${partialShift ? ` · ${partialShift.startTime}-${partialShift.endTime}` : ''}`}
+          </option>
+        )}
       </optgroup>
       <optgroup label="Actions">
          <option value="add_replacement">Add Replacement...</option>
       </optgroup>
       <optgroup label="Shifts">
-        {Object.keys(SHIFT_DEFINITIONS).filter(key => !RAMADAN_SHIFT_KEYS.has(key)).map(key => {
-          const shift = SHIFT_DEFINITIONS[key];
+        {offered.filter(key => !shiftCatalog[key].seasonal).map(key => {
+          const shift = shiftCatalog[key];
           return <option key={key} value={key}>{`${shift.type} (${shift.startTime}-${shift.endTime})`}</option>
         })}
+        {retiredShift && (
+          <option value={value}>{`${retiredShift.type} (${retiredShift.startTime}-${retiredShift.endTime}) - retired`}</option>
+        )}
       </optgroup>
-      <optgroup label="Ramadan">
-        {Object.keys(SHIFT_DEFINITIONS).filter(key => RAMADAN_SHIFT_KEYS.has(key)).map(key => {
-          const shift = SHIFT_DEFINITIONS[key];
+      <optgroup label="Seasonal">
+        {offered.filter(key => shiftCatalog[key].seasonal).map(key => {
+          const shift = shiftCatalog[key];
           return <option key={key} value={key}>{`${shift.type} (${shift.startTime}-${shift.endTime})`}</option>
         })}
       </optgroup>
@@ -1340,8 +1781,8 @@ function ClipboardBadge({ weekNumber, onClear }: { weekNumber: number; onClear:
   );
 }
 
-function ReplacementModal({ context, onClose, onSave }: { context: { dayKey: string; staffId: string } | null, onClose: () => void, onSave: (name: string, start: string, end: string, breakHours: string) => void}) {
-  const [name, setName] = useState('');
+function ReplacementModal({ context, temps, onClose, onSave }: { context: { dayKey: string; staffId: string } | null, temps: TempStaffMember[], onClose: () => void, onSave: (temp: TempStaffMember | null, start: string, end: string, breakHours: string) => void}) {
+  const [tempId, setTempId] = useState('');
   const [startTime, setStartTime] = useState('09:00');
   const [endTime, setEndTime] = useState('17:00');
   const [breakHours, setBreakHours] = useState('1'); // Default break is 1 hour
@@ -1357,7 +1798,13 @@ function ReplacementModal({ context, onClose, onSave }: { context: { dayKey: str
         </div>
         <p className="text-xs md:text-sm text-gray-600 mb-3 md:mb-4">You are adding a replacement for <strong>{staffName}</strong> on <strong>{context && format(new Date(context.dayKey), 'EEE, MMM d')}</strong>. Their shift will be set to &apos;Off&apos;.</p>
         <div className="space-y-3 md:space-y-4">
-          <input type="text" placeholder="Temporary Staff Name" value={name} onChange={e => setName(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"/>
+          <select value={tempId} onChange={e => setTempId(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm">
+            <option value="">Choose a temp...</option>
+            {temps.map(t => <option key={t.id} value={t.id}>{t.name} ({t.qualification})</option>)}
+          </select>
+          {temps.length === 0 && (
+            <p className="text-xs text-amber-700">No temps in the registry yet. An admin can add them under the Temps tab.</p>
+          )}
           <div className="flex gap-2 md:gap-4">
             <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"/>
             <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"/>
@@ -1378,7 +1825,62 @@ function ReplacementModal({ context, onClose, onSave }: { context: { dayKey: str
         </div>
         <div className="flex gap-2 md:gap-3 mt-4 md:mt-6">
           <button onClick={onClose} className="w-full p-2 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 text-sm">Cancel</button>
-          <button onClick={() => onSave(name, startTime, endTime, breakHours)} className="flex-1 px-3 md:px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">Save</button>
+          <button onClick={() => onSave(temps.find(t => t.id === tempId) || null, startTime, endTime, breakHours)} disabled={!tempId} className="flex-1 px-3 md:px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50">Save</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function EditReplacementModal({ replacement, onClose, onSave, onDelete }: {
+  replacement: ReplacementShift;
+  onClose: () => void;
+  onSave: (start: string, end: string, breakHours: string) => void;
+  onDelete: () => void;
+}) {
+  const [startTime, setStartTime] = useState(replacement.startTime);
+  const [endTime, setEndTime] = useState(replacement.endTime);
+  const [breakHours, setBreakHours] = useState(String(replacementBreakHours(replacement)));
+
+  const staffName = STAFF_MEMBERS.find(s => s.id === replacement.originalStaffId)?.name || replacement.originalStaffId;
+  const isValid = timeToMinutes(endTime) > timeToMinutes(startTime);
+  const workHours = isValid ? replacementWorkHours(startTime, endTime, parseFloat(breakHours) || 0) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-2xl p-4 md:p-6 w-full max-w-sm">
+        <div className="flex items-center gap-2 mb-3 md:mb-4">
+          <UserPlus className="text-blue-600 w-5 h-5 md:w-6 md:h-6" />
+          <h3 className="text-base md:text-lg font-bold text-gray-800">Edit Replacement</h3>
+        </div>
+        <p className="text-xs md:text-sm text-gray-600 mb-3 md:mb-4"><strong>{replacement.tempStaffName}</strong> covering <strong>{staffName}</strong>.</p>
+        <div className="space-y-3 md:space-y-4">
+          <div className="flex gap-2 md:gap-4">
+            <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"/>
+            <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"/>
+          </div>
+          <div>
+            <label htmlFor="edit-break-hours" className="block text-xs md:text-sm font-medium text-gray-700">Break (hours)</label>
+            <input
+              type="number"
+              id="edit-break-hours"
+              value={breakHours}
+              onChange={e => setBreakHours(e.target.value)}
+              className="w-full p-2 border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 mt-1 text-sm"
+              step="0.5"
+              min="0"
+            />
+          </div>
+          <div className="text-sm text-gray-600">
+            Work Hours: <strong className="font-mono">{isValid ? `${workHours}h` : '—'}</strong>
+          </div>
+        </div>
+        <div className="flex gap-2 md:gap-3 mt-4 md:mt-6">
+          <button onClick={onDelete} className="p-2 rounded-md text-red-600 hover:bg-red-50" title="Remove replacement">
+            <Trash2 size={18} />
+          </button>
+          <button onClick={onClose} className="w-full p-2 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 text-sm">Cancel</button>
+          <button onClick={() => onSave(startTime, endTime, breakHours)} disabled={!isValid} className="flex-1 px-3 md:px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50">Save</button>
         </div>
       </div>
     </div>
@@ -1466,12 +1968,191 @@ function CustomTimeModal({ context, staffMembers, onClose, onApply }: {
   );
 }
 
-function ReplacementCard({ replacement }: { replacement: ReplacementShift }) {
+// Leave for part of a day: the leave portion plus the hours still worked
+function PartialLeaveModal({ context, staffMembers, shiftCatalog, currentValue, onClose, onApply }: {
+  context: { dayKey: string; staffId: string } | null;
+  staffMembers: (StaffMember | DatabaseStaffMember)[];
+  shiftCatalog: ShiftCatalog;
+  currentValue: string;
+  onClose: () => void;
+  onApply: (value: string) => void;
+}) {
+  // Start from the part-day leave or shift already in the cell
+  const current = parsePartialLeaveKey(currentValue);
+  const currentShift = shiftFromValue(current ? current.shiftValue : currentValue, shiftCatalog);
+  const [leaveType, setLeaveType] = useState<PartialLeave['leaveType']>(current?.partialLeave.leaveType || 'AL');
+  const [portion, setPortion] = useState<PartialLeave['portion']>(current?.partialLeave.portion || 'am');
+  const [leaveHours, setLeaveHours] = useState(String(current?.partialLeave.hours ?? ''));
+  const [startTime, setStartTime] = useState(currentShift?.startTime || '09:15');
+  const [endTime, setEndTime] = useState(currentShift?.endTime || '18:00');
+
+  const staffName = context ? (staffMembers.find(s => s.id === context.staffId)?.name || STAFF_MEMBERS.find(s => s.id === context.staffId)?.name) : '';
+  const dateLabel = context ? format(new Date(context.dayKey + 'T00:00:00'), 'EEE, MMM d') : '';
+
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+  const workHours = endMinutes > startMinutes
+    ? Math.round((endMinutes - startMinutes) / 60 * 10) / 10
+    : 0;
+  const hours = Number(leaveHours);
+
+  const isTimeValid = endMinutes > startMinutes
+    && startMinutes >= timeToMinutes('09:15')
+    && endMinutes <= timeToMinutes('21:45');
+  const isValid = isTimeValid && (portion !== 'hours' || hours > 0);
+
+  const handleApply = () => {
+    const shiftKey = valueForTimes(startTime, endTime, shiftCatalog);
+    onApply(makePartialLeaveKey(shiftKey, { leaveType, portion, hours: portion === 'hours' ? hours : null }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-2xl p-4 md:p-6 w-full max-w-sm">
+        <div className="flex items-center gap-2 mb-3 md:mb-4">
+          <Clock className="text-orange-600 w-5 h-5 md:w-6 md:h-6" />
+          <h3 className="text-base md:text-lg font-bold text-gray-800">Part-day Leave</h3>
+        </div>
+        <p className="text-xs md:text-sm text-gray-600 mb-3">
+          <strong>{staffName}</strong> · {dateLabel}
+        </p>
+        <div className="space-y-3">
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Leave type</label>
+              <select
+                value={leaveType}
+                onChange={e => setLeaveType(e.target.value as PartialLeave['leaveType'])}
+                className="w-full p-2 border border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {PARTIAL_LEAVE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Portion</label>
+              <select
+                value={portion}
+                onChange={e => setPortion(e.target.value as PartialLeave['portion'])}
+                className="w-full p-2 border border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {Object.entries(LEAVE_PORTION_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+          {portion === 'hours' && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Leave hours</label>
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={leaveHours}
+                onChange={e => setLeaveHours(e.target.value)}
+                className="w-full p-2 border border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+          )}
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Working from</label>
+              <input
+                type="time"
+                value={startTime}
+                min="09:15"
+                max="21:45"
+                onChange={e => setStartTime(e.target.value)}
+                className="w-full p-2 border border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Until</label>
+              <input
+                type="time"
+                value={endTime}
+                min="09:15"
+                max="21:45"
+                onChange={e => setEndTime(e.target.value)}
+                className="w-full p-2 border border-gray-300 text-gray-900 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+          </div>
+          <div className="text-sm text-gray-700">
+            Work Hours: <strong className="font-mono">{workHours > 0 ? `${workHours}h` : '—'}</strong>
+          </div>
+          {!isTimeValid && startTime && endTime && (
+            <p className="text-xs text-red-500">End time must be after start time, within 09:15–21:45</p>
+          )}
+          {portion === 'hours' && !(hours > 0) && (
+            <p className="text-xs text-red-500">Enter the hours of leave taken</p>
+          )}
+        </div>
+        <div className="flex gap-2 md:gap-3 mt-4 md:mt-6">
+          <button onClick={onClose} className="w-full p-2 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 text-sm">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!isValid}
+            className="flex-1 px-3 md:px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Understaffed periods for a day, from the coverage rules
+// Which pattern shifts a season swaps, shown above the month it falls in
+function SeasonBanner({ season, shiftCatalog }: { season: ShiftSeason; shiftCatalog: ShiftCatalog }) {
+  const shiftLabel = (key: string) => {
+    const shift = shiftCatalog[key];
+    return shift ? `${shift.type} (${shift.startTime}-${shift.endTime})` : key;
+  };
+  const dates = `${format(new Date(season.startDate + 'T00:00:00'), 'MMM d')} - ${format(new Date(season.endDate + 'T00:00:00'), 'MMM d, yyyy')}`;
+
+  return (
+    <div className="mb-4 flex items-start gap-2 px-4 py-3 rounded-xl border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+      <Moon size={16} className="flex-shrink-0 mt-0.5" />
+      <div>
+        <span className="font-semibold">{season.name}</span>
+        <span className="ml-2 text-amber-700">{dates}</span>
+        <div className="text-xs text-amber-700 mt-0.5">
+          Pattern shifts switch to seasonal times: {Object.entries(season.shiftMap).map(([from, to]) => `${shiftLabel(from)} → ${shiftLabel(to)}`).join(', ')}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CoverageWarning({ violations }: { violations: CoverageViolation[] }) {
+  return (
+    <div className="mt-2 space-y-0.5" title={violations.map(describeViolation).join('\n')}>
+      {violations.map((v, i) => (
+        <div key={i} className="flex items-start gap-1 text-[10px] md:text-xs text-red-600 font-medium">
+          <AlertTriangle size={12} className="flex-shrink-0 mt-px" />
+          <span>{describeViolation(v)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ReplacementCard({ replacement, onEdit }: { replacement: ReplacementShift, onEdit?: () => void }) {
   return (
     <div className="bg-gray-100 border-l-4 border-gray-400 rounded-lg p-1.5 md:p-2 text-[10px] md:text-xs text-gray-700">
       <div className="font-bold flex justify-between mb-0.5 md:mb-0">
         <span className="truncate">{replacement.tempStaffName}</span>
-        <span className="text-gray-500 italic text-[9px] md:text-xs">Temp</span>
+        {onEdit ? (
+          <button
+            onClick={onEdit}
+            className="p-0.5 text-gray-500 hover:text-blue-600 hover:bg-gray-200 rounded transition-colors"
+            title="Edit or remove replacement"
+          >
+            <Pencil size={12} />
+          </button>
+        ) : (
+          <span className="text-gray-500 italic text-[9px] md:text-xs">Temp</span>
+        )}
       </div>
       <div>
         {/* Time text row */}
@@ -1494,6 +2175,263 @@ function ReplacementCard({ replacement }: { replacement: ReplacementShift }) {
   )
 }
 
+// ================================================================================================
+// Week Timeline View
+// ================================================================================================
+
+// Shortest shift a bar can be dragged down to, and the drag step (minutes)
+const MIN_DRAG_MINUTES = 30;
+const DRAG_STEP_MINUTES = 15;
+
+interface TimelineBar {
+  id: string;
+  label: string;
+  startTime: string;
+  endTime: string;
+  barColor: string;
+  isPharmacist: boolean;
+  note?: string;
+  staffId?: string; // set for staff bars, which can be resized in edit mode
+  editValue?: string;
+}
+
+function WeekTimeline({ days, staffMembers, shiftCatalog, isEditMode, editBuffer, onEditBufferChange, coverageByDay, tempRoles }: {
+  days: DaySchedule[];
+  staffMembers: DatabaseStaffMember[];
+  shiftCatalog: ShiftCatalog;
+  isEditMode: boolean;
+  editBuffer: Record<string, Record<string, string>>;
+  onEditBufferChange: (dayKey: string, staffId: string, value: string) => void;
+  coverageByDay: Record<string, CoverageViolation[]>;
+  tempRoles: Record<string, string>;
+}) {
+  const [drag, setDrag] = useState<{ dayKey: string; staffId: string; editValue: string; edge: 'start' | 'end'; start: number; end: number } | null>(null);
+  const trackRectRef = useRef<DOMRect | null>(null);
+
+  const hourMarks = useMemo(() => {
+    const marks: number[] = [];
+    for (let m = Math.ceil(TIMELINE_START / 60) * 60; m < TIMELINE_END; m += 60) marks.push(m);
+    return marks;
+  }, []);
+
+  // Bars for a day, from the edit buffer while editing, plus who is off or on leave
+  const getDayBars = (day: DaySchedule) => {
+    const dayKey = format(day.date, 'yyyy-MM-dd');
+    const bars: TimelineBar[] = [];
+    const away: string[] = [];
+
+    staffMembers.forEach(staff => {
+      const staffShift = day.staffShifts[staff.id];
+      if (!staffShift) return;
+      let shift = staffShift.shift;
+      let leaveType: string | null = staffShift.isLeave ? staffShift.leaveType || 'Leave' : null;
+      let partialLeave = staffShift.partialLeave;
+      const editValue = isEditMode ? editBuffer[dayKey]?.[staff.id] : undefined;
+      if (editValue) {
+        const partial = parsePartialLeaveKey(editValue);
+        leaveType = editValue.startsWith('leave_') ? editValue.slice('leave_'.length).toUpperCase() : null;
+        shift = leaveType ? null : shiftFromValue(partial?.shiftValue || editValue, shiftCatalog);
+        partialLeave = partial?.partialLeave;
+      }
+
+      if (leaveType) {
+        away.push(`${staff.name} (${leaveType})`);
+      } else if (!shift) {
+        away.push(`${staff.name} (Off)`);
+      } else {
+        bars.push({
+          id: staff.id,
+          label: staff.name,
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          barColor: getStaffColors(staff.id, staff.colorIndex).bar,
+          isPharmacist: staff.role === 'Pharmacist',
+          note: partialLeave ? describePartialLeave(partialLeave) : undefined,
+          staffId: staff.id,
+          editValue,
+        });
+      }
+    });
+
+    (day.replacementShifts || []).forEach(rep => {
+      const original = staffMembers.find(s => s.id === rep.originalStaffId);
+      bars.push({
+        id: rep.id,
+        label: rep.tempStaffName,
+        startTime: rep.startTime,
+        endTime: rep.endTime,
+        barColor: 'bg-gray-500',
+        // Same role as coverage checks: a registry temp's qualification, else the replaced person's role
+        isPharmacist: ((rep.tempStaffId && tempRoles[rep.tempStaffId]) || original?.role) === 'Pharmacist',
+        note: original ? `Temp for ${original.name}` : 'Temp',
+      });
+    });
+
+    return { dayKey, bars, away };
+  };
+
+  // Snap a pointer position on the track to the drag step
+  const minutesAt = (clientX: number) => {
+    const rect = trackRectRef.current;
+    if (!rect) return TIMELINE_START;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round((TIMELINE_START + ratio * TIMELINE_DURATION) / DRAG_STEP_MINUTES) * DRAG_STEP_MINUTES;
+  };
+
+  const handleDragStart = (e: React.PointerEvent<HTMLDivElement>, dayKey: string, bar: TimelineBar, edge: 'start' | 'end') => {
+    if (!bar.staffId || !bar.editValue) return;
+    e.preventDefault();
+    e.stopPropagation();
+    trackRectRef.current = e.currentTarget.closest('[data-timeline-track]')?.getBoundingClientRect() || null;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({
+      dayKey,
+      staffId: bar.staffId,
+      editValue: bar.editValue,
+      edge,
+      start: timeToMinutes(bar.startTime),
+      end: timeToMinutes(bar.endTime),
+    });
+  };
+
+  const handleDragMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const minutes = minutesAt(e.clientX);
+    setDrag(drag.edge === 'start'
+      ? { ...drag, start: Math.min(minutes, drag.end - MIN_DRAG_MINUTES) }
+      : { ...drag, end: Math.max(minutes, drag.start + MIN_DRAG_MINUTES) });
+  };
+
+  // Store the new times as a catalog shift when they match one, otherwise as a custom time that
+  // keeps the dragged shift's break, so shortening a shift never adds paid hours
+  const handleDragEnd = () => {
+    if (!drag) return;
+    setDrag(null);
+    const startTime = minutesToTime(drag.start);
+    const endTime = minutesToTime(drag.end);
+    const partial = parsePartialLeaveKey(drag.editValue);
+    const currentShift = shiftFromValue(partial?.shiftValue || drag.editValue, shiftCatalog);
+    if (currentShift?.startTime === startTime && currentShift.endTime === endTime) return;
+
+    const breakHours = currentShift
+      ? spanWorkHours(currentShift.startTime, currentShift.endTime) - currentShift.workHours
+      : 0;
+    const shiftValue = valueForTimes(startTime, endTime, shiftCatalog, Math.max(0, breakHours));
+    onEditBufferChange(drag.dayKey, drag.staffId, partial ? makePartialLeaveKey(shiftValue, partial.partialLeave) : shiftValue);
+  };
+
+  const percentOf = (minutes: number) => ((minutes - TIMELINE_START) / TIMELINE_DURATION) * 100;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="select-none">
+      {/* Hour ruler */}
+      <div className="flex bg-gray-50 border-b border-gray-200">
+        <div className="w-40 flex-shrink-0 py-3 px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+          W{days[0] ? getISOWeek(days[0].date) : ''}
+        </div>
+        <div className="flex-1 relative h-10 mx-4">
+          <span className="absolute left-0 top-3 text-[10px] font-mono text-gray-400">{minutesToTime(TIMELINE_START)}</span>
+          {hourMarks.map(m => (
+            <span key={m} className="absolute top-3 -translate-x-1/2 text-[10px] font-mono text-gray-500" style={{ left: `${percentOf(m)}%` }}>
+              {minutesToTime(m)}
+            </span>
+          ))}
+          <span className="absolute right-0 top-3 text-[10px] font-mono text-gray-400">{minutesToTime(TIMELINE_END)}</span>
+        </div>
+      </div>
+
+      {days.map(day => {
+        const { dayKey, bars, away } = getDayBars(day);
+        const pharmacistGaps = day.isHoliday ? [] : findTimelineGaps(
+          bars.filter(bar => bar.isPharmacist).map(bar => ({ start: timeToMinutes(bar.startTime), end: timeToMinutes(bar.endTime) }))
+        );
+        const violations = coverageByDay[dayKey];
+
+        return (
+          <div key={dayKey} className={`flex border-b border-gray-100 last:border-b-0 ${day.isHoliday ? 'bg-red-50' : day.isCurrentMonth ? 'bg-white' : 'bg-gray-50/50'}`}>
+            {/* Day label */}
+            <div className="w-40 flex-shrink-0 py-3 px-4">
+              <div className={`text-sm font-semibold ${dayKey === today ? 'text-blue-600' : day.isCurrentMonth ? 'text-gray-700' : 'text-gray-400'}`}>
+                {format(day.date, 'EEE d MMM')}
+              </div>
+              {day.isHoliday && (
+                <div className="text-xs text-red-500 font-medium truncate" title={day.holidayName}>{day.holidayName}</div>
+              )}
+              {violations && (
+                <div className="flex items-center gap-1 mt-1 text-[11px] text-red-600" title={violations.map(describeViolation).join('\n')}>
+                  <AlertTriangle size={12} />
+                  <span>Below minimum staffing</span>
+                </div>
+              )}
+            </div>
+
+            {/* Timeline */}
+            <div className="flex-1 py-3 mx-4 min-w-0">
+              <div data-timeline-track className="relative space-y-1 min-h-[24px]">
+                {/* Hour gridlines */}
+                {hourMarks.map(m => (
+                  <div key={m} className="absolute inset-y-0 border-l border-gray-100" style={{ left: `${percentOf(m)}%` }} />
+                ))}
+                {/* Shade periods without a Pharmacist on duty */}
+                {pharmacistGaps.map(gap => (
+                  <div
+                    key={gap.start}
+                    className="absolute inset-y-0 bg-red-100/70 border-x border-red-200"
+                    style={{ left: `${percentOf(gap.start)}%`, width: `${percentOf(gap.end) - percentOf(gap.start)}%` }}
+                    title={`No Pharmacist ${minutesToTime(gap.start)}–${minutesToTime(gap.end)}`}
+                  />
+                ))}
+
+                {bars.map(bar => {
+                  const isDragging = drag?.dayKey === dayKey && drag.staffId === bar.staffId;
+                  const startTime = isDragging ? minutesToTime(drag.start) : bar.startTime;
+                  const endTime = isDragging ? minutesToTime(drag.end) : bar.endTime;
+                  const canResize = isEditMode && !!bar.staffId && !!bar.editValue;
+
+                  return (
+                    <div key={bar.id} className="relative h-6">
+                      <div
+                        className={`absolute inset-y-0 flex items-center rounded ${bar.barColor} ${bar.staffId ? '' : 'opacity-80 border border-dashed border-gray-700'} ${isDragging ? 'ring-2 ring-blue-300' : ''}`}
+                        style={{ left: `${calculateBarStart(startTime)}%`, width: `${calculateBarWidth(startTime, endTime)}%` }}
+                        title={`${bar.label} ${startTime}-${endTime}${bar.note ? ` · ${bar.note}` : ''}`}
+                      >
+                        <span className="px-2 text-[11px] font-medium text-white truncate">
+                          {bar.label} <span className="font-mono opacity-80">{startTime}-{endTime}</span>
+                          {bar.note && <span className="opacity-80"> · {bar.note}</span>}
+                        </span>
+                        {canResize && (['start', 'end'] as const).map(edge => (
+                          <div
+                            key={edge}
+                            onPointerDown={e => handleDragStart(e, dayKey, bar, edge)}
+                            onPointerMove={handleDragMove}
+                            onPointerUp={handleDragEnd}
+                            onPointerCancel={() => setDrag(null)}
+                            className={`absolute inset-y-0 w-2 cursor-ew-resize bg-black/10 hover:bg-black/30 ${edge === 'start' ? 'left-0 rounded-l' : 'right-0 rounded-r'}`}
+                            title={edge === 'start' ? 'Drag to change the start time' : 'Drag to change the end time'}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                {bars.length === 0 && (
+                  <div className="relative h-6 flex items-center text-xs text-gray-400">No one on duty</div>
+                )}
+              </div>
+              {away.length > 0 && (
+                <div className="mt-1.5 text-[11px] text-gray-500 truncate" title={away.join(', ')}>
+                  {away.join(', ')}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // ================================================================================================
 // Mobile View Components
 // ================================================================================================
@@ -1509,6 +2447,7 @@ function getShiftLabel(shift: ShiftDefinition | null): string {
 interface MobileViewProps {
   schedule: MonthSchedule;
   staffMembers: DatabaseStaffMember[];
+  shiftCatalog: ShiftCatalog;
   selectedDayIndex: number;
   setSelectedDayIndex: (index: number) => void;
   currentWeekNumber: number;
@@ -1523,6 +2462,7 @@ interface MobileViewProps {
   onGoToToday: () => void;
   mode: 'public' | 'admin';
   onLoginClick: () => void;
+  onRequestLeaveClick: () => void;
   hideMobileLogout?: boolean;
   // Edit mode props
   isEditMode: boolean;
@@ -1536,11 +2476,15 @@ interface MobileViewProps {
   onEditBufferChange: (dayKey: string, staffId: string, value: string) => void;
   onMobileTabChange?: (tab: Tab) => void;
   onOpenMaternityModal: (dayKey: string, staffId: string) => void;
+  onUpdateReplacement: (replacement: ReplacementShift, start: string, end: string, breakHours: string) => Promise<void>;
+  onDeleteReplacement: (replacement: ReplacementShift) => Promise<void>;
+  coverageByDay: Record<string, CoverageViolation[]>;
 }
 
 function MobileView({
   schedule,
   staffMembers,
+  shiftCatalog,
   selectedDayIndex,
   setSelectedDayIndex,
   currentWeekNumber,
@@ -1555,6 +2499,7 @@ function MobileView({
   onGoToToday,
   mode,
   onLoginClick,
+  onRequestLeaveClick,
   isEditMode,
   editBuffer,
   hasDraft,
@@ -1566,6 +2511,9 @@ function MobileView({
   onEditBufferChange,
   onMobileTabChange,
   onOpenMaternityModal,
+  onUpdateReplacement,
+  onDeleteReplacement,
+  coverageByDay,
 }: MobileViewProps) {
   const { logout } = useAuth();
   const router = useRouter();
@@ -1656,6 +2604,11 @@ function MobileView({
     if (bufferValue.startsWith('leave_')) {
       return bufferValue.split('_')[1].toUpperCase();
     }
+    // Part-day leave highlights the shift it shortens
+    const partial = parsePartialLeaveKey(bufferValue);
+    if (partial) {
+      return partial.shiftValue;
+    }
     // Pass custom keys through as-is
     return bufferValue;
   };
@@ -1669,6 +2622,7 @@ function MobileView({
       <MobileHeader
         mode={mode}
         onLoginClick={onLoginClick}
+        onRequestLeaveClick={onRequestLeaveClick}
         isEditMode={isEditMode}
         hasDraft={hasDraft}
       />
@@ -1685,7 +2639,7 @@ function MobileView({
       />
 
       {/* Day Header */}
-      <MobileDayHeader day={selectedDay} weekNumber={currentWeekNumber} />
+      <MobileDayHeader day={selectedDay} weekNumber={currentWeekNumber} coverageViolations={coverageByDay[dayKey]} />
 
       {/* Staff Cards */}
       <div className="px-4 space-y-3 mt-3">
@@ -1695,6 +2649,7 @@ function MobileView({
             key={staff.id}
             staff={staff}
             staffShift={selectedDay.staffShifts[staff.id]}
+            shiftCatalog={shiftCatalog}
             isEditMode={isEditMode}
             editValue={editBuffer[dayKey]?.[staff.id]}
             onTap={() => handleStaffCardTap(staff)}
@@ -1741,9 +2696,13 @@ function MobileView({
           onClose={() => setSelectedStaffForEdit(null)}
           staff={selectedStaffForEdit.staff}
           currentValue={getCurrentShiftValue()}
+          shiftCatalog={shiftCatalog}
           onSelect={handleShiftSelect}
           onMaternitySelect={handleMaternitySelect}
           onCustomTimeSelect={handleCustomTimeSelect}
+          replacements={(selectedDay.replacementShifts || []).filter(rep => rep.originalStaffId === selectedStaffForEdit.staff.id)}
+          onReplacementUpdate={onUpdateReplacement}
+          onReplacementDelete={onDeleteReplacement}
         />
       )}
     </div>
@@ -1753,6 +2712,7 @@ function MobileView({
 interface MobileHeaderProps {
   mode: 'public' | 'admin';
   onLoginClick: () => void;
+  onRequestLeaveClick: () => void;
   isEditMode: boolean;
   hasDraft: boolean;
 }
@@ -1760,6 +2720,7 @@ interface MobileHeaderProps {
 function MobileHeader({
   mode,
   onLoginClick,
+  onRequestLeaveClick,
   isEditMode,
   hasDraft,
 }: MobileHeaderProps) {
@@ -1781,14 +2742,23 @@ function MobileHeader({
         )}
       </div>
 
-      {/* Right: Login button for public mode only */}
+      {/* Right: Leave request and login buttons for public mode only */}
       {!isAdminMode && (
-        <button
-          onClick={onLoginClick}
-          className="p-2 text-[#91918e] hover:bg-[#f1f1ef] rounded-full transition-colors"
-        >
-          <User size={22} />
-        </button>
+        <div className="flex items-center">
+          <button
+            onClick={onRequestLeaveClick}
+            className="p-2 text-[#91918e] hover:bg-[#f1f1ef] rounded-full transition-colors"
+            title="Request Leave"
+          >
+            <CalendarCheck size={22} />
+          </button>
+          <button
+            onClick={onLoginClick}
+            className="p-2 text-[#91918e] hover:bg-[#f1f1ef] rounded-full transition-colors"
+          >
+            <User size={22} />
+          </button>
+        </div>
       )}
     </div>
   );
@@ -1849,7 +2819,7 @@ function MobileControls({
   );
 }
 
-function MobileDayHeader({ day, weekNumber }: { day: DaySchedule; weekNumber: number }) {
+function MobileDayHeader({ day, weekNumber, coverageViolations }: { day: DaySchedule; weekNumber: number; coverageViolations?: CoverageViolation[] }) {
   return (
     <div className="px-4 py-3 bg-gray-100 border-b border-gray-200">
       <div className="flex items-center justify-between">
@@ -1863,6 +2833,13 @@ function MobileDayHeader({ day, weekNumber }: { day: DaySchedule; weekNumber: nu
           {day.holidayName}
         </div>
       )}
+      {day.seasonName && (
+        <div className="mt-1 flex items-center gap-1 text-sm text-amber-700 font-medium">
+          <Moon size={14} />
+          {day.seasonName}
+        </div>
+      )}
+      {coverageViolations && <CoverageWarning violations={coverageViolations} />}
     </div>
   );
 }
@@ -1870,12 +2847,13 @@ function MobileDayHeader({ day, weekNumber }: { day: DaySchedule; weekNumber: nu
 interface MobileStaffCardProps {
   staff: DatabaseStaffMember;
   staffShift: DaySchedule['staffShifts'][string];
+  shiftCatalog: ShiftCatalog;
   isEditMode?: boolean;
   editValue?: string;
   onTap?: () => void;
 }
 
-function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onTap }: MobileStaffCardProps) {
+function MobileStaffCard({ staff, staffShift, shiftCatalog, isEditMode = false, editValue, onTap }: MobileStaffCardProps) {
   // Use getStaffColors for dynamic color lookup (works for both legacy and new staff)
   const staffColors = getStaffColors(staff.id, staff.colorIndex);
   const avatarColors = staffColors.avatar;
@@ -1885,9 +2863,16 @@ function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onT
   let displayShift = staffShift.shift;
   let displayIsLeave = staffShift.isLeave;
   let displayLeaveType = staffShift.leaveType;
+  let displayPartialLeave = staffShift.partialLeave;
 
   if (isEditMode && editValue) {
-    if (editValue === 'off') {
+    const partial = parsePartialLeaveKey(editValue);
+    displayPartialLeave = partial?.partialLeave;
+    if (partial) {
+      displayShift = shiftFromValue(partial.shiftValue, shiftCatalog);
+      displayIsLeave = false;
+      displayLeaveType = undefined;
+    } else if (editValue === 'off') {
       displayShift = null;
       displayIsLeave = false;
       displayLeaveType = undefined;
@@ -1902,8 +2887,8 @@ function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onT
       }
       displayIsLeave = false;
       displayLeaveType = undefined;
-    } else if (SHIFT_DEFINITIONS[editValue]) {
-      displayShift = SHIFT_DEFINITIONS[editValue];
+    } else if (shiftCatalog[editValue]) {
+      displayShift = shiftCatalog[editValue];
       displayIsLeave = false;
       displayLeaveType = undefined;
     }
@@ -1911,6 +2896,7 @@ function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onT
 
   const isOff = !displayShift && !displayIsLeave;
   const isLeave = displayIsLeave;
+  const cycleLabel = getCycleLabel(staffShift.cycleWeek);
   const isNotWorking = isOff || isLeave;
 
   // Badge styling - monospace for hours, muted for status
@@ -1950,9 +2936,10 @@ function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onT
             <span className={`text-white font-semibold ${avatarTextSize}`}>{initials}</span>
           </div>
 
-          {/* Name only */}
+          {/* Name and rotation week */}
           <div className="flex-1 min-w-0">
             <h3 className="font-medium text-gray-500 truncate">{staff.name}</h3>
+            {cycleLabel && <p className="text-[11px] text-gray-400">{cycleLabel}</p>}
           </div>
 
           {/* Status badge + Edit indicator */}
@@ -1986,7 +2973,11 @@ function MobileStaffCard({ staff, staffShift, isEditMode = false, editValue, onT
             {getShiftLabel(displayShift)}
             <span className="mx-1.5 text-gray-300">·</span>
             <span className="font-mono text-gray-400">{displayShift?.startTime}–{displayShift?.endTime}</span>
+            {displayPartialLeave && (
+              <span className="ml-1.5 font-medium text-orange-600">{describePartialLeave(displayPartialLeave)}</span>
+            )}
           </p>
+          {cycleLabel && <p className="text-[11px] text-gray-400">{cycleLabel}</p>}
         </div>
 
         {/* Hours Badge + Edit indicator */}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { X, CalendarCheck, Check } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+
+interface LeaveRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  staffMembers: { id: string; name: string }[];
+}
+
+const LEAVE_TYPE_OPTIONS = [
+  { value: 'AL', label: 'Annual Leave (AL)' },
+  { value: 'RL', label: 'Replacement Leave (RL)' },
+  { value: 'EL', label: 'Emergency Leave (EL)' },
+  { value: 'ML', label: 'Medical Leave (ML)' },
+];
+
+const EMPTY_FORM = { staffId: '', leaveType: 'AL', startDate: '', endDate: '', reason: '' };
+
+export default function LeaveRequestModal({ isOpen, onClose, staffMembers }: LeaveRequestModalProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedDays, setSubmittedDays] = useState<number | null>(null);
+
+  // Signed-in staff only get their own name, so pick it for them
+  const staffId = formData.staffId || (staffMembers.length === 1 ? staffMembers[0].id : '');
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(apiUrl('/api/leave/requests'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...formData, staffId, endDate: formData.endDate || formData.startDate }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit leave request');
+      }
+
+      setSubmittedDays(data.dates.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit leave request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setSubmittedDays(null);
+    setFormData(EMPTY_FORM);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const inputClasses = 'w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-sm bg-white rounded-xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto">
+        {/* Close button */}
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <CalendarCheck className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">
+            Request Leave
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Sent to the admin for approval
+          </p>
+        </div>
+
+        {submittedDays !== null ? (
+          <>
+            <div className="flex items-center gap-3 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              <Check className="w-5 h-5 flex-shrink-0" />
+              Request submitted for {submittedDays} working day{submittedDays === 1 ? '' : 's'}. It will appear on the timetable once approved and published.
+            </div>
+            <button
+              onClick={handleClose}
+              className="w-full mt-6 px-4 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Staff
+              </label>
+              <select
+                value={staffId}
+                onChange={(e) => setFormData((p) => ({ ...p, staffId: e.target.value }))}
+                className={inputClasses}
+              >
+                <option value="">Select your name</option>
+                {staffMembers.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Leave Type
+              </label>
+              <select
+                value={formData.leaveType}
+                onChange={(e) => setFormData((p) => ({ ...p, leaveType: e.target.value }))}
+                className={inputClasses}
+              >
+                {LEAVE_TYPE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  From
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData((p) => ({ ...p, startDate: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  To
+                </label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.startDate || undefined}
+                  onChange={(e) => setFormData((p) => ({ ...p, endDate: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Reason
+              </label>
+              <input
+                type="text"
+                value={formData.reason}
+                onChange={(e) => setFormData((p) => ({ ...p, reason: e.target.value }))}
+                className={inputClasses}
+                placeholder="Optional"
+              />
+              <p className="text-xs text-gray-500 mt-1.5">
+                Only working days are counted. AL and RL are checked against your balance.
+              </p>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleClose}
+                className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                disabled={isSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || !staffId || !formData.startDate}
+                className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { getSession } from 'next-auth/react';
 import { Lock, X } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import { canEditRota } from '@/lib/permissions';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -14,6 +16,7 @@ interface LoginModalProps {
 export default function LoginModal({ isOpen, onClose, redirectTo = '/admin' }: LoginModalProps) {
   const { login } = useAuth();
   const router = useRouter();
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -26,13 +29,15 @@ export default function LoginModal({ isOpen, onClose, redirectTo = '/admin' }: L
     setError('');
 
     try {
-      const success = await login(password);
+      const success = await login(username, password);
 
       if (success) {
-        // Redirect to the specified destination (router.push respects basePath)
-        router.push(redirectTo);
+        // Staff accounts go to their own page; rota editors to the requested destination
+        // (router.push respects basePath)
+        const session = await getSession();
+        router.push(canEditRota(session?.user?.role) ? redirectTo : '/me');
       } else {
-        setError('Incorrect password');
+        setError('Incorrect username or password');
         setIsLoading(false);
       }
     } catch {
@@ -42,6 +47,7 @@ export default function LoginModal({ isOpen, onClose, redirectTo = '/admin' }: L
   };
 
   const handleClose = () => {
+    setUsername('');
     setPassword('');
     setError('');
     onClose();
@@ -70,14 +76,32 @@ export default function LoginModal({ isOpen, onClose, redirectTo = '/admin' }: L
             <Lock className="h-7 w-7 text-blue-600" />
           </div>
           <h2 className="text-xl font-semibold text-gray-900 mt-4">
-            Admin Access
+            Login
           </h2>
           <p className="text-sm text-gray-500 mt-2">
-            Enter the admin password to access editing features
+            Sign in to edit the timetable or view your leave
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          <div>
+            <label htmlFor="modal-username" className="sr-only">
+              Username
+            </label>
+            <input
+              id="modal-username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              autoCapitalize="none"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoFocus
+              disabled={isLoading}
+            />
+          </div>
+
           <div>
             <label htmlFor="modal-password" className="sr-only">
               Password
@@ -87,9 +111,9 @@ export default function LoginModal({ isOpen, onClose, redirectTo = '/admin' }: L
               type="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter password"
+              placeholder="Password"
+              autoComplete="current-password"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              autoFocus
               disabled={isLoading}
             />
           </div>
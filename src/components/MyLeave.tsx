@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { CalendarCheck, Calendar as CalendarIcon, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import { apiUrl } from '@/lib/api';
+import AppHeader from './AppHeader';
+import StaffLeaveCard from './admin/StaffLeaveCard';
+import LeaveRequestModal from './LeaveRequestModal';
+import type { LeaveBalanceSummary } from '@/app/api/leave/balances/route';
+import type { LeaveRequest } from './admin/LeaveRequestQueue';
+
+interface LeaveHistoryEntry {
+  id: string;
+  staffId: string;
+  staffName: string;
+  date: string;
+  leaveType: string;
+  amount: number;
+  portion: string | null;
+}
+
+// Staff self-service: own leave balances, history and pending requests
+export default function MyLeave() {
+  const { staffId, logout } = useAuth();
+  const router = useRouter();
+  const [balance, setBalance] = useState<LeaveBalanceSummary | null>(null);
+  const [history, setHistory] = useState<LeaveHistoryEntry[]>([]);
+  const [pendingRequests, setPendingRequests] = useState<LeaveRequest[]>([]);
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRequestModalOpen, setRequestModalOpen] = useState(false);
+
+  const currentYear = new Date().getFullYear();
+  const years = [currentYear - 1, currentYear, currentYear + 1];
+
+  const fetchData = useCallback(async () => {
+    if (!staffId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const [balancesRes, historyRes, requestsRes] = await Promise.all([
+        fetch(apiUrl(`/api/leave/balances?year=${selectedYear}&staffId=${staffId}`)),
+        fetch(apiUrl(`/api/leave/history?year=${selectedYear}&staffId=${staffId}`)),
+        fetch(apiUrl(`/api/leave/requests?staffId=${staffId}`)),
+      ]);
+
+      if (!balancesRes.ok || !historyRes.ok || !requestsRes.ok) {
+        throw new Error('Failed to load leave data');
+      }
+
+      const [balancesData, historyData, requestsData] = await Promise.all([
+        balancesRes.json(),
+        historyRes.json(),
+        requestsRes.json(),
+      ]);
+      setBalance(balancesData[0] || null);
+      setHistory(historyData);
+      setPendingRequests(requestsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load leave data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [staffId, selectedYear]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleLogout = async () => {
+    await logout();
+    router.push('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <AppHeader mode="admin" onLogout={handleLogout} />
+
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h1 className="text-lg font-bold text-gray-900">My Leave</h1>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/"
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 hover:text-brand"
+            >
+              <CalendarIcon className="w-4 h-4 mr-1" />
+              Timetable
+            </Link>
+            {staffId && (
+              <button
+                onClick={() => setRequestModalOpen(true)}
+                className="flex items-center px-3 py-2 bg-brand text-white text-sm font-medium rounded-lg hover:bg-brand-dark"
+              >
+                <CalendarCheck className="w-4 h-4 mr-1" />
+                Request Leave
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {!staffId ? (
+          <div className="bg-white rounded-lg shadow-sm border p-6 text-center text-sm text-gray-500">
+            This account isn&apos;t linked to a staff member. Ask an admin to link it to see leave balances.
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+              <span className="ml-2 text-gray-600">Loading leave data...</span>
+            </div>
+          </div>
+        ) : (
+          <>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+              className="px-4 py-3 border rounded-lg text-sm text-gray-900 bg-white min-h-[48px]"
+            >
+              {years.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </select>
+
+            {pendingRequests.length > 0 && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                <h4 className="text-sm font-semibold text-amber-900 mb-2">Awaiting Approval</h4>
+                <ul className="space-y-1 text-sm text-amber-800">
+                  {pendingRequests.map((request) => (
+                    <li key={request.requestId}>
+                      <strong>{request.leaveType}</strong>{' '}
+                      {format(new Date(request.dates[0] + 'T00:00:00'), 'd MMM yyyy')}
+                      {request.dates.length > 1 &&
+                        ` – ${format(new Date(request.dates[request.dates.length - 1] + 'T00:00:00'), 'd MMM yyyy')}`}
+                      {' '}({request.dates.length} day{request.dates.length === 1 ? '' : 's'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {balance ? (
+              <StaffLeaveCard
+                staffId={balance.staffId}
+                staffName={balance.staffName}
+                staffRole={balance.staffRole}
+                al={balance.al}
+                rl={balance.rl}
+                ml={balance.ml}
+                proration={balance.proration}
+                mat={balance.mat}
+                history={history}
+              />
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm border p-6 text-center text-sm text-gray-500">
+                No leave balance found for {selectedYear}.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {staffId && (
+        <LeaveRequestModal
+          isOpen={isRequestModalOpen}
+          onClose={() => {
+            setRequestModalOpen(false);
+            fetchData();
+          }}
+          staffMembers={[{ id: staffId, name: balance?.staffName || 'Me' }]}
+        />
+      )}
+    </div>
+  );
+}
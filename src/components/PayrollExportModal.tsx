@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Download, Loader2, FileSpreadsheet } from 'lucide-react';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface PayrollExportModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  onClose: () => void;
+}
+
+export default function PayrollExportModal({ isOpen, year, month, onClose }: PayrollExportModalProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('xlsx');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default pay period: the month on screen
+  useEffect(() => {
+    if (!isOpen) return;
+    const monthDate = new Date(year, month - 1);
+    setFrom(format(startOfMonth(monthDate), 'yyyy-MM-dd'));
+    setTo(format(endOfMonth(monthDate), 'yyyy-MM-dd'));
+    setError(null);
+  }, [isOpen, year, month]);
+
+  if (!isOpen) return null;
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/payroll?from=${from}&to=${to}&format=${fileFormat}`));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export payroll');
+      }
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `payroll-${from}-to-${to}.${fileFormat}`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export payroll');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <FileSpreadsheet className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Payroll Export</h2>
+          <p className="text-sm text-gray-500 mt-1">Hours and leave per staff member from the published schedule</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Pay period */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">To</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+
+        {/* Format */}
+        <div className="flex gap-2 mt-4">
+          {(['xlsx', 'csv'] as ExportFormat[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setFileFormat(option)}
+              className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                fileFormat === option
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV'}
+            </button>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading || !from || !to}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isDownloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+            Download
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            Overtime is the hours above each contract&apos;s weekly hours, week by week. Temporary replacement hours are
+            listed per temp.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+
+interface PdfExportModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  onClose: () => void;
+}
+
+export default function PdfExportModal({ isOpen, year, month, onClose }: PdfExportModalProps) {
+  const [staffPages, setStaffPages] = useState(false);
+
+  if (!isOpen) return null;
+
+  // Open in a new tab so it can be printed straight from the browser's PDF viewer
+  const handleOpen = () => {
+    window.open(apiUrl(`/api/export/pdf?year=${year}&month=${month}&staffPages=${staffPages}`), '_blank');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <Printer className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Print Timetable</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {format(new Date(year, month - 1), 'MMMM yyyy')} as an A4 landscape PDF
+          </p>
+        </div>
+
+        <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+          <input
+            type="checkbox"
+            checked={staffPages}
+            onChange={(e) => setStaffPages(e.target.checked)}
+            className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="text-sm">
+            <span className="font-medium text-gray-900">Add a page per staff member</span>
+            <span className="block text-gray-500">Weekly hour totals against each person&apos;s target</span>
+          </span>
+        </label>
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleOpen}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors"
+          >
+            <Printer className="w-5 h-5" />
+            Open PDF
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            The PDF shows the published schedule. Publish any draft changes first to include them.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,5 +7,10 @@ interface ProvidersProps {
 }
 
 export function Providers({ children }: ProvidersProps) {
-  return <SessionProvider basePath="/timetable/api/auth">{children}</SessionProvider>;
+  // Refetching the session re-reads the account on the server, so role changes reach open tabs
+  return (
+    <SessionProvider basePath="/timetable/api/auth" refetchInterval={5 * 60}>
+      {children}
+    </SessionProvider>
+  );
 }
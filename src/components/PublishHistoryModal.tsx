@@ -0,0 +1,228 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, History, Loader2, RotateCcw, ChevronLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import ScheduleDiffTable from './ScheduleDiffTable';
+
+interface Publication {
+  id: string;
+  version: number;
+  publishedByName: string;
+  createdAt: string;
+  rolledBackAt: string | null;
+  leaveChangeCount: number;
+}
+
+interface PublicationDiff {
+  staffId: string;
+  staffName: string;
+  before: Record<string, string | null>;
+  after: Record<string, string | null>;
+}
+
+interface PublicationDetail extends Publication {
+  diff: PublicationDiff[];
+}
+
+interface PublishHistoryModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  hasDraft: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+export default function PublishHistoryModal({ isOpen, year, month, hasDraft, onClose, onRestored }: PublishHistoryModalProps) {
+  const [publications, setPublications] = useState<Publication[]>([]);
+  const [selected, setSelected] = useState<PublicationDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPublications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/publications?year=${year}&month=${month}`));
+      if (!response.ok) throw new Error('Failed to load publish history');
+      setPublications(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load publish history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [year, month]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(null);
+    fetchPublications();
+  }, [isOpen, fetchPublications]);
+
+  if (!isOpen) return null;
+
+  const monthLabel = format(new Date(year, month - 1), 'MMMM yyyy');
+
+  const handleSelect = async (publication: Publication) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/publications/${publication.id}`));
+      if (!response.ok) throw new Error('Failed to load this version');
+      setSelected(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load this version');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (publication: PublicationDetail) => {
+    const later = publications.filter((p) => p.version > publication.version && !p.rolledBackAt).length;
+    const message =
+      `Restore ${monthLabel} to how it was before publish #${publication.version}?\n\n` +
+      (later > 0 ? `This also undoes the ${later} later publish${later === 1 ? '' : 'es'}. ` : '') +
+      'Leave recorded by the undone publishes is removed and balances are adjusted.';
+    if (!confirm(message)) return;
+
+    try {
+      setIsRestoring(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/publications/${publication.id}/rollback`), { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to roll back');
+      }
+      onRestored();
+      setSelected(null);
+      await fetchPublications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <History className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Publish History</h2>
+          <p className="text-sm text-gray-500 mt-1">{monthLabel}</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : selected ? (
+          <>
+            <button
+              onClick={() => setSelected(null)}
+              className="mb-4 flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              All publishes
+            </button>
+            <p className="text-sm text-gray-600 mb-4">
+              Before publish #{selected.version} ({format(new Date(selected.createdAt), 'd MMM yyyy, HH:mm')} by{' '}
+              {selected.publishedByName}) compared with the live schedule now.
+            </p>
+
+            {selected.diff.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">No differences from the live schedule.</p>
+            ) : (
+              <div className="mb-6">
+                {/* Live schedule now -> the version being restored */}
+                <ScheduleDiffTable
+                  rows={selected.diff.map((d) => ({ staffId: d.staffId, staffName: d.staffName, from: d.after, to: d.before }))}
+                />
+              </div>
+            )}
+
+            {!selected.rolledBackAt && (
+              <>
+                {hasDraft && (
+                  <p className="mb-3 text-sm text-amber-700">
+                    This month has an unpublished draft. Publish or discard it before rolling back.
+                  </p>
+                )}
+                <button
+                  onClick={() => handleRestore(selected)}
+                  disabled={isRestoring || hasDraft}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-lg font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+                >
+                  {isRestoring ? <Loader2 className="w-5 h-5 animate-spin" /> : <RotateCcw className="w-5 h-5" />}
+                  Restore This Version
+                </button>
+              </>
+            )}
+          </>
+        ) : publications.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">This month hasn&apos;t been published since history was turned on.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 border rounded-lg">
+            {publications.map((publication) => (
+              <button
+                key={publication.id}
+                onClick={() => handleSelect(publication)}
+                className={`w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                  publication.rolledBackAt ? 'opacity-60' : ''
+                }`}
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Publish #{publication.version}
+                    {publication.rolledBackAt && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                        Rolled back
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(publication.createdAt), 'd MMM yyyy, HH:mm')} · {publication.publishedByName}
+                    {publication.leaveChangeCount > 0 && ` · ${publication.leaveChangeCount} leave day${publication.leaveChangeCount === 1 ? '' : 's'} recorded`}
+                  </p>
+                </div>
+                <span className="text-xs font-medium text-blue-600 whitespace-nowrap">View changes</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            Each publish keeps the schedule it replaced. Restoring a version undoes that publish and any later ones,
+            including the leave history and balance deductions they made.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Check, Loader2, ClipboardList, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { describeViolation, type CoverageViolation } from '@/lib/coverage';
+import { formatLeaveDays } from '@/lib/partial-leave';
+import ScheduleDiffTable from './ScheduleDiffTable';
+
+interface DraftDiff {
+  changes: {
+    staffId: string;
+    staffName: string;
+    before: Record<string, string | null>;
+    after: Record<string, string | null>;
+  }[];
+  changedCells: number;
+  leave: {
+    staffId: string;
+    staffName: string;
+    days: Record<string, number>;
+    remainingAfter: { AL: number; RL: number } | null;
+  }[];
+  weeks: {
+    staffId: string;
+    staffName: string;
+    week: number;
+    weekStart: string;
+    target: number;
+    before: number;
+    after: number;
+  }[];
+  replacements: {
+    date: string;
+    change: 'added' | 'removed';
+    originalStaffId: string;
+    originalStaffName: string;
+    tempStaffName: string;
+    startTime: string;
+    endTime: string;
+    workHours: number;
+  }[];
+  coverage: { date: string; violations: CoverageViolation[] }[];
+}
+
+interface PublishReviewModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+}
+
+export default function PublishReviewModal({ isOpen, year, month, onClose, onConfirm }: PublishReviewModalProps) {
+  const [diff, setDiff] = useState<DraftDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [acceptCoverage, setAcceptCoverage] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchDiff = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setDiff(null);
+        setAcceptCoverage(false);
+        const response = await fetch(apiUrl(`/api/overrides/diff?year=${year}&month=${month}`));
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load changes');
+        }
+        setDiff(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load changes');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchDiff();
+  }, [isOpen, year, month]);
+
+  if (!isOpen) return null;
+
+  // Publishing with coverage violations needs an explicit confirmation
+  const hasCoverageIssues = !!diff && diff.coverage.length > 0;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <ClipboardList className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Review Changes</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Publishing {format(new Date(year, month - 1), 'MMMM yyyy')} makes these changes visible to all staff
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : diff && (
+          <div className="space-y-6">
+            {/* Coverage violations */}
+            {hasCoverageIssues && (
+              <section className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <h3 className="flex items-center gap-1.5 text-sm font-medium text-red-700 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  Coverage rules not met on {diff.coverage.length} day{diff.coverage.length === 1 ? '' : 's'}
+                </h3>
+                <ul className="space-y-1 text-sm text-red-700">
+                  {diff.coverage.map((day) => (
+                    <li key={day.date}>
+                      <span className="font-medium">{format(new Date(`${day.date}T00:00:00`), 'EEE d MMM')}:</span>{' '}
+                      {day.violations.map(describeViolation).join('; ')}
+                    </li>
+                  ))}
+                </ul>
+                <label className="mt-3 flex items-center gap-2 text-sm text-red-700">
+                  <input
+                    type="checkbox"
+                    checked={acceptCoverage}
+                    onChange={(e) => setAcceptCoverage(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  Publish anyway
+                </label>
+              </section>
+            )}
+
+            {/* Changed cells */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                Shifts ({diff.changedCells} cell{diff.changedCells === 1 ? '' : 's'} changed)
+              </h3>
+              {diff.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">No shift changes compared with the published schedule.</p>
+              ) : (
+                <ScheduleDiffTable
+                  rows={diff.changes.map((c) => ({ staffId: c.staffId, staffName: c.staffName, from: c.before, to: c.after }))}
+                />
+              )}
+            </section>
+
+            {/* Replacement shifts */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Replacements</h3>
+              {diff.replacements.length === 0 ? (
+                <p className="text-sm text-gray-500">No replacement shifts are added or removed.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+                  {diff.replacements.map((rep, idx) => (
+                    <li key={idx} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                      <span>
+                        <span className="font-medium text-gray-900">{rep.tempStaffName}</span>
+                        <span className="text-gray-500">
+                          {' '}for {rep.originalStaffName} · {format(new Date(`${rep.date}T00:00:00`), 'EEE d MMM')},{' '}
+                          {rep.startTime} - {rep.endTime} ({rep.workHours}h)
+                        </span>
+                      </span>
+                      <span className={rep.change === 'added' ? 'text-green-700' : 'text-red-600'}>
+                        {rep.change === 'added' ? 'Added' : 'Removed'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Leave deductions */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Leave balances</h3>
+              {diff.leave.length === 0 ? (
+                <p className="text-sm text-gray-500">No leave will be deducted.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+                  {diff.leave.map((item) => (
+                    <li key={item.staffId} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                      <span className="font-medium text-gray-900">{item.staffName}</span>
+                      <span className="text-gray-600">
+                        {Object.entries(item.days)
+                          .map(([type, days]) => `${formatLeaveDays(days)} ${type}`)
+                          .join(', ')}{' '}
+                        deducted
+                        {item.remainingAfter && (item.days.AL || item.days.RL) && (
+                          <span className={item.remainingAfter.AL < 0 || item.remainingAfter.RL < 0 ? 'text-red-600' : 'text-gray-400'}>
+                            {' '}· {formatLeaveDays(item.remainingAfter.AL)} AL / {formatLeaveDays(item.remainingAfter.RL)} RL left
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Week hours */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Weekly hours</h3>
+              {diff.weeks.length === 0 ? (
+                <p className="text-sm text-gray-500">No week&apos;s hours change.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+                  {diff.weeks.map((week) => (
+                    <li key={`${week.staffId}-${week.week}`} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                      <span>
+                        <span className="font-medium text-gray-900">{week.staffName}</span>
+                        <span className="text-gray-500">
+                          {' '}· week of {format(new Date(`${week.weekStart}T00:00:00`), 'd MMM')}
+                        </span>
+                      </span>
+                      <span className={week.after === week.target ? 'text-green-700' : 'text-amber-700'}>
+                        {week.before}h → {week.after}h (target {week.target}h)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Keep Editing
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={isLoading || isPublishing || !diff || (hasCoverageIssues && !acceptCoverage)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isPublishing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+            Publish
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
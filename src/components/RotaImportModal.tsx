@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Check, Loader2, Upload, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import type { RotaImportReport } from '@/lib/rota-import';
+
+interface RotaImportModalProps {
+  isOpen: boolean;
+  year: number;
+  month: number;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function RotaImportModal({ isOpen, year, month, onClose, onApplied }: RotaImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<RotaImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setReport(null);
+    setError(null);
+  }, [isOpen, year, month]);
+
+  if (!isOpen) return null;
+
+  const upload = async (selected: File, apply: boolean): Promise<RotaImportReport> => {
+    const form = new FormData();
+    form.append('file', selected);
+    form.append('year', String(year));
+    form.append('month', String(month));
+    form.append('apply', String(apply));
+    const response = await fetch(apiUrl('/api/overrides/import'), { method: 'POST', body: form });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to import rota');
+    }
+    return response.json();
+  };
+
+  // Validate as soon as a file is chosen; nothing is saved yet
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+    setError(null);
+    if (!selected) return;
+    try {
+      setIsChecking(true);
+      setReport(await upload(selected, false));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the file');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!file) return;
+    try {
+      setIsApplying(true);
+      setError(null);
+      await upload(file, true);
+      onApplied();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import rota');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const matchedColumns = report?.columns.filter((c) => c.staffId) || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <Upload className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Import Rota</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Load {format(new Date(year, month - 1), 'MMMM yyyy')} from a CSV or Excel file laid out like the CSV export
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+          className="block w-full text-sm text-gray-700 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 file:font-medium hover:file:bg-gray-200"
+        />
+
+        {isChecking ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            <span className="ml-2 text-sm text-gray-600">Checking file...</span>
+          </div>
+        ) : report && (
+          <div className="space-y-4 mt-6">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold text-gray-900">{report.cells}</span> cell{report.cells === 1 ? '' : 's'} for{' '}
+              {matchedColumns.length > 0 ? matchedColumns.map((c) => c.staffName).join(', ') : 'no staff'}
+            </p>
+
+            {report.issues.length > 0 && (
+              <section className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <h3 className="flex items-center gap-1.5 text-sm font-medium text-amber-800 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {report.issues.length} problem{report.issues.length === 1 ? '' : 's'} will be skipped
+                </h3>
+                <ul className="space-y-1 text-sm text-amber-800 max-h-64 overflow-y-auto">
+                  {report.issues.map((issue, idx) => (
+                    <li key={idx}>
+                      <span className="font-medium">
+                        {issue.row ? `Row ${issue.row}` : 'File'}
+                        {issue.column ? `, ${issue.column}` : ''}:
+                      </span>{' '}
+                      {issue.value && issue.value !== issue.column ? `"${issue.value}" - ` : ''}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isChecking || isApplying || !report || report.cells === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+            Import to Draft
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            Cells can be a shift like &quot;09:15 - 21:45 (11 hours)&quot;, Off, PH or a leave type (AL, RL, EL, ML, MAT).
+            Blank cells and staff not in the file keep their current shifts. The import goes into the draft for review
+            before publishing.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { format } from 'date-fns';
+
+export interface ScheduleDiffRow {
+  staffId: string;
+  staffName: string;
+  from: Record<string, string | null>; // yyyy-MM-dd -> shift label; null = rotation
+  to: Record<string, string | null>;
+}
+
+// null = no override for the day, i.e. the generated rotation
+const cellLabel = (value: string | null | undefined) => value ?? 'rotation';
+
+// Staff x date grid of changed cells, "from → to"
+export default function ScheduleDiffTable({ rows }: { rows: ScheduleDiffRow[] }) {
+  // Every date that differs for at least one staff member, as table columns
+  const dates = Array.from(new Set(rows.flatMap((row) => Object.keys(row.to)))).sort();
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="sticky left-0 bg-gray-50 px-3 py-2 text-left font-medium text-gray-500">Staff</th>
+            {dates.map((date) => (
+              <th key={date} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">
+                {format(new Date(`${date}T00:00:00`), 'EEE d')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map((row) => (
+            <tr key={row.staffId}>
+              <td className="sticky left-0 bg-white px-3 py-2 font-medium text-gray-900 whitespace-nowrap">
+                {row.staffName}
+              </td>
+              {dates.map((date) =>
+                date in row.to ? (
+                  <td key={date} className="px-3 py-2 whitespace-nowrap bg-amber-50">
+                    <span className="text-red-700 line-through">{cellLabel(row.from[date])}</span>
+                    <span className="mx-1 text-gray-400">→</span>
+                    <span className="text-green-700">{cellLabel(row.to[date])}</span>
+                  </td>
+                ) : (
+                  <td key={date} className="px-3 py-2 text-gray-300">–</td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,20 +2,38 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Calendar as CalendarIcon, CalendarDays, Users } from 'lucide-react';
+import { Calendar as CalendarIcon, CalendarDays, Users, Repeat, CalendarHeart, ArrowLeftRight, UserCog, History, ShieldCheck, Briefcase, Clock } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import Calendar from '@/components/Calendar';
 import AppHeader, { type TabConfig } from '@/components/AppHeader';
 import LeaveOverview from './LeaveOverview';
 import StaffManagement from './StaffManagement';
+import TempStaffManagement from './TempStaffManagement';
+import ShiftPatternEditor from './ShiftPatternEditor';
+import ShiftTypeManagement from './ShiftTypeManagement';
+import ShiftSeasonManagement from './ShiftSeasonManagement';
+import HolidayManagement from './HolidayManagement';
+import ShiftSwapRequests from './ShiftSwapRequests';
+import UserManagement from './UserManagement';
+import AuditLog from './AuditLog';
+import CoverageRules from './CoverageRules';
 import MobileDrawerMenu, { type Tab } from '@/components/mobile/MobileDrawerMenu';
 import MobileSimpleBottomBar from '@/components/mobile/MobileSimpleBottomBar';
 import CalendarSkeleton from '@/components/CalendarSkeleton';
+import { ADMIN_ONLY_TABS } from '@/lib/permissions';
 
 const tabs: TabConfig[] = [
   { id: 'timetable', label: 'Timetable', icon: CalendarIcon },
   { id: 'leave', label: 'Leave', icon: CalendarDays },
   { id: 'staff', label: 'Staff', icon: Users },
+  { id: 'temps', label: 'Temps', icon: Briefcase },
+  { id: 'patterns', label: 'Patterns', icon: Repeat },
+  { id: 'shift-types', label: 'Shift Types', icon: Clock },
+  { id: 'holidays', label: 'Holidays', icon: CalendarHeart },
+  { id: 'coverage', label: 'Coverage', icon: ShieldCheck },
+  { id: 'swaps', label: 'Swaps', icon: ArrowLeftRight },
+  { id: 'users', label: 'Users', icon: UserCog },
+  { id: 'audit', label: 'Audit Log', icon: History },
 ];
 
 export default function AdminPanel() {
@@ -23,7 +41,8 @@ export default function AdminPanel() {
   // Initialize to null to avoid desktop→mobile flash; skeleton shows until detected
   const [isMobile, setIsMobile] = useState<boolean | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  const { logout } = useAuth();
+  const { logout, role } = useAuth();
+  const visibleTabs = tabs.filter((tab) => role === 'admin' || !ADMIN_ONLY_TABS.includes(tab.id));
 
   // Mobile detection
   useEffect(() => {
@@ -94,6 +113,111 @@ export default function AdminPanel() {
                 <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
               </div>
             )}
+            {activeTab === 'temps' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Temps tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Temp Staff</h1>
+                </div>
+                <div className="p-4">
+                  <TempStaffManagement isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'patterns' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Patterns tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Shift Patterns</h1>
+                </div>
+                <div className="p-4">
+                  <ShiftPatternEditor isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'shift-types' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Shift Types tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Shift Types</h1>
+                </div>
+                <div className="p-4 space-y-6">
+                  <ShiftTypeManagement isMobile />
+                  <ShiftSeasonManagement isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'holidays' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Holidays tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Public Holidays</h1>
+                </div>
+                <div className="p-4">
+                  <HolidayManagement isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'swaps' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Swaps tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Shift Swaps</h1>
+                </div>
+                <div className="p-4">
+                  <ShiftSwapRequests isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'users' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Users tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">User Accounts</h1>
+                </div>
+                <div className="p-4">
+                  <UserManagement isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'coverage' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Coverage tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Coverage Rules</h1>
+                </div>
+                <div className="p-4">
+                  <CoverageRules isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
+            {activeTab === 'audit' && (
+              <div className="min-h-screen bg-gray-100 pb-24">
+                {/* Header for Audit tab */}
+                <div className="px-4 py-3 bg-white border-b border-gray-200">
+                  <h1 className="text-lg font-bold text-gray-900">Audit Log</h1>
+                </div>
+                <div className="p-4">
+                  <AuditLog isMobile />
+                </div>
+                {/* Bottom bar with menu */}
+                <MobileSimpleBottomBar onMenuOpen={() => setIsDrawerOpen(true)} />
+              </div>
+            )}
           </main>
           {/* Drawer Menu - available for all tabs */}
           <MobileDrawerMenu
@@ -110,7 +234,7 @@ export default function AdminPanel() {
           {/* Unified Header with logo, tabs, and logout */}
           <AppHeader
             mode="admin"
-            tabs={tabs}
+            tabs={visibleTabs}
             activeTab={activeTab}
             onTabChange={(tabId) => setActiveTab(tabId as Tab)}
             onLogout={handleLogout}
@@ -129,6 +253,47 @@ export default function AdminPanel() {
                 <StaffManagement />
               </div>
             )}
+            {activeTab === 'temps' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <TempStaffManagement />
+              </div>
+            )}
+            {activeTab === 'patterns' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <ShiftPatternEditor />
+              </div>
+            )}
+            {activeTab === 'shift-types' && (
+              <div className="max-w-screen-2xl mx-auto p-4 space-y-6">
+                <ShiftTypeManagement />
+                <ShiftSeasonManagement />
+              </div>
+            )}
+            {activeTab === 'holidays' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <HolidayManagement />
+              </div>
+            )}
+            {activeTab === 'swaps' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <ShiftSwapRequests />
+              </div>
+            )}
+            {activeTab === 'users' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <UserManagement />
+              </div>
+            )}
+            {activeTab === 'coverage' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <CoverageRules />
+              </div>
+            )}
+            {activeTab === 'audit' && (
+              <div className="max-w-screen-2xl mx-auto p-4">
+                <AuditLog />
+              </div>
+            )}
           </main>
         </>
       )}
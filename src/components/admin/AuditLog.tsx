@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { History, Loader2, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { AUDIT_ACTIONS, getAuditActionLabel } from '@/lib/audit';
+
+interface AuditEvent {
+  id: string;
+  action: string;
+  actorName: string;
+  staffId: string | null;
+  staffName: string | null;
+  summary: string;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+interface StaffOption {
+  id: string;
+  name: string;
+}
+
+interface AuditLogProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FILTERS = { staffId: '', from: '', to: '', action: '' };
+
+const ACTION_STYLES: Record<string, string> = {
+  'schedule.publish': 'bg-green-100 text-green-700',
+  'draft.discard': 'bg-red-100 text-red-700',
+  'staff.delete': 'bg-red-100 text-red-700',
+  'leave_request.reject': 'bg-red-100 text-red-700',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Changed keys of two before/after objects, or a single "value" row for scalars
+function getChanges(before: unknown, after: unknown): { key: string; before: unknown; after: unknown }[] {
+  const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  if (!isRecord(before) && !isRecord(after)) {
+    return before === null && after === null ? [] : [{ key: 'value', before, after }];
+  }
+
+  const beforeObj = isRecord(before) ? before : {};
+  const afterObj = isRecord(after) ? after : {};
+  const keys = Array.from(new Set([...Object.keys(beforeObj), ...Object.keys(afterObj)]));
+  return keys
+    .filter((key) => JSON.stringify(beforeObj[key]) !== JSON.stringify(afterObj[key]))
+    .map((key) => ({ key, before: beforeObj[key], after: afterObj[key] }));
+}
+
+export default function AuditLog({ isMobile = false }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(apiUrl('/api/staff'))
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setStaff)
+      .catch(() => setStaff([]));
+  }, []);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const response = await fetch(apiUrl(`/api/audit?${params}`));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch audit log');
+      }
+      setEvents(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Audit Log</h3>
+        </div>
+        <button
+          onClick={fetchEvents}
+          disabled={isLoading}
+          className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-50 ${
+            isMobile ? 'p-3 min-h-[48px]' : 'px-3 py-2 text-sm'
+          }`}
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          {!isMobile && <span className="ml-1">Refresh</span>}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className={`mb-6 grid gap-3 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-4'}`}>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">Staff Member</label>
+          <select
+            value={filters.staffId}
+            onChange={(e) => setFilters((f) => ({ ...f, staffId: e.target.value }))}
+            className={inputClasses}
+          >
+            <option value="">All staff</option>
+            {staff.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">Action</label>
+          <select
+            value={filters.action}
+            onChange={(e) => setFilters((f) => ({ ...f, action: e.target.value }))}
+            className={inputClasses}
+          >
+            <option value="">All actions</option>
+            {Object.entries(AUDIT_ACTIONS).map(([action, label]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+            className={inputClasses}
+          />
+        </div>
+      </div>
+      {hasFilters && (
+        <button
+          onClick={() => setFilters(EMPTY_FILTERS)}
+          className="-mt-3 mb-4 text-sm font-medium text-blue-600 underline"
+        >
+          Clear filters
+        </button>
+      )}
+
+      {/* Event List */}
+      {isLoading && events.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading audit log...</span>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No events match these filters.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 border rounded-lg">
+          {events.map((event) => {
+            const isExpanded = expandedId === event.id;
+            const changes = getChanges(event.before, event.after);
+            return (
+              <div key={event.id}>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                  disabled={changes.length === 0}
+                  className={`w-full flex items-start gap-3 text-left hover:bg-gray-50 disabled:hover:bg-transparent ${
+                    isMobile ? 'p-4' : 'px-4 py-3'
+                  }`}
+                >
+                  <span className="mt-0.5 w-4 shrink-0 text-gray-400">
+                    {changes.length > 0 &&
+                      (isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          ACTION_STYLES[event.action] || 'bg-gray-100 text-gray-600'
+                        }`}
+                      >
+                        {getAuditActionLabel(event.action)}
+                      </span>
+                      {event.staffName && (
+                        <span className="text-sm font-medium text-gray-900">{event.staffName}</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700">{event.summary}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {format(new Date(event.createdAt), 'd MMM yyyy, HH:mm')} · {event.actorName}
+                    </p>
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className={`bg-gray-50 ${isMobile ? 'px-4 pb-4' : 'px-11 pb-3'}`}>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Field</th>
+                          <th className="py-1 pr-3 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono text-gray-700">
+                        {changes.map((change) => (
+                          <tr key={change.key} className="align-top">
+                            <td className="py-1 pr-3 text-gray-500">{change.key}</td>
+                            <td className="py-1 pr-3 break-all text-red-700">{formatValue(change.before)}</td>
+                            <td className="py-1 break-all text-green-700">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          Every draft save, publish, discard, staff change and leave decision is recorded with who made it.
+          <br />
+          Schedule events list only the days that changed; &quot;—&quot; means the day followed the rotation.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, CalendarPlus, Copy, Check, RefreshCw, Loader2 } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+
+interface CalendarFeedModalProps {
+  staff: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export default function CalendarFeedModal({ staff, onClose }: CalendarFeedModalProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!staff) return;
+    const fetchToken = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch(apiUrl(`/api/staff/${staff.id}/calendar-token`));
+        if (!response.ok) throw new Error('Failed to load calendar feed');
+        const data = await response.json();
+        setToken(data.token);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load calendar feed');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchToken();
+  }, [staff]);
+
+  if (!staff) return null;
+
+  const feedUrl = token
+    ? `${window.location.origin}${apiUrl(`/api/calendar/${staff.id}.ics?token=${token}`)}`
+    : '';
+
+  const handleCreate = async () => {
+    if (token && !confirm('Create a new link? The current link will stop working.')) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/staff/${staff.id}/calendar-token`), { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to create calendar link');
+      const data = await response.json();
+      setToken(data.token);
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm(`Revoke ${staff.name}'s calendar link? Subscribed calendars will stop updating.`)) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch(apiUrl(`/api/staff/${staff.id}/calendar-token`), { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to revoke calendar link');
+      setToken(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke calendar link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setCopied(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <CalendarPlus className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">
+            Calendar Feed
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {staff.name}&apos;s published shifts, leave and holidays
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : token ? (
+          <>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Subscription Link
+            </label>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-xs text-gray-700 font-mono bg-gray-50"
+              />
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1 px-3 py-2 bg-brand text-white rounded-lg text-sm font-medium hover:bg-brand-dark"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-6">
+              Add this link as a subscribed calendar on the phone (e.g. &quot;Add calendar from URL&quot;).
+              Anyone with the link can view these shifts.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className="w-4 h-4" />
+                New Link
+              </button>
+              <button
+                onClick={handleRevoke}
+                disabled={isSaving}
+                className="flex-1 px-4 py-3 bg-red-50 text-red-600 rounded-lg font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-6 text-center">
+              No calendar link yet. Create one to let {staff.name} subscribe from a phone calendar.
+            </p>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <CalendarPlus className="w-5 h-5" />}
+              Create Calendar Link
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
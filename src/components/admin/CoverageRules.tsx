@@ -0,0 +1,328 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldCheck, Plus, Save, X, Loader2, Edit, Trash2 } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+import { WEEKDAY_LABELS, type CoverageRule } from '@/lib/coverage';
+import { useCoverageRules } from '@/hooks/useCoverageRules';
+
+interface CoverageRulesProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  weekdays: [1, 2, 3, 4, 5, 6, 0],
+  startTime: '09:15',
+  endTime: '21:45',
+  minPharmacists: 1,
+  minStaff: 2,
+};
+
+// Display order Mon..Sun, values as Date.getDay()
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function formatWeekdays(weekdays: number[]): string {
+  if (weekdays.length === 7) return 'Every day';
+  return WEEKDAY_ORDER.filter((d) => weekdays.includes(d)).map((d) => WEEKDAY_LABELS[d]).join(', ');
+}
+
+function formatRequirement(rule: CoverageRule): string {
+  const parts = [];
+  if (rule.minPharmacists > 0) parts.push(`${rule.minPharmacists} Pharmacist${rule.minPharmacists === 1 ? '' : 's'}`);
+  if (rule.minStaff > 0) parts.push(`${rule.minStaff} staff`);
+  return `At least ${parts.join(' and ')}`;
+}
+
+export default function CoverageRules({ isMobile = false }: CoverageRulesProps) {
+  const { rules, isLoading, error: loadError, refetch } = useCoverageRules();
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEdit = (rule: CoverageRule) => {
+    setEditingId(rule.id);
+    setFormData({
+      name: rule.name || '',
+      weekdays: rule.weekdays,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      minPharmacists: rule.minPharmacists,
+      minStaff: rule.minStaff,
+    });
+    setShowForm(true);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setFormData((p) => ({
+      ...p,
+      weekdays: p.weekdays.includes(day) ? p.weekdays.filter((d) => d !== day) : [...p.weekdays, day],
+    }));
+  };
+
+  const saveRule = async (url: string, method: string, body: Record<string, unknown>) => {
+    const response = await fetch(apiUrl(url), {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save coverage rule');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await saveRule(`/api/coverage-rules/${editingId}`, 'PATCH', formData);
+      } else {
+        await saveRule('/api/coverage-rules', 'POST', formData);
+      }
+      await refetch();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save coverage rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: CoverageRule) => {
+    try {
+      await saveRule(`/api/coverage-rules/${rule.id}`, 'PATCH', { isActive: !rule.isActive });
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update coverage rule');
+    }
+  };
+
+  const handleDelete = async (rule: CoverageRule) => {
+    if (!confirm(`Delete the rule "${rule.name || formatRequirement(rule)}"?`)) return;
+
+    try {
+      const response = await fetch(apiUrl(`/api/coverage-rules/${rule.id}`), { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete coverage rule');
+      }
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete coverage rule');
+    }
+  };
+
+  if (isLoading && rules.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading coverage rules...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const displayError = error || loadError;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Coverage Rules</h3>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Add' : 'Add Rule'}
+          </button>
+        )}
+      </div>
+
+      {displayError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {displayError}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">{editingId ? 'Edit Rule' : 'Add New Rule'}</h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-5'}`}>
+            <div className={isMobile ? '' : 'md:col-span-1'}>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Name (optional)</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData((p) => ({ ...p, name: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g., Opening hours"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">From</label>
+              <input
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => setFormData((p) => ({ ...p, startTime: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">To</label>
+              <input
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => setFormData((p) => ({ ...p, endTime: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Min. Pharmacists</label>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={formData.minPharmacists}
+                onChange={(e) => setFormData((p) => ({ ...p, minPharmacists: parseInt(e.target.value) || 0 }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Min. Staff (any role)</label>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={formData.minStaff}
+                onChange={(e) => setFormData((p) => ({ ...p, minStaff: parseInt(e.target.value) || 0 }))}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-600 mb-2">Days</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_ORDER.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`rounded-lg border font-medium ${isMobile ? 'px-4 py-3 text-sm' : 'px-3 py-1.5 text-sm'} ${
+                    formData.weekdays.includes(day)
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-500'
+                  }`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || formData.weekdays.length === 0}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+            <button
+              onClick={handleCancelForm}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rule List */}
+      {rules.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No coverage rules yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-start justify-between gap-3 bg-gray-50 rounded-xl border border-gray-100 ${
+                isMobile ? 'p-4' : 'px-4 py-3'
+              } ${rule.isActive ? '' : 'opacity-60'}`}
+            >
+              <div className="min-w-0">
+                {rule.name && <h4 className="font-semibold text-gray-900">{rule.name}</h4>}
+                <p className="text-sm text-gray-700">
+                  {formatRequirement(rule)}, {rule.startTime}–{rule.endTime}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{formatWeekdays(rule.weekdays)}</p>
+                <label className="mt-2 flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={rule.isActive}
+                    onChange={() => handleToggleActive(rule)}
+                    className="w-4 h-4"
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => handleEdit(rule)}
+                  className={`text-blue-600 hover:bg-blue-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                  title="Edit"
+                >
+                  <Edit className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className={`text-red-600 hover:bg-red-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                  title="Delete"
+                >
+                  <Trash2 className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          Rules are checked against the timetable: days that fall short are flagged in the calendar, and
+          publishing asks for confirmation while any remain. Staff on leave don&apos;t count; replacement staff
+          count towards the role of the person they replace.
+        </p>
+      </div>
+    </div>
+  );
+}
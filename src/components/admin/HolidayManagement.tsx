@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarHeart, Plus, Pencil, Trash2, Save, X, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { HOLIDAY_STATES, NATIONWIDE, getHolidayStateName } from '@/lib/holidays';
+
+interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  year: number;
+  state: string;
+}
+
+interface HolidayManagementProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = { date: '', name: '', state: NATIONWIDE };
+
+function formatHolidayDate(date: string): string {
+  return format(new Date(date + 'T00:00:00'), 'EEE, d MMM yyyy');
+}
+
+function StateBadge({ state, branchState }: { state: string; branchState: string }) {
+  const isObserved = state === NATIONWIDE || state === branchState;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${
+        state === NATIONWIDE
+          ? 'bg-gray-100 text-gray-600'
+          : isObserved
+          ? 'bg-blue-100 text-blue-700'
+          : 'bg-gray-50 text-gray-400'
+      }`}
+    >
+      {getHolidayStateName(state)}
+    </span>
+  );
+}
+
+export default function HolidayManagement({ isMobile = false }: HolidayManagementProps) {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [branchState, setBranchState] = useState('');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [showAllStates, setShowAllStates] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [holidaysRes, stateRes] = await Promise.all([
+        fetch(apiUrl(`/api/holidays?year=${year}&state=all`)),
+        fetch(apiUrl('/api/holidays/state')),
+      ]);
+      if (!holidaysRes.ok || !stateRes.ok) throw new Error('Failed to fetch holidays');
+      const [holidaysData, stateData] = await Promise.all([holidaysRes.json(), stateRes.json()]);
+      setHolidays(holidaysData);
+      setBranchState(stateData.state);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load holidays');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const handleBranchStateChange = async (state: string) => {
+    try {
+      const response = await fetch(apiUrl('/api/holidays/state'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ state }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update state');
+      }
+
+      setBranchState(state);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update state');
+    }
+  };
+
+  const handleEdit = (holiday: Holiday) => {
+    setShowAddForm(false);
+    setEditingId(holiday.id);
+    setFormData({ date: holiday.date, name: holiday.name, state: holiday.state });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setShowAddForm(false);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const isEditing = editingId !== null;
+      const url = isEditing ? apiUrl(`/api/holidays/${editingId}`) : apiUrl('/api/holidays');
+      const method = isEditing ? 'PATCH' : 'POST';
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save');
+      }
+
+      await fetchHolidays();
+      handleCancelEdit();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!confirm(`Delete ${holiday.name} (${formatHolidayDate(holiday.date)})?`)) return;
+
+    try {
+      const response = await fetch(apiUrl(`/api/holidays/${holiday.id}`), {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) throw new Error('Failed to delete');
+      await fetchHolidays();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  if (isLoading && holidays.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading holidays...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleHolidays = showAllStates
+    ? holidays
+    : holidays.filter(h => h.state === NATIONWIDE || h.state === branchState);
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <CalendarHeart className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Public Holidays</h3>
+        </div>
+        {!showAddForm && !editingId && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Add' : 'Add Holiday'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Branch state and filters */}
+      <div className={`mb-6 grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-3'}`}>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">Branch State</label>
+          <select
+            value={branchState}
+            onChange={(e) => handleBranchStateChange(e.target.value)}
+            className={inputClasses}
+          >
+            {HOLIDAY_STATES.map(s => (
+              <option key={s.code} value={s.code}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2">Year</label>
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value))}
+            className={inputClasses}
+          >
+            {[-1, 0, 1].map(offset => {
+              const y = new Date().getFullYear() + offset;
+              return <option key={y} value={y}>{y}</option>;
+            })}
+          </select>
+        </div>
+        <label className={`flex items-center gap-2 text-sm text-gray-600 ${isMobile ? '' : 'mt-7'}`}>
+          <input
+            type="checkbox"
+            checked={showAllStates}
+            onChange={(e) => setShowAllStates(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Show other states&apos; holidays
+        </label>
+      </div>
+
+      {/* Add/Edit Form */}
+      {(showAddForm || editingId) && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">
+            {editingId ? 'Edit Holiday' : 'Add New Holiday'}
+          </h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Date</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData((p) => ({ ...p, date: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData((p) => ({ ...p, name: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g., Hari Raya Aidilfitri"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Applies To</label>
+              <select
+                value={formData.state}
+                onChange={(e) => setFormData((p) => ({ ...p, state: e.target.value }))}
+                className={inputClasses}
+              >
+                <option value={NATIONWIDE}>Nationwide</option>
+                {HOLIDAY_STATES.map(s => (
+                  <option key={s.code} value={s.code}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !formData.date || !formData.name.trim()}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+            <button
+              onClick={handleCancelEdit}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Holiday List */}
+      {visibleHolidays.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No holidays for {year}.</p>
+      ) : isMobile ? (
+        /* Mobile Card Layout */
+        <div className="space-y-3">
+          {visibleHolidays.map((h) => (
+            <div key={h.id} className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <h4 className="font-semibold text-gray-900">{h.name}</h4>
+                  <p className="text-sm text-gray-500">{formatHolidayDate(h.date)}</p>
+                  <div className="mt-2">
+                    <StateBadge state={h.state} branchState={branchState} />
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => handleEdit(h)}
+                    className="p-3 text-blue-600 hover:bg-blue-50 rounded-lg"
+                    title="Edit"
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(h)}
+                    className="p-3 text-red-600 hover:bg-red-50 rounded-lg"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        /* Desktop Table Layout */
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Applies To</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleHolidays.map((h) => (
+                <tr key={h.id}>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatHolidayDate(h.date)}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{h.name}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <StateBadge state={h.state} branchState={branchState} />
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(h)}
+                        className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(h)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          The timetable and RL credits use <strong>nationwide</strong> holidays plus the <strong>branch state</strong>&apos;s set.
+          <br />
+          Use &quot;Refresh&quot; in Leave Overview after changing holidays to recalculate RL.
+        </p>
+      </div>
+    </div>
+  );
+}
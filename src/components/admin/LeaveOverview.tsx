@@ -1,9 +1,14 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { LayoutGrid, RefreshCw, Loader2 } from 'lucide-react';
+import { LayoutGrid, RefreshCw, Loader2, CalendarClock, ListChecks } from 'lucide-react';
 import StaffLeaveCard from './StaffLeaveCard';
+import LeaveRequestQueue, { type LeaveRequest } from './LeaveRequestQueue';
+import LeaveRolloverModal from './LeaveRolloverModal';
+import LeaveReconcileModal from './LeaveReconcileModal';
 import { apiUrl } from '@/lib/api';
+import { PRORATION_ROUNDING, PRORATION_ROUNDING_LABELS, type ProrationRounding } from '@/lib/leave-proration';
+import { useAuth } from '@/context/AuthContext';
 
 interface MaternityPeriod {
   startDate: string;
@@ -18,6 +23,8 @@ interface LeaveBalance {
   year: number;
   al: {
     entitlement: number;
+    carried: number;
+    carriedExpiresAt: string | null;
     used: number;
     remaining: number;
   };
@@ -31,6 +38,11 @@ interface LeaveBalance {
     used: number;
     remaining: number;
   };
+  proration: {
+    months: number;
+    alFull: number;
+    mlFull: number;
+  } | null;
   mat?: {
     entitlement: number;
     used: number;
@@ -45,15 +57,22 @@ interface LeaveHistoryEntry {
   staffName: string;
   date: string;
   leaveType: string;
+  amount: number;
+  portion: string | null;
 }
 
 export default function LeaveOverview() {
   const [balances, setBalances] = useState<LeaveBalance[]>([]);
   const [historyByStaff, setHistoryByStaff] = useState<Record<string, LeaveHistoryEntry[]>>({});
+  const [pendingRequests, setPendingRequests] = useState<LeaveRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [isRecalculating, setIsRecalculating] = useState(false);
+  const [isRolloverOpen, setRolloverOpen] = useState(false);
+  const [isReconcileOpen, setReconcileOpen] = useState(false);
+  const [rounding, setRounding] = useState<ProrationRounding | null>(null);
+  const { role } = useAuth();
 
   const currentYear = new Date().getFullYear();
   const years = [currentYear - 1, currentYear, currentYear + 1];
@@ -62,19 +81,22 @@ export default function LeaveOverview() {
     try {
       setIsLoading(true);
 
-      // Fetch balances and history in parallel
-      const [balancesRes, historyRes] = await Promise.all([
+      // Fetch balances, history and pending requests in parallel
+      const [balancesRes, historyRes, requestsRes] = await Promise.all([
         fetch(apiUrl(`/api/leave/balances?year=${selectedYear}`)),
         fetch(apiUrl(`/api/leave/history?year=${selectedYear}`)),
+        fetch(apiUrl('/api/leave/requests')),
       ]);
 
       if (!balancesRes.ok) throw new Error('Failed to fetch balances');
       if (!historyRes.ok) throw new Error('Failed to fetch history');
+      if (!requestsRes.ok) throw new Error('Failed to fetch leave requests');
 
       const balancesData = await balancesRes.json();
       const historyData: LeaveHistoryEntry[] = await historyRes.json();
 
       setBalances(balancesData);
+      setPendingRequests(await requestsRes.json());
 
       // Group history by staffId
       const grouped: Record<string, LeaveHistoryEntry[]> = {};
@@ -96,6 +118,33 @@ export default function LeaveOverview() {
     fetchData();
   }, [fetchData]);
 
+  // Rounding rule for pro-rated entitlements (admin setting)
+  useEffect(() => {
+    if (role !== 'admin') return;
+    fetch(apiUrl('/api/leave/proration'))
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setRounding(data.rounding))
+      .catch(() => setRounding(null));
+  }, [role]);
+
+  const handleRoundingChange = async (value: ProrationRounding) => {
+    try {
+      const response = await fetch(apiUrl('/api/leave/proration'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rounding: value, year: selectedYear }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update rounding');
+      }
+      setRounding(value);
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rounding');
+    }
+  };
+
   const handleEndMaternityEarly = async (staffId: string, returnDate: string) => {
     const response = await fetch(apiUrl('/api/leave/maternity/end-early'), {
       method: 'POST',
@@ -111,6 +160,25 @@ export default function LeaveOverview() {
     await fetchData();
   };
 
+  const handleReviewRequest = async (requestId: string, action: 'approve' | 'reject', note?: string) => {
+    try {
+      const response = await fetch(apiUrl(`/api/leave/requests/${requestId}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${action} leave request`);
+      }
+
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} leave request`);
+    }
+  };
+
   const handleRecalculateRL = async () => {
     try {
       setIsRecalculating(true);
@@ -173,6 +241,26 @@ export default function LeaveOverview() {
             )}
             <span className="hidden sm:inline ml-2">Refresh</span>
           </button>
+          {role === 'admin' && (
+            <button
+              onClick={() => setReconcileOpen(true)}
+              className="flex items-center justify-center px-4 py-3 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 min-h-[48px] min-w-[48px]"
+              title={`Check ${selectedYear} balances against the published schedule`}
+            >
+              <ListChecks className="w-5 h-5" />
+              <span className="hidden sm:inline ml-2">Reconcile</span>
+            </button>
+          )}
+          {role === 'admin' && (
+            <button
+              onClick={() => setRolloverOpen(true)}
+              className="flex items-center justify-center px-4 py-3 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 min-h-[48px] min-w-[48px]"
+              title={`Carry unused ${selectedYear} AL into ${selectedYear + 1}`}
+            >
+              <CalendarClock className="w-5 h-5" />
+              <span className="hidden sm:inline ml-2">Year-end</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -186,6 +274,9 @@ export default function LeaveOverview() {
         </div>
       )}
 
+      {/* Leave Request Approval Queue */}
+      <LeaveRequestQueue requests={pendingRequests} onReview={handleReviewRequest} />
+
       {/* Staff Cards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
         {balances.map((balance) => (
@@ -197,6 +288,7 @@ export default function LeaveOverview() {
             al={balance.al}
             rl={balance.rl}
             ml={balance.ml}
+            proration={balance.proration}
             mat={balance.mat}
             history={historyByStaff[balance.staffId] || []}
             onEndMaternityEarly={handleEndMaternityEarly}
@@ -214,7 +306,7 @@ export default function LeaveOverview() {
       {/* Info Footer */}
       <div className="mt-6 p-3 bg-blue-50 rounded-md">
         <p className="text-xs text-blue-700">
-          <strong>AL:</strong> Annual Leave entitlement set per staff member.
+          <strong>AL:</strong> Annual Leave entitlement set per staff member, plus days carried from last year.
           <br />
           <strong>RL:</strong> Replacement Leave earned when public holidays fall on default off days.
           Use &quot;Refresh&quot; to update based on holidays.
@@ -222,8 +314,40 @@ export default function LeaveOverview() {
           <strong>ML:</strong> Medical Leave entitlement set per staff member.
           <br />
           <strong>MAT:</strong> Maternity Leave (98 days). Select from calendar to auto-create leave period.
+          <br />
+          AL and ML are pro-rated by months of service for staff who join or leave during the year.
         </p>
+        {rounding && (
+          <label className="mt-2 flex items-center gap-2 text-xs text-blue-700">
+            Round pro-rated entitlements:
+            <select
+              value={rounding}
+              onChange={(e) => handleRoundingChange(e.target.value as ProrationRounding)}
+              className="px-2 py-1 border border-blue-200 rounded bg-white text-gray-900"
+            >
+              {PRORATION_ROUNDING.map((option) => (
+                <option key={option} value={option}>
+                  {PRORATION_ROUNDING_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
+
+      <LeaveRolloverModal
+        isOpen={isRolloverOpen}
+        year={selectedYear}
+        onClose={() => setRolloverOpen(false)}
+        onApplied={fetchData}
+      />
+
+      <LeaveReconcileModal
+        isOpen={isReconcileOpen}
+        year={selectedYear}
+        onClose={() => setReconcileOpen(false)}
+        onApplied={fetchData}
+      />
     </div>
   );
 }
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Check, Loader2, ListChecks, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { formatLeaveDays } from '@/lib/partial-leave';
+import type { LeaveReconcileReport } from '@/lib/leave-reconcile';
+
+const FIELD_LABELS: Record<string, string> = { alUsed: 'AL', rlUsed: 'RL', mlUsed: 'ML', matUsed: 'MAT' };
+
+const ACTION_LABELS = { create: 'Add', update: 'Change', delete: 'Remove' } as const;
+
+interface LeaveReconcileModalProps {
+  isOpen: boolean;
+  year: number;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+function describeDay(day: { leaveType: string; amount: number } | null): string {
+  if (!day) return '—';
+  return day.amount === 1 ? day.leaveType : `${day.leaveType} ${formatLeaveDays(day.amount)}d`;
+}
+
+export default function LeaveReconcileModal({ isOpen, year, onClose, onApplied }: LeaveReconcileModalProps) {
+  const [report, setReport] = useState<LeaveReconcileReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchReport = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setReport(null);
+        const response = await fetch(apiUrl(`/api/leave/reconcile?year=${year}`));
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to check leave balances');
+        }
+        setReport(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to check leave balances');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReport();
+  }, [isOpen, year]);
+
+  if (!isOpen) return null;
+
+  const hasDifferences = !!report && (report.history.length > 0 || report.counters.length > 0);
+
+  const handleApply = async () => {
+    try {
+      setIsApplying(true);
+      setError(null);
+      const response = await fetch(apiUrl('/api/leave/reconcile'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to reconcile leave balances');
+      }
+      onApplied();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reconcile leave balances');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <ListChecks className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Reconcile Balances</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {year} leave history and used days compared with the published schedule
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            <span className="ml-2 text-sm text-gray-600">Checking balances...</span>
+          </div>
+        ) : report && (
+          <div className="space-y-6">
+            {report.missingBalances.length > 0 && (
+              <p className="flex items-start gap-1.5 text-sm text-amber-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                No {year} balance for {report.missingBalances.map((s) => s.staffName).join(', ')}; their leave history is
+                fixed but there are no counters to update.
+              </p>
+            )}
+
+            {!hasDifferences && (
+              <p className="text-sm text-green-700">Balances already match the published schedule.</p>
+            )}
+
+            {/* Used counters */}
+            {report.counters.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Used days</h3>
+                <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+                  {report.counters.map((fix) => (
+                    <li key={`${fix.staffId}-${fix.field}`} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <span>
+                        <span className="font-medium text-gray-900">{fix.staffName}</span>
+                        <span className="text-gray-500"> · {FIELD_LABELS[fix.field]}</span>
+                      </span>
+                      <span className="text-gray-600">
+                        {formatLeaveDays(fix.before)} → <span className="font-semibold text-gray-900">{formatLeaveDays(fix.after)}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {/* History rows */}
+            {report.history.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Leave history ({report.history.length} day{report.history.length === 1 ? '' : 's'})
+                </h3>
+                <ul className="divide-y divide-gray-200 border rounded-lg text-sm max-h-64 overflow-y-auto">
+                  {report.history.map((fix, idx) => (
+                    <li key={idx} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <span>
+                        <span className="font-medium text-gray-900">{fix.staffName}</span>
+                        <span className="text-gray-500"> · {format(new Date(`${fix.date}T00:00:00`), 'EEE d MMM')}</span>
+                      </span>
+                      <span className="text-gray-600">
+                        {ACTION_LABELS[fix.action]}: {describeDay(fix.before)} → {describeDay(fix.after)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isLoading || isApplying || !hasDifferences}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+            Apply Fixes
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            The published schedule is treated as correct. Pending and rejected requests and unpublished drafts are not
+            touched.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
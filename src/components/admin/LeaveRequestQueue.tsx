@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Inbox, Check, Ban, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+export interface LeaveRequest {
+  requestId: string;
+  staffId: string;
+  staffName: string;
+  leaveType: string;
+  notes: string | null;
+  dates: string[]; // YYYY-MM-DD, working days only
+  createdAt: string;
+}
+
+interface LeaveRequestQueueProps {
+  requests: LeaveRequest[];
+  onReview: (requestId: string, action: 'approve' | 'reject', note?: string) => Promise<void>;
+}
+
+const LEAVE_TYPE_STYLES: Record<string, string> = {
+  AL: 'bg-blue-100 text-blue-700',
+  RL: 'bg-purple-100 text-purple-700',
+  EL: 'bg-orange-100 text-orange-700',
+  ML: 'bg-red-100 text-red-700',
+};
+
+function formatRange(dates: string[]): string {
+  const first = format(new Date(dates[0] + 'T00:00:00'), 'd MMM yyyy');
+  if (dates.length === 1) return first;
+  const last = format(new Date(dates[dates.length - 1] + 'T00:00:00'), 'd MMM yyyy');
+  return `${first} – ${last}`;
+}
+
+export default function LeaveRequestQueue({ requests, onReview }: LeaveRequestQueueProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (requests.length === 0) return null;
+
+  const handleReview = async (request: LeaveRequest, action: 'approve' | 'reject') => {
+    let note: string | undefined;
+    if (action === 'reject') {
+      const input = prompt(`Reject ${request.staffName}'s ${request.leaveType} request? Optional note:`, '');
+      if (input === null) return;
+      note = input;
+    }
+
+    try {
+      setBusyId(request.requestId);
+      await onReview(request.requestId, action, note);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex items-center space-x-2 mb-3">
+        <Inbox className="w-4 h-4 text-amber-700" />
+        <h4 className="text-sm font-semibold text-amber-900">
+          Pending Requests ({requests.length})
+        </h4>
+      </div>
+      <div className="space-y-2">
+        {requests.map((request) => (
+          <div
+            key={request.requestId}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-white rounded-lg border border-amber-100"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium text-gray-900">{request.staffName}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${LEAVE_TYPE_STYLES[request.leaveType] || 'bg-gray-100 text-gray-600'}`}>
+                  {request.leaveType}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {request.dates.length} day{request.dates.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">{formatRange(request.dates)}</p>
+              {request.notes && <p className="text-xs text-gray-500 mt-1">{request.notes}</p>}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReview(request, 'approve')}
+                disabled={busyId === request.requestId}
+                className="flex-1 sm:flex-none flex items-center justify-center px-3 py-2 bg-brand text-white text-sm font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 min-h-[40px]"
+              >
+                {busyId === request.requestId ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Check className="w-4 h-4 mr-1" />
+                )}
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview(request, 'reject')}
+                disabled={busyId === request.requestId}
+                className="flex-1 sm:flex-none flex items-center justify-center px-3 py-2 border text-gray-600 text-sm font-medium rounded-lg hover:bg-gray-100 disabled:opacity-50 min-h-[40px]"
+              >
+                <Ban className="w-4 h-4 mr-1" />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-amber-700 mt-3">
+        Approved leave is added to the draft timetable. Balances update when the month is published.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Check, Loader2, CalendarClock, AlertTriangle } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+import { formatLeaveDays } from '@/lib/partial-leave';
+
+interface RolloverPreview {
+  fromYear: number;
+  toYear: number;
+  settings: { cap: number; expiry: string };
+  plan: { staffId: string; staffName: string; unused: number; carried: number }[];
+  existing: number;
+}
+
+interface LeaveRolloverModalProps {
+  isOpen: boolean;
+  year: number;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function LeaveRolloverModal({ isOpen, year, onClose, onApplied }: LeaveRolloverModalProps) {
+  const [preview, setPreview] = useState<RolloverPreview | null>(null);
+  const [cap, setCap] = useState('');
+  const [expiryDate, setExpiryDate] = useState(''); // yyyy-MM-dd in the new year
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchPreview = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setPreview(null);
+        const response = await fetch(apiUrl(`/api/leave/rollover?year=${year}`));
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load rollover preview');
+        }
+        const data: RolloverPreview = await response.json();
+        setPreview(data);
+        setCap(String(data.settings.cap));
+        setExpiryDate(`${data.toYear}-${data.settings.expiry}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load rollover preview');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPreview();
+  }, [isOpen, year]);
+
+  if (!isOpen) return null;
+
+  const capDays = Number(cap);
+  const isValid = cap !== '' && capDays >= 0 && !!preview && expiryDate.startsWith(`${preview.toYear}-`);
+
+  const handleApply = async () => {
+    if (!isValid) return;
+    try {
+      setIsApplying(true);
+      setError(null);
+      const response = await fetch(apiUrl('/api/leave/rollover'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, cap: capDays, expiry: expiryDate.slice(5) }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to roll over leave');
+      }
+      onApplied();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll over leave');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Blurred backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-2xl p-6">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto flex items-center justify-center h-14 w-14 rounded-full bg-blue-100">
+            <CalendarClock className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mt-4">Year-end Rollover</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Set up {year + 1} leave balances and carry unused {year} AL forward
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : preview && (
+          <div className="space-y-4">
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Carry-forward cap (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={cap}
+                  onChange={(e) => setCap(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Carried days expire after</label>
+                <input
+                  type="date"
+                  value={expiryDate}
+                  min={`${preview.toYear}-01-01`}
+                  max={`${preview.toYear}-12-31`}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                />
+              </div>
+            </div>
+
+            {preview.existing > 0 && (
+              <p className="flex items-start gap-1.5 text-sm text-amber-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                {preview.existing} staff already have {preview.toYear} balances; only their carried days will be updated.
+              </p>
+            )}
+
+            {/* Per-staff carry */}
+            <ul className="divide-y divide-gray-200 border rounded-lg text-sm">
+              {preview.plan.map((row) => {
+                const carried = capDays >= 0 ? Math.min(capDays, Math.max(0, row.unused)) : 0;
+                return (
+                  <li key={row.staffId} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <span className="font-medium text-gray-900">{row.staffName}</span>
+                    <span className="text-gray-600">
+                      {formatLeaveDays(row.unused)} unused →{' '}
+                      <span className="font-semibold text-gray-900">{formatLeaveDays(carried)} carried</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isLoading || isApplying || !isValid}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-brand text-white rounded-lg font-medium hover:bg-brand-dark transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+            Roll Over
+          </button>
+        </div>
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            AL taken in {year + 1} uses carried days first. Carried days not taken by the expiry date are forfeited.
+            Running the rollover again only refreshes the carried days.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Repeat, Save, RotateCcw, Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+import { getHardcodedWeeks, DEFAULT_ROTATION_ANCHOR, MAX_ROTATION_WEEKS } from '@/lib/shift-patterns';
+import { getPatternForWeek } from '@/lib/schedule-generator';
+import { useShiftPatterns } from '@/hooks/useShiftPatterns';
+import { useShiftTypes } from '@/hooks/useShiftTypes';
+import { offeredShiftKeys, type ShiftCatalog } from '@/lib/shift-types';
+import type { RotationPattern, RotationWeek } from '@/types/schedule';
+
+interface Staff {
+  id: string;
+  name: string;
+  role: string;
+  weeklyHours: number;
+  isActive: boolean;
+}
+
+type PatternOwner =
+  | { type: 'role'; role: string }
+  | { type: 'staff'; staffId: string; role: string };
+
+interface ShiftPatternEditorProps {
+  isMobile?: boolean;
+}
+
+const ROLES = ['Pharmacist', 'Assistant Pharmacist'];
+
+// Display order Monday-first, values are getDay() indices (0=Sunday)
+const WEEK_DAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+function getWeekLabel(index: number, currentIndex: number): string {
+  return `Week ${index + 1}${index === currentIndex ? ' (this week)' : ''}`;
+}
+
+function getWeekHours(week: RotationWeek, shiftCatalog: ShiftCatalog): number {
+  return WEEK_DAYS.reduce((total, { day }) => {
+    const key = week[day];
+    return total + (key ? shiftCatalog[key]?.workHours || 0 : 0);
+  }, 0);
+}
+
+function ShiftKeySelect({
+  value,
+  onChange,
+  shiftCatalog,
+  isMobile,
+}: {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  shiftCatalog: ShiftCatalog;
+  isMobile?: boolean;
+}) {
+  const offered = offeredShiftKeys(shiftCatalog);
+  const retired = value && shiftCatalog[value]?.retired ? shiftCatalog[value] : null;
+  return (
+    <select
+      value={value ?? 'off'}
+      onChange={(e) => onChange(e.target.value === 'off' ? null : e.target.value)}
+      className={`w-full border rounded-lg text-gray-900 bg-white ${
+        isMobile ? 'px-3 py-3 text-base min-h-[48px]' : 'px-2 py-1.5 text-xs'
+      }`}
+    >
+      <option value="off">Off</option>
+      {/* A retired type stays selectable where the pattern already uses it, until it is changed */}
+      {retired && value && (
+        <option value={value}>{`${retired.type} (${retired.startTime}-${retired.endTime}) - retired`}</option>
+      )}
+      <optgroup label="Shifts">
+        {offered.filter(key => !shiftCatalog[key].seasonal).map(key => {
+          const shift = shiftCatalog[key];
+          return <option key={key} value={key}>{`${shift.type} (${shift.startTime}-${shift.endTime})`}</option>;
+        })}
+      </optgroup>
+      <optgroup label="Seasonal">
+        {offered.filter(key => shiftCatalog[key].seasonal).map(key => {
+          const shift = shiftCatalog[key];
+          return <option key={key} value={key}>{`${shift.type} (${shift.startTime}-${shift.endTime})`}</option>;
+        })}
+      </optgroup>
+    </select>
+  );
+}
+
+export default function ShiftPatternEditor({ isMobile = false }: ShiftPatternEditorProps) {
+  const { patterns, isLoading: isLoadingPatterns, refetch } = useShiftPatterns();
+  const { catalog: shiftCatalog } = useShiftTypes();
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [isLoadingStaff, setIsLoadingStaff] = useState(true);
+  const [owner, setOwner] = useState<PatternOwner>({ type: 'role', role: ROLES[0] });
+  const [weeks, setWeeks] = useState<RotationWeek[]>([]);
+  const [anchorDate, setAnchorDate] = useState(DEFAULT_ROTATION_ANCHOR);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      try {
+        setIsLoadingStaff(true);
+        const response = await fetch(apiUrl('/api/staff'));
+        if (!response.ok) throw new Error('Failed to fetch staff');
+        const data: Staff[] = await response.json();
+        setStaff(data.filter(s => s.isActive));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load staff');
+      } finally {
+        setIsLoadingStaff(false);
+      }
+    };
+    fetchStaff();
+  }, []);
+
+  // Active pattern stored for the selected owner (null if it inherits)
+  const ownPattern = useMemo<RotationPattern | null>(() => {
+    if (owner.type === 'staff') {
+      return patterns.find(p => p.staffId === owner.staffId) || null;
+    }
+    return patterns.find(p => !p.staffId && p.role === owner.role) || null;
+  }, [patterns, owner]);
+
+  // Pattern the owner currently inherits when it has none of its own
+  const inheritedPattern = useMemo<{ weeks: RotationWeek[]; anchorDate: string; source: string }>(() => {
+    if (owner.type === 'staff') {
+      const rolePattern = patterns.find(p => !p.staffId && p.role === owner.role);
+      const hardcoded = getHardcodedWeeks(owner.staffId, owner.role);
+      const isLegacy = JSON.stringify(hardcoded) !== JSON.stringify(getHardcodedWeeks(null, owner.role));
+      if (!isLegacy && rolePattern) {
+        return {
+          weeks: rolePattern.weeks,
+          anchorDate: rolePattern.anchorDate || DEFAULT_ROTATION_ANCHOR,
+          source: `${owner.role} default (v${rolePattern.version})`,
+        };
+      }
+      return {
+        weeks: hardcoded,
+        anchorDate: DEFAULT_ROTATION_ANCHOR,
+        source: isLegacy ? 'Built-in pattern' : `${owner.role} built-in default`,
+      };
+    }
+    return { weeks: getHardcodedWeeks(null, owner.role), anchorDate: DEFAULT_ROTATION_ANCHOR, source: 'Built-in default' };
+  }, [patterns, owner]);
+
+  // Reset the editing grid when the owner or stored pattern changes
+  useEffect(() => {
+    setWeeks(ownPattern ? ownPattern.weeks : inheritedPattern.weeks);
+    setAnchorDate(ownPattern?.anchorDate || inheritedPattern.anchorDate);
+  }, [ownPattern, inheritedPattern]);
+
+  const selectedStaff = owner.type === 'staff' ? staff.find(s => s.id === owner.staffId) : undefined;
+  const currentCycleIndex = weeks.length > 0 ? getPatternForWeek(new Date(), weeks.length, anchorDate || DEFAULT_ROTATION_ANCHOR) : -1;
+  const targetHours = selectedStaff?.weeklyHours;
+
+  const handleOwnerChange = (value: string) => {
+    if (value.startsWith('role:')) {
+      setOwner({ type: 'role', role: value.slice(5) });
+    } else {
+      const member = staff.find(s => s.id === value.slice(6));
+      if (member) setOwner({ type: 'staff', staffId: member.id, role: member.role });
+    }
+  };
+
+  const handleShiftChange = (weekIndex: number, day: number, value: string | null) => {
+    setWeeks(prev => prev.map((week, i) => (i === weekIndex ? { ...week, [day]: value } : week)));
+  };
+
+  // New weeks start as a copy of the last week
+  const handleAddWeek = () => {
+    setWeeks(prev => (prev.length >= MAX_ROTATION_WEEKS ? prev : [...prev, { ...prev[prev.length - 1] }]));
+  };
+
+  const handleRemoveWeek = (weekIndex: number) => {
+    setWeeks(prev => (prev.length <= 1 ? prev : prev.filter((_, i) => i !== weekIndex)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const payload = owner.type === 'staff'
+        ? { staffId: owner.staffId, weeks, anchorDate: anchorDate || null }
+        : { role: owner.role, weeks, anchorDate: anchorDate || null };
+
+      const response = await fetch(apiUrl('/api/shift-patterns'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save pattern');
+      }
+
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save pattern');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!ownPattern) return;
+    const target = owner.type === 'staff' ? 'the role default' : 'the built-in default';
+    if (!confirm(`Remove this pattern and fall back to ${target}?`)) return;
+
+    try {
+      const response = await fetch(apiUrl(`/api/shift-patterns/${ownPattern.id}`), {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to reset pattern');
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset pattern');
+    }
+  };
+
+  if (isLoadingPatterns || isLoadingStaff) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading patterns...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const ownerValue = owner.type === 'staff' ? `staff:${owner.staffId}` : `role:${owner.role}`;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className={`flex ${isMobile ? 'flex-col gap-4' : 'items-center justify-between'} mb-6`}>
+        <div className="flex items-center space-x-2">
+          <Repeat className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Shift Patterns</h3>
+        </div>
+        <select
+          value={ownerValue}
+          onChange={(e) => handleOwnerChange(e.target.value)}
+          className={`border rounded-lg text-gray-900 ${isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'}`}
+        >
+          <optgroup label="Role defaults">
+            {ROLES.map(role => (
+              <option key={role} value={`role:${role}`}>{role}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Staff">
+            {staff.map(s => (
+              <option key={s.id} value={`staff:${s.id}`}>{s.name}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Source of the pattern being edited */}
+      <div className="mb-4 text-sm text-gray-600">
+        {ownPattern ? (
+          <span>
+            Version <strong>{ownPattern.version}</strong>
+            {ownPattern.createdAt && (
+              <span className="text-gray-400"> · saved {new Date(ownPattern.createdAt).toLocaleDateString('en-MY', { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+            )}
+          </span>
+        ) : (
+          <span className="text-gray-500">Using {inheritedPattern.source}. Saving creates a dedicated pattern.</span>
+        )}
+      </div>
+
+      {/* Cycle anchor: the week containing this date is week 1 of the rotation */}
+      <div className={`mb-4 flex ${isMobile ? 'flex-col gap-1' : 'items-center gap-3'}`}>
+        <label htmlFor="rotation-anchor" className="text-sm font-medium text-gray-700">Cycle starts</label>
+        <input
+          id="rotation-anchor"
+          type="date"
+          value={anchorDate}
+          onChange={(e) => setAnchorDate(e.target.value)}
+          className={`border rounded-lg text-gray-900 ${isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-1.5 text-sm'}`}
+        />
+        <span className="text-xs text-gray-500">
+          {weeks.length}-week cycle, currently on week {currentCycleIndex + 1}
+        </span>
+      </div>
+
+      {/* Rotation weeks */}
+      {isMobile ? (
+        <div className="space-y-4">
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-700">{getWeekLabel(weekIndex, currentCycleIndex)}</h4>
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-mono ${targetHours !== undefined && getWeekHours(week, shiftCatalog) !== targetHours ? 'text-orange-600' : 'text-gray-500'}`}>
+                    {getWeekHours(week, shiftCatalog)}h
+                  </span>
+                  {weeks.length > 1 && (
+                    <button
+                      onClick={() => handleRemoveWeek(weekIndex)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                      title="Remove week"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2">
+                {WEEK_DAYS.map(({ day, label }) => (
+                  <div key={day} className="flex items-center gap-3">
+                    <span className="w-10 text-sm text-gray-500">{label}</span>
+                    <div className="flex-1">
+                      <ShiftKeySelect
+                        value={week[day]}
+                        onChange={(value) => handleShiftChange(weekIndex, day, value)}
+                        shiftCatalog={shiftCatalog}
+                        isMobile
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Week</th>
+                {WEEK_DAYS.map(({ day, label }) => (
+                  <th key={day} className="px-2 py-3 text-left text-xs font-medium text-gray-500 uppercase">{label}</th>
+                ))}
+                <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase">Hours</th>
+                <th className="px-2 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {weeks.map((week, weekIndex) => (
+                <tr key={weekIndex}>
+                  <td className="px-3 py-3 text-sm font-medium text-gray-900 whitespace-nowrap">{getWeekLabel(weekIndex, currentCycleIndex)}</td>
+                  {WEEK_DAYS.map(({ day }) => (
+                    <td key={day} className="px-2 py-3 min-w-[120px]">
+                      <ShiftKeySelect
+                        value={week[day]}
+                        onChange={(value) => handleShiftChange(weekIndex, day, value)}
+                        shiftCatalog={shiftCatalog}
+                      />
+                    </td>
+                  ))}
+                  <td className={`px-3 py-3 text-sm text-right font-mono ${targetHours !== undefined && getWeekHours(week, shiftCatalog) !== targetHours ? 'text-orange-600' : 'text-gray-600'}`}>
+                    {getWeekHours(week, shiftCatalog)}h
+                    {targetHours !== undefined && <span className="text-gray-400"> / {targetHours}h</span>}
+                  </td>
+                  <td className="px-2 py-3 text-right">
+                    {weeks.length > 1 && (
+                      <button
+                        onClick={() => handleRemoveWeek(weekIndex)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove week"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {weeks.length < MAX_ROTATION_WEEKS && (
+        <button
+          onClick={handleAddWeek}
+          disabled={weeks.length === 0}
+          className={`mt-3 flex items-center text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50 ${
+            isMobile ? 'py-2 text-base' : 'text-sm'
+          }`}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Week
+        </button>
+      )}
+
+      <div className={`mt-6 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || weeks.length === 0}
+          className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+            isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+          }`}
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+          {ownPattern ? 'Save New Version' : 'Save Pattern'}
+        </button>
+        {ownPattern && (
+          <button
+            onClick={handleReset}
+            className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+              isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <RotateCcw className="w-5 h-5 mr-2" />
+            Reset to Default
+          </button>
+        )}
+      </div>
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          <strong>Staff patterns</strong> override the role default for that person.
+          <br />
+          <strong>Role defaults</strong> apply to every staff member in the role without their own pattern.
+          <br />
+          Rotations repeat every N weeks, counted from the cycle start date.
+          <br />
+          Changes apply to the generated timetable; published overrides are kept as-is.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Moon, Plus, Save, X, Loader2, Edit, Trash2 } from 'lucide-react';
+import { RAMADAN_SHIFT_MAP } from '@/staff-data';
+import { apiUrl } from '@/lib/api';
+import { offeredShiftKeys } from '@/lib/shift-types';
+import type { ShiftSeason } from '@/lib/shift-seasons';
+import { useShiftSeasons } from '@/hooks/useShiftSeasons';
+import { useShiftTypes } from '@/hooks/useShiftTypes';
+
+interface ShiftSeasonManagementProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  shiftMap: RAMADAN_SHIFT_MAP as Record<string, string>,
+};
+
+const formatDate = (dateKey: string) => format(new Date(`${dateKey}T00:00:00`), 'd MMM yyyy');
+
+export default function ShiftSeasonManagement({ isMobile = false }: ShiftSeasonManagementProps) {
+  const { seasons, isLoading, error: loadError, refetch } = useShiftSeasons();
+  const { catalog: shiftCatalog } = useShiftTypes();
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const offered = offeredShiftKeys(shiftCatalog);
+  const shiftLabel = (key: string) => {
+    const shift = shiftCatalog[key];
+    return shift ? `${shift.type} (${shift.startTime}-${shift.endTime})` : key;
+  };
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEdit = (season: ShiftSeason) => {
+    setEditingId(season.id);
+    setFormData({
+      name: season.name,
+      startDate: season.startDate,
+      endDate: season.endDate,
+      shiftMap: season.shiftMap,
+    });
+    setShowForm(true);
+  };
+
+  const handleMapChange = (from: string, to: string) => {
+    setFormData((p) => {
+      const shiftMap = { ...p.shiftMap };
+      if (to) shiftMap[from] = to;
+      else delete shiftMap[from];
+      return { ...p, shiftMap };
+    });
+  };
+
+  const saveSeason = async (url: string, method: string, body?: Record<string, unknown>) => {
+    const response = await fetch(apiUrl(url), {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save season');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await saveSeason(`/api/shift-seasons/${editingId}`, 'PATCH', formData);
+      } else {
+        await saveSeason('/api/shift-seasons', 'POST', formData);
+      }
+      await refetch();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save season');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (season: ShiftSeason) => {
+    try {
+      await saveSeason(`/api/shift-seasons/${season.id}`, 'PATCH', { isActive: !season.isActive });
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update season');
+    }
+  };
+
+  const handleDelete = async (season: ShiftSeason) => {
+    if (!confirm(`Delete ${season.name}? Its days go back to the pattern's usual shifts.`)) return;
+    try {
+      await saveSeason(`/api/shift-seasons/${season.id}`, 'DELETE');
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete season');
+    }
+  };
+
+  if (isLoading && seasons.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading seasons...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const displayError = error || loadError;
+  const isFormValid =
+    formData.name.trim() !== '' && formData.startDate !== '' && formData.endDate !== '' && Object.keys(formData.shiftMap).length > 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Moon className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Seasons</h3>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Add' : 'Add Season'}
+          </button>
+        )}
+      </div>
+
+      {displayError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {displayError}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">{editingId ? 'Edit Season' : 'Add New Season'}</h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData((p) => ({ ...p, name: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g., Ramadan 2027"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">First day</label>
+              <input
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => setFormData((p) => ({ ...p, startDate: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Last day</label>
+              <input
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => setFormData((p) => ({ ...p, endDate: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-600 mb-2">Shifts during the season</label>
+            <div className="space-y-2">
+              {offered.map((from) => (
+                <div key={from} className={`grid gap-2 items-center ${isMobile ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                  <span className="text-sm text-gray-700">{shiftLabel(from)}</span>
+                  <select
+                    value={formData.shiftMap[from] || ''}
+                    onChange={(e) => handleMapChange(from, e.target.value)}
+                    className={inputClasses}
+                  >
+                    <option value="">Unchanged</option>
+                    {offered.filter((to) => to !== from).map((to) => (
+                      <option key={to} value={to}>{shiftLabel(to)}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isFormValid}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+            <button
+              onClick={handleCancelForm}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Season List */}
+      {seasons.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No seasons yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {seasons.map((season) => (
+            <div
+              key={season.id}
+              className={`flex items-start justify-between gap-3 bg-gray-50 rounded-xl border border-gray-100 ${
+                isMobile ? 'p-4' : 'px-4 py-3'
+              } ${season.isActive ? '' : 'opacity-60'}`}
+            >
+              <div className="min-w-0">
+                <h4 className="font-semibold text-gray-900">{season.name}</h4>
+                <p className="text-sm text-gray-600 mt-1">
+                  {formatDate(season.startDate)} - {formatDate(season.endDate)}
+                </p>
+                <ul className="mt-1 text-xs text-gray-500">
+                  {Object.entries(season.shiftMap).map(([from, to]) => (
+                    <li key={from}>{shiftLabel(from)} → {shiftLabel(to)}</li>
+                  ))}
+                </ul>
+                <label className="mt-2 flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={season.isActive}
+                    onChange={() => handleToggleActive(season)}
+                    className="w-4 h-4"
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleEdit(season)}
+                  className={`text-blue-600 hover:bg-blue-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                  title="Edit"
+                >
+                  <Edit className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+                </button>
+                <button
+                  onClick={() => handleDelete(season)}
+                  className={`text-red-600 hover:bg-red-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                  title="Delete"
+                >
+                  <Trash2 className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          During an active season, shifts that come from a rotation pattern are swapped for the season&apos;s
+          equivalents, and the automatic rota offers them instead. Shifts set by hand in the timetable are left as
+          they are. Seasons can&apos;t overlap.
+        </p>
+      </div>
+    </div>
+  );
+}
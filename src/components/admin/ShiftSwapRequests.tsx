@@ -0,0 +1,390 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeftRight, Plus, Save, X, Loader2, Check, Ban } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { useAuth } from '@/context/AuthContext';
+
+interface SwapRequest {
+  id: string;
+  requesterId: string;
+  requesterName: string;
+  colleagueId: string;
+  colleagueName: string;
+  requesterDate: string; // YYYY-MM-DD
+  colleagueDate: string; // YYYY-MM-DD
+  status: string;
+  reason: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+interface StaffOption {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface ShiftSwapRequestsProps {
+  isMobile?: boolean;
+}
+
+type SwapAction = 'accept' | 'decline' | 'approve' | 'reject' | 'cancel';
+
+const EMPTY_FORM = { requesterId: '', colleagueId: '', requesterDate: '', colleagueDate: '', reason: '' };
+
+const STATUS_STYLES: Record<string, string> = {
+  proposed: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  declined: 'bg-gray-100 text-gray-600',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+// Actions available at each status, in display order. Only the colleague can accept or
+// decline, and only the staff member who proposed the swap can cancel it.
+const STATUS_ACTIONS: Record<string, { action: SwapAction; label: string; actor?: 'colleague' | 'requester' }[]> = {
+  proposed: [
+    { action: 'accept', label: 'Accept', actor: 'colleague' },
+    { action: 'decline', label: 'Decline', actor: 'colleague' },
+    { action: 'cancel', label: 'Cancel', actor: 'requester' },
+  ],
+  accepted: [
+    { action: 'approve', label: 'Approve' },
+    { action: 'reject', label: 'Reject' },
+    { action: 'cancel', label: 'Cancel', actor: 'requester' },
+  ],
+};
+
+function formatSwapDate(date: string): string {
+  return format(new Date(date + 'T00:00:00'), 'EEE, d MMM yyyy');
+}
+
+function describeSwap(swap: SwapRequest): string {
+  if (swap.requesterDate === swap.colleagueDate) {
+    return `Swap shifts on ${formatSwapDate(swap.requesterDate)}`;
+  }
+  return `${formatSwapDate(swap.requesterDate)} ⇄ ${formatSwapDate(swap.colleagueDate)}`;
+}
+
+export default function ShiftSwapRequests({ isMobile = false }: ShiftSwapRequestsProps) {
+  const { staffId: ownStaffId } = useAuth();
+  const [swaps, setSwaps] = useState<SwapRequest[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchSwaps = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [swapsRes, staffRes] = await Promise.all([
+        fetch(apiUrl('/api/swaps')),
+        fetch(apiUrl('/api/staff')),
+      ]);
+      if (!swapsRes.ok || !staffRes.ok) throw new Error('Failed to fetch swap requests');
+      const [swapsData, staffData] = await Promise.all([swapsRes.json(), staffRes.json()]);
+      setSwaps(swapsData);
+      setStaff(staffData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load swap requests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSwaps();
+  }, [fetchSwaps]);
+
+  const handleCancelForm = () => {
+    setShowAddForm(false);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handlePropose = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(apiUrl('/api/swaps'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          colleagueDate: formData.colleagueDate || formData.requesterDate,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to propose swap');
+      }
+
+      await fetchSwaps();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to propose swap');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAction = async (swap: SwapRequest, action: SwapAction) => {
+    let note: string | null = null;
+    if (action === 'approve' || action === 'reject') {
+      note = prompt(`${action === 'approve' ? 'Approve' : 'Reject'} this swap? Optional note:`, '');
+      if (note === null) return;
+    }
+
+    try {
+      setBusyId(swap.id);
+      const response = await fetch(apiUrl(`/api/swaps/${swap.id}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update swap');
+      }
+
+      await fetchSwaps();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update swap');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading && swaps.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading swap requests...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const requester = staff.find(s => s.id === formData.requesterId);
+  // Swaps are only allowed within the same role
+  const colleagueOptions = staff.filter(s => s.id !== formData.requesterId && (!requester || s.role === requester.role));
+
+  const visibleSwaps = statusFilter === 'open'
+    ? swaps.filter(s => s.status === 'proposed' || s.status === 'accepted')
+    : swaps;
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const renderActions = (swap: SwapRequest) => (
+    <div className={`flex flex-wrap gap-2 ${isMobile ? 'mt-3' : ''}`}>
+      {(STATUS_ACTIONS[swap.status] || [])
+        .filter(({ actor }) => !actor || ownStaffId === (actor === 'colleague' ? swap.colleagueId : swap.requesterId))
+        .map(({ action, label }) => (
+          <button
+            key={action}
+            onClick={() => handleAction(swap, action)}
+            disabled={busyId === swap.id}
+            className={`flex items-center rounded-lg font-medium disabled:opacity-50 ${
+              action === 'approve'
+                ? 'bg-brand text-white hover:bg-brand-dark'
+                : action === 'accept'
+                ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                : 'border text-gray-600 hover:bg-gray-100'
+            } ${isMobile ? 'px-3 py-2 text-sm min-h-[40px]' : 'px-2 py-1 text-xs'}`}
+          >
+            {action === 'approve' || action === 'accept' ? (
+              <Check className="w-4 h-4 mr-1" />
+            ) : (
+              <Ban className="w-4 h-4 mr-1" />
+            )}
+            {label}
+          </button>
+        ))}
+    </div>
+  );
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <ArrowLeftRight className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Shift Swaps</h3>
+        </div>
+        {!showAddForm && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Propose' : 'Propose Swap'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Propose Form */}
+      {showAddForm && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">Propose Swap</h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-2'}`}>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Requested By</label>
+              <select
+                value={formData.requesterId}
+                onChange={(e) => setFormData((p) => ({ ...p, requesterId: e.target.value, colleagueId: '' }))}
+                className={inputClasses}
+              >
+                <option value="">Select staff</option>
+                {staff.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Swap With</label>
+              <select
+                value={formData.colleagueId}
+                onChange={(e) => setFormData((p) => ({ ...p, colleagueId: e.target.value }))}
+                className={inputClasses}
+                disabled={!formData.requesterId}
+              >
+                <option value="">Select colleague</option>
+                {colleagueOptions.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Requester&apos;s Date</label>
+              <input
+                type="date"
+                value={formData.requesterDate}
+                onChange={(e) => setFormData((p) => ({ ...p, requesterDate: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Colleague&apos;s Date</label>
+              <input
+                type="date"
+                value={formData.colleagueDate}
+                onChange={(e) => setFormData((p) => ({ ...p, colleagueDate: e.target.value }))}
+                className={inputClasses}
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave blank to swap shifts on the same day</p>
+            </div>
+            <div className={isMobile ? '' : 'md:col-span-2'}>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Reason</label>
+              <input
+                type="text"
+                value={formData.reason}
+                onChange={(e) => setFormData((p) => ({ ...p, reason: e.target.value }))}
+                className={inputClasses}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handlePropose}
+              disabled={isSaving || !formData.requesterId || !formData.colleagueId || !formData.requesterDate}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Propose
+            </button>
+            <button
+              onClick={handleCancelForm}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="mb-4 flex gap-2">
+        {[
+          { id: 'open', label: 'Open' },
+          { id: 'all', label: 'All' },
+        ].map(f => (
+          <button
+            key={f.id}
+            onClick={() => setStatusFilter(f.id)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium ${
+              statusFilter === f.id ? 'bg-brand text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Swap List */}
+      {visibleSwaps.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No swap requests.</p>
+      ) : (
+        <div className="space-y-3">
+          {visibleSwaps.map((swap) => (
+            <div
+              key={swap.id}
+              className={`bg-gray-50 rounded-xl border border-gray-100 ${
+                isMobile ? 'p-4' : 'p-4 flex items-center justify-between gap-4'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <h4 className="font-semibold text-gray-900">
+                    {swap.requesterName} ⇄ {swap.colleagueName}
+                  </h4>
+                  <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_STYLES[swap.status] || ''}`}>
+                    {swap.status}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">{describeSwap(swap)}</p>
+                {swap.reason && <p className="text-xs text-gray-500 mt-1">Reason: {swap.reason}</p>}
+                {swap.reviewNote && <p className="text-xs text-gray-500 mt-1">Note: {swap.reviewNote}</p>}
+              </div>
+              {renderActions(swap)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          The colleague accepts first, then an admin approves. Approved swaps are written to the <strong>draft</strong> schedule &mdash; publish the month to make them live.
+          <br />
+          Swaps that would move either person&apos;s weekly hours away from their target are blocked.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState } from 'react';
+import { Clock, Plus, Save, X, Loader2, Edit } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+import { SHIFT_TIMINGS, type ShiftTypeEntry } from '@/lib/shift-types';
+import { useShiftTypes } from '@/hooks/useShiftTypes';
+
+interface ShiftTypeManagementProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = {
+  key: '',
+  label: '',
+  timing: '',
+  startTime: '09:15',
+  endTime: '18:15',
+  workHours: '8',
+  breakHours: '1',
+  color: '#6b7280',
+  isSeasonal: false,
+  sortOrder: '',
+};
+
+export default function ShiftTypeManagement({ isMobile = false }: ShiftTypeManagementProps) {
+  const { shiftTypes, isLoading, error: loadError, refetch } = useShiftTypes();
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEdit = (shiftType: ShiftTypeEntry) => {
+    setEditingId(shiftType.id);
+    setFormData({
+      key: shiftType.key,
+      label: shiftType.label,
+      timing: shiftType.timing || '',
+      startTime: shiftType.startTime,
+      endTime: shiftType.endTime,
+      workHours: String(shiftType.workHours),
+      breakHours: String(shiftType.breakHours),
+      color: shiftType.color,
+      isSeasonal: shiftType.isSeasonal,
+      sortOrder: String(shiftType.sortOrder),
+    });
+    setShowForm(true);
+  };
+
+  const saveShiftType = async (url: string, method: string, body: Record<string, unknown>) => {
+    const response = await fetch(apiUrl(url), {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save shift type');
+    }
+  };
+
+  const handleSave = async () => {
+    const body = {
+      label: formData.label,
+      timing: formData.timing || null,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      workHours: Number(formData.workHours),
+      breakHours: Number(formData.breakHours),
+      color: formData.color,
+      isSeasonal: formData.isSeasonal,
+      ...(formData.sortOrder !== '' && { sortOrder: Number(formData.sortOrder) }),
+    };
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await saveShiftType(`/api/shift-types/${editingId}`, 'PATCH', body);
+      } else {
+        await saveShiftType('/api/shift-types', 'POST', { ...body, key: formData.key.trim() });
+      }
+      await refetch();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shift type');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (shiftType: ShiftTypeEntry) => {
+    try {
+      await saveShiftType(`/api/shift-types/${shiftType.id}`, 'PATCH', { isActive: !shiftType.isActive });
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shift type');
+    }
+  };
+
+  if (isLoading && shiftTypes.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading shift types...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const displayError = error || loadError;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Clock className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Shift Types</h3>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Add' : 'Add Shift Type'}
+          </button>
+        )}
+      </div>
+
+      {displayError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {displayError}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">{editingId ? 'Edit Shift Type' : 'Add New Shift Type'}</h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Key</label>
+              <input
+                type="text"
+                value={formData.key}
+                onChange={(e) => setFormData((p) => ({ ...p, key: e.target.value }))}
+                disabled={!!editingId}
+                className={`${inputClasses} disabled:bg-gray-100 disabled:text-gray-500`}
+                placeholder="e.g., 10h_early"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Label</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData((p) => ({ ...p, label: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g., 10 hours"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Timing</label>
+              <select
+                value={formData.timing}
+                onChange={(e) => setFormData((p) => ({ ...p, timing: e.target.value }))}
+                className={inputClasses}
+              >
+                <option value="">None</option>
+                {SHIFT_TIMINGS.map((t) => (
+                  <option key={t} value={t}>{t === 'early' ? 'Early' : 'Late'}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Start</label>
+              <input
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => setFormData((p) => ({ ...p, startTime: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">End</label>
+              <input
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => setFormData((p) => ({ ...p, endTime: e.target.value }))}
+                className={inputClasses}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Paid hours</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  value={formData.workHours}
+                  onChange={(e) => setFormData((p) => ({ ...p, workHours: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Break (h)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  value={formData.breakHours}
+                  onChange={(e) => setFormData((p) => ({ ...p, breakHours: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Colour</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={formData.color}
+                  onChange={(e) => setFormData((p) => ({ ...p, color: e.target.value }))}
+                  className="h-10 w-12 border rounded-lg bg-white"
+                />
+                <input
+                  type="text"
+                  value={formData.color}
+                  onChange={(e) => setFormData((p) => ({ ...p, color: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Position (optional)</label>
+              <input
+                type="number"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData((p) => ({ ...p, sortOrder: e.target.value }))}
+                className={inputClasses}
+                placeholder="Last"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={formData.isSeasonal}
+                onChange={(e) => setFormData((p) => ({ ...p, isSeasonal: e.target.checked }))}
+                className="w-4 h-4"
+              />
+              Seasonal (e.g. Ramadan): listed apart and only scheduled automatically by a season
+            </label>
+          </div>
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || formData.key.trim() === '' || formData.label.trim() === ''}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+            <button
+              onClick={handleCancelForm}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Shift Type List */}
+      {shiftTypes.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No shift types yet; the built-in shifts are in use.</p>
+      ) : (
+        <div className="space-y-3">
+          {shiftTypes.map((shiftType) => (
+            <div
+              key={shiftType.id}
+              className={`flex items-start justify-between gap-3 bg-gray-50 rounded-xl border border-gray-100 ${
+                isMobile ? 'p-4' : 'px-4 py-3'
+              } ${shiftType.isActive ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start gap-3 min-w-0">
+                <span className="mt-1 w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: shiftType.color }} />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold text-gray-900">{shiftType.label}</h4>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-600 font-mono">{shiftType.key}</span>
+                    {shiftType.isSeasonal && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-700">Seasonal</span>
+                    )}
+                    {!shiftType.isActive && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-700">Retired</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {shiftType.startTime}-{shiftType.endTime} · {shiftType.workHours}h paid
+                    {shiftType.breakHours > 0 && ` · ${shiftType.breakHours}h break`}
+                    {shiftType.timing && ` · ${shiftType.timing === 'early' ? 'Early' : 'Late'}`}
+                  </p>
+                  <label className="mt-2 flex items-center gap-1 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={shiftType.isActive}
+                      onChange={() => handleToggleActive(shiftType)}
+                      className="w-4 h-4"
+                    />
+                    Active
+                  </label>
+                </div>
+              </div>
+              <button
+                onClick={() => handleEdit(shiftType)}
+                className={`text-blue-600 hover:bg-blue-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                title="Edit"
+              >
+                <Edit className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          Active shift types are offered in the timetable, shift patterns and automatic rota. Retiring a type hides it
+          from those pickers, but days and patterns already using it keep showing it. Keys can&apos;t be changed once
+          saved, and times and hours can&apos;t be changed once a day in the timetable uses the type; retire it and add
+          a new one instead.
+        </p>
+      </div>
+    </div>
+  );
+}
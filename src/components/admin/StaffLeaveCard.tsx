@@ -5,6 +5,7 @@ import { ChevronDown, ChevronUp, MoreVertical, CalendarOff } from 'lucide-react'
 import { format, parseISO, differenceInDays } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
 import { AVATAR_COLORS } from '@/staff-data';
+import { formatLeaveDays } from '@/lib/partial-leave';
 
 interface LeaveHistoryEntry {
   id: string;
@@ -12,6 +13,8 @@ interface LeaveHistoryEntry {
   staffName: string;
   date: string;
   leaveType: string;
+  amount: number;
+  portion: string | null;
 }
 
 interface MaternityPeriod {
@@ -24,9 +27,10 @@ interface StaffLeaveCardProps {
   staffId: string;
   staffName: string;
   staffRole: string;
-  al: { entitlement: number; used: number; remaining: number };
+  al: { entitlement: number; carried?: number; carriedExpiresAt?: string | null; used: number; remaining: number };
   rl: { earned: number; used: number; remaining: number };
   ml: { entitlement: number; used: number; remaining: number };
+  proration?: { months: number; alFull: number; mlFull: number } | null;
   mat?: { entitlement: number; used: number; remaining: number; activePeriod?: MaternityPeriod };
   history: LeaveHistoryEntry[];
   onEndMaternityEarly?: (staffId: string, returnDate: string) => Promise<void>;
@@ -68,6 +72,7 @@ export default function StaffLeaveCard({
   al,
   rl,
   ml,
+  proration,
   mat,
   history,
   onEndMaternityEarly,
@@ -104,7 +109,9 @@ export default function StaffLeaveCard({
     }
   };
 
-  const alPercentUsed = al.entitlement > 0 ? (al.used / al.entitlement) * 100 : 0;
+  const alCarried = al.carried || 0;
+  const alTotal = al.entitlement + alCarried;
+  const alPercentUsed = alTotal > 0 ? (al.used / alTotal) * 100 : 0;
   const rlPercentUsed = rl.earned > 0 ? (rl.used / rl.earned) * 100 : 0;
   const mlPercentUsed = ml.entitlement > 0 ? (ml.used / ml.entitlement) * 100 : 0;
   const matPercentUsed = mat && mat.entitlement > 0 ? (mat.used / mat.entitlement) * 100 : 0;
@@ -131,7 +138,7 @@ export default function StaffLeaveCard({
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-gray-600">Annual Leave</span>
             <span className="text-sm">
-              <span className="font-semibold text-gray-900">{Math.floor(al.remaining)}</span>
+              <span className="font-semibold text-gray-900">{formatLeaveDays(al.remaining)}</span>
               <span className="text-gray-400 text-xs ml-0.5">LEFT</span>
             </span>
           </div>
@@ -142,8 +149,14 @@ export default function StaffLeaveCard({
             />
           </div>
           <div className="flex items-center justify-between text-xs text-gray-400 mt-1.5">
-            <span>{Math.floor(al.used)} used</span>
-            <span>{al.entitlement} total</span>
+            <span>{formatLeaveDays(al.used)} used</span>
+            <span>
+              {alCarried > 0
+                ? `${al.entitlement} + ${formatLeaveDays(alCarried)} carried${
+                    al.carriedExpiresAt ? ` (until ${format(parseISO(al.carriedExpiresAt), 'd MMM')})` : ''
+                  }`
+                : `${al.entitlement} total`}
+            </span>
           </div>
         </div>
 
@@ -152,7 +165,7 @@ export default function StaffLeaveCard({
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-gray-600">Replacement Leave</span>
             <span className="text-sm">
-              <span className="font-semibold text-gray-900">{Math.floor(rl.remaining)}</span>
+              <span className="font-semibold text-gray-900">{formatLeaveDays(rl.remaining)}</span>
               <span className="text-gray-400 text-xs ml-0.5">LEFT</span>
             </span>
           </div>
@@ -163,8 +176,8 @@ export default function StaffLeaveCard({
             />
           </div>
           <div className="flex items-center justify-between text-xs text-gray-400 mt-1.5">
-            <span>{Math.floor(rl.used)} used</span>
-            <span>{Math.floor(rl.earned)} earned</span>
+            <span>{formatLeaveDays(rl.used)} used</span>
+            <span>{formatLeaveDays(rl.earned)} earned</span>
           </div>
         </div>
 
@@ -173,7 +186,7 @@ export default function StaffLeaveCard({
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-gray-600">Medical Leave</span>
             <span className="text-sm">
-              <span className="font-semibold text-gray-900">{Math.floor(ml.remaining)}</span>
+              <span className="font-semibold text-gray-900">{formatLeaveDays(ml.remaining)}</span>
               <span className="text-gray-400 text-xs ml-0.5">LEFT</span>
             </span>
           </div>
@@ -184,11 +197,26 @@ export default function StaffLeaveCard({
             />
           </div>
           <div className="flex items-center justify-between text-xs text-gray-400 mt-1.5">
-            <span>{Math.floor(ml.used)} used</span>
+            <span>{formatLeaveDays(ml.used)} used</span>
             <span>{ml.entitlement} total</span>
           </div>
         </div>
 
+        {/* Pro-rating breakdown for joiners and leavers */}
+        {proration && (
+          <div className="mb-5 p-3 rounded-lg bg-gray-50 text-xs text-gray-500">
+            <div className="font-medium text-gray-700 mb-1">
+              Pro-rated: {formatLeaveDays(proration.months)} of 12 months
+            </div>
+            <div>
+              AL {proration.alFull} × {formatLeaveDays(proration.months)}/12 → {al.entitlement} days
+            </div>
+            <div>
+              ML {proration.mlFull} × {formatLeaveDays(proration.months)}/12 → {ml.entitlement} days
+            </div>
+          </div>
+        )}
+
         {/* Maternity Leave - only show if there's an active/ended period or days used */}
         {mat && (mat.activePeriod || mat.used > 0) && (
           <div className={`mb-5 p-3 rounded-lg border ${mat.activePeriod?.status === 'ended_early' ? 'bg-gray-50 border-gray-200' : 'bg-blue-50 border-blue-100'}`}>
@@ -345,6 +373,13 @@ export default function StaffLeaveCard({
                     </div>
                     <div className="flex-1 text-sm text-gray-700 pl-3">
                       {getLeaveTypeLabel(entry.leaveType)} Leave
+                      {entry.amount < 1 && (
+                        <span className="text-xs text-gray-400 ml-1.5">
+                          {entry.portion === 'am' || entry.portion === 'pm'
+                            ? `½ day (${entry.portion.toUpperCase()})`
+                            : `${formatLeaveDays(entry.amount)} day`}
+                        </span>
+                      )}
                     </div>
                   </div>
                 );
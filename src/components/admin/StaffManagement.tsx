@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Users, Plus, Pencil, Trash2, Save, X, Loader2, CalendarIcon } from 'lucide-react';
+import { Users, Plus, Pencil, Trash2, Save, X, Loader2, CalendarIcon, CalendarPlus } from 'lucide-react';
 import { AVATAR_COLORS } from '@/staff-data';
 import { apiUrl } from '@/lib/api';
 import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
+import CalendarFeedModal from './CalendarFeedModal';
 
 interface Staff {
   id: string;
@@ -111,10 +112,12 @@ function MobileStaffListCard({
   staff,
   onEdit,
   onDelete,
+  onCalendarFeed,
 }: {
   staff: Staff;
   onEdit: (s: Staff) => void;
   onDelete: (id: string) => void;
+  onCalendarFeed: (s: Staff) => void;
 }) {
   const avatarColors = AVATAR_COLORS[staff.id] || { bg: 'bg-gray-500' };
   const initials = staff.name.substring(0, 2).toUpperCase();
@@ -168,6 +171,13 @@ function MobileStaffListCard({
           <Pencil className="w-5 h-5" />
           Edit
         </button>
+        <button
+          onClick={() => onCalendarFeed(staff)}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-50 text-gray-600 rounded-lg font-medium text-sm min-h-[48px]"
+          title="Calendar Feed"
+        >
+          <CalendarPlus className="w-5 h-5" />
+        </button>
         <button
           onClick={() => onDelete(staff.id)}
           className="flex items-center justify-center gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-lg font-medium text-sm min-h-[48px]"
@@ -187,6 +197,7 @@ export default function StaffManagement({ isMobile = false }: StaffManagementPro
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [calendarFeedStaff, setCalendarFeedStaff] = useState<Staff | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -466,6 +477,7 @@ export default function StaffManagement({ isMobile = false }: StaffManagementPro
               staff={s}
               onEdit={handleEdit}
               onDelete={handleDelete}
+              onCalendarFeed={setCalendarFeedStaff}
             />
           ))}
         </div>
@@ -511,6 +523,13 @@ export default function StaffManagement({ isMobile = false }: StaffManagementPro
                         >
                           <Pencil className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setCalendarFeedStaff(s)}
+                          className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Calendar Feed"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleDelete(s.id)}
                           className="p-1 text-red-600 hover:bg-red-50 rounded"
@@ -527,6 +546,8 @@ export default function StaffManagement({ isMobile = false }: StaffManagementPro
           </table>
         </div>
       )}
+
+      <CalendarFeedModal staff={calendarFeedStaff} onClose={() => setCalendarFeedStaff(null)} />
     </div>
   );
 }
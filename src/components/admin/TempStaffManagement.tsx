@@ -0,0 +1,390 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, startOfYear, endOfMonth } from 'date-fns';
+import { Briefcase, Plus, Save, X, Loader2, Edit, Phone, Mail } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
+import { TEMP_QUALIFICATIONS, type TempQualification, type TempStaffMember, type TempStaffReportRow } from '@/lib/temp-staff';
+import { useTempStaff } from '@/hooks/useTempStaff';
+
+interface TempStaffManagementProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  qualification: 'Pharmacist' as TempQualification,
+  phone: '',
+  email: '',
+  hourlyRate: '',
+  notes: '',
+};
+
+const formatMoney = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+export default function TempStaffManagement({ isMobile = false }: TempStaffManagementProps) {
+  const { temps, isLoading, error: loadError, refetch } = useTempStaff();
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  // Hours and cost report, this year to date by default
+  const [reportFrom, setReportFrom] = useState(format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [reportTo, setReportTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<TempStaffReportRow[]>([]);
+  const [isLoadingReport, setIsLoadingReport] = useState(false);
+
+  useEffect(() => {
+    if (!reportFrom || !reportTo) return;
+    const fetchReport = async () => {
+      try {
+        setIsLoadingReport(true);
+        const response = await fetch(apiUrl(`/api/temp-staff/report?from=${reportFrom}&to=${reportTo}`));
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load temp staff report');
+        }
+        setReport(await response.json());
+      } catch (err) {
+        setReport([]);
+        setError(err instanceof Error ? err.message : 'Failed to load temp staff report');
+      } finally {
+        setIsLoadingReport(false);
+      }
+    };
+    fetchReport();
+  }, [reportFrom, reportTo]);
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEdit = (temp: TempStaffMember) => {
+    setEditingId(temp.id);
+    setFormData({
+      name: temp.name,
+      qualification: temp.qualification,
+      phone: temp.phone || '',
+      email: temp.email || '',
+      hourlyRate: temp.hourlyRate !== null ? String(temp.hourlyRate) : '',
+      notes: temp.notes || '',
+    });
+    setShowForm(true);
+  };
+
+  const saveTemp = async (url: string, method: string, body: Record<string, unknown>) => {
+    const response = await fetch(apiUrl(url), {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save temp');
+    }
+  };
+
+  const handleSave = async () => {
+    const body = { ...formData, hourlyRate: formData.hourlyRate === '' ? null : Number(formData.hourlyRate) };
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await saveTemp(`/api/temp-staff/${editingId}`, 'PATCH', body);
+      } else {
+        await saveTemp('/api/temp-staff', 'POST', body);
+      }
+      await refetch();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save temp');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (temp: TempStaffMember) => {
+    try {
+      await saveTemp(`/api/temp-staff/${temp.id}`, 'PATCH', { isActive: !temp.isActive });
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update temp');
+    }
+  };
+
+  if (isLoading && temps.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading temp staff...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const displayError = error || loadError;
+  const totalHours = report.reduce((sum, row) => sum + row.hours, 0);
+  const totalCost = report.reduce((sum, row) => sum + (row.cost ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Briefcase className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-medium text-gray-900">Temp Staff</h3>
+          </div>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+                isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+              {isMobile ? 'Add' : 'Add Temp'}
+            </button>
+          )}
+        </div>
+
+        {displayError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {displayError}
+            <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+            <h4 className="text-sm font-medium text-gray-700 mb-4">{editingId ? 'Edit Temp' : 'Add New Temp'}</h4>
+            <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData((p) => ({ ...p, name: e.target.value }))}
+                  className={inputClasses}
+                  placeholder="e.g., Aina"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Qualification</label>
+                <select
+                  value={formData.qualification}
+                  onChange={(e) => setFormData((p) => ({ ...p, qualification: e.target.value as TempQualification }))}
+                  className={inputClasses}
+                >
+                  {TEMP_QUALIFICATIONS.map((q) => (
+                    <option key={q} value={q}>{q}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Hourly Rate (optional)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.hourlyRate}
+                  onChange={(e) => setFormData((p) => ({ ...p, hourlyRate: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Phone (optional)</label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData((p) => ({ ...p, phone: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Email (optional)</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData((p) => ({ ...p, email: e.target.value }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-2">Notes (optional)</label>
+                <input
+                  type="text"
+                  value={formData.notes}
+                  onChange={(e) => setFormData((p) => ({ ...p, notes: e.target.value }))}
+                  className={inputClasses}
+                  placeholder="e.g., weekends only"
+                />
+              </div>
+            </div>
+            <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || formData.name.trim() === ''}
+                className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                  isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+                }`}
+              >
+                {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+                Save
+              </button>
+              <button
+                onClick={handleCancelForm}
+                className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                  isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+                }`}
+              >
+                <X className="w-5 h-5 mr-2" />
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Temp List */}
+        {temps.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No temps in the registry yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {temps.map((temp) => (
+              <div
+                key={temp.id}
+                className={`flex items-start justify-between gap-3 bg-gray-50 rounded-xl border border-gray-100 ${
+                  isMobile ? 'p-4' : 'px-4 py-3'
+                } ${temp.isActive ? '' : 'opacity-60'}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold text-gray-900">{temp.name}</h4>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700">{temp.qualification}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-gray-600">
+                    {temp.phone && (
+                      <span className="flex items-center gap-1"><Phone className="w-3.5 h-3.5" />{temp.phone}</span>
+                    )}
+                    {temp.email && (
+                      <span className="flex items-center gap-1"><Mail className="w-3.5 h-3.5" />{temp.email}</span>
+                    )}
+                    {temp.hourlyRate !== null && <span>{formatMoney(temp.hourlyRate)} / hour</span>}
+                  </div>
+                  {temp.notes && <p className="text-xs text-gray-500 mt-1">{temp.notes}</p>}
+                  <label className="mt-2 flex items-center gap-1 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={temp.isActive}
+                      onChange={() => handleToggleActive(temp)}
+                      className="w-4 h-4"
+                    />
+                    Active
+                  </label>
+                </div>
+                <button
+                  onClick={() => handleEdit(temp)}
+                  className={`text-blue-600 hover:bg-blue-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+                  title="Edit"
+                >
+                  <Edit className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Info Footer */}
+        <div className="mt-6 p-3 bg-blue-50 rounded-md">
+          <p className="text-xs text-blue-700">
+            Replacement shifts in the timetable are picked from the active temps here. Deactivated temps keep their
+            past shifts and still appear in the hours report.
+          </p>
+        </div>
+      </div>
+
+      {/* Hours & Cost Report */}
+      <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+        <div className={`flex ${isMobile ? 'flex-col gap-3' : 'items-center justify-between'} mb-4`}>
+          <h3 className="text-lg font-medium text-gray-900">Hours &amp; Cost</h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={reportFrom}
+              onChange={(e) => setReportFrom(e.target.value)}
+              className="border rounded-lg px-3 py-2 text-sm text-gray-900"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={reportTo}
+              onChange={(e) => setReportTo(e.target.value)}
+              className="border rounded-lg px-3 py-2 text-sm text-gray-900"
+            />
+          </div>
+        </div>
+
+        {isLoadingReport ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            <span className="ml-2 text-gray-600">Loading report...</span>
+          </div>
+        ) : report.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No replacement shifts in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider border-b">
+                  <th className="py-2 pr-4">Temp</th>
+                  <th className="py-2 pr-4 text-right">Shifts</th>
+                  <th className="py-2 pr-4 text-right">Hours</th>
+                  <th className="py-2 pr-4 text-right">Rate</th>
+                  <th className="py-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((row) => (
+                  <tr key={row.tempStaffId || row.name} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900">
+                        {row.name}
+                        {!row.tempStaffId && <span className="ml-1 text-xs text-amber-600">(not in registry)</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {row.months.map((m) => `${format(new Date(`${m.month}-01T00:00:00`), 'MMM yyyy')}: ${m.hours}h${m.cost !== null ? ` (${formatMoney(m.cost)})` : ''}`).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{row.shifts}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{row.hours}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{formatMoney(row.hourlyRate)}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{formatMoney(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900">
+                  <td className="py-2 pr-4">Total</td>
+                  <td className="py-2 pr-4 text-right">{report.reduce((sum, row) => sum + row.shifts, 0)}</td>
+                  <td className="py-2 pr-4 text-right">{Math.round(totalHours * 100) / 100}</td>
+                  <td className="py-2 pr-4" />
+                  <td className="py-2 text-right">{formatMoney(totalCost)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { UserCog, Plus, Save, X, Loader2, KeyRound, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiUrl } from '@/lib/api';
+import { ROLES, ROLE_LABELS, type Role } from '@/lib/permissions';
+
+interface UserAccount {
+  id: string;
+  username: string;
+  role: Role;
+  staffId: string | null;
+  staffName: string | null;
+  isActive: boolean;
+  lastLoginAt: string | null;
+}
+
+interface StaffOption {
+  id: string;
+  name: string;
+}
+
+interface UserManagementProps {
+  isMobile?: boolean;
+}
+
+const EMPTY_FORM = { username: '', password: '', role: 'staff' as Role, staffId: '' };
+
+const ROLE_STYLES: Record<Role, string> = {
+  admin: 'bg-purple-100 text-purple-700',
+  scheduler: 'bg-blue-100 text-blue-700',
+  staff: 'bg-gray-100 text-gray-600',
+};
+
+export default function UserManagement({ isMobile = false }: UserManagementProps) {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [usersRes, staffRes] = await Promise.all([
+        fetch(apiUrl('/api/users')),
+        fetch(apiUrl('/api/staff')),
+      ]);
+      if (!usersRes.ok || !staffRes.ok) throw new Error('Failed to fetch users');
+      const [usersData, staffData] = await Promise.all([usersRes.json(), staffRes.json()]);
+      setUsers(usersData);
+      setStaff(staffData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const updateUser = async (user: UserAccount, changes: Record<string, unknown>) => {
+    try {
+      const response = await fetch(apiUrl(`/api/users/${user.id}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update user');
+      }
+
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user');
+    }
+  };
+
+  const handleCancelForm = () => {
+    setShowAddForm(false);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(apiUrl('/api/users'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...formData, staffId: formData.staffId || null }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create user');
+      }
+
+      await fetchUsers();
+      handleCancelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetPassword = async (user: UserAccount) => {
+    const password = prompt(`New password for ${user.username}:`);
+    if (!password) return;
+    await updateUser(user, { password });
+  };
+
+  const handleDelete = async (user: UserAccount) => {
+    if (!confirm(`Delete the account "${user.username}"? The staff record is kept.`)) return;
+
+    try {
+      const response = await fetch(apiUrl(`/api/users/${user.id}`), { method: 'DELETE' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete user');
+      }
+
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete user');
+    }
+  };
+
+  if (isLoading && users.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          <span className="ml-2 text-gray-600">Loading users...</span>
+        </div>
+      </div>
+    );
+  }
+
+  // Staff members without an account yet
+  const linkedStaffIds = new Set(users.map((u) => u.staffId).filter(Boolean));
+  const unlinkedStaff = staff.filter((s) => !linkedStaffIds.has(s.id));
+
+  const inputClasses = `w-full border rounded-lg text-gray-900 ${
+    isMobile ? 'px-4 py-3 text-base min-h-[48px]' : 'px-3 py-2 text-sm'
+  }`;
+
+  const renderRoleSelect = (user: UserAccount) => (
+    <select
+      value={user.role}
+      onChange={(e) => updateUser(user, { role: e.target.value })}
+      className={`rounded text-xs font-medium border-0 ${ROLE_STYLES[user.role]} ${isMobile ? 'px-2 py-2' : 'px-2 py-1'}`}
+    >
+      {ROLES.map((r) => (
+        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+      ))}
+    </select>
+  );
+
+  const renderActions = (user: UserAccount) => (
+    <div className="flex gap-1">
+      <button
+        onClick={() => handleResetPassword(user)}
+        className={`text-blue-600 hover:bg-blue-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+        title="Reset password"
+      >
+        <KeyRound className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+      </button>
+      <button
+        onClick={() => handleDelete(user)}
+        className={`text-red-600 hover:bg-red-50 ${isMobile ? 'p-3 rounded-lg' : 'p-1 rounded'}`}
+        title="Delete"
+      >
+        <Trash2 className={isMobile ? 'w-5 h-5' : 'w-4 h-4'} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border ${isMobile ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <UserCog className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">User Accounts</h3>
+        </div>
+        {!showAddForm && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark ${
+              isMobile ? 'px-4 py-3 text-sm min-h-[48px]' : 'px-3 py-2 text-sm'
+            }`}
+          >
+            <Plus className={isMobile ? 'w-5 h-5 mr-2' : 'w-4 h-4 mr-1'} />
+            {isMobile ? 'Add' : 'Add User'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Add Form */}
+      {showAddForm && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">Add New User</h4>
+          <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-4'}`}>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Username</label>
+              <input
+                type="text"
+                value={formData.username}
+                onChange={(e) => setFormData((p) => ({ ...p, username: e.target.value.toLowerCase() }))}
+                className={inputClasses}
+                placeholder="e.g., siti"
+                autoCapitalize="none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Password</label>
+              <input
+                type="password"
+                value={formData.password}
+                onChange={(e) => setFormData((p) => ({ ...p, password: e.target.value }))}
+                className={inputClasses}
+                autoComplete="new-password"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Role</label>
+              <select
+                value={formData.role}
+                onChange={(e) => setFormData((p) => ({ ...p, role: e.target.value as Role }))}
+                className={inputClasses}
+              >
+                {ROLES.map((r) => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">Staff Member</label>
+              <select
+                value={formData.staffId}
+                onChange={(e) => setFormData((p) => ({ ...p, staffId: e.target.value }))}
+                className={inputClasses}
+              >
+                <option value="">{formData.role === 'staff' ? 'Select staff' : 'None'}</option>
+                {unlinkedStaff.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className={`mt-4 ${isMobile ? 'flex flex-col gap-2' : 'flex justify-end space-x-2'}`}>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !formData.username || !formData.password || (formData.role === 'staff' && !formData.staffId)}
+              className={`flex items-center justify-center bg-brand text-white font-medium rounded-lg hover:bg-brand-dark disabled:opacity-50 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-1' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+            <button
+              onClick={handleCancelForm}
+              className={`flex items-center justify-center border rounded-lg text-gray-600 hover:bg-gray-100 ${
+                isMobile ? 'px-4 py-3 text-base min-h-[48px] order-2' : 'px-3 py-2 text-sm'
+              }`}
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* User List */}
+      {users.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No user accounts yet.</p>
+      ) : isMobile ? (
+        /* Mobile Card Layout */
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div key={user.id} className={`bg-gray-50 rounded-xl p-4 border border-gray-100 ${user.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <h4 className="font-semibold text-gray-900">{user.username}</h4>
+                  <p className="text-sm text-gray-500">{user.staffName || 'Not linked to staff'}</p>
+                  <div className="mt-2 flex items-center gap-2">
+                    {renderRoleSelect(user)}
+                    <label className="flex items-center gap-1 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={user.isActive}
+                        onChange={(e) => updateUser(user, { isActive: e.target.checked })}
+                        className="w-4 h-4"
+                      />
+                      Active
+                    </label>
+                  </div>
+                </div>
+                {renderActions(user)}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        /* Desktop Table Layout */
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Username</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Staff</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Login</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Active</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id} className={user.isActive ? '' : 'opacity-60'}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{user.username}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{user.staffName || '—'}</td>
+                  <td className="px-4 py-3 text-sm">{renderRoleSelect(user)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    {user.lastLoginAt ? format(new Date(user.lastLoginAt), 'd MMM yyyy, HH:mm') : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={user.isActive}
+                      onChange={(e) => updateUser(user, { isActive: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">{renderActions(user)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Info Footer */}
+      <div className="mt-6 p-3 bg-blue-50 rounded-md">
+        <p className="text-xs text-blue-700">
+          <strong>Admin:</strong> full access, including staff, holidays and user accounts.
+          <br />
+          <strong>Scheduler:</strong> edits the timetable, swaps and leave, but not staff records.
+          <br />
+          <strong>Staff:</strong> sees their own leave balances and history, and can request leave.
+          <br />
+          The shared admin password still signs in as &quot;admin&quot; unless a user with that name exists.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
 'use client';
 
 import { useEffect } from 'react';
-import { Calendar as CalendarIcon, CalendarDays, Users, LogOut, Check, Trash2 } from 'lucide-react';
+import { Calendar as CalendarIcon, CalendarDays, Users, Repeat, CalendarHeart, ArrowLeftRight, UserCog, History, ShieldCheck, LogOut, Check, Trash2, Briefcase, Clock } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { ADMIN_ONLY_TABS } from '@/lib/permissions';
 
-type Tab = 'timetable' | 'leave' | 'staff';
+type Tab = 'timetable' | 'leave' | 'staff' | 'temps' | 'patterns' | 'shift-types' | 'holidays' | 'swaps' | 'users' | 'audit' | 'coverage';
 
 const tabs = [
   { id: 'timetable' as Tab, label: 'Timetable', icon: CalendarIcon },
   { id: 'leave' as Tab, label: 'Leave', icon: CalendarDays },
   { id: 'staff' as Tab, label: 'Staff', icon: Users },
+  { id: 'temps' as Tab, label: 'Temps', icon: Briefcase },
+  { id: 'patterns' as Tab, label: 'Patterns', icon: Repeat },
+  { id: 'shift-types' as Tab, label: 'Shift Types', icon: Clock },
+  { id: 'holidays' as Tab, label: 'Holidays', icon: CalendarHeart },
+  { id: 'coverage' as Tab, label: 'Coverage', icon: ShieldCheck },
+  { id: 'swaps' as Tab, label: 'Swaps', icon: ArrowLeftRight },
+  { id: 'users' as Tab, label: 'Users', icon: UserCog },
+  { id: 'audit' as Tab, label: 'Audit Log', icon: History },
 ];
 
 interface MobileDrawerMenuProps {
@@ -31,6 +41,9 @@ export default function MobileDrawerMenu({
   hasDraft,
   onDiscardDraft,
 }: MobileDrawerMenuProps) {
+  const { role } = useAuth();
+  const visibleTabs = tabs.filter((tab) => role === 'admin' || !ADMIN_ONLY_TABS.includes(tab.id));
+
   // Prevent body scroll when sheet is open
   useEffect(() => {
     if (isOpen) {
@@ -88,7 +101,7 @@ export default function MobileDrawerMenu({
 
         {/* Navigation Items */}
         <nav className="p-2">
-          {tabs.map((tab) => {
+          {visibleTabs.map((tab) => {
             const Icon = tab.icon;
             const isActive = activeTab === tab.id;
             return (
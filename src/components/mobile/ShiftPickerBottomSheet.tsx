@@ -1,18 +1,24 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Check, X, Clock, Calendar, Stethoscope, Baby, Moon } from 'lucide-react';
-import { SHIFT_DEFINITIONS, RAMADAN_SHIFT_KEYS, AVATAR_COLORS } from '@/staff-data';
-import type { StaffMember } from '@/types/schedule';
+import { Check, X, Clock, Calendar, Stethoscope, Baby, Moon, UserPlus, Trash2 } from 'lucide-react';
+import { AVATAR_COLORS } from '@/staff-data';
+import { replacementBreakHours, replacementWorkHours } from '@/lib/replacement-shifts';
+import { offeredShiftKeys, type ShiftCatalog } from '@/lib/shift-types';
+import type { StaffMember, ReplacementShift } from '@/types/schedule';
 
 interface ShiftPickerBottomSheetProps {
   isOpen: boolean;
   onClose: () => void;
   staff: StaffMember;
   currentValue: string;
+  shiftCatalog: ShiftCatalog;
   onSelect: (shiftKey: string) => void;
   onMaternitySelect?: () => void;
   onCustomTimeSelect?: (startTime: string, endTime: string) => void;
+  replacements?: ReplacementShift[]; // temps covering this staff member on the day
+  onReplacementUpdate?: (replacement: ReplacementShift, startTime: string, endTime: string, breakHours: string) => Promise<void>;
+  onReplacementDelete?: (replacement: ReplacementShift) => Promise<void>;
 }
 
 const LEAVE_OPTIONS = [
@@ -47,9 +53,13 @@ export default function ShiftPickerBottomSheet({
   onClose,
   staff,
   currentValue,
+  shiftCatalog,
   onSelect,
   onMaternitySelect,
   onCustomTimeSelect,
+  replacements = [],
+  onReplacementUpdate,
+  onReplacementDelete,
 }: ShiftPickerBottomSheetProps) {
   // Prevent body scroll when sheet is open
   useEffect(() => {
@@ -79,6 +89,37 @@ export default function ShiftPickerBottomSheet({
     }
   }, [isOpen, currentValue]);
 
+  // Replacement inline edit form state
+  const [editingReplacementId, setEditingReplacementId] = useState<string | null>(null);
+  const [replacementStart, setReplacementStart] = useState('');
+  const [replacementEnd, setReplacementEnd] = useState('');
+  const [replacementBreak, setReplacementBreak] = useState('1');
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditingReplacementId(null);
+    }
+  }, [isOpen]);
+
+  const startEditingReplacement = (replacement: ReplacementShift) => {
+    setEditingReplacementId(replacement.id);
+    setReplacementStart(replacement.startTime);
+    setReplacementEnd(replacement.endTime);
+    setReplacementBreak(String(replacementBreakHours(replacement)));
+  };
+
+  const isReplacementValid = timeToMinutes(replacementEnd) > timeToMinutes(replacementStart);
+  const replacementHours = isReplacementValid
+    ? replacementWorkHours(replacementStart, replacementEnd, parseFloat(replacementBreak) || 0)
+    : 0;
+
+  const handleSaveReplacement = async (replacement: ReplacementShift) => {
+    if (isReplacementValid && onReplacementUpdate) {
+      await onReplacementUpdate(replacement, replacementStart, replacementEnd, replacementBreak);
+      setEditingReplacementId(null);
+    }
+  };
+
   const handleSelect = (value: string, hasModal?: boolean) => {
     if (hasModal && value === 'MAT' && onMaternitySelect) {
       onClose();
@@ -109,6 +150,11 @@ export default function ShiftPickerBottomSheet({
   const avatarColors = AVATAR_COLORS[staff.id] || { bg: 'bg-gray-500', badge: 'bg-gray-100 text-gray-700' };
   const initials = staff.name.charAt(0).toUpperCase();
   const isCurrentCustom = isCustomTimeKey(currentValue);
+  // Active shift types, plus a retired one the cell still uses so it shows as selected
+  const shiftKeys = [
+    ...offeredShiftKeys(shiftCatalog),
+    ...(shiftCatalog[currentValue]?.retired ? [currentValue] : []),
+  ];
 
   return (
     <>
@@ -152,6 +198,101 @@ export default function ShiftPickerBottomSheet({
 
         {/* Options */}
         <div className="overflow-y-auto max-h-[60vh] pb-safe">
+          {/* Replacement Section - temps covering this staff member today */}
+          {replacements.length > 0 && (
+            <div className="px-2 pt-2">
+              <div className="flex items-center gap-2 px-4 py-2">
+                <UserPlus className="h-4 w-4 text-gray-400" />
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Replacement</span>
+              </div>
+              {replacements.map((replacement) => (
+                editingReplacementId === replacement.id ? (
+                  <div key={replacement.id} className="mx-2 p-4 bg-gray-50 rounded-lg space-y-3">
+                    <div className="font-medium text-gray-900">{replacement.tempStaffName}</div>
+                    <div className="flex gap-3">
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">Start</label>
+                        <input
+                          type="time"
+                          value={replacementStart}
+                          onChange={e => setReplacementStart(e.target.value)}
+                          className="w-full p-2.5 border border-gray-200 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">End</label>
+                        <input
+                          type="time"
+                          value={replacementEnd}
+                          onChange={e => setReplacementEnd(e.target.value)}
+                          className="w-full p-2.5 border border-gray-200 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div className="w-20">
+                        <label className="block text-xs text-gray-500 mb-1">Break (h)</label>
+                        <input
+                          type="number"
+                          value={replacementBreak}
+                          step="0.5"
+                          min="0"
+                          onChange={e => setReplacementBreak(e.target.value)}
+                          className="w-full p-2.5 border border-gray-200 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Work Hours: <strong className="font-mono">{isReplacementValid ? `${replacementHours}h` : '—'}</strong>
+                    </div>
+                    {!isReplacementValid && (
+                      <p className="text-xs text-red-500">End must be after start</p>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditingReplacementId(null)}
+                        className="flex-1 py-2.5 bg-gray-200 text-gray-800 rounded-lg font-medium text-sm"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleSaveReplacement(replacement)}
+                        disabled={!isReplacementValid}
+                        className="flex-1 py-2.5 bg-blue-600 text-white rounded-lg font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Save Replacement
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div key={replacement.id} className="flex items-center justify-between px-4 py-3 rounded-lg">
+                    <button
+                      onClick={() => startEditingReplacement(replacement)}
+                      className="flex items-center gap-3 text-left text-gray-700"
+                    >
+                      <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                        <span className="text-sm font-medium text-gray-600">{replacement.workHours}h</span>
+                      </div>
+                      <div>
+                        <span className="font-medium">{replacement.tempStaffName}</span>
+                        <span className="text-sm text-gray-500 ml-2">
+                          {replacement.startTime} - {replacement.endTime}
+                        </span>
+                      </div>
+                    </button>
+                    {onReplacementDelete && (
+                      <button
+                        onClick={() => onReplacementDelete(replacement)}
+                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Remove replacement"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                )
+              ))}
+            </div>
+          )}
+
           {/* OFF Option */}
           <div className="p-2">
             <button
@@ -178,7 +319,8 @@ export default function ShiftPickerBottomSheet({
               <Clock className="h-4 w-4 text-gray-400" />
               <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Shifts</span>
             </div>
-            {Object.entries(SHIFT_DEFINITIONS).filter(([key]) => !RAMADAN_SHIFT_KEYS.has(key)).map(([key, shift]) => {
+            {shiftKeys.filter((key) => !shiftCatalog[key].seasonal).map((key) => {
+              const shift = shiftCatalog[key];
               const isSelected = currentValue === key;
               const label = shift.timing
                 ? `${shift.type} ${shift.timing.charAt(0).toUpperCase() + shift.timing.slice(1)}`
@@ -203,10 +345,14 @@ export default function ShiftPickerBottomSheet({
                       </span>
                     </div>
                     <div className="text-left">
+                      {shift.color && (
+                        <span className="inline-block w-2 h-2 rounded-full mr-2 align-middle" style={{ backgroundColor: shift.color }} />
+                      )}
                       <span className="font-medium">{label}</span>
                       <span className="text-sm text-gray-500 ml-2">
                         {shift.startTime} - {shift.endTime}
                       </span>
+                      {shift.retired && <span className="text-xs text-gray-400 ml-2">Retired</span>}
                     </div>
                   </div>
                   {isSelected && <Check className="h-5 w-5 text-blue-600" />}
@@ -215,13 +361,14 @@ export default function ShiftPickerBottomSheet({
             })}
           </div>
 
-          {/* Ramadan Section */}
+          {/* Seasonal Section */}
           <div className="px-2">
             <div className="flex items-center gap-2 px-4 py-2 mt-2">
               <Moon className="h-4 w-4 text-amber-400" />
-              <span className="text-xs font-medium text-amber-600 uppercase tracking-wide">Ramadan</span>
+              <span className="text-xs font-medium text-amber-600 uppercase tracking-wide">Seasonal</span>
             </div>
-            {Object.entries(SHIFT_DEFINITIONS).filter(([key]) => RAMADAN_SHIFT_KEYS.has(key)).map(([key, shift]) => {
+            {shiftKeys.filter((key) => shiftCatalog[key].seasonal).map((key) => {
+              const shift = shiftCatalog[key];
               const isSelected = currentValue === key;
               const label = shift.timing
                 ? `${shift.type} ${shift.timing.charAt(0).toUpperCase() + shift.timing.slice(1)}`
@@ -246,10 +393,14 @@ export default function ShiftPickerBottomSheet({
                       </span>
                     </div>
                     <div className="text-left">
+                      {shift.color && (
+                        <span className="inline-block w-2 h-2 rounded-full mr-2 align-middle" style={{ backgroundColor: shift.color }} />
+                      )}
                       <span className="font-medium">{label}</span>
                       <span className="text-sm text-gray-500 ml-2">
                         {shift.startTime} - {shift.endTime}
                       </span>
+                      {shift.retired && <span className="text-xs text-gray-400 ml-2">Retired</span>}
                     </div>
                   </div>
                   {isSelected && <Check className="h-5 w-5 text-amber-600" />}
@@ -293,6 +444,16 @@ export default function ShiftPickerBottomSheet({
                 </button>
               );
             })}
+            {/* Part-day leave opens its own modal */}
+            <button
+              onClick={() => handleSelect('partial_leave_picker')}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors text-gray-700 hover:bg-gray-50"
+            >
+              <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                <Clock className="h-4 w-4 text-orange-600" />
+              </div>
+              <span className="font-medium">Part-day Leave...</span>
+            </button>
           </div>
 
           {/* Custom Time Section */}
@@ -6,7 +6,9 @@ import { useAuth as useAuthHook, AuthMode } from '../hooks/useAuth';
 interface AuthContextType {
   authMode: AuthMode;
   isAdmin: boolean;
-  login: (password: string) => Promise<boolean>;
+  role: string | null;
+  staffId: string | null;
+  login: (username: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
   switchToPublic: () => void;
   showLoginModal: boolean;
@@ -2,13 +2,16 @@
 
 import { useSession, signIn, signOut } from 'next-auth/react';
 import { useState } from 'react';
+import { canEditRota } from '@/lib/permissions';
 
 export type AuthMode = 'public' | 'admin';
 
 interface UseAuthReturn {
   authMode: AuthMode;
   isAdmin: boolean;
-  login: (password: string) => Promise<boolean>;
+  role: string | null;
+  staffId: string | null;
+  login: (username: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
   switchToPublic: () => void;
   showLoginModal: boolean;
@@ -25,12 +28,15 @@ export function useAuth(): UseAuthReturn {
   const isAuthenticated = status === 'authenticated' && session?.user;
   const isLoading = status === 'loading';
 
-  // Determine effective auth mode
-  const authMode: AuthMode = isAuthenticated && viewMode === 'admin' ? 'admin' : 'public';
+  const role = session?.user?.role ?? null;
 
-  const login = async (password: string): Promise<boolean> => {
+  // Determine effective auth mode (staff accounts never get admin mode)
+  const authMode: AuthMode = isAuthenticated && canEditRota(role ?? undefined) && viewMode === 'admin' ? 'admin' : 'public';
+
+  const login = async (username: string, password: string): Promise<boolean> => {
     try {
       const result = await signIn('credentials', {
+        username,
         password,
         redirect: false,
       });
@@ -60,6 +66,8 @@ export function useAuth(): UseAuthReturn {
   return {
     authMode,
     isAdmin: authMode === 'admin',
+    role,
+    staffId: session?.user?.staffId ?? null,
     login,
     logout,
     switchToPublic,
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import type { CoverageRule } from '@/lib/coverage';
+
+/**
+ * Hook to fetch the minimum coverage rules.
+ * Rules are only readable when signed in, so pass enabled=false on the public timetable.
+ */
+export function useCoverageRules(enabled = true) {
+  const [rules, setRules] = useState<CoverageRule[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!enabled) {
+      setRules([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/coverage-rules'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch coverage rules');
+      }
+      const data: CoverageRule[] = await response.json();
+      setRules(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching coverage rules:', err);
+      setRules([]);
+      setError(err instanceof Error ? err.message : 'Failed to load coverage rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return { rules, isLoading, error, refetch: fetchRules };
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import type { PublicHoliday } from '@/types/schedule';
+
+/**
+ * Hook to fetch the public holidays observed by this branch
+ * (nationwide holidays plus the branch state's set).
+ */
+export function useHolidays() {
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/holidays'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch holidays');
+      }
+      const data: PublicHoliday[] = await response.json();
+      setHolidays(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching holidays:', err);
+      setHolidays([]);
+      setError(err instanceof Error ? err.message : 'Failed to load holidays');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  return { holidays, isLoading, error, refetch: fetchHolidays };
+}
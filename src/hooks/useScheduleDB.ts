@@ -1,13 +1,14 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { ShiftDefinition, ReplacementShift } from '@/types/schedule';
+import type { ShiftDefinition, ReplacementShift, PartialLeave } from '@/types/schedule';
 import { apiUrl } from '@/lib/api';
 
 interface OverrideData {
   shift: ShiftDefinition | null;
   isLeave: boolean;
   leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT';
+  partialLeave?: PartialLeave;
 }
 
 type MonthOverrides = Record<string, OverrideData | ReplacementShift[]>;
@@ -292,7 +293,7 @@ export function useScheduleOverridesDB({
 export function useMigrationStatus() {
   const [status, setStatus] = useState<{
     migrated: boolean;
-    counts: { staff: number; holidays: number; overrides: number; balances: number };
+    counts: { staff: number; holidays: number; overrides: number; balances: number; patterns: number };
   } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -326,6 +327,7 @@ export function useMigration() {
     results?: {
       staffSeeded: number;
       holidaysSeeded: number;
+      patternsSeeded: number;
       overridesMigrated: number;
       balancesInitialized: number;
       errors: string[];
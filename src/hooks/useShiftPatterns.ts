@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import type { RotationPattern } from '@/types/schedule';
+
+/**
+ * Hook to fetch the active rotation patterns from the database.
+ * Returns an empty list on failure so the schedule generator falls back
+ * to the hardcoded patterns in staff-data.
+ */
+export function useShiftPatterns() {
+  const [patterns, setPatterns] = useState<RotationPattern[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPatterns = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/shift-patterns'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch shift patterns');
+      }
+      const data: RotationPattern[] = await response.json();
+      setPatterns(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching shift patterns:', err);
+      setPatterns([]);
+      setError(err instanceof Error ? err.message : 'Failed to load shift patterns');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPatterns();
+  }, [fetchPatterns]);
+
+  return { patterns, isLoading, error, refetch: fetchPatterns };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import type { ShiftSeason } from '@/lib/shift-seasons';
+
+/**
+ * Hook to fetch the shift seasons (e.g. Ramadan), active and inactive.
+ */
+export function useShiftSeasons() {
+  const [seasons, setSeasons] = useState<ShiftSeason[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSeasons = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/shift-seasons'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch shift seasons');
+      }
+      const data: ShiftSeason[] = await response.json();
+      setSeasons(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching shift seasons:', err);
+      setSeasons([]);
+      setError(err instanceof Error ? err.message : 'Failed to load shift seasons');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeasons();
+  }, [fetchSeasons]);
+
+  return { seasons, isLoading, error, refetch: fetchSeasons };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { apiUrl } from '@/lib/api';
+import { buildShiftCatalog, type ShiftTypeEntry } from '@/lib/shift-types';
+
+/**
+ * Hook to fetch the shift types, retired ones included, and the catalog built from them.
+ * Until they load (or if they fail to), the catalog holds the built-in shifts.
+ */
+export function useShiftTypes() {
+  const [shiftTypes, setShiftTypes] = useState<ShiftTypeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchShiftTypes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/shift-types'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch shift types');
+      }
+      const data: ShiftTypeEntry[] = await response.json();
+      setShiftTypes(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching shift types:', err);
+      setShiftTypes([]);
+      setError(err instanceof Error ? err.message : 'Failed to load shift types');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchShiftTypes();
+  }, [fetchShiftTypes]);
+
+  const catalog = useMemo(() => buildShiftCatalog(shiftTypes), [shiftTypes]);
+
+  return { shiftTypes, catalog, isLoading, error, refetch: fetchShiftTypes };
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import type { TempStaffMember } from '@/lib/temp-staff';
+
+/**
+ * Hook to fetch the temp staff registry, active and inactive.
+ * The registry is only readable when signed in, so pass enabled=false on the public timetable.
+ */
+export function useTempStaff(enabled = true) {
+  const [temps, setTemps] = useState<TempStaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemps = useCallback(async () => {
+    if (!enabled) {
+      setTemps([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const response = await fetch(apiUrl('/api/temp-staff'));
+      if (!response.ok) {
+        throw new Error('Failed to fetch temp staff');
+      }
+      const data: TempStaffMember[] = await response.json();
+      setTemps(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching temp staff:', err);
+      setTemps([]);
+      setError(err instanceof Error ? err.message : 'Failed to load temp staff');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    fetchTemps();
+  }, [fetchTemps]);
+
+  return { temps, isLoading, error, refetch: fetchTemps };
+}
@@ -0,0 +1,212 @@
+import { format } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import type { Prisma, Staff } from '@/generated/prisma';
+import type { ShiftDefinition } from '@/types/schedule';
+import type { AuditAction } from '@/lib/audit';
+import { describePartialLeave, toPartialLeave } from '@/lib/partial-leave';
+
+export interface AuditActor {
+  id: string | null;
+  name: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  staffId?: string | null;
+  summary: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// A ScheduleOverride or ScheduleDraft row
+interface ScheduleRow {
+  date: Date;
+  staffId: string;
+  shiftType: string | null;
+  isLeave: boolean;
+  leaveType: string | null;
+  customStartTime: string | null;
+  customEndTime: string | null;
+  customWorkHours: number | null;
+  leavePortion?: string | null;
+  leaveHours?: number | null;
+}
+
+// Day values keyed by "yyyy-MM-dd"; null = no override (generated rotation)
+export type ScheduleSnapshot = Record<string, string | null>;
+
+// The signed-in user making the change
+export async function getAuditActor(): Promise<AuditActor> {
+  const session = await auth();
+  return {
+    id: session?.user?.id ?? null,
+    name: session?.user?.name || 'Unknown',
+  };
+}
+
+export async function recordAudit(
+  db: Prisma.TransactionClient | typeof prisma,
+  actor: AuditActor,
+  entries: AuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await db.auditEvent.createMany({
+    data: entries.map((entry) => ({
+      action: entry.action,
+      actorId: actor.id,
+      actorName: actor.name,
+      staffId: entry.staffId ?? null,
+      summary: entry.summary,
+      before: entry.before === undefined ? null : JSON.stringify(entry.before),
+      after: entry.after === undefined ? null : JSON.stringify(entry.after),
+    })),
+  });
+}
+
+// Short label for a schedule row: leave type, shift key, custom times or "off",
+// plus any part-day leave (e.g. "7h_late + AL ½ AM")
+function describeScheduleRow(row: ScheduleRow): string {
+  if (row.isLeave) return row.leaveType || 'Leave';
+  let label = 'off';
+  if (row.shiftType) label = row.shiftType;
+  else if (row.customStartTime && row.customEndTime) label = `${row.customStartTime}-${row.customEndTime}`;
+
+  const partial = toPartialLeave({ ...row, leavePortion: row.leavePortion ?? null, leaveHours: row.leaveHours ?? null });
+  return partial ? `${label} + ${describePartialLeave(partial)}` : label;
+}
+
+// Same labels for an in-memory shift (e.g. "9h_early", custom times or "off")
+export function describeShift(shift: ShiftDefinition | null): string {
+  if (!shift) return 'off';
+  if (shift.type === 'custom') return `${shift.startTime}-${shift.endTime}`;
+  return shift.timing ? `${shift.type}_${shift.timing}` : shift.type;
+}
+
+/**
+ * Compare two sets of schedule rows and return, per staff member, only the days that differ.
+ */
+export function diffScheduleByStaff(
+  beforeRows: ScheduleRow[],
+  afterRows: ScheduleRow[]
+): { staffId: string; before: ScheduleSnapshot; after: ScheduleSnapshot }[] {
+  const toMap = (rows: ScheduleRow[]) =>
+    new Map(rows.map((row) => [`${row.staffId}|${format(row.date, 'yyyy-MM-dd')}`, describeScheduleRow(row)]));
+  const beforeMap = toMap(beforeRows);
+  const afterMap = toMap(afterRows);
+
+  const byStaff = new Map<string, { staffId: string; before: ScheduleSnapshot; after: ScheduleSnapshot }>();
+  const keys = new Set([...beforeMap.keys(), ...afterMap.keys()]);
+  for (const key of Array.from(keys).sort()) {
+    const before = beforeMap.get(key) ?? null;
+    const after = afterMap.get(key) ?? null;
+    if (before === after) continue;
+
+    const [staffId, dateKey] = key.split('|');
+    if (!byStaff.has(staffId)) byStaff.set(staffId, { staffId, before: {}, after: {} });
+    byStaff.get(staffId)!.before[dateKey] = before;
+    byStaff.get(staffId)!.after[dateKey] = after;
+  }
+
+  return Array.from(byStaff.values());
+}
+
+/**
+ * One audit entry per staff member whose days changed, or a single month-level
+ * entry when nothing changed so the action itself is still on record.
+ */
+export function scheduleAuditEntries(
+  action: AuditAction,
+  verb: string,
+  year: number,
+  month: number,
+  beforeRows: ScheduleRow[],
+  afterRows: ScheduleRow[]
+): AuditEntry[] {
+  const monthLabel = format(new Date(year, month - 1), 'MMM yyyy');
+  const diffs = diffScheduleByStaff(beforeRows, afterRows);
+
+  if (diffs.length === 0) {
+    return [{ action, summary: `${verb} ${monthLabel} (no shift changes)` }];
+  }
+
+  return diffs.map((diff) => {
+    const days = Object.keys(diff.after).length;
+    return {
+      action,
+      staffId: diff.staffId,
+      summary: `${verb} ${monthLabel}: ${days} day${days === 1 ? '' : 's'} changed`,
+      before: diff.before,
+      after: diff.after,
+    };
+  });
+}
+
+// A ReplacementShift or ReplacementShiftDraft row
+interface ReplacementRow {
+  id: string;
+  date: Date;
+  originalStaffId: string;
+  tempStaffName: string;
+  startTime: string;
+  endTime: string;
+  workHours: number;
+}
+
+// Label for the audit log, e.g. "Aina 09:15-18:00 (8h)"
+export function describeReplacement(rep: { tempStaffName: string; startTime: string; endTime: string; workHours: number }): string {
+  return `${rep.tempStaffName} ${rep.startTime}-${rep.endTime} (${rep.workHours}h)`;
+}
+
+// One entry per replacement shift added, changed or removed between two sets of rows (matched by id)
+export function replacementAuditEntries(beforeRows: ReplacementRow[], afterRows: ReplacementRow[]): AuditEntry[] {
+  const beforeById = new Map(beforeRows.map((rep) => [rep.id, rep]));
+  const afterIds = new Set(afterRows.map((rep) => rep.id));
+  const entries: AuditEntry[] = [];
+
+  for (const rep of afterRows) {
+    const dateKey = format(rep.date, 'yyyy-MM-dd');
+    const previous = beforeById.get(rep.id);
+    if (!previous) {
+      entries.push({
+        action: 'replacement.create',
+        staffId: rep.originalStaffId,
+        summary: `Added replacement on ${dateKey}: ${describeReplacement(rep)}`,
+        after: describeReplacement(rep),
+      });
+    } else if (describeReplacement(previous) !== describeReplacement(rep)) {
+      entries.push({
+        action: 'replacement.update',
+        staffId: rep.originalStaffId,
+        summary: `Changed replacement on ${dateKey} to ${describeReplacement(rep)}`,
+        before: describeReplacement(previous),
+        after: describeReplacement(rep),
+      });
+    }
+  }
+  for (const rep of beforeRows.filter((r) => !afterIds.has(r.id))) {
+    entries.push({
+      action: 'replacement.delete',
+      staffId: rep.originalStaffId,
+      summary: `Removed replacement on ${format(rep.date, 'yyyy-MM-dd')}: ${describeReplacement(rep)}`,
+      before: describeReplacement(rep),
+    });
+  }
+  return entries;
+}
+
+// Staff fields worth recording (dates as yyyy-MM-dd)
+export function staffAuditSnapshot(staff: Staff) {
+  return {
+    name: staff.name,
+    role: staff.role,
+    weeklyHours: staff.weeklyHours,
+    defaultOffDays: staff.defaultOffDays,
+    alEntitlement: staff.alEntitlement,
+    mlEntitlement: staff.mlEntitlement,
+    startDate: staff.startDate ? format(staff.startDate, 'yyyy-MM-dd') : null,
+    endDate: staff.endDate ? format(staff.endDate, 'yyyy-MM-dd') : null,
+    isActive: staff.isActive,
+  };
+}
@@ -0,0 +1,35 @@
+// Audit event actions and labels. Pure (no Prisma) so the admin UI can import it.
+
+export const AUDIT_ACTIONS = {
+  'draft.save': 'Draft saved',
+  'draft.discard': 'Draft discarded',
+  'draft.auto_fill': 'Draft auto-filled',
+  'draft.import': 'Rota imported into draft',
+  'schedule.publish': 'Schedule published',
+  'schedule.rollback': 'Schedule rolled back',
+  'replacement.create': 'Replacement shift added',
+  'replacement.update': 'Replacement shift edited',
+  'replacement.delete': 'Replacement shift removed',
+  'staff.create': 'Staff added',
+  'staff.update': 'Staff updated',
+  'staff.delete': 'Staff deactivated',
+  'maternity.create': 'Maternity leave created',
+  'maternity.end_early': 'Maternity leave ended early',
+  'rl.calculate': 'RL recalculated',
+  'leave.rollover': 'Leave year rolled over',
+  'leave.entitlement': 'Leave entitlement recalculated',
+  'leave.reconcile': 'Leave balances reconciled',
+  'leave_request.approve': 'Leave request approved',
+  'leave_request.reject': 'Leave request rejected',
+  'swap.approve': 'Shift swap approved',
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && value in AUDIT_ACTIONS;
+}
+
+export function getAuditActionLabel(action: string): string {
+  return isAuditAction(action) ? AUDIT_ACTIONS[action] : action;
+}
@@ -0,0 +1,40 @@
+import type { NextAuthConfig } from 'next-auth';
+
+// Edge-safe part of the auth config (no Prisma/bcrypt) shared with middleware.
+// Providers are added in auth.ts, which runs on the Node.js runtime.
+export const authConfig: NextAuthConfig = {
+  trustHost: true,
+  providers: [],
+  pages: {
+    signIn: '/login',
+  },
+  session: {
+    strategy: 'jwt',
+    maxAge: 24 * 60 * 60, // 24 hours
+  },
+  callbacks: {
+    async redirect({ url, baseUrl }) {
+      // Ensure redirects go to the app basePath
+      if (url === baseUrl || url === baseUrl + '/') {
+        return baseUrl + '/timetable';
+      }
+      if (url.startsWith(baseUrl)) return url;
+      return baseUrl + '/timetable';
+    },
+    async jwt({ token, user }) {
+      if (user) {
+        token.role = user.role;
+        token.staffId = user.staffId ?? null;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        if (token.sub) session.user.id = token.sub;
+        session.user.role = token.role as string;
+        session.user.staffId = (token.staffId as string | null) ?? null;
+      }
+      return session;
+    },
+  },
+};
@@ -1,43 +1,103 @@
 import NextAuth from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
 import bcrypt from 'bcryptjs';
-import type { NextAuthConfig } from 'next-auth';
+import prisma from '@/lib/prisma';
+import { authConfig } from '@/lib/auth.config';
 
-const authConfig: NextAuthConfig = {
-  trustHost: true,
+// Sign in with the shared ADMIN_PASSWORD_HASH (username "admin" or blank).
+// Kept so the first admin can log in and create user accounts.
+async function authorizeSharedAdmin(password: string) {
+  const hashBase64 = process.env.ADMIN_PASSWORD_HASH;
+
+  // Decode base64 to get the actual bcrypt hash
+  // (Base64 encoding avoids $ character issues in .env parsing)
+  const hash = hashBase64
+    ? Buffer.from(hashBase64, 'base64').toString('utf-8')
+    : null;
+
+  if (!hash) {
+    console.error('ADMIN_PASSWORD_HASH environment variable is not set');
+    return null;
+  }
+
+  const isValid = await bcrypt.compare(password, hash);
+  if (!isValid) return null;
+
+  return {
+    id: 'admin',
+    name: 'Admin',
+    role: 'admin',
+    staffId: null,
+  };
+}
+
+export const { handlers, auth, signIn, signOut } = NextAuth({
+  ...authConfig,
+  callbacks: {
+    ...authConfig.callbacks,
+    // Each session check on the server re-reads the account, so deactivating or deleting a user,
+    // or changing their role or staff record, takes effect before the token expires
+    async jwt({ token, user }) {
+      if (user) {
+        token.role = user.role;
+        token.staffId = user.staffId ?? null;
+        return token;
+      }
+      if (token.sub && token.sub !== 'admin') {
+        const account = await prisma.user.findUnique({
+          where: { id: token.sub },
+          select: { isActive: true, role: true, staffId: true },
+        });
+        if (!account?.isActive) return null;
+        token.role = account.role;
+        token.staffId = account.staffId;
+      }
+      return token;
+    },
+  },
   providers: [
     Credentials({
-      name: 'Admin Login',
+      name: 'Login',
       credentials: {
+        username: { label: 'Username', type: 'text' },
         password: { label: 'Password', type: 'password' },
       },
       async authorize(credentials) {
-        const hashBase64 = process.env.ADMIN_PASSWORD_HASH;
-
-        // Decode base64 to get the actual bcrypt hash
-        // (Base64 encoding avoids $ character issues in .env parsing)
-        const hash = hashBase64
-          ? Buffer.from(hashBase64, 'base64').toString('utf-8')
-          : null;
-
-        if (!hash) {
-          console.error('ADMIN_PASSWORD_HASH environment variable is not set');
-          return null;
-        }
-
         if (!credentials?.password || typeof credentials.password !== 'string') {
           return null;
         }
+        const username = typeof credentials.username === 'string'
+          ? credentials.username.trim().toLowerCase()
+          : '';
 
         try {
-          const isValid = await bcrypt.compare(credentials.password, hash);
+          if (username) {
+            const user = await prisma.user.findUnique({
+              where: { username },
+              include: { staff: true },
+            });
 
-          if (isValid) {
-            return {
-              id: 'admin',
-              name: 'Admin',
-              role: 'admin',
-            };
+            if (user) {
+              if (!user.isActive || !(await bcrypt.compare(credentials.password, user.passwordHash))) {
+                return null;
+              }
+
+              await prisma.user.update({
+                where: { id: user.id },
+                data: { lastLoginAt: new Date() },
+              });
+
+              return {
+                id: user.id,
+                name: user.staff?.name || user.username,
+                role: user.role,
+                staffId: user.staffId,
+              };
+            }
+          }
+
+          if (!username || username === 'admin') {
+            return await authorizeSharedAdmin(credentials.password);
           }
         } catch (error) {
           console.error('Auth error:', error);
@@ -47,40 +107,9 @@ const authConfig: NextAuthConfig = {
       },
     }),
   ],
-  pages: {
-    signIn: '/login',
-  },
-  session: {
-    strategy: 'jwt',
-    maxAge: 24 * 60 * 60, // 24 hours
-  },
-  callbacks: {
-    async redirect({ url, baseUrl }) {
-      // Ensure redirects go to the app basePath
-      if (url === baseUrl || url === baseUrl + '/') {
-        return baseUrl + '/timetable';
-      }
-      if (url.startsWith(baseUrl)) return url;
-      return baseUrl + '/timetable';
-    },
-    async jwt({ token, user }) {
-      if (user) {
-        token.role = user.role;
-      }
-      return token;
-    },
-    async session({ session, token }) {
-      if (session.user) {
-        (session.user as { role?: string }).role = token.role as string;
-      }
-      return session;
-    },
-  },
-};
-
-export const { handlers, auth, signIn, signOut } = NextAuth(authConfig);
+});
 
-// Helper to generate password hash (run once to create the hash)
+// Helper to generate password hash (used when creating or resetting user passwords)
 export async function generatePasswordHash(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
@@ -0,0 +1,95 @@
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import { getMonthSchedule, parseOffDays } from '@/lib/month-schedule';
+import { describeShift, type ScheduleSnapshot } from '@/lib/audit-log';
+import { toCoverageRule } from '@/lib/coverage';
+import { solveRota, type RotaCell, type RotaIssue } from '@/lib/rota-solver';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import { toShiftSeason } from '@/lib/shift-seasons';
+import type { DaySchedule } from '@/types/schedule';
+
+type LeaveType = NonNullable<DaySchedule['staffShifts'][string]['leaveType']>;
+
+export interface AutoSchedule {
+  cells: RotaCell[]; // only the cells that differ from the current schedule
+  changes: { staffId: string; staffName: string; before: ScheduleSnapshot; after: ScheduleSnapshot }[];
+  changedCells: number;
+  issues: (RotaIssue & { staffName: string | null })[];
+}
+
+/**
+ * Run the rota solver for a month against what admins currently see (the draft, if any)
+ * and return the cells it would change plus the constraints it could not meet.
+ */
+export async function getAutoSchedule(year: number, month: number): Promise<AutoSchedule> {
+  const [schedule, staff, leave, rules, temps, shiftCatalog, seasons] = await Promise.all([
+    getMonthSchedule(year, month, 'admin'),
+    prisma.staff.findMany({ where: { isActive: true } }),
+    prisma.leaveHistory.findMany({
+      where: { date: { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) }, status: 'approved', portion: null },
+      select: { staffId: true, date: true, leaveType: true },
+    }),
+    prisma.coverageRule.findMany({ where: { isActive: true } }),
+    prisma.tempStaff.findMany({ select: { id: true, qualification: true } }),
+    getShiftCatalog(),
+    prisma.shiftSeason.findMany({ where: { isActive: true } }),
+  ]);
+  const staffName = (staffId: string) => staff.find((s) => s.staffId === staffId)?.name || staffId;
+
+  const proposal = solveRota({
+    schedule,
+    staff: staff.map((s) => ({
+      id: s.staffId,
+      name: s.name,
+      role: s.role,
+      weeklyHours: s.weeklyHours,
+      defaultOffDays: parseOffDays(s.defaultOffDays),
+    })),
+    leave: Object.fromEntries(leave.map((h) => [`${h.staffId}|${format(h.date, 'yyyy-MM-dd')}`, h.leaveType as LeaveType])),
+    rules: rules.map(toCoverageRule),
+    tempRoles: Object.fromEntries(temps.map((t) => [t.id, t.qualification])),
+    shiftCatalog,
+    seasons: seasons.map(toShiftSeason),
+  });
+
+  // Keep the cells whose value moves, labelled the way the audit log and diffs show shifts
+  const current = new Map(
+    schedule.days.flatMap((day) =>
+      Object.entries(day.staffShifts).map(([staffId, staffShift]) => [`${staffId}|${format(day.date, 'yyyy-MM-dd')}`, staffShift])
+    )
+  );
+  const label = (isLeave: boolean, leaveType: string | null | undefined, shift: DaySchedule['staffShifts'][string]['shift']) =>
+    isLeave ? leaveType || 'Leave' : describeShift(shift);
+
+  const byStaff = new Map<string, AutoSchedule['changes'][number]>();
+  const cells = proposal.cells.filter((cell) => {
+    const existing = current.get(`${cell.staffId}|${cell.date}`);
+    const shift = cell.shiftKey ? shiftCatalog[cell.shiftKey] : null;
+    if (
+      existing &&
+      existing.isLeave === cell.isLeave &&
+      (existing.leaveType ?? null) === cell.leaveType &&
+      (cell.isLeave ||
+        (existing.shift?.startTime === shift?.startTime &&
+          existing.shift?.endTime === shift?.endTime &&
+          existing.shift?.workHours === shift?.workHours))
+    ) {
+      return false;
+    }
+
+    if (!byStaff.has(cell.staffId)) {
+      byStaff.set(cell.staffId, { staffId: cell.staffId, staffName: staffName(cell.staffId), before: {}, after: {} });
+    }
+    const change = byStaff.get(cell.staffId)!;
+    change.before[cell.date] = existing ? label(existing.isLeave, existing.leaveType, existing.shift) : null;
+    change.after[cell.date] = label(cell.isLeave, cell.leaveType, shift);
+    return true;
+  });
+
+  return {
+    cells,
+    changes: Array.from(byStaff.values()).sort((a, b) => a.staffName.localeCompare(b.staffName)),
+    changedCells: cells.length,
+    issues: proposal.issues.map((issue) => ({ ...issue, staffName: issue.staffId ? staffName(issue.staffId) : null })),
+  };
+}
@@ -0,0 +1,184 @@
+// Minimum staffing rules checked against a day's timetable. Pure (no Prisma) so the Calendar can import it.
+import type { DaySchedule } from '@/types/schedule';
+
+export interface CoverageRule {
+  id: string;
+  name: string | null;
+  weekdays: number[]; // 0=Sunday ... 6=Saturday
+  startTime: string; // "09:15"
+  endTime: string; // "21:45"
+  minPharmacists: number;
+  minStaff: number;
+  isActive: boolean;
+}
+
+export interface CoverageViolation {
+  ruleId: string;
+  ruleName: string | null;
+  requirement: 'pharmacists' | 'staff';
+  required: number;
+  actual: number; // lowest count on duty during from-to
+  from: string; // "20:00"
+  to: string; // "21:45"
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const minutes = total % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Shift as a minute range; an end at or before the start runs past midnight
+function toRange(startTime: string, endTime: string): { start: number; end: number } {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return { start, end: end <= start ? end + 24 * 60 : end };
+}
+
+// Map a CoverageRule database row (weekdays stored as JSON) to the shape used here
+export function toCoverageRule(row: Omit<CoverageRule, 'weekdays'> & { weekdays: string }): CoverageRule {
+  return {
+    id: row.id,
+    name: row.name,
+    weekdays: JSON.parse(row.weekdays) as number[],
+    startTime: row.startTime,
+    endTime: row.endTime,
+    minPharmacists: row.minPharmacists,
+    minStaff: row.minStaff,
+    isActive: row.isActive,
+  };
+}
+
+// Returns an error message for invalid rule fields, or null when they are valid
+export function validateCoverageRule(rule: {
+  weekdays?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+  minPharmacists?: unknown;
+  minStaff?: unknown;
+}): string | null {
+  const { weekdays, startTime, endTime, minPharmacists, minStaff } = rule;
+  if (
+    !Array.isArray(weekdays) ||
+    weekdays.length === 0 ||
+    !weekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+  ) {
+    return 'weekdays must be a non-empty array of days (0=Sunday ... 6=Saturday)';
+  }
+  if (typeof startTime !== 'string' || typeof endTime !== 'string' || !TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+    return 'startTime and endTime must be in HH:mm format';
+  }
+  if (toMinutes(endTime) <= toMinutes(startTime)) {
+    return 'endTime must be after startTime';
+  }
+  const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 20;
+  if (!isCount(minPharmacists) || !isCount(minStaff)) {
+    return 'minPharmacists and minStaff must be whole numbers from 0 to 20';
+  }
+  if ((minPharmacists as number) === 0 && (minStaff as number) === 0) {
+    return 'Set at least one of minPharmacists or minStaff';
+  }
+  return null;
+}
+
+/**
+ * Check a day's shifts against the rules for its weekday. Staff on leave don't count;
+ * temps from the registry count towards their qualification (tempRoles, by TempStaff id), and
+ * temps typed in by name towards the role of the person they replace.
+ * Public holidays are closed days, so no rule applies to them.
+ * Returns one violation per requirement and continuous under-staffed period.
+ */
+export function checkDayCoverage(
+  day: DaySchedule,
+  rules: CoverageRule[],
+  staffRoles: Record<string, string>,
+  tempRoles: Record<string, string> = {}
+): CoverageViolation[] {
+  if (day.isHoliday) return [];
+
+  const weekday = day.date.getDay();
+  const applicable = rules.filter((r) => r.isActive && r.weekdays.includes(weekday));
+  if (applicable.length === 0) return [];
+
+  const onDuty: { start: number; end: number; isPharmacist: boolean }[] = [];
+  Object.entries(day.staffShifts).forEach(([staffId, staffShift]) => {
+    if (!staffShift.shift || staffShift.isLeave) return;
+    onDuty.push({
+      ...toRange(staffShift.shift.startTime, staffShift.shift.endTime),
+      isPharmacist: staffRoles[staffId] === 'Pharmacist',
+    });
+  });
+  (day.replacementShifts || []).forEach((rep) => {
+    onDuty.push({
+      ...toRange(rep.startTime, rep.endTime),
+      isPharmacist: ((rep.tempStaffId && tempRoles[rep.tempStaffId]) || staffRoles[rep.originalStaffId]) === 'Pharmacist',
+    });
+  });
+
+  const violations: CoverageViolation[] = [];
+
+  for (const rule of applicable) {
+    const window = toRange(rule.startTime, rule.endTime);
+
+    // Split the window wherever someone starts or ends, then count each segment
+    const points = new Set([window.start, window.end]);
+    onDuty.forEach(({ start, end }) => {
+      if (start > window.start && start < window.end) points.add(start);
+      if (end > window.start && end < window.end) points.add(end);
+    });
+    const sorted = Array.from(points).sort((a, b) => a - b);
+
+    const requirements = [
+      { requirement: 'pharmacists' as const, required: rule.minPharmacists, counts: (s: (typeof onDuty)[number]) => s.isPharmacist },
+      { requirement: 'staff' as const, required: rule.minStaff, counts: () => true },
+    ];
+
+    for (const { requirement, required, counts } of requirements) {
+      if (required === 0) continue;
+
+      let current: CoverageViolation | null = null;
+      for (let i = 0; i < sorted.length - 1; i++) {
+        const [from, to] = [sorted[i], sorted[i + 1]];
+        const actual = onDuty.filter((s) => counts(s) && s.start <= from && s.end >= to).length;
+
+        if (actual >= required) {
+          current = null;
+          continue;
+        }
+        if (current) {
+          current.to = fromMinutes(to);
+          current.actual = Math.min(current.actual, actual);
+        } else {
+          current = {
+            ruleId: rule.id,
+            ruleName: rule.name,
+            requirement,
+            required,
+            actual,
+            from: fromMinutes(from),
+            to: fromMinutes(to),
+          };
+          violations.push(current);
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+// e.g. "1 Pharmacist needed 20:00–21:45 (0 on duty)"
+export function describeViolation(violation: CoverageViolation): string {
+  const who = violation.requirement === 'pharmacists'
+    ? `${violation.required} Pharmacist${violation.required === 1 ? '' : 's'}`
+    : `${violation.required} staff`;
+  return `${who} needed ${violation.from}–${violation.to} (${violation.actual} on duty)`;
+}
@@ -0,0 +1,55 @@
+import type { CellValue } from '@/lib/xlsx';
+
+// Quote fields containing commas, quotes or newlines (RFC 4180)
+function csvField(value: CellValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(table: CellValue[][]): string {
+  return table.map((line) => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Split CSV text into rows of fields, honouring quoted fields (RFC 4180). Blank lines come back as [''],
+// so row indexes match the file's line numbers.
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,226 @@
+import prisma from '@/lib/prisma';
+import { format, getISOWeek, startOfWeek } from 'date-fns';
+import { diffScheduleByStaff, type ScheduleSnapshot } from '@/lib/audit-log';
+import { checkDayCoverage, toCoverageRule, type CoverageViolation } from '@/lib/coverage';
+import { getMonthSchedule, parseOffDays } from '@/lib/month-schedule';
+import { dailyHours, leaveDays } from '@/lib/partial-leave';
+import { getCarriedDays } from '@/lib/leave-rollover';
+import { normalizeTempName } from '@/lib/temp-staff';
+import type { ReplacementShiftDraft } from '@/generated/prisma';
+import type { MonthSchedule } from '@/types/schedule';
+
+// Leave types publishing deducts from LeaveBalance (EL only records history)
+const BALANCE_LEAVE_TYPES = ['AL', 'RL', 'ML', 'MAT'] as const;
+type BalanceLeaveType = (typeof BALANCE_LEAVE_TYPES)[number];
+
+export interface DraftCellChanges {
+  staffId: string;
+  staffName: string;
+  before: ScheduleSnapshot; // published
+  after: ScheduleSnapshot; // draft
+}
+
+export interface DraftLeaveDeduction {
+  staffId: string;
+  staffName: string;
+  days: Partial<Record<BalanceLeaveType, number>>;
+  remainingAfter: { AL: number; RL: number } | null; // null when there is no balance row for the year
+}
+
+export interface DraftWeekHours {
+  staffId: string;
+  staffName: string;
+  week: number; // ISO week
+  weekStart: string; // Monday, yyyy-MM-dd
+  target: number;
+  before: number;
+  after: number;
+}
+
+export interface DraftReplacementChange {
+  date: string; // yyyy-MM-dd
+  change: 'added' | 'removed';
+  originalStaffId: string;
+  originalStaffName: string;
+  tempStaffName: string;
+  startTime: string;
+  endTime: string;
+  workHours: number;
+}
+
+export interface DraftDiff {
+  changes: DraftCellChanges[];
+  changedCells: number;
+  leave: DraftLeaveDeduction[];
+  weeks: DraftWeekHours[];
+  replacements: DraftReplacementChange[];
+  coverage: { date: string; violations: CoverageViolation[] }[]; // days in the draft that break coverage rules
+}
+
+// Worked hours per staff member per day ("staffId|yyyy-MM-dd"), leave counting as 0
+function dayHours(schedule: MonthSchedule): Map<string, number> {
+  const hours = new Map<string, number>();
+  schedule.days.forEach((day) => {
+    const dateKey = format(day.date, 'yyyy-MM-dd');
+    Object.entries(day.staffShifts).forEach(([staffId, staffShift]) => {
+      hours.set(`${staffId}|${dateKey}`, staffShift.shift && !staffShift.isLeave ? staffShift.shift.workHours : 0);
+    });
+  });
+  return hours;
+}
+
+// Replacement shifts are the same when they cover the same person with the same temp and times
+function replacementKey(
+  rep: Pick<ReplacementShiftDraft, 'date' | 'originalStaffId' | 'tempStaffId' | 'tempStaffName' | 'startTime' | 'endTime'>
+): string {
+  const temp = rep.tempStaffId || normalizeTempName(rep.tempStaffName);
+  return [format(rep.date, 'yyyy-MM-dd'), rep.originalStaffId, temp, rep.startTime, rep.endTime].join('|');
+}
+
+/**
+ * Compare a month's draft with its published schedule: the cells that change, the leave
+ * publishing will deduct, the weeks whose worked hours move, the replacement shifts added
+ * or removed, and coverage rule violations.
+ * Only this month's draft is applied, so a draft in a neighbouring month doesn't show here.
+ */
+export async function getDraftDiff(year: number, month: number): Promise<DraftDiff> {
+  const monthDates = { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) };
+
+  const [published, drafts, publishedReplacements, draftReplacements, staff, coverageRules, temps, publishedSchedule, adminSchedule] = await Promise.all([
+    prisma.scheduleOverride.findMany({ where: { date: monthDates } }),
+    prisma.scheduleDraft.findMany({ where: { date: monthDates } }),
+    prisma.replacementShift.findMany({ where: { date: monthDates } }),
+    prisma.replacementShiftDraft.findMany({ where: { date: monthDates } }),
+    prisma.staff.findMany({ select: { staffId: true, name: true, role: true, weeklyHours: true, defaultOffDays: true } }),
+    prisma.coverageRule.findMany({ where: { isActive: true } }),
+    prisma.tempStaff.findMany({ select: { id: true, qualification: true } }),
+    getMonthSchedule(year, month, 'published'),
+    getMonthSchedule(year, month, 'admin'),
+  ]);
+  const staffById = new Map(staff.map((s) => [s.staffId, s]));
+  const staffName = (staffId: string) => staffById.get(staffId)?.name || staffId;
+
+  // Cell changes
+  const changes = diffScheduleByStaff(published, drafts).map((d) => ({ ...d, staffName: staffName(d.staffId) }));
+  const changedCells = changes.reduce((total, c) => total + Object.keys(c.after).length, 0);
+
+  // Leave deductions: draft leave (whole or part days) without approved history yet, as publish counts them
+  const draftLeave = drafts.filter(
+    (d) => (d.isLeave || d.leavePortion) && BALANCE_LEAVE_TYPES.includes(d.leaveType as BalanceLeaveType)
+  );
+  const [recorded, balances] = await Promise.all([
+    prisma.leaveHistory.findMany({
+      where: { date: monthDates, status: 'approved', staffId: { in: draftLeave.map((d) => d.staffId) } },
+      select: { staffId: true, date: true },
+    }),
+    prisma.leaveBalance.findMany({ where: { year } }),
+  ]);
+  const recordedKeys = new Set(recorded.map((h) => `${h.staffId}|${format(h.date, 'yyyy-MM-dd')}`));
+
+  const deductions = new Map<string, Partial<Record<BalanceLeaveType, number>>>();
+  draftLeave
+    .filter((d) => !recordedKeys.has(`${d.staffId}|${format(d.date, 'yyyy-MM-dd')}`))
+    .forEach((d) => {
+      const type = d.leaveType as BalanceLeaveType;
+      const member = staffById.get(d.staffId);
+      const hoursPerDay = member ? dailyHours({ weeklyHours: member.weeklyHours, defaultOffDays: parseOffDays(member.defaultOffDays) }) : 0;
+      const days = deductions.get(d.staffId) || {};
+      days[type] = (days[type] || 0) + leaveDays(d.isLeave ? null : d.leavePortion, d.leaveHours, hoursPerDay);
+      deductions.set(d.staffId, days);
+    });
+
+  const leave = await Promise.all(Array.from(deductions.entries()).map(async ([staffId, days]) => {
+    const balance = balances.find((b) => b.staffId === staffId);
+    const carried = balance ? await getCarriedDays(prisma, balance) : 0;
+    return {
+      staffId,
+      staffName: staffName(staffId),
+      days,
+      remainingAfter: balance
+        ? {
+            AL: balance.alEntitlement + carried - balance.alUsed - (days.AL || 0),
+            RL: balance.rlEarned - balance.rlUsed - (days.RL || 0),
+          }
+        : null,
+    };
+  }));
+
+  // Week hours: published week totals, plus the change on this month's days only
+  const beforeHours = dayHours(publishedSchedule);
+  const afterHours = dayHours(adminSchedule);
+  const weekTotals = new Map<string, DraftWeekHours>();
+
+  publishedSchedule.days.forEach((day) => {
+    const dateKey = format(day.date, 'yyyy-MM-dd');
+    const week = getISOWeek(day.date);
+    Object.keys(day.staffShifts).forEach((staffId) => {
+      const key = `${staffId}|${week}`;
+      if (!weekTotals.has(key)) {
+        weekTotals.set(key, {
+          staffId,
+          staffName: staffName(staffId),
+          week,
+          weekStart: format(startOfWeek(day.date, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+          target: staffById.get(staffId)?.weeklyHours || 0,
+          before: 0,
+          after: 0,
+        });
+      }
+      const totals = weekTotals.get(key)!;
+      const before = beforeHours.get(`${staffId}|${dateKey}`) || 0;
+      totals.before += before;
+      totals.after += day.isCurrentMonth ? afterHours.get(`${staffId}|${dateKey}`) ?? before : before;
+    });
+  });
+
+  const weeks = Array.from(weekTotals.values())
+    .filter((w) => w.before !== w.after)
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.staffName.localeCompare(b.staffName));
+
+  // Replacement shifts only in the draft are added; only in the published month, removed
+  const unmatched = new Map<string, number>();
+  publishedReplacements.forEach((rep) => {
+    const key = replacementKey(rep);
+    unmatched.set(key, (unmatched.get(key) || 0) + 1);
+  });
+  const toChange = (rep: ReplacementShiftDraft, change: DraftReplacementChange['change']) => ({
+    date: format(rep.date, 'yyyy-MM-dd'),
+    change,
+    originalStaffId: rep.originalStaffId,
+    originalStaffName: staffName(rep.originalStaffId),
+    tempStaffName: rep.tempStaffName,
+    startTime: rep.startTime,
+    endTime: rep.endTime,
+    workHours: rep.workHours,
+  });
+  const replacements: DraftReplacementChange[] = [];
+  draftReplacements.forEach((rep) => {
+    const key = replacementKey(rep);
+    const count = unmatched.get(key) || 0;
+    if (count > 0) {
+      unmatched.set(key, count - 1);
+    } else {
+      replacements.push(toChange(rep, 'added'));
+    }
+  });
+  publishedReplacements.forEach((rep) => {
+    const key = replacementKey(rep);
+    const count = unmatched.get(key) || 0;
+    if (count > 0) {
+      unmatched.set(key, count - 1);
+      replacements.push(toChange(rep, 'removed'));
+    }
+  });
+  replacements.sort((a, b) => a.date.localeCompare(b.date) || a.originalStaffName.localeCompare(b.originalStaffName));
+
+  // Coverage of this month's days with the draft applied
+  const staffRoles = Object.fromEntries(staff.map((s) => [s.staffId, s.role]));
+  const tempRoles = Object.fromEntries(temps.map((t) => [t.id, t.qualification]));
+  const rules = coverageRules.map(toCoverageRule);
+  const coverage = adminSchedule.days
+    .filter((day) => day.isCurrentMonth)
+    .map((day) => ({ date: format(day.date, 'yyyy-MM-dd'), violations: checkDayCoverage(day, rules, staffRoles, tempRoles) }))
+    .filter((day) => day.violations.length > 0);
+
+  return { changes, changedCells, leave, weeks, replacements, coverage };
+}
@@ -0,0 +1,35 @@
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import { NATIONWIDE, DEFAULT_HOLIDAY_STATE } from '@/lib/holidays';
+
+const HOLIDAY_STATE_KEY = 'holidayState';
+
+// Get the state whose holiday set applies to this branch
+export async function getBranchHolidayState(): Promise<string> {
+  const setting = await prisma.appSetting.findUnique({ where: { key: HOLIDAY_STATE_KEY } });
+  return setting?.value || DEFAULT_HOLIDAY_STATE;
+}
+
+export async function setBranchHolidayState(state: string): Promise<void> {
+  await prisma.appSetting.upsert({
+    where: { key: HOLIDAY_STATE_KEY },
+    create: { key: HOLIDAY_STATE_KEY, value: state },
+    update: { value: state },
+  });
+}
+
+// Prisma filter for holidays observed in a state: nationwide plus that state's set
+export function holidaysForState(state: string) {
+  return { state: { in: [NATIONWIDE, state] } };
+}
+
+// Transform a PublicHoliday database record to the API shape
+export function toHolidayResponse(holiday: { id: string; date: Date; name: string; year: number; state: string }) {
+  return {
+    id: holiday.id,
+    date: format(holiday.date, 'yyyy-MM-dd'),
+    name: holiday.name,
+    year: holiday.year,
+    state: holiday.state,
+  };
+}
@@ -0,0 +1,65 @@
+import type { PublicHoliday } from '@/types/schedule';
+
+// Holidays with this state apply to every branch
+export const NATIONWIDE = 'ALL';
+
+// Malaysian states and federal territories with their own holiday sets
+export const HOLIDAY_STATES: { code: string; name: string }[] = [
+  { code: 'JHR', name: 'Johor' },
+  { code: 'KDH', name: 'Kedah' },
+  { code: 'KTN', name: 'Kelantan' },
+  { code: 'MLK', name: 'Melaka' },
+  { code: 'NSN', name: 'Negeri Sembilan' },
+  { code: 'PHG', name: 'Pahang' },
+  { code: 'PNG', name: 'Pulau Pinang' },
+  { code: 'PRK', name: 'Perak' },
+  { code: 'PLS', name: 'Perlis' },
+  { code: 'SBH', name: 'Sabah' },
+  { code: 'SWK', name: 'Sarawak' },
+  { code: 'SGR', name: 'Selangor' },
+  { code: 'TRG', name: 'Terengganu' },
+  { code: 'KUL', name: 'WP Kuala Lumpur' },
+  { code: 'LBN', name: 'WP Labuan' },
+  { code: 'PJY', name: 'WP Putrajaya' },
+];
+
+// State used until an admin assigns the branch to one
+export const DEFAULT_HOLIDAY_STATE = 'SGR';
+
+export function isValidHolidayState(state: unknown): state is string {
+  return state === NATIONWIDE || HOLIDAY_STATES.some(s => s.code === state);
+}
+
+export function getHolidayStateName(state: string): string {
+  if (state === NATIONWIDE) return 'Nationwide';
+  return HOLIDAY_STATES.find(s => s.code === state)?.name ?? state;
+}
+
+// Company public holidays, seeded into the PublicHoliday table by /api/migrate
+export const SEED_PUBLIC_HOLIDAYS: PublicHoliday[] = [
+  // 2025
+  { date: '2025-03-31', name: 'Raya Puasa 1', state: NATIONWIDE },
+  { date: '2025-04-01', name: 'Raya Puasa 2', state: NATIONWIDE },
+  { date: '2025-04-02', name: 'Raya Puasa 3 (*ganti Nuzul Quran)', state: NATIONWIDE },
+  { date: '2025-05-01', name: 'Labour Day', state: NATIONWIDE },
+  { date: '2025-06-02', name: 'Agong Birthday', state: NATIONWIDE },
+  { date: '2025-06-07', name: 'Hari Raya Haji Day 1', state: NATIONWIDE },
+  { date: '2025-06-08', name: 'Hari raya Haji Day 2 (*ganti Maulidur Rasul)', state: NATIONWIDE },
+  { date: '2025-06-27', name: 'Awal Muharam', state: NATIONWIDE },
+  { date: '2025-08-31', name: 'Merdeka Day', state: NATIONWIDE },
+  { date: '2025-09-06', name: 'Cuti AM (*Ganti Cuti PMX Bagi)', state: NATIONWIDE },
+  { date: '2025-09-16', name: 'Hari Malaysia', state: NATIONWIDE },
+  { date: '2025-12-11', name: 'Sultan Selangor\'s Birthday', state: 'SGR' },
+  // 2026
+  { date: '2026-03-20', name: 'Hari Raya Aidilfitri', state: NATIONWIDE },
+  { date: '2026-03-21', name: 'Hari Raya Aidilfitri', state: NATIONWIDE },
+  { date: '2026-03-22', name: 'Hari Raya Aidilfitri', state: NATIONWIDE },
+  { date: '2026-03-23', name: 'Hari Raya Aidilfitri', state: NATIONWIDE },
+  { date: '2026-05-01', name: 'Labour Day', state: NATIONWIDE },
+  { date: '2026-05-27', name: 'Hari Raya Aidiladha (Haji)', state: NATIONWIDE },
+  { date: '2026-05-28', name: 'Hari Raya Aidiladha (Haji)', state: NATIONWIDE },
+  { date: '2026-06-01', name: 'Agong Birthday', state: NATIONWIDE },
+  { date: '2026-08-31', name: 'National Day (Merdeka)', state: NATIONWIDE },
+  { date: '2026-09-16', name: 'Malaysia Day', state: NATIONWIDE },
+  { date: '2026-12-11', name: 'Sultan of Selangor\'s Birthday', state: 'SGR' },
+];
@@ -0,0 +1,90 @@
+import { format, addDays } from 'date-fns';
+
+// Shift times are local pharmacy times
+const TIMEZONE = 'Asia/Kuala_Lumpur';
+
+export interface CalendarEvent {
+  uid: string;
+  date: Date;
+  summary: string;
+  description?: string;
+  startTime?: string; // "HH:mm" - omitted for all-day events
+  endTime?: string;
+}
+
+// Escape text values per RFC 5545 (backslash, semicolon, comma, newline)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold lines longer than 75 octets onto continuation lines
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74));
+  }
+  return parts.join('\r\n ');
+}
+
+function toLocalDateTime(date: Date, time: string): string {
+  return `${format(date, 'yyyyMMdd')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Render an iCalendar (RFC 5545) document.
+ * Timed events use the Asia/Kuala_Lumpur timezone; events without times are all-day.
+ */
+export function buildCalendar(calendarName: string, events: CalendarEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''); // UTC, e.g. 20260101T093000Z
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pharmacy Timetable//Staff Shifts//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19820101T000000',
+    'TZOFFSETFROM:+0800',
+    'TZOFFSETTO:+0800',
+    'TZNAME:+08',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+
+  events.forEach((event) => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.startTime && event.endTime) {
+      // Shifts ending at or before their start time run past midnight
+      const endDate = event.endTime <= event.startTime ? addDays(event.date, 1) : event.date;
+      lines.push(
+        `DTSTART;TZID=${TIMEZONE}:${toLocalDateTime(event.date, event.startTime)}`,
+        `DTEND;TZID=${TIMEZONE}:${toLocalDateTime(endDate, event.endTime)}`
+      );
+    } else {
+      lines.push(
+        `DTSTART;VALUE=DATE:${format(event.date, 'yyyyMMdd')}`,
+        `DTEND;VALUE=DATE:${format(addDays(event.date, 1), 'yyyyMMdd')}`,
+        'TRANSP:TRANSPARENT'
+      );
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,60 @@
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
+import {
+  DEFAULT_PRORATION_ROUNDING,
+  isProrationRounding,
+  proratedEntitlements,
+  type ProrationRounding,
+} from '@/lib/leave-proration';
+
+const PRORATION_ROUNDING_KEY = 'leaveProrationRounding';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// How pro-rated entitlements are rounded to whole days
+export async function getProrationRounding(db: Db = prisma): Promise<ProrationRounding> {
+  const setting = await db.appSetting.findUnique({ where: { key: PRORATION_ROUNDING_KEY } });
+  return isProrationRounding(setting?.value) ? setting.value : DEFAULT_PRORATION_ROUNDING;
+}
+
+export async function setProrationRounding(db: Db, rounding: ProrationRounding): Promise<void> {
+  await db.appSetting.upsert({
+    where: { key: PRORATION_ROUNDING_KEY },
+    create: { key: PRORATION_ROUNDING_KEY, value: rounding },
+    update: { value: rounding },
+  });
+}
+
+/**
+ * Re-apply pro-rated entitlements to existing balances from `fromYear` on, e.g. after a
+ * staff member's start or end date changes. Earlier years are left as they were closed.
+ * Returns the balances whose entitlements moved.
+ */
+export async function syncBalanceEntitlements(
+  db: Db,
+  where: { staffId?: string; fromYear: number },
+  rounding: ProrationRounding
+): Promise<{ staffId: string; year: number; before: { al: number; ml: number }; after: { al: number; ml: number } }[]> {
+  const balances = await db.leaveBalance.findMany({
+    where: { year: { gte: where.fromYear }, ...(where.staffId && { staffId: where.staffId }) },
+    include: { staff: true },
+  });
+
+  const changed = [];
+  for (const balance of balances) {
+    const entitlements = proratedEntitlements(balance.staff, balance.year, rounding);
+    if (entitlements.alEntitlement === balance.alEntitlement && entitlements.mlEntitlement === balance.mlEntitlement) continue;
+
+    await db.leaveBalance.update({
+      where: { id: balance.id },
+      data: { alEntitlement: entitlements.alEntitlement, mlEntitlement: entitlements.mlEntitlement },
+    });
+    changed.push({
+      staffId: balance.staffId,
+      year: balance.year,
+      before: { al: balance.alEntitlement, ml: balance.mlEntitlement },
+      after: { al: entitlements.alEntitlement, ml: entitlements.mlEntitlement },
+    });
+  }
+  return changed;
+}
@@ -0,0 +1,63 @@
+// Leave entitlement pro-rated to months of service for staff who join or leave partway
+// through a year. Pure (no Prisma) so the leave dashboard can import it.
+import { addDays, differenceInCalendarDays, getDaysInMonth, max, min, startOfDay } from 'date-fns';
+
+export const PRORATION_ROUNDING = ['nearest', 'up', 'down'] as const;
+export type ProrationRounding = (typeof PRORATION_ROUNDING)[number];
+
+export const PRORATION_ROUNDING_LABELS: Record<ProrationRounding, string> = {
+  nearest: 'Nearest day',
+  up: 'Round up',
+  down: 'Round down',
+};
+
+export const DEFAULT_PRORATION_ROUNDING: ProrationRounding = 'nearest';
+
+export function isProrationRounding(value: unknown): value is ProrationRounding {
+  return PRORATION_ROUNDING.includes(value as ProrationRounding);
+}
+
+/**
+ * Months of service within a year, to two places. Whole months count 1; the joining and leaving
+ * months count the share of their days worked. endDate is the first day no longer employed,
+ * matching how the timetable hides staff from that date.
+ */
+export function monthsOfService(year: number, startDate: Date | null, endDate: Date | null): number {
+  const first = startDate ? startOfDay(startDate) : null;
+  const last = endDate ? addDays(startOfDay(endDate), -1) : null;
+
+  let months = 0;
+  for (let month = 0; month < 12; month++) {
+    const monthStart = new Date(year, month, 1);
+    const monthEnd = new Date(year, month, getDaysInMonth(monthStart));
+    const from = first ? max([monthStart, first]) : monthStart;
+    const to = last ? min([monthEnd, last]) : monthEnd;
+    const days = differenceInCalendarDays(to, from) + 1;
+    if (days > 0) months += days / getDaysInMonth(monthStart);
+  }
+  return Math.round(months * 100) / 100;
+}
+
+export function prorateEntitlement(full: number, months: number, rounding: ProrationRounding): number {
+  const exact = (full * months) / 12;
+  if (rounding === 'up') return Math.ceil(exact - 1e-9);
+  if (rounding === 'down') return Math.floor(exact + 1e-9);
+  return Math.round(exact);
+}
+
+/**
+ * AL and ML entitlements for a staff member's LeaveBalance in a year: the staff record's
+ * entitlements scaled by months of service. MAT is never pro-rated.
+ */
+export function proratedEntitlements(
+  staff: { alEntitlement: number; mlEntitlement: number; matEntitlement: number; startDate: Date | null; endDate: Date | null },
+  year: number,
+  rounding: ProrationRounding
+): { alEntitlement: number; mlEntitlement: number; matEntitlement: number } {
+  const months = monthsOfService(year, staff.startDate, staff.endDate);
+  return {
+    alEntitlement: prorateEntitlement(staff.alEntitlement, months, rounding),
+    mlEntitlement: prorateEntitlement(staff.mlEntitlement, months, rounding),
+    matEntitlement: staff.matEntitlement,
+  };
+}
@@ -0,0 +1,217 @@
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import type { Prisma } from '@/generated/prisma';
+import { parseOffDays } from '@/lib/month-schedule';
+import { dailyHours, leaveDays } from '@/lib/partial-leave';
+import { parseReplacedRows, type PublishedLeaveChange } from '@/lib/schedule-publications';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// LeaveBalance counter each leave type is deducted from (EL only keeps history)
+const USED_FIELDS = { AL: 'alUsed', RL: 'rlUsed', ML: 'mlUsed', MAT: 'matUsed' } as const;
+type UsedField = (typeof USED_FIELDS)[keyof typeof USED_FIELDS];
+
+interface LeaveDay {
+  leaveType: string;
+  amount: number;
+  portion: string | null;
+}
+
+export interface LeaveHistoryFix {
+  staffId: string;
+  staffName: string;
+  date: string; // yyyy-MM-dd
+  action: 'create' | 'update' | 'delete';
+  before: LeaveDay | null;
+  after: LeaveDay | null;
+}
+
+export interface LeaveCounterFix {
+  staffId: string;
+  staffName: string;
+  field: UsedField;
+  before: number;
+  after: number;
+}
+
+export interface LeaveReconcileReport {
+  year: number;
+  history: LeaveHistoryFix[];
+  counters: LeaveCounterFix[];
+  missingBalances: { staffId: string; staffName: string }[]; // published leave but no LeaveBalance row for the year
+}
+
+const round = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Point a year's live publications at the rewritten history, so rolling a publish back reverses
+ * what the rows hold now: updated rows take their new type and amount, and a created row joins
+ * the latest publication whose replaced rows had no leave that day (the publish that added it).
+ */
+async function syncPublishedLeave(
+  db: Db,
+  year: number,
+  updated: { id: string; after: LeaveDay }[],
+  created: { id: string; staffId: string; date: Date; after: LeaveDay }[]
+): Promise<void> {
+  if (updated.length === 0 && created.length === 0) return;
+
+  const publications = await db.schedulePublication.findMany({
+    where: { year, rolledBackAt: null },
+    orderBy: { version: 'desc' },
+  });
+  const changesById = new Map(publications.map((p) => [p.id, JSON.parse(p.leaveChanges) as PublishedLeaveChange[]]));
+  const changed = new Set<string>();
+  const fieldFor = (leaveType: string) => USED_FIELDS[leaveType as keyof typeof USED_FIELDS] ?? null;
+
+  for (const { id, after } of updated) {
+    for (const [publicationId, changes] of changesById) {
+      const change = changes.find((c) => c.historyId === id);
+      if (!change) continue;
+      change.field = fieldFor(after.leaveType);
+      change.amount = after.amount;
+      changed.add(publicationId);
+    }
+  }
+
+  for (const { id, staffId, date, after } of created) {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const publication = publications.find((p) =>
+      p.month === date.getMonth() + 1 &&
+      !parseReplacedRows(p).some((row) =>
+        row.staffId === staffId &&
+        format(row.date, 'yyyy-MM-dd') === dateKey &&
+        row.leaveType &&
+        (row.isLeave || row.leavePortion)
+      )
+    );
+    if (!publication) continue;
+    changesById.get(publication.id)!.push({ historyId: id, staffId, year, field: fieldFor(after.leaveType), amount: after.amount });
+    changed.add(publication.id);
+  }
+
+  for (const publicationId of changed) {
+    await db.schedulePublication.update({
+      where: { id: publicationId },
+      data: { leaveChanges: JSON.stringify(changesById.get(publicationId)) },
+    });
+  }
+}
+
+/**
+ * Compare a year's approved LeaveHistory and LeaveBalance used counters with the leave in the
+ * published schedule (ScheduleOverride), which is treated as the source of truth. With `apply`
+ * the history is rewritten to match (rows are updated in place where possible, and the publications
+ * that made them are kept in step, so publish rollbacks reverse the right amounts) and every counter
+ * is set to the published total.
+ */
+export async function reconcileLeave(db: Db, year: number, apply = false): Promise<LeaveReconcileReport> {
+  const yearRange = { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) };
+
+  const [overrides, history, balances, staff] = await Promise.all([
+    db.scheduleOverride.findMany({
+      where: { date: yearRange, leaveType: { not: null }, OR: [{ isLeave: true }, { leavePortion: { not: null } }] },
+      orderBy: { date: 'asc' },
+    }),
+    db.leaveHistory.findMany({ where: { date: yearRange, status: 'approved' }, orderBy: { createdAt: 'asc' } }),
+    db.leaveBalance.findMany({ where: { year } }),
+    db.staff.findMany({ select: { staffId: true, name: true, weeklyHours: true, defaultOffDays: true } }),
+  ]);
+  const staffById = new Map(staff.map((s) => [s.staffId, s]));
+  const staffName = (staffId: string) => staffById.get(staffId)?.name || staffId;
+
+  // Published leave per "staffId|yyyy-MM-dd"
+  const expected = new Map<string, LeaveDay & { staffId: string; date: Date }>();
+  for (const override of overrides) {
+    const member = staffById.get(override.staffId);
+    const hoursPerDay = member ? dailyHours({ weeklyHours: member.weeklyHours, defaultOffDays: parseOffDays(member.defaultOffDays) }) : 0;
+    const portion = override.isLeave ? null : override.leavePortion;
+    expected.set(`${override.staffId}|${format(override.date, 'yyyy-MM-dd')}`, {
+      staffId: override.staffId,
+      date: override.date,
+      leaveType: override.leaveType!,
+      amount: leaveDays(portion, override.leaveHours, hoursPerDay),
+      portion,
+    });
+  }
+
+  // History rows to update or delete; the first approved row for a day is kept, duplicates go
+  const fixes: LeaveHistoryFix[] = [];
+  const updated: { id: string; after: LeaveDay }[] = [];
+  const created: { id: string; staffId: string; date: Date; after: LeaveDay }[] = [];
+  const seen = new Set<string>();
+  for (const row of history) {
+    const dateKey = format(row.date, 'yyyy-MM-dd');
+    const key = `${row.staffId}|${dateKey}`;
+    const target = seen.has(key) ? undefined : expected.get(key);
+    const before = { leaveType: row.leaveType, amount: row.amount, portion: row.portion };
+    seen.add(key);
+
+    if (!target) {
+      fixes.push({ staffId: row.staffId, staffName: staffName(row.staffId), date: dateKey, action: 'delete', before, after: null });
+      if (apply) await db.leaveHistory.delete({ where: { id: row.id } });
+      continue;
+    }
+
+    const after = { leaveType: target.leaveType, amount: target.amount, portion: target.portion };
+    if (before.leaveType !== after.leaveType || before.amount !== after.amount || before.portion !== after.portion) {
+      fixes.push({ staffId: row.staffId, staffName: staffName(row.staffId), date: dateKey, action: 'update', before, after });
+      if (apply) {
+        await db.leaveHistory.update({ where: { id: row.id }, data: after });
+        updated.push({ id: row.id, after });
+      }
+    }
+  }
+
+  // Published leave with no history yet
+  for (const [key, target] of expected) {
+    if (seen.has(key)) continue;
+    const after = { leaveType: target.leaveType, amount: target.amount, portion: target.portion };
+    fixes.push({
+      staffId: target.staffId,
+      staffName: staffName(target.staffId),
+      date: format(target.date, 'yyyy-MM-dd'),
+      action: 'create',
+      before: null,
+      after,
+    });
+    if (apply) {
+      const row = await db.leaveHistory.create({ data: { staffId: target.staffId, date: target.date, status: 'approved', ...after } });
+      created.push({ id: row.id, staffId: target.staffId, date: target.date, after });
+    }
+  }
+  if (apply) await syncPublishedLeave(db, year, updated, created);
+
+  // Used counters from the published totals
+  const totals = new Map<string, Partial<Record<UsedField, number>>>();
+  for (const day of expected.values()) {
+    const field = USED_FIELDS[day.leaveType as keyof typeof USED_FIELDS];
+    if (!field) continue;
+    const staffTotals = totals.get(day.staffId) || {};
+    staffTotals[field] = (staffTotals[field] || 0) + day.amount;
+    totals.set(day.staffId, staffTotals);
+  }
+
+  const counters: LeaveCounterFix[] = [];
+  for (const balance of balances) {
+    const staffTotals = totals.get(balance.staffId) || {};
+    const data: Partial<Record<UsedField, number>> = {};
+    for (const field of Object.values(USED_FIELDS)) {
+      const after = round(staffTotals[field] || 0);
+      if (round(balance[field]) === after) continue;
+      counters.push({ staffId: balance.staffId, staffName: staffName(balance.staffId), field, before: balance[field], after });
+      data[field] = after;
+    }
+    if (apply && Object.keys(data).length > 0) {
+      await db.leaveBalance.update({ where: { id: balance.id }, data });
+    }
+  }
+
+  const missingBalances = Array.from(totals.keys())
+    .filter((staffId) => !balances.some((b) => b.staffId === staffId))
+    .map((staffId) => ({ staffId, staffName: staffName(staffId) }));
+
+  fixes.sort((a, b) => a.staffName.localeCompare(b.staffName) || a.date.localeCompare(b.date));
+  counters.sort((a, b) => a.staffName.localeCompare(b.staffName));
+  return { year, history: fixes, counters, missingBalances };
+}
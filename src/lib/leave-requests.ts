@@ -0,0 +1,151 @@
+import { format, eachDayOfInterval } from 'date-fns';
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
+import { getMonthSchedule, parseOffDays } from '@/lib/month-schedule';
+import { dailyHours, formatLeaveDays, leaveDays } from '@/lib/partial-leave';
+import { getCarriedDays } from '@/lib/leave-rollover';
+import { openDraftMonths } from '@/lib/schedule-drafts';
+import type { MonthSchedule } from '@/types/schedule';
+
+// Leave types staff can request (MAT is set up by an admin from the calendar)
+export const REQUESTABLE_LEAVE_TYPES = ['AL', 'RL', 'EL', 'ML'] as const;
+export type RequestableLeaveType = (typeof REQUESTABLE_LEAVE_TYPES)[number];
+
+// Longest request accepted, in calendar days
+export const MAX_REQUEST_DAYS = 31;
+
+export function isRequestableLeaveType(value: unknown): value is RequestableLeaveType {
+  return REQUESTABLE_LEAVE_TYPES.includes(value as RequestableLeaveType);
+}
+
+/**
+ * Working days for a staff member between start and end (inclusive), against the admin view.
+ * Off days and public holidays are skipped; days already on leave are an error.
+ */
+export async function getRequestDays(
+  staffId: string,
+  start: Date,
+  end: Date
+): Promise<{ dates: Date[] } | { error: string }> {
+  const schedules = new Map<string, MonthSchedule>();
+  const dates: Date[] = [];
+
+  for (const date of eachDayOfInterval({ start, end })) {
+    const key = `${date.getFullYear()}-${date.getMonth() + 1}`;
+    if (!schedules.has(key)) {
+      schedules.set(key, await getMonthSchedule(date.getFullYear(), date.getMonth() + 1, 'admin'));
+    }
+
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const day = schedules.get(key)!.days.find((d) => format(d.date, 'yyyy-MM-dd') === dateKey);
+    const staffShift = day?.staffShifts[staffId];
+    if (!day || day.isHoliday || !staffShift) continue;
+
+    if (staffShift.isLeave) {
+      return { error: `Already on ${staffShift.leaveType || 'leave'} on ${format(date, 'd MMM yyyy')}` };
+    }
+    if (staffShift.shift) dates.push(date);
+  }
+
+  if (dates.length === 0) {
+    return { error: 'No working days in the selected dates' };
+  }
+  return { dates };
+}
+
+/**
+ * Check AL and RL requests against LeaveBalance, counting days already committed:
+ * other pending requests and leave sitting in unpublished drafts. Returns an error message
+ * when the request would overdraw a year's balance, otherwise null.
+ */
+export async function checkLeaveBalance(
+  staffId: string,
+  leaveType: RequestableLeaveType,
+  dates: Date[],
+  excludeRequestId?: string
+): Promise<string | null> {
+  if (leaveType !== 'AL' && leaveType !== 'RL') return null;
+
+  const daysByYear = new Map<number, number>();
+  dates.forEach((date) => daysByYear.set(date.getFullYear(), (daysByYear.get(date.getFullYear()) || 0) + 1));
+
+  const staff = await prisma.staff.findUnique({ where: { staffId }, select: { weeklyHours: true, defaultOffDays: true } });
+  const hoursPerDay = staff ? dailyHours({ weeklyHours: staff.weeklyHours, defaultOffDays: parseOffDays(staff.defaultOffDays) }) : 0;
+
+  for (const [year, requested] of daysByYear) {
+    const yearRange = { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) };
+
+    const [balance, pending, drafted, recorded] = await Promise.all([
+      prisma.leaveBalance.findUnique({ where: { staffId_year: { staffId, year } } }),
+      prisma.leaveHistory.count({
+        where: {
+          staffId,
+          leaveType,
+          status: 'pending',
+          date: yearRange,
+          ...(excludeRequestId && { requestId: { not: excludeRequestId } }),
+        },
+      }),
+      prisma.scheduleDraft.findMany({
+        where: { staffId, leaveType, date: yearRange, OR: [{ isLeave: true }, { leavePortion: { not: null } }] },
+        select: { date: true, isLeave: true, leavePortion: true, leaveHours: true },
+      }),
+      prisma.leaveHistory.findMany({
+        where: { staffId, leaveType, status: 'approved', date: yearRange },
+        select: { date: true },
+      }),
+    ]);
+
+    if (!balance) {
+      return `No leave balance set up for ${year}`;
+    }
+
+    // Draft leave not yet published is deducted on publish
+    const recordedDates = new Set(recorded.map((h) => format(h.date, 'yyyy-MM-dd')));
+    const unpublished = drafted
+      .filter((d) => !recordedDates.has(format(d.date, 'yyyy-MM-dd')))
+      .reduce((total, d) => total + leaveDays(d.isLeave ? null : d.leavePortion, d.leaveHours, hoursPerDay), 0);
+
+    const available = leaveType === 'AL'
+      ? balance.alEntitlement + (await getCarriedDays(prisma, balance)) - balance.alUsed
+      : balance.rlEarned - balance.rlUsed;
+    const remaining = available - pending - unpublished;
+
+    if (requested > remaining) {
+      return `Not enough ${leaveType} balance for ${year}: ${requested} day${requested === 1 ? '' : 's'} requested, ${formatLeaveDays(Math.max(remaining, 0))} available`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Write approved leave into ScheduleDraft. Balances and history are updated when the month is published.
+ */
+export async function applyLeaveToDrafts(
+  tx: Prisma.TransactionClient,
+  staffId: string,
+  leaveType: string,
+  dates: Date[]
+): Promise<void> {
+  await openDraftMonths(tx, dates);
+
+  const data = {
+    shiftType: null,
+    isLeave: true,
+    leaveType,
+    customStartTime: null,
+    customEndTime: null,
+    customWorkHours: null,
+    leavePortion: null,
+    leaveHours: null,
+  };
+
+  for (const date of dates) {
+    await tx.scheduleDraft.upsert({
+      where: { date_staffId: { date, staffId } },
+      update: data,
+      create: { date, staffId, ...data },
+    });
+  }
+}
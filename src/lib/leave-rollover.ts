@@ -0,0 +1,140 @@
+import prisma from '@/lib/prisma';
+import { format, isValid, parse, startOfDay } from 'date-fns';
+import type { Prisma } from '@/generated/prisma';
+import { getProrationRounding } from '@/lib/leave-entitlements';
+import { proratedEntitlements } from '@/lib/leave-proration';
+
+const CARRY_CAP_KEY = 'alCarryForwardCap';
+const CARRY_EXPIRY_KEY = 'alCarryForwardExpiry';
+
+export interface CarryForwardSettings {
+  cap: number; // most unused AL days carried into the new year
+  expiry: string; // "MM-dd" in the new year; carried days not taken by then are forfeited
+}
+
+export const DEFAULT_CARRY_FORWARD: CarryForwardSettings = { cap: 5, expiry: '03-31' };
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export function isValidCarryExpiry(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{2}-\d{2}$/.test(value) && isValid(parse(`2001-${value}`, 'yyyy-MM-dd', new Date()));
+}
+
+export async function getCarryForwardSettings(): Promise<CarryForwardSettings> {
+  const settings = await prisma.appSetting.findMany({ where: { key: { in: [CARRY_CAP_KEY, CARRY_EXPIRY_KEY] } } });
+  const cap = Number(settings.find((s) => s.key === CARRY_CAP_KEY)?.value);
+  const expiry = settings.find((s) => s.key === CARRY_EXPIRY_KEY)?.value;
+  return {
+    cap: Number.isFinite(cap) && cap >= 0 ? cap : DEFAULT_CARRY_FORWARD.cap,
+    expiry: isValidCarryExpiry(expiry) ? expiry : DEFAULT_CARRY_FORWARD.expiry,
+  };
+}
+
+export async function setCarryForwardSettings(db: Db, settings: CarryForwardSettings): Promise<void> {
+  for (const [key, value] of [
+    [CARRY_CAP_KEY, String(settings.cap)],
+    [CARRY_EXPIRY_KEY, settings.expiry],
+  ]) {
+    await db.appSetting.upsert({ where: { key }, create: { key, value }, update: { value } });
+  }
+}
+
+// Last day carried days can be taken in a year
+export function carryExpiryDate(year: number, expiry: string): Date {
+  return parse(`${year}-${expiry}`, 'yyyy-MM-dd', new Date());
+}
+
+/**
+ * Carried AL a balance can still draw on. AL taken counts against carried days first, so once
+ * they expire only the carried days already taken by the expiry date remain.
+ */
+export async function getCarriedDays(
+  db: Db,
+  balance: { staffId: string; year: number; alCarried: number; alCarriedExpiresAt: Date | null },
+  on: Date = new Date()
+): Promise<number> {
+  if (balance.alCarried <= 0) return 0;
+  if (!balance.alCarriedExpiresAt || startOfDay(on) <= balance.alCarriedExpiresAt) return balance.alCarried;
+
+  const taken = await db.leaveHistory.aggregate({
+    where: {
+      staffId: balance.staffId,
+      leaveType: 'AL',
+      status: 'approved',
+      date: { gte: new Date(balance.year, 0, 1), lte: balance.alCarriedExpiresAt },
+    },
+    _sum: { amount: true },
+  });
+  return Math.min(balance.alCarried, taken._sum.amount || 0);
+}
+
+export interface RolloverPlanRow {
+  staffId: string;
+  staffName: string;
+  unused: number; // AL left at the end of the year, carried days included
+  carried: number; // what moves into the next year, capped
+}
+
+// AL each active staff member would carry from `fromYear` into the next year
+export async function planRollover(db: Db, fromYear: number, settings: CarryForwardSettings): Promise<RolloverPlanRow[]> {
+  const [staff, balances] = await Promise.all([
+    db.staff.findMany({ where: { isActive: true }, orderBy: { name: 'asc' } }),
+    db.leaveBalance.findMany({ where: { year: fromYear } }),
+  ]);
+  const yearEnd = new Date(fromYear, 11, 31);
+
+  const plan: RolloverPlanRow[] = [];
+  for (const member of staff) {
+    const balance = balances.find((b) => b.staffId === member.staffId);
+    const unused = balance
+      ? balance.alEntitlement + (await getCarriedDays(db, balance, yearEnd)) - balance.alUsed
+      : 0;
+    plan.push({
+      staffId: member.staffId,
+      staffName: member.name,
+      unused: Math.round(unused * 100) / 100,
+      carried: Math.round(Math.min(settings.cap, Math.max(0, unused)) * 100) / 100,
+    });
+  }
+  return plan;
+}
+
+/**
+ * Create (or update) next year's balances from a rollover plan: pro-rated entitlements from the
+ * staff record for new rows, and the carried days with their expiry date. Re-running a rollover
+ * only refreshes the carried days, so leave already taken in the new year is kept.
+ */
+export async function applyRollover(
+  tx: Prisma.TransactionClient,
+  fromYear: number,
+  plan: RolloverPlanRow[],
+  settings: CarryForwardSettings
+): Promise<{ year: number; expiresAt: Date }> {
+  const year = fromYear + 1;
+  const expiresAt = carryExpiryDate(year, settings.expiry);
+  const staff = await tx.staff.findMany({ where: { staffId: { in: plan.map((row) => row.staffId) } } });
+  const rounding = await getProrationRounding(tx);
+
+  for (const row of plan) {
+    const member = staff.find((s) => s.staffId === row.staffId);
+    if (!member) continue;
+    const carry = { alCarried: row.carried, alCarriedExpiresAt: row.carried > 0 ? expiresAt : null };
+
+    await tx.leaveBalance.upsert({
+      where: { staffId_year: { staffId: row.staffId, year } },
+      create: {
+        staffId: row.staffId,
+        year,
+        ...proratedEntitlements(member, year, rounding),
+        ...carry,
+      },
+      update: carry,
+    });
+  }
+  return { year, expiresAt };
+}
+
+// e.g. "31 Mar 2027"
+export function formatCarryExpiry(date: Date): string {
+  return format(date, 'd MMM yyyy');
+}
@@ -0,0 +1,161 @@
+import prisma from '@/lib/prisma';
+import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek } from 'date-fns';
+import { generateMonthSchedule } from '@/lib/schedule-generator';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import { toShiftSeason } from '@/lib/shift-seasons';
+import type { ShiftCatalog } from '@/lib/shift-types';
+import { toRotationPattern } from '@/lib/shift-patterns';
+import { getBranchHolidayState, holidaysForState, toHolidayResponse } from '@/lib/holiday-settings';
+import { toPartialLeave } from '@/lib/partial-leave';
+import type { MonthSchedule, DaySchedule, ShiftDefinition, ReplacementShift } from '@/types/schedule';
+import type { DatabaseStaffMember } from '@/hooks/useStaff';
+
+type LeaveType = NonNullable<DaySchedule['staffShifts'][string]['leaveType']>;
+
+// Helper to parse defaultOffDays, handling double-stringify bug
+export const parseOffDays = (val: string): number[] => {
+  let parsed = JSON.parse(val);
+  if (typeof parsed === 'string') {
+    parsed = JSON.parse(parsed);
+  }
+  return parsed as number[];
+};
+
+// Resolve the shift stored on an override row (catalog key or custom times)
+function toOverrideShift(
+  override: {
+    shiftType: string | null;
+    customStartTime: string | null;
+    customEndTime: string | null;
+    customWorkHours: number | null;
+  },
+  catalog: ShiftCatalog
+): ShiftDefinition | null {
+  if (override.shiftType) {
+    return catalog[override.shiftType] || null;
+  }
+  if (override.customStartTime && override.customEndTime && override.customWorkHours != null) {
+    return {
+      type: 'custom',
+      timing: null,
+      startTime: override.customStartTime,
+      endTime: override.customEndTime,
+      workHours: override.customWorkHours,
+    };
+  }
+  return null;
+}
+
+/**
+ * Build a month's schedule on the server: the generated rotation with overrides and
+ * replacements applied, the same way the Calendar merges them.
+ * view=published uses ScheduleOverride and ReplacementShift; view=admin uses ScheduleDraft and
+ * ReplacementShiftDraft for months with a draft. includeInactiveStaff also lists deactivated
+ * staff, bounded by their start and end dates like everyone else.
+ */
+export async function getMonthSchedule(
+  year: number,
+  month: number,
+  view: 'published' | 'admin' = 'published',
+  { includeInactiveStaff = false }: { includeInactiveStaff?: boolean } = {}
+): Promise<MonthSchedule> {
+  // The generated month covers full weeks, so fetch overrides for the whole grid
+  const gridStart = startOfWeek(startOfMonth(new Date(year, month - 1)), { weekStartsOn: 1 });
+  const gridEnd = endOfWeek(endOfMonth(new Date(year, month - 1)), { weekStartsOn: 1 });
+  const dateRange = { date: { gte: gridStart, lte: gridEnd } };
+
+  const [holidayState, shiftCatalog] = await Promise.all([getBranchHolidayState(), getShiftCatalog()]);
+
+  const [staff, patterns, holidays, seasons, published, drafts, draftMonths, publishedReplacements, draftReplacements] = await Promise.all([
+    prisma.staff.findMany({ where: includeInactiveStaff ? undefined : { isActive: true }, orderBy: { name: 'asc' } }),
+    prisma.shiftPattern.findMany({ where: { isActive: true } }),
+    prisma.publicHoliday.findMany({ where: holidaysForState(holidayState) }),
+    prisma.shiftSeason.findMany({ where: { isActive: true } }),
+    prisma.scheduleOverride.findMany({ where: dateRange }),
+    view === 'admin' ? prisma.scheduleDraft.findMany({ where: dateRange }) : Promise.resolve([]),
+    view === 'admin' ? prisma.draftMonth.findMany() : Promise.resolve([]),
+    prisma.replacementShift.findMany({ where: dateRange }),
+    view === 'admin' ? prisma.replacementShiftDraft.findMany({ where: dateRange }) : Promise.resolve([]),
+  ]);
+
+  // Drafts replace the published overrides and replacements of their whole month
+  const draftMonthKeys = new Set(draftMonths.map((dm) => `${dm.year}-${dm.month}`));
+  const hasDraft = (date: Date) => draftMonthKeys.has(`${date.getFullYear()}-${date.getMonth() + 1}`);
+  const overrides = [
+    ...published.filter((o) => !hasDraft(o.date)),
+    ...drafts.filter((d) => hasDraft(d.date)),
+  ];
+  const replacements = [
+    ...publishedReplacements.filter((r) => !hasDraft(r.date)),
+    ...draftReplacements.filter((r) => hasDraft(r.date)),
+  ];
+
+  const staffMembers: DatabaseStaffMember[] = staff.map((s) => ({
+    id: s.staffId,
+    name: s.name,
+    role: s.role as DatabaseStaffMember['role'],
+    weeklyHours: s.weeklyHours,
+    defaultOffDays: parseOffDays(s.defaultOffDays),
+    startDate: s.startDate,
+    endDate: s.endDate,
+    colorIndex: s.colorIndex,
+  }));
+
+  const schedule = generateMonthSchedule(
+    month,
+    year,
+    staffMembers,
+    patterns.map(toRotationPattern),
+    holidays.map(toHolidayResponse),
+    shiftCatalog,
+    seasons.map(toShiftSeason)
+  );
+
+  const overridesByDate = new Map<string, typeof overrides>();
+  overrides.forEach((override) => {
+    const dateKey = format(override.date, 'yyyy-MM-dd');
+    overridesByDate.set(dateKey, [...(overridesByDate.get(dateKey) || []), override]);
+  });
+
+  const replacementsByDate = new Map<string, ReplacementShift[]>();
+  replacements.forEach((rep) => {
+    const dateKey = format(rep.date, 'yyyy-MM-dd');
+    replacementsByDate.set(dateKey, [
+      ...(replacementsByDate.get(dateKey) || []),
+      {
+        id: rep.id,
+        originalStaffId: rep.originalStaffId,
+        tempStaffId: rep.tempStaffId,
+        tempStaffName: rep.tempStaffName,
+        startTime: rep.startTime,
+        endTime: rep.endTime,
+        workHours: rep.workHours,
+      },
+    ]);
+  });
+
+  const days = schedule.days.map((day) => {
+    const dayKey = format(day.date, 'yyyy-MM-dd');
+    const dayOverrides = overridesByDate.get(dayKey) || [];
+    const dayReplacements = replacementsByDate.get(dayKey);
+    if (dayOverrides.length === 0 && !dayReplacements) return day;
+
+    const staffShifts = { ...day.staffShifts };
+    dayOverrides.forEach((override) => {
+      // Skip overrides for staff who are not active on this date (startDate/endDate)
+      if (!staffShifts[override.staffId]) return;
+      staffShifts[override.staffId] = {
+        ...staffShifts[override.staffId],
+        shift: toOverrideShift(override, shiftCatalog),
+        isLeave: override.isLeave,
+        leaveType: override.isLeave ? ((override.leaveType || undefined) as LeaveType | undefined) : undefined,
+        partialLeave: toPartialLeave(override),
+        isOverride: true,
+      };
+    });
+
+    return { ...day, staffShifts, replacementShifts: dayReplacements || day.replacementShifts };
+  });
+
+  return { ...schedule, days };
+}
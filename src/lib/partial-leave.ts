@@ -0,0 +1,50 @@
+// Part-day leave amounts and labels. Pure (no Prisma) so the Calendar and leave cards can import it.
+import type { PartialLeave } from '@/types/schedule';
+
+export const PARTIAL_LEAVE_TYPES: PartialLeave['leaveType'][] = ['AL', 'RL', 'EL', 'ML'];
+
+export const LEAVE_PORTION_LABELS: Record<PartialLeave['portion'], string> = {
+  am: 'Morning half',
+  pm: 'Evening half',
+  hours: 'Hours',
+};
+
+// A staff member's standard working day, used to turn leave hours into days
+export function dailyHours(staff: { weeklyHours: number; defaultOffDays: number[] }): number {
+  return staff.weeklyHours / Math.max(1, 7 - staff.defaultOffDays.length);
+}
+
+// Days of leave a cell deducts: a full day, half a day, or hours as a share of the working day
+export function leaveDays(portion: string | null | undefined, hours: number | null | undefined, hoursPerDay: number): number {
+  if (portion === 'am' || portion === 'pm') return 0.5;
+  if (portion === 'hours' && hours && hoursPerDay > 0) {
+    return Math.min(1, Math.round((hours / hoursPerDay) * 100) / 100);
+  }
+  return 1;
+}
+
+// Part-day leave stored on a ScheduleOverride/ScheduleDraft row, if any
+export function toPartialLeave(row: {
+  isLeave: boolean;
+  leaveType: string | null;
+  leavePortion: string | null;
+  leaveHours: number | null;
+}): PartialLeave | undefined {
+  if (row.isLeave || !row.leaveType || !row.leavePortion) return undefined;
+  return {
+    leaveType: row.leaveType as PartialLeave['leaveType'],
+    portion: row.leavePortion as PartialLeave['portion'],
+    hours: row.leavePortion === 'hours' ? row.leaveHours : null,
+  };
+}
+
+// e.g. "AL ½ AM", "RL 3h"
+export function describePartialLeave(partial: PartialLeave): string {
+  if (partial.portion === 'hours') return `${partial.leaveType} ${partial.hours}h`;
+  return `${partial.leaveType} ½ ${partial.portion.toUpperCase()}`;
+}
+
+// Leave days for display: whole numbers as is, fractions to two places (1.5, 0.33)
+export function formatLeaveDays(days: number): string {
+  return String(Math.round(days * 100) / 100);
+}
@@ -0,0 +1,177 @@
+import prisma from '@/lib/prisma';
+import { format, startOfWeek, eachMonthOfInterval, startOfDay } from 'date-fns';
+import { getMonthSchedule, parseOffDays } from '@/lib/month-schedule';
+import { dailyHours, leaveDays } from '@/lib/partial-leave';
+import { normalizeTempName } from '@/lib/temp-staff';
+import type { CellValue } from '@/lib/xlsx';
+
+export const PAYROLL_LEAVE_TYPES = ['AL', 'RL', 'EL', 'ML', 'MAT'] as const;
+type PayrollLeaveType = (typeof PAYROLL_LEAVE_TYPES)[number];
+
+export interface PayrollRow {
+  type: 'staff' | 'temp';
+  staffId: string | null; // null for temporary staff, who are listed by name
+  name: string;
+  role: string | null;
+  weeklyHours: number | null;
+  workedHours: number;
+  overtimeHours: number | null; // hours above weeklyHours; temps have no contract
+  holidayHours: number; // hours worked on public holidays
+  leaveDays: Record<PayrollLeaveType, number>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const noLeave = (): Record<PayrollLeaveType, number> => ({ AL: 0, RL: 0, EL: 0, ML: 0, MAT: 0 });
+
+/**
+ * Hours and leave per staff member for a pay period (inclusive), from the published schedule.
+ * Overtime is counted per Monday-start week against weeklyHours; weeks cut by the period (or by
+ * a start or end date) are measured against the share of the week employed. Days covered by a
+ * replacement count towards the temp, not the staff member they replace. Staff deactivated since
+ * are included when their end date falls after the start of the period.
+ */
+export async function buildPayroll(from: Date, to: Date): Promise<PayrollRow[]> {
+  const periodStart = startOfDay(from);
+  const periodEnd = startOfDay(to);
+
+  const staff = await prisma.staff.findMany({
+    where: {
+      OR: [
+        { isActive: true },
+        { endDate: { gt: periodStart }, OR: [{ startDate: null }, { startDate: { lte: periodEnd } }] },
+      ],
+    },
+    orderBy: { name: 'asc' },
+  });
+  const days = [];
+  for (const month of eachMonthOfInterval({ start: periodStart, end: periodEnd })) {
+    const schedule = await getMonthSchedule(month.getFullYear(), month.getMonth() + 1, 'published', {
+      includeInactiveStaff: true,
+    });
+    days.push(...schedule.days.filter((day) => day.isCurrentMonth && day.date >= periodStart && day.date <= periodEnd));
+  }
+
+  const rows: PayrollRow[] = [];
+  for (const member of staff) {
+    const hoursPerDay = dailyHours({ weeklyHours: member.weeklyHours, defaultOffDays: parseOffDays(member.defaultOffDays) });
+    const weeks = new Map<string, { worked: number; daysEmployed: number }>();
+    const row: PayrollRow = {
+      type: 'staff',
+      staffId: member.staffId,
+      name: member.name,
+      role: member.role,
+      weeklyHours: member.weeklyHours,
+      workedHours: 0,
+      overtimeHours: 0,
+      holidayHours: 0,
+      leaveDays: noLeave(),
+    };
+
+    for (const day of days) {
+      const staffShift = day.staffShifts[member.staffId];
+      if (!staffShift) continue; // Not employed on this date
+
+      const weekKey = format(startOfWeek(day.date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const week = weeks.get(weekKey) || { worked: 0, daysEmployed: 0 };
+      week.daysEmployed++;
+      weeks.set(weekKey, week);
+
+      if (staffShift.isLeave) {
+        row.leaveDays[(staffShift.leaveType || 'AL') as PayrollLeaveType] += 1;
+        continue;
+      }
+      if (staffShift.partialLeave) {
+        const { leaveType, portion, hours } = staffShift.partialLeave;
+        row.leaveDays[leaveType] += leaveDays(portion, hours, hoursPerDay);
+      }
+
+      const isReplaced = day.replacementShifts?.some((rep) => rep.originalStaffId === member.staffId);
+      if (!staffShift.shift || isReplaced) continue;
+
+      // shift already holds the shortened working time on part-day leave
+      const hours = staffShift.shift.workHours;
+      week.worked += hours;
+      row.workedHours += hours;
+      if (day.isHoliday) row.holidayHours += hours;
+    }
+
+    if (weeks.size === 0) continue; // Not employed during the period
+
+    let overtime = 0;
+    for (const week of weeks.values()) {
+      overtime += Math.max(0, week.worked - (member.weeklyHours * week.daysEmployed) / 7);
+    }
+
+    rows.push({
+      ...row,
+      workedHours: round(row.workedHours),
+      overtimeHours: round(overtime),
+      holidayHours: round(row.holidayHours),
+      leaveDays: Object.fromEntries(
+        Object.entries(row.leaveDays).map(([type, amount]) => [type, round(amount)])
+      ) as Record<PayrollLeaveType, number>,
+    });
+  }
+
+  // Temporary replacement hours, one row per registry temp (or per name for shifts typed before the registry)
+  const temps = new Map<string, { name: string; worked: number; holiday: number }>();
+  for (const day of days) {
+    for (const rep of day.replacementShifts || []) {
+      const tempKey = rep.tempStaffId || normalizeTempName(rep.tempStaffName);
+      const temp = temps.get(tempKey) || { name: rep.tempStaffName.trim(), worked: 0, holiday: 0 };
+      temp.worked += rep.workHours;
+      if (day.isHoliday) temp.holiday += rep.workHours;
+      temps.set(tempKey, temp);
+    }
+  }
+  for (const temp of Array.from(temps.values()).sort((a, b) => a.name.localeCompare(b.name))) {
+    rows.push({
+      type: 'temp',
+      staffId: null,
+      name: temp.name,
+      role: null,
+      weeklyHours: null,
+      workedHours: round(temp.worked),
+      overtimeHours: null,
+      holidayHours: round(temp.holiday),
+      leaveDays: noLeave(),
+    });
+  }
+
+  return rows;
+}
+
+// Header and one line per row, shared by the CSV and XLSX exports
+export function payrollTable(rows: PayrollRow[], from: Date, to: Date): CellValue[][] {
+  const periodStart = format(from, 'yyyy-MM-dd');
+  const periodEnd = format(to, 'yyyy-MM-dd');
+  return [
+    [
+      'Period Start',
+      'Period End',
+      'Type',
+      'Staff ID',
+      'Name',
+      'Role',
+      'Contract Hours/Week',
+      'Worked Hours',
+      'Overtime Hours',
+      'Public Holiday Hours',
+      ...PAYROLL_LEAVE_TYPES.map((type) => `${type} Days`),
+    ],
+    ...rows.map((row) => [
+      periodStart,
+      periodEnd,
+      row.type === 'staff' ? 'Staff' : 'Temp',
+      row.staffId,
+      row.name,
+      row.role,
+      row.weeklyHours,
+      row.workedHours,
+      row.overtimeHours,
+      row.holidayHours,
+      ...PAYROLL_LEAVE_TYPES.map((type) => (row.type === 'staff' ? row.leaveDays[type] : null)),
+    ]),
+  ];
+}
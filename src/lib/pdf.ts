@@ -0,0 +1,144 @@
+import { deflateSync } from 'zlib';
+
+// A4 landscape, in points
+export const PAGE_WIDTH = 842;
+export const PAGE_HEIGHT = 595;
+
+// Positions are measured from the top-left corner of the page
+export type PdfShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; color?: string; width?: number }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: string };
+
+export type PdfPage = PdfShape[];
+
+// Glyph widths (per 1000 em) of the standard Helvetica fonts for printable ASCII, from their AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    total += widths[char.charCodeAt(0) - 32] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Shorten text with "..." so it fits in maxWidth
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted.length > 0 ? `${fitted.trimEnd()}...` : '';
+}
+
+// "#3b82f6" → "0.231 0.510 0.965"
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((c) => (c / 255).toFixed(3)).join(' ');
+}
+
+// Text in a PDF string literal; the standard fonts only cover Latin-1
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+function contentStream(page: PdfPage): string {
+  const ops: string[] = [];
+  for (const shape of page) {
+    if (shape.kind === 'rect') {
+      const path = `${num(shape.x)} ${num(PAGE_HEIGHT - shape.y - shape.height)} ${num(shape.width)} ${num(shape.height)} re`;
+      if (shape.fill) ops.push(`${rgb(shape.fill)} rg ${path} f`);
+      if (shape.stroke) ops.push(`${rgb(shape.stroke)} RG 0.5 w ${path} S`);
+    } else if (shape.kind === 'line') {
+      ops.push(
+        `${rgb(shape.color || '#000000')} RG ${num(shape.width ?? 0.5)} w ` +
+          `${num(shape.x1)} ${num(PAGE_HEIGHT - shape.y1)} m ${num(shape.x2)} ${num(PAGE_HEIGHT - shape.y2)} l S`
+      );
+    } else {
+      // y is the text baseline
+      ops.push(
+        `BT ${rgb(shape.color || '#000000')} rg /${shape.bold ? 'F2' : 'F1'} ${num(shape.size)} Tf ` +
+          `${num(shape.x)} ${num(PAGE_HEIGHT - shape.y)} Td (${escapeText(shape.text)}) Tj ET`
+      );
+    }
+  }
+  return ops.join('\n');
+}
+
+/**
+ * Render a PDF document of A4 landscape pages drawn with rectangles, lines and text in the
+ * built-in Helvetica fonts, so no font files need embedding.
+ */
+export function buildPdf(title: string, pages: PdfPage[]): Buffer {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.from(`<< /Title (${escapeText(title)}) /Producer (Pharmacy Timetable) >>`, 'latin1'),
+  ];
+
+  pages.forEach((page, i) => {
+    const stream = deflateSync(Buffer.from(contentStream(page), 'latin1'));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        'latin1'
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ];
+  chunks.push(Buffer.from(xref.join('\n') + '\n', 'latin1'));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,77 @@
+// Role-based access rules. Pure (no Prisma) so middleware can import it.
+
+export const ROLES = ['admin', 'scheduler', 'staff'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  scheduler: 'Scheduler',
+  staff: 'Staff',
+};
+
+export function isValidRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// Roles that can open the admin panel and edit the rota
+export function canEditRota(role: string | undefined): boolean {
+  return role === 'admin' || role === 'scheduler';
+}
+
+// Admin panel tabs hidden from schedulers (their API routes are admin-only)
+export const ADMIN_ONLY_TABS = ['staff', 'holidays', 'users', 'audit', 'coverage', 'temps', 'shift-types'];
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface ApiRule {
+  prefix: string;
+  methods?: string[]; // all methods when omitted
+  roles: Role[];
+  ownStaffOnly?: boolean; // staff may only pass their own ?staffId=
+}
+
+// Checked in order; the first matching rule wins. Unmatched routes need admin or scheduler.
+const API_RULES: ApiRule[] = [
+  { prefix: '/api/users', roles: ['admin'] },
+  { prefix: '/api/audit', roles: ['admin'] },
+  { prefix: '/api/migrate', roles: ['admin'] },
+  { prefix: '/api/staff', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/holidays', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/coverage-rules', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/temp-staff', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/shift-types', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/shift-seasons', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/leave/rollover', roles: ['admin'] },
+  { prefix: '/api/leave/reconcile', roles: ['admin'] },
+  { prefix: '/api/leave/proration', methods: MUTATING_METHODS, roles: ['admin'] },
+  { prefix: '/api/leave/balances', methods: ['GET'], roles: ['admin', 'scheduler', 'staff'], ownStaffOnly: true },
+  { prefix: '/api/leave/history', methods: ['GET'], roles: ['admin', 'scheduler', 'staff'], ownStaffOnly: true },
+  { prefix: '/api/leave/requests', methods: ['GET'], roles: ['admin', 'scheduler', 'staff'], ownStaffOnly: true },
+  // The route files staff requests under their own staff record
+  { prefix: '/api/leave/requests', methods: ['POST'], roles: ['admin', 'scheduler', 'staff'] },
+  // The swap routes limit staff to swaps they are part of
+  { prefix: '/api/swaps', roles: ['admin', 'scheduler', 'staff'] },
+];
+
+/**
+ * Whether a signed-in user may call an API route.
+ * Staff-only rules also require ?staffId= to be the user's own staff record.
+ */
+export function canAccessApi(
+  user: { role?: string; staffId?: string | null },
+  method: string,
+  pathname: string,
+  searchParams: URLSearchParams
+): boolean {
+  const rule = API_RULES.find(
+    (r) => (pathname === r.prefix || pathname.startsWith(r.prefix + '/')) && (!r.methods || r.methods.includes(method))
+  );
+  const roles: Role[] = rule ? rule.roles : ['admin', 'scheduler'];
+
+  if (!isValidRole(user.role) || !roles.includes(user.role)) return false;
+
+  if (user.role === 'staff' && rule?.ownStaffOnly) {
+    return !!user.staffId && searchParams.get('staffId') === user.staffId;
+  }
+  return true;
+}
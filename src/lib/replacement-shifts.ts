@@ -0,0 +1,42 @@
+// Replacement shift hours and validation. Pure (no Prisma) so the Calendar can import it.
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Paid hours: the time from start to end less the break, never below 0
+export function replacementWorkHours(startTime: string, endTime: string, breakHours: number): number {
+  const hours = (toMinutes(endTime) - toMinutes(startTime)) / 60 - breakHours;
+  return hours > 0 ? hours : 0;
+}
+
+// The break a saved replacement was entered with, recovered from its times and paid hours
+export function replacementBreakHours(replacement: { startTime: string; endTime: string; workHours: number }): number {
+  const hours = (toMinutes(replacement.endTime) - toMinutes(replacement.startTime)) / 60 - replacement.workHours;
+  return hours > 0 ? hours : 0;
+}
+
+// Returns an error message for invalid replacement times, or null when they are valid
+export function validateReplacementTimes(times: {
+  startTime?: unknown;
+  endTime?: unknown;
+  breakHours?: unknown;
+}): string | null {
+  const { startTime, endTime, breakHours } = times;
+  if (typeof startTime !== 'string' || !TIME_PATTERN.test(startTime)) {
+    return 'startTime must be a time like "09:15"';
+  }
+  if (typeof endTime !== 'string' || !TIME_PATTERN.test(endTime)) {
+    return 'endTime must be a time like "21:45"';
+  }
+  if (toMinutes(endTime) <= toMinutes(startTime)) {
+    return 'endTime must be after startTime';
+  }
+  if (typeof breakHours !== 'number' || !(breakHours >= 0)) {
+    return 'breakHours must be 0 or more';
+  }
+  return null;
+}
@@ -0,0 +1,198 @@
+import prisma from '@/lib/prisma';
+import { format, isValid, parse, startOfMonth, endOfMonth } from 'date-fns';
+import type { Prisma } from '@/generated/prisma';
+import { getMonthSchedule } from '@/lib/month-schedule';
+import { toPartialLeave } from '@/lib/partial-leave';
+import { writeDraftMonth, type DraftCellInput } from '@/lib/schedule-drafts';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import type { ShiftCatalog } from '@/lib/shift-types';
+
+const LEAVE_TYPES = ['AL', 'RL', 'EL', 'ML', 'MAT'];
+
+// "Ph 09:15 - 21:45 (11 hours)"; the role prefix and the hours are optional
+const SHIFT_CELL = /^(?:ph\s+)?(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})(?:\s*\((\d+(?:\.\d+)?)\s*hours?\))?$/i;
+
+export interface RotaImportIssue {
+  row: number | null; // 1-based line in the file
+  column: string | null; // header of the staff column
+  value: string;
+  message: string;
+}
+
+export interface RotaImportReport {
+  year: number;
+  month: number;
+  columns: { header: string; staffId: string | null; staffName: string | null }[];
+  cells: number; // cells that will be written into the draft
+  issues: RotaImportIssue[]; // these cells and columns are skipped
+}
+
+export type ImportedCells = Record<string, Record<string, DraftCellInput>>; // yyyy-MM-dd → staffId → cell
+
+const pad = (hours: string, minutes: string) => `${hours.padStart(2, '0')}:${minutes}`;
+
+// One cell of the exportToCSV layout; null when the cell leaves the day as it is
+function parseCell(value: string, shiftCatalog: ShiftCatalog): DraftCellInput | null | 'PH' | undefined {
+  const text = value.trim();
+  if (text === '' || text === '-') return null;
+  if (/^ph$/i.test(text)) return 'PH';
+  if (/^off$/i.test(text)) return { shift: null, isLeave: false };
+  if (LEAVE_TYPES.includes(text.toUpperCase())) return { shift: null, isLeave: true, leaveType: text.toUpperCase() };
+
+  const match = text.match(SHIFT_CELL);
+  if (!match) return undefined;
+  const startTime = pad(match[1], match[2]);
+  const endTime = pad(match[3], match[4]);
+  // Without "(N hours)" the times must match a defined shift, whose hours allow for the break
+  const workHours = match[5]
+    ? Number(match[5])
+    : Object.values(shiftCatalog).find((def) => def.startTime === startTime && def.endTime === endTime)?.workHours;
+  if (workHours === undefined) return undefined;
+  return { shift: { startTime, endTime, workHours }, isLeave: false };
+}
+
+/**
+ * Parse a month's rota laid out the way exportToCSV writes it: a "Day,Month,Date,,Ph Name,..."
+ * header, then one line per day. Staff columns are matched by name (the "Ph " / "Staff " prefix
+ * is optional) and the Note column is ignored. Cells of staff covered by a replacement that day
+ * are skipped. Nothing is saved; problems are reported per cell.
+ */
+export async function parseRotaImport(
+  table: string[][],
+  year: number,
+  month: number
+): Promise<{ report: RotaImportReport; cells: ImportedCells }> {
+  const report: RotaImportReport = { year, month, columns: [], cells: 0, issues: [] };
+  const cells: ImportedCells = {};
+
+  const headerIndex = table.findIndex((row) => row[0]?.trim().toLowerCase() === 'day');
+  if (headerIndex === -1) {
+    report.issues.push({ row: null, column: null, value: '', message: 'No header row starting with "Day" was found' });
+    return { report, cells };
+  }
+
+  const [staff, schedule, shiftCatalog] = await Promise.all([
+    prisma.staff.findMany({ where: { isActive: true }, select: { staffId: true, name: true } }),
+    getMonthSchedule(year, month, 'admin'),
+    getShiftCatalog(),
+  ]);
+  const daysByKey = new Map(schedule.days.filter((d) => d.isCurrentMonth).map((d) => [format(d.date, 'yyyy-MM-dd'), d]));
+
+  // Staff columns start after Day, Month, Date and the blank spacer
+  const header = table[headerIndex];
+  const columns: { index: number; header: string; staffId: string }[] = [];
+  header.forEach((cell, index) => {
+    const text = cell.trim();
+    if (index < 3 || text === '' || /^note$/i.test(text)) return;
+    const name = text.replace(/^(ph|staff)\s+/i, '').toLowerCase();
+    const member = staff.find((s) => s.name.trim().toLowerCase() === name);
+    report.columns.push({ header: text, staffId: member?.staffId || null, staffName: member?.name || null });
+    if (member) {
+      columns.push({ index, header: text, staffId: member.staffId });
+    } else {
+      report.issues.push({ row: headerIndex + 1, column: text, value: text, message: 'No active staff member with this name' });
+    }
+  });
+
+  table.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    if (row.every((cell) => cell.trim() === '')) return;
+
+    const date = parse(`${row[1]?.trim()} ${row[2]?.trim()} ${year}`, 'MMM d yyyy', new Date());
+    if (!isValid(date)) {
+      report.issues.push({ row: rowNumber, column: null, value: row.slice(0, 3).join(' '), message: 'Unrecognised date' });
+      return;
+    }
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const day = daysByKey.get(dateKey);
+    if (!day) {
+      report.issues.push({ row: rowNumber, column: null, value: row.slice(0, 3).join(' '), message: `Not in ${format(new Date(year, month - 1), 'MMMM yyyy')}` });
+      return;
+    }
+
+    for (const column of columns) {
+      const value = row[column.index] || '';
+      const cell = parseCell(value, shiftCatalog);
+      if (cell === null) continue;
+
+      const issue = (message: string) => report.issues.push({ row: rowNumber, column: column.header, value, message });
+      if (cell === undefined) {
+        issue('Expected a shift like "09:15 - 21:45 (11 hours)", Off, PH or a leave type');
+      } else if (cell === 'PH') {
+        // Public holidays are blocked for everyone already; nothing to store
+        if (!day.isHoliday) issue(`${format(date, 'd MMM')} is not a public holiday`);
+      } else if (!day.staffShifts[column.staffId]) {
+        issue('Not employed on this date');
+      } else if (day.replacementShifts?.some((rep) => rep.originalStaffId === column.staffId)) {
+        // The export writes "Off" for anyone covered by a temp; importing it would drop their leave
+        // and the replacement, so the day is left as it is
+        const temps = day.replacementShifts.filter((rep) => rep.originalStaffId === column.staffId).map((rep) => rep.tempStaffName);
+        issue(`Covered by ${temps.join(', ')} on this date; change the replacement in the timetable instead`);
+      } else {
+        cells[dateKey] = { ...cells[dateKey], [column.staffId]: cell };
+        report.cells++;
+      }
+    }
+  });
+
+  return { report, cells };
+}
+
+// A stored draft/override row in the shape writeDraftMonth takes
+function toDraftCell(
+  row: {
+    shiftType: string | null;
+    isLeave: boolean;
+    leaveType: string | null;
+    customStartTime: string | null;
+    customEndTime: string | null;
+    customWorkHours: number | null;
+    leavePortion: string | null;
+    leaveHours: number | null;
+  },
+  shiftCatalog: ShiftCatalog
+): DraftCellInput {
+  const shift = row.shiftType
+    ? shiftCatalog[row.shiftType]
+    : row.customStartTime && row.customEndTime && row.customWorkHours != null
+      ? { type: 'custom', startTime: row.customStartTime, endTime: row.customEndTime, workHours: row.customWorkHours }
+      : null;
+  return {
+    shift,
+    isLeave: row.isLeave,
+    leaveType: row.isLeave ? row.leaveType : null,
+    partialLeave: toPartialLeave(row),
+  };
+}
+
+/**
+ * Write imported cells into the month's draft on top of what the admin currently sees (the
+ * draft, or the published month), so days and staff missing from the file keep their shifts.
+ */
+export async function applyRotaImport(tx: Prisma.TransactionClient, year: number, month: number, cells: ImportedCells): Promise<void> {
+  const monthRange = { date: { gte: startOfMonth(new Date(year, month - 1)), lte: endOfMonth(new Date(year, month - 1)) } };
+  const existingDraft = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+  const current = existingDraft
+    ? await tx.scheduleDraft.findMany({ where: monthRange })
+    : await tx.scheduleOverride.findMany({ where: monthRange });
+  const shiftCatalog = await getShiftCatalog(tx);
+
+  const merged: Record<string, Record<string, DraftCellInput>> = {};
+  for (const row of current) {
+    const dateKey = format(row.date, 'yyyy-MM-dd');
+    merged[dateKey] = { ...merged[dateKey], [row.staffId]: toDraftCell(row, shiftCatalog) };
+  }
+  for (const [dateKey, dayCells] of Object.entries(cells)) {
+    for (const [staffId, cell] of Object.entries(dayCells)) {
+      // The export shows part-day leave as the shortened shift; keep the leave when the times still match
+      const existing = merged[dateKey]?.[staffId];
+      const keepsPartialLeave =
+        existing?.partialLeave &&
+        existing.shift?.startTime === cell.shift?.startTime &&
+        existing.shift?.endTime === cell.shift?.endTime;
+      merged[dateKey] = { ...merged[dateKey], [staffId]: keepsPartialLeave ? { ...cell, partialLeave: existing.partialLeave } : cell };
+    }
+  }
+
+  await writeDraftMonth(tx, year, month, merged);
+}
@@ -0,0 +1,321 @@
+// Automatic rota: fills a month's open cells with catalog shifts to meet weekly hours and coverage rules.
+// Pure (no Prisma) and fully in-process: a deterministic local search over one week at a time.
+import { format } from 'date-fns';
+import { checkDayCoverage, describeViolation, type CoverageRule, type CoverageViolation } from '@/lib/coverage';
+import { findShiftKey, offeredShiftKeys, type ShiftCatalog } from '@/lib/shift-types';
+import { findSeasonForDate, seasonalShiftKey, type ShiftSeason } from '@/lib/shift-seasons';
+import type { DaySchedule, MonthSchedule, ShiftDefinition } from '@/types/schedule';
+
+type LeaveType = NonNullable<DaySchedule['staffShifts'][string]['leaveType']>;
+
+export interface RotaStaff {
+  id: string;
+  name: string;
+  role: string;
+  weeklyHours: number;
+  defaultOffDays: number[]; // 0=Sunday ... 6=Saturday
+}
+
+// A cell the solver decided (open days, leave days and default off days)
+export interface RotaCell {
+  date: string; // yyyy-MM-dd
+  staffId: string;
+  shiftKey: string | null; // shift catalog key, null = off or leave
+  isLeave: boolean;
+  leaveType: LeaveType | null;
+}
+
+export interface RotaIssue {
+  kind: 'coverage' | 'hours';
+  date: string; // the day, or the Monday of the week for hours
+  staffId: string | null;
+  message: string;
+}
+
+export interface RotaProposal {
+  cells: RotaCell[];
+  issues: RotaIssue[]; // constraints the proposal still doesn't meet
+}
+
+// One hour away from a weekly target costs as much as 10 person-minutes of missing coverage
+const HOURS_WEIGHT = 10;
+const MAX_PASSES = 50;
+
+interface Slot {
+  dayIndex: number; // 0=Monday ... 6=Sunday within the week
+  staffId: string;
+  mode: 'open' | 'off' | 'leave' | 'keep'; // keep = left exactly as scheduled (other months, holidays, custom times, part-day leave)
+  key: string | null;
+  shift: ShiftDefinition | null;
+  isLeave: boolean;
+  leaveType: LeaveType | null;
+  options: (string | null)[];
+}
+
+// The shifts the solver may assign, and the catalog to resolve the ones already scheduled
+interface ShiftOffer {
+  catalog: ShiftCatalog;
+  keys: string[];
+  lengths: number[]; // shift lengths on offer, longest first
+  keyForLength: (hours: number) => string; // the first offered key of a length
+}
+
+// Retired shift types are never offered, and seasonal shifts only where a season or the schedule puts them
+function toShiftOffer(catalog: ShiftCatalog): ShiftOffer {
+  const keys = offeredShiftKeys(catalog).filter((key) => !catalog[key].seasonal);
+  return {
+    catalog,
+    keys,
+    lengths: Array.from(new Set(keys.map((key) => catalog[key].workHours))).sort((a, b) => b - a),
+    keyForLength: (hours) => keys.find((key) => catalog[key].workHours === hours)!,
+  };
+}
+
+// Catalog key of a scheduled shift, or null for off and custom times
+function currentShiftKey(shift: ShiftDefinition | null, catalog: ShiftCatalog): string | null {
+  if (!shift || shift.type === 'custom') return null;
+  return findShiftKey(shift, catalog);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Missing person-minutes across a day's violations
+function shortfall(violations: CoverageViolation[]): number {
+  return violations.reduce((total, v) => total + (v.required - v.actual) * (toMinutes(v.to) - toMinutes(v.from)), 0);
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Shift lengths for up to maxDays days that add up closest to target hours, preferring
+ * even lengths and then more days (e.g. 45h over 5 days gives 9h x 5, not 11h x 4).
+ */
+function fitHours(target: number, maxDays: number, shiftLengths: number[]): number[] {
+  let best: { lengths: number[]; score: [number, number, number] } = { lengths: [], score: [target, 0, 0] };
+
+  const search = (lengths: number[], from: number) => {
+    if (lengths.length > 0) {
+      const sum = lengths.reduce((total, h) => total + h, 0);
+      const score: [number, number, number] = [Math.abs(sum - target), lengths[0] - lengths[lengths.length - 1], -lengths.length];
+      const better = score.findIndex((v, i) => v !== best.score[i]);
+      if (better !== -1 && score[better] < best.score[better]) best = { lengths: [...lengths], score };
+    }
+    if (lengths.length === maxDays) return;
+    for (let i = from; i < shiftLengths.length; i++) search([...lengths, shiftLengths[i]], i);
+  };
+  search([], 0);
+
+  return best.lengths;
+}
+
+function solveWeek(
+  week: DaySchedule[],
+  staffById: Map<string, RotaStaff>,
+  leave: Record<string, LeaveType>,
+  rules: CoverageRule[],
+  staffRoles: Record<string, string>,
+  tempRoles: Record<string, string>,
+  offer: ShiftOffer,
+  seasons: ShiftSeason[]
+): RotaProposal {
+  const dateKeys = week.map((day) => format(day.date, 'yyyy-MM-dd'));
+  // Days in a season are offered the season's shifts in place of the ones it swaps
+  const daySeasons = dateKeys.map((dateKey) => findSeasonForDate(seasons, dateKey));
+  const offeredKey = (dayIndex: number, key: string) => seasonalShiftKey(key, daySeasons[dayIndex]);
+  const slots: Slot[] = [];
+
+  week.forEach((day, dayIndex) => {
+    Object.entries(day.staffShifts).forEach(([staffId, staffShift]) => {
+      const member = staffById.get(staffId);
+      if (!member) return;
+
+      const approvedLeave = leave[`${staffId}|${dateKeys[dayIndex]}`];
+      const currentKey = currentShiftKey(staffShift.shift, offer.catalog);
+      const isCustom = !!staffShift.shift && !currentKey;
+      const base = { dayIndex, staffId, key: currentKey, shift: staffShift.shift, isLeave: false, leaveType: null, options: [] };
+
+      const isPartDayLeave = !!staffShift.partialLeave && !staffShift.isLeave;
+
+      if (!day.isCurrentMonth || day.isHoliday || isPartDayLeave || (isCustom && !staffShift.isLeave && !approvedLeave)) {
+        slots.push({ ...base, mode: 'keep', isLeave: staffShift.isLeave, leaveType: staffShift.leaveType ?? null });
+      } else if (staffShift.isLeave || approvedLeave) {
+        const leaveType = staffShift.isLeave ? staffShift.leaveType ?? approvedLeave ?? null : approvedLeave;
+        slots.push({ ...base, mode: 'leave', key: null, shift: null, isLeave: true, leaveType });
+      } else if (member.defaultOffDays.includes(day.dayOfWeek)) {
+        // An explicit override on an off day is the admin's call
+        slots.push(staffShift.isOverride ? { ...base, mode: 'keep' } : { ...base, mode: 'off', key: null, shift: null });
+      } else {
+        const options = Array.from(new Set([null, ...offer.keys.map((key) => offeredKey(dayIndex, key)), currentKey]));
+        slots.push({ ...base, mode: 'open', options });
+      }
+    });
+  });
+
+  // Weekly target, less a day's share for each working day on leave, a holiday or outside employment
+  const targets = new Map<string, number>();
+  staffById.forEach((member) => {
+    const daysInWeek = slots.filter((s) => s.staffId === member.id);
+    if (daysInWeek.length === 0) return;
+    const dailyHours = member.weeklyHours / Math.max(1, 7 - member.defaultOffDays.length);
+    const missed = week.filter((day, dayIndex) => {
+      if (member.defaultOffDays.includes(day.dayOfWeek)) return false;
+      const slot = daysInWeek.find((s) => s.dayIndex === dayIndex);
+      return !slot || slot.isLeave || day.isHoliday;
+    }).length;
+    targets.set(member.id, Math.max(0, member.weeklyHours - dailyHours * missed));
+  });
+
+  const setSlot = (slot: Slot, key: string | null) => {
+    slot.key = key;
+    slot.shift = key ? offer.catalog[key] : null;
+  };
+
+  const hoursFor = (staffId: string) =>
+    slots
+      .filter((s) => s.staffId === staffId && s.shift && !s.isLeave)
+      .reduce((total, s) => total + s.shift!.workHours, 0);
+
+  // The week's days with the slots' current values applied
+  const dayWithSlots = (dayIndex: number): DaySchedule => {
+    const day = week[dayIndex];
+    const staffShifts = { ...day.staffShifts };
+    slots
+      .filter((s) => s.dayIndex === dayIndex)
+      .forEach((s) => {
+        staffShifts[s.staffId] = { ...staffShifts[s.staffId], shift: s.shift, isLeave: s.isLeave };
+      });
+    return { ...day, staffShifts };
+  };
+
+  const checkedDays = week.map((day, dayIndex) => dayIndex).filter((dayIndex) => week[dayIndex].isCurrentMonth);
+  const cost = () =>
+    checkedDays.reduce((total, dayIndex) => total + shortfall(checkDayCoverage(dayWithSlots(dayIndex), rules, staffRoles, tempRoles)), 0) +
+    HOURS_WEIGHT *
+      Array.from(targets.entries()).reduce((total, [staffId, target]) => total + Math.abs(hoursFor(staffId) - target), 0);
+
+  // Start anyone whose scheduled hours miss the target from lengths that fit it, keeping the
+  // timing of days that already have a shift of the right length
+  targets.forEach((target, staffId) => {
+    const own = slots.filter((s) => s.staffId === staffId && s.mode === 'open');
+    if (own.length === 0 || Math.abs(hoursFor(staffId) - target) < 1) return;
+
+    const remaining = target - (hoursFor(staffId) - own.reduce((total, s) => total + (s.shift?.workHours || 0), 0));
+    const lengths = fitHours(Math.max(0, remaining), own.length, offer.lengths);
+    const ordered = [...own.filter((s) => s.shift), ...own.filter((s) => !s.shift)];
+    ordered.forEach((slot, i) => {
+      const hours = lengths[i];
+      if (hours === undefined) setSlot(slot, null);
+      else if (slot.shift?.workHours !== hours) setSlot(slot, offeredKey(slot.dayIndex, offer.keyForLength(hours)));
+    });
+  });
+
+  // Local search: take the best single-cell change, or swap two of a person's days, until nothing improves
+  const open = slots.filter((s) => s.mode === 'open');
+  let currentCost = cost();
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+
+    for (const slot of open) {
+      const original = slot.key;
+      let best = { cost: currentCost, key: original };
+      for (const option of slot.options) {
+        if (option === original) continue;
+        setSlot(slot, option);
+        const candidate = cost();
+        if (candidate < best.cost) best = { cost: candidate, key: option };
+      }
+      setSlot(slot, best.key);
+      if (best.key !== original) {
+        currentCost = best.cost;
+        improved = true;
+      }
+    }
+
+    for (let i = 0; i < open.length; i++) {
+      for (let j = i + 1; j < open.length; j++) {
+        const [a, b] = [open[i], open[j]];
+        if (a.staffId !== b.staffId || a.key === b.key) continue;
+        const [keyA, keyB] = [a.key, b.key];
+        setSlot(a, keyB);
+        setSlot(b, keyA);
+        const candidate = cost();
+        if (candidate < currentCost) {
+          currentCost = candidate;
+          improved = true;
+        } else {
+          setSlot(a, keyA);
+          setSlot(b, keyB);
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  const cells = slots
+    .filter((s) => s.mode !== 'keep')
+    .map((s) => ({ date: dateKeys[s.dayIndex], staffId: s.staffId, shiftKey: s.key, isLeave: s.isLeave, leaveType: s.leaveType }));
+
+  const issues: RotaIssue[] = [];
+  checkedDays.forEach((dayIndex) => {
+    checkDayCoverage(dayWithSlots(dayIndex), rules, staffRoles, tempRoles).forEach((v) => {
+      issues.push({
+        kind: 'coverage',
+        date: dateKeys[dayIndex],
+        staffId: null,
+        message: v.ruleName ? `${v.ruleName}: ${describeViolation(v)}` : describeViolation(v),
+      });
+    });
+  });
+  targets.forEach((target, staffId) => {
+    const hours = hoursFor(staffId);
+    if (Math.abs(hours - target) < 1) return;
+    issues.push({
+      kind: 'hours',
+      date: dateKeys[0],
+      staffId,
+      message: `${staffById.get(staffId)!.name}: ${round(hours)}h scheduled, target ${round(target)}h`,
+    });
+  });
+
+  return { cells, issues };
+}
+
+/**
+ * Propose a month's rota. Open cells (working days with a catalog shift or nothing) get shifts from
+ * the active shift types (or a season's equivalents); approved leave, public holidays and default off days are fixed, and cells with
+ * custom times, part-day leave or outside the month are left as scheduled. Weeks that cross into the next or
+ * previous month count those days' hours towards the weekly target.
+ */
+export function solveRota(input: {
+  schedule: MonthSchedule;
+  staff: RotaStaff[];
+  leave: Record<string, LeaveType>; // approved leave by "staffId|yyyy-MM-dd"
+  rules: CoverageRule[];
+  tempRoles: Record<string, string>; // qualification by TempStaff id, for replacements already booked
+  shiftCatalog: ShiftCatalog;
+  seasons: ShiftSeason[];
+}): RotaProposal {
+  const { schedule, staff, leave, rules, tempRoles, shiftCatalog, seasons } = input;
+  const staffById = new Map(staff.map((s) => [s.id, s]));
+  const staffRoles = Object.fromEntries(staff.map((s) => [s.id, s.role]));
+  const activeRules = rules.filter((r) => r.isActive);
+  const offer = toShiftOffer(shiftCatalog);
+
+  const cells: RotaCell[] = [];
+  const issues: RotaIssue[] = [];
+
+  // The grid runs Monday to Sunday, so each 7 days is one week
+  for (let i = 0; i < schedule.days.length; i += 7) {
+    const week = schedule.days.slice(i, i + 7);
+    if (!week.some((day) => day.isCurrentMonth)) continue;
+    const result = solveWeek(week, staffById, leave, activeRules, staffRoles, tempRoles, offer, seasons);
+    cells.push(...result.cells);
+    issues.push(...result.issues);
+  }
+
+  return { cells, issues };
+}
@@ -0,0 +1,299 @@
+import { startOfMonth, endOfMonth } from 'date-fns';
+import type { Prisma } from '@/generated/prisma';
+import { PARTIAL_LEAVE_TYPES } from '@/lib/partial-leave';
+import { findShiftKey } from '@/lib/shift-types';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import { replacementBreakHours, replacementWorkHours, validateReplacementTimes } from '@/lib/replacement-shifts';
+import type { PartialLeave, ReplacementShift } from '@/types/schedule';
+
+// One staff member's cell for a day, as the Calendar sends it when saving a draft
+export interface DraftCellInput {
+  shift?: { type?: string; startTime: string; endTime: string; workHours: number } | null;
+  isLeave: boolean;
+  leaveType?: string | null;
+  partialLeave?: PartialLeave;
+}
+
+// A temp covering a shift, as the Calendar sends it in a day's "replacements" list.
+// The id is kept from draft to published row, so a replacement can be edited by id.
+// workHours is worked out here from the times and breakHours; replacements sent back as they
+// were loaded (without breakHours) keep the break their saved times and hours imply.
+export type DraftReplacementInput = ReplacementShift;
+
+const dayReplacements = (dayOverrides: Record<string, unknown>) =>
+  (dayOverrides.replacements as DraftReplacementInput[] | undefined) || [];
+
+function draftBreakHours(rep: DraftReplacementInput): unknown {
+  if (rep.breakHours !== undefined) return rep.breakHours;
+  if (typeof rep.workHours !== 'number' || validateReplacementTimes({ ...rep, breakHours: 0 })) return undefined;
+  return replacementBreakHours(rep);
+}
+
+// Copy a month's published replacement shifts into its (new) draft, dropping any leftovers
+async function seedDraftReplacements(tx: Prisma.TransactionClient, year: number, month: number): Promise<void> {
+  const dateRange = { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) };
+  await tx.replacementShiftDraft.deleteMany({ where: { date: dateRange } });
+
+  const published = await tx.replacementShift.findMany({ where: { date: dateRange } });
+  for (const rep of published) {
+    await tx.replacementShiftDraft.create({
+      data: {
+        id: rep.id,
+        date: rep.date,
+        originalStaffId: rep.originalStaffId,
+        tempStaffId: rep.tempStaffId,
+        tempStaffName: rep.tempStaffName,
+        startTime: rep.startTime,
+        endTime: rep.endTime,
+        workHours: rep.workHours,
+      },
+    });
+  }
+}
+
+/**
+ * Make sure each month touched by dates has a draft before ScheduleDraft rows are written.
+ * A new draft is seeded from the month's published overrides and replacement shifts, since
+ * a draft replaces the published data for the whole month and existing edits would otherwise be lost.
+ */
+export async function openDraftMonths(tx: Prisma.TransactionClient, dates: Date[]): Promise<void> {
+  const months = new Map<string, { year: number; month: number }>();
+  dates.forEach((date) => {
+    months.set(`${date.getFullYear()}-${date.getMonth() + 1}`, { year: date.getFullYear(), month: date.getMonth() + 1 });
+  });
+
+  for (const { year, month } of months.values()) {
+    const draftMonth = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+    if (draftMonth) {
+      await tx.draftMonth.update({ where: { year_month: { year, month } }, data: { updatedAt: new Date() } });
+      continue;
+    }
+
+    const published = await tx.scheduleOverride.findMany({
+      where: { date: { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) } },
+    });
+    for (const override of published) {
+      await tx.scheduleDraft.upsert({
+        where: { date_staffId: { date: override.date, staffId: override.staffId } },
+        update: {},
+        create: {
+          date: override.date,
+          staffId: override.staffId,
+          shiftType: override.shiftType,
+          isLeave: override.isLeave,
+          leaveType: override.leaveType,
+          customStartTime: override.customStartTime,
+          customEndTime: override.customEndTime,
+          customWorkHours: override.customWorkHours,
+          leavePortion: override.leavePortion,
+          leaveHours: override.leaveHours,
+        },
+      });
+    }
+    await seedDraftReplacements(tx, year, month);
+    await tx.draftMonth.create({ data: { year, month } });
+  }
+}
+
+/**
+ * Replace a month's draft with the given cells, keyed by "yyyy-MM-dd" then staffId (a day's
+ * "replacements" key is ignored). Maternity leave rows are kept unless a cell sets MAT itself.
+ */
+export async function writeDraftMonth(
+  tx: Prisma.TransactionClient,
+  year: number,
+  month: number,
+  overrides: Record<string, Record<string, unknown>>
+): Promise<void> {
+  const startDate = startOfMonth(new Date(year, month - 1));
+  const endDate = endOfMonth(new Date(year, month - 1));
+  const shiftCatalog = await getShiftCatalog(tx);
+
+  // A month opened here for the first time keeps its published replacements
+  const draftMonth = await tx.draftMonth.findUnique({ where: { year_month: { year, month } } });
+  if (!draftMonth) {
+    await seedDraftReplacements(tx, year, month);
+  }
+
+  // Delete existing drafts for this month, but PRESERVE maternity leave entries
+  await tx.scheduleDraft.deleteMany({
+    where: {
+      date: { gte: startDate, lte: endDate },
+      NOT: { leaveType: 'MAT' } // Don't delete maternity leave entries
+    },
+  });
+
+  // Insert new draft overrides
+  for (const [dateKey, dayOverrides] of Object.entries(overrides)) {
+    // Parse date as local date (not UTC) to avoid timezone shift
+    // parseISO treats "2026-02-01" as UTC which shifts the date in non-UTC timezones
+    const [y, m, d] = dateKey.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+
+    for (const [key, value] of Object.entries(dayOverrides)) {
+      // Replacements are written by writeDraftReplacements
+      if (key === 'replacements') {
+        continue;
+      }
+
+      // Handle staff schedule draft
+      const override = value as DraftCellInput;
+
+      let shiftType: string | null = null;
+      let customStartTime: string | null = null;
+      let customEndTime: string | null = null;
+      let customWorkHours: number | null = null;
+
+      if (override.shift) {
+        if (override.shift.type === 'custom') {
+          // Explicitly custom — always store as custom fields, never match to a named shift
+          customStartTime = override.shift.startTime;
+          customEndTime = override.shift.endTime;
+          customWorkHours = override.shift.workHours;
+        } else {
+          shiftType = findShiftKey(override.shift, shiftCatalog);
+          if (!shiftType) {
+            // Unknown shift — store raw times as custom
+            customStartTime = override.shift.startTime;
+            customEndTime = override.shift.endTime;
+            customWorkHours = override.shift.workHours;
+          }
+        }
+      }
+
+      // Part-day leave rides along with the (shortened) shift; isLeave stays false
+      const partialLeave =
+        !override.isLeave &&
+        override.shift &&
+        override.partialLeave &&
+        PARTIAL_LEAVE_TYPES.includes(override.partialLeave.leaveType) &&
+        (override.partialLeave.portion !== 'hours' || (override.partialLeave.hours ?? 0) > 0)
+          ? override.partialLeave
+          : null;
+      const leaveFields = partialLeave
+        ? {
+            leaveType: partialLeave.leaveType,
+            leavePortion: partialLeave.portion,
+            leaveHours: partialLeave.portion === 'hours' ? partialLeave.hours : null,
+          }
+        : { leaveType: override.leaveType || null, leavePortion: null, leaveHours: null };
+
+      // Check if there's an existing MAT entry - don't overwrite it unless explicitly setting MAT
+      const existingEntry = await tx.scheduleDraft.findUnique({
+        where: { date_staffId: { date, staffId: key } },
+        select: { leaveType: true },
+      });
+
+      // Skip if existing entry is MAT and incoming is not MAT
+      if (existingEntry?.leaveType === 'MAT' && override.leaveType !== 'MAT') {
+        continue; // Preserve the MAT entry
+      }
+
+      await tx.scheduleDraft.upsert({
+        where: {
+          date_staffId: { date, staffId: key },
+        },
+        update: {
+          shiftType,
+          isLeave: override.isLeave || false,
+          ...leaveFields,
+          customStartTime: shiftType ? null : customStartTime,
+          customEndTime: shiftType ? null : customEndTime,
+          customWorkHours: shiftType ? null : customWorkHours,
+        },
+        create: {
+          date,
+          staffId: key,
+          shiftType,
+          isLeave: override.isLeave || false,
+          ...leaveFields,
+          customStartTime: shiftType ? null : customStartTime,
+          customEndTime: shiftType ? null : customEndTime,
+          customWorkHours: shiftType ? null : customWorkHours,
+        },
+      });
+    }
+  }
+
+  // Mark this month as having a draft
+  await tx.draftMonth.upsert({
+    where: { year_month: { year, month } },
+    update: { updatedAt: new Date() },
+    create: { year, month },
+  });
+}
+
+/**
+ * Check every day's "replacements" list before writeDraftReplacements. Returns an error message
+ * for the first invalid replacement, or null when they are all valid.
+ */
+export function validateDraftReplacements(overrides: Record<string, Record<string, unknown>>): string | null {
+  for (const [dateKey, dayOverrides] of Object.entries(overrides)) {
+    for (const rep of dayReplacements(dayOverrides)) {
+      if (typeof rep.originalStaffId !== 'string' || rep.originalStaffId === '') {
+        return `Replacement on ${dateKey}: originalStaffId is required`;
+      }
+      if (typeof rep.tempStaffName !== 'string' || rep.tempStaffName.trim() === '') {
+        return `Replacement on ${dateKey}: tempStaffName is required`;
+      }
+      const validationError = validateReplacementTimes({ ...rep, breakHours: draftBreakHours(rep) });
+      if (validationError) {
+        return `Replacement on ${dateKey}: ${validationError}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace a month's draft replacement shifts with each day's "replacements" list, keyed by
+ * "yyyy-MM-dd". Days outside the month are ignored. Call after writeDraftMonth, with lists
+ * that pass validateDraftReplacements.
+ */
+export async function writeDraftReplacements(
+  tx: Prisma.TransactionClient,
+  year: number,
+  month: number,
+  overrides: Record<string, Record<string, unknown>>
+): Promise<void> {
+  const startDate = startOfMonth(new Date(year, month - 1));
+  const endDate = endOfMonth(new Date(year, month - 1));
+
+  await tx.replacementShiftDraft.deleteMany({ where: { date: { gte: startDate, lte: endDate } } });
+
+  for (const [dateKey, dayOverrides] of Object.entries(overrides)) {
+    const [y, m, d] = dateKey.split('-').map(Number);
+    if (y !== year || m !== month) continue;
+    const date = new Date(y, m - 1, d);
+
+    for (const rep of dayReplacements(dayOverrides)) {
+      await tx.replacementShiftDraft.create({
+        data: {
+          id: rep.id,
+          date,
+          originalStaffId: rep.originalStaffId,
+          tempStaffId: rep.tempStaffId || null,
+          tempStaffName: rep.tempStaffName.trim(),
+          startTime: rep.startTime,
+          endTime: rep.endTime,
+          workHours: replacementWorkHours(rep.startTime, rep.endTime, draftBreakHours(rep) as number),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * The draft row for a replacement shift, by the id the Calendar shows. A published replacement
+ * in a month without a draft opens that month's draft first, so the edit goes through publish.
+ * Returns null when the replacement no longer exists (e.g. removed in the draft).
+ */
+export async function findDraftReplacement(tx: Prisma.TransactionClient, id: string) {
+  const draft = await tx.replacementShiftDraft.findUnique({ where: { id } });
+  if (draft) return draft;
+
+  const published = await tx.replacementShift.findUnique({ where: { id } });
+  if (!published) return null;
+  await openDraftMonths(tx, [published.date]);
+  return tx.replacementShiftDraft.findUnique({ where: { id } });
+}
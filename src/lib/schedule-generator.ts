@@ -1,86 +1,65 @@
-import { STAFF_MEMBERS, SHIFT_PATTERNS, DEFAULT_SHIFT_PATTERNS } from '../staff-data';
+import { STAFF_MEMBERS, SHIFT_DEFINITIONS } from '../staff-data';
+import { getHardcodedWeeks, DEFAULT_ROTATION_ANCHOR } from './shift-patterns';
+import { normalizeTempName } from './temp-staff';
+import type { ShiftCatalog } from './shift-types';
+import { findSeasonForDate, seasonalShiftKey, type ShiftSeason } from './shift-seasons';
 import type {
   MonthSchedule,
   DaySchedule,
   PublicHoliday,
   WeeklyHourSummary,
-  ShiftDefinition,
-  StaffMember
+  StaffMember,
+  RotationPattern,
+  RotationWeek
 } from '../types/schedule';
-import { startOfMonth, endOfMonth, eachDayOfInterval, getDay, format, startOfWeek, endOfWeek, getISOWeek } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, getDay, format, startOfWeek, endOfWeek, getISOWeek, parseISO, differenceInCalendarWeeks } from 'date-fns';
 import type { DatabaseStaffMember } from '../hooks/useStaff';
 
-// Company public holidays
-export const PUBLIC_HOLIDAYS: PublicHoliday[] = [
-  // 2025
-  { date: '2025-03-31', name: 'Raya Puasa 1' },
-  { date: '2025-04-01', name: 'Raya Puasa 2' },
-  { date: '2025-04-02', name: 'Raya Puasa 3 (*ganti Nuzul Quran)' },
-  { date: '2025-05-01', name: 'Labour Day' },
-  { date: '2025-06-02', name: 'Agong Birthday' },
-  { date: '2025-06-07', name: 'Hari Raya Haji Day 1' },
-  { date: '2025-06-08', name: 'Hari raya Haji Day 2 (*ganti Maulidur Rasul)' },
-  { date: '2025-06-27', name: 'Awal Muharam' },
-  { date: '2025-08-31', name: 'Merdeka Day' },
-  { date: '2025-09-06', name: 'Cuti AM (*Ganti Cuti PMX Bagi)' },
-  { date: '2025-09-16', name: 'Hari Malaysia' },
-  { date: '2025-12-11', name: 'Sultan Selangor\'s Birthday' },
-  // 2026
-  { date: '2026-03-20', name: 'Hari Raya Aidilfitri' },
-  { date: '2026-03-21', name: 'Hari Raya Aidilfitri' },
-  { date: '2026-03-22', name: 'Hari Raya Aidilfitri' },
-  { date: '2026-03-23', name: 'Hari Raya Aidilfitri' },
-  { date: '2026-05-01', name: 'Labour Day' },
-  { date: '2026-05-27', name: 'Hari Raya Aidiladha (Haji)' },
-  { date: '2026-05-28', name: 'Hari Raya Aidiladha (Haji)' },
-  { date: '2026-06-01', name: 'Agong Birthday' },
-  { date: '2026-08-31', name: 'National Day (Merdeka)' },
-  { date: '2026-09-16', name: 'Malaysia Day' },
-  { date: '2026-12-11', name: 'Sultan of Selangor\'s Birthday' },
-];
-
-function getPatternForWeek(isoWeek: number): number {
-  // Pattern 0 for odd ISO weeks, Pattern 1 for even ISO weeks
-  return isoWeek % 2 === 1 ? 0 : 1;
+// Position in an N-week rotation cycle, counted in whole weeks from the anchor.
+// Counting from a fixed date keeps the cycle continuous across ISO year boundaries (week 53 -> week 1).
+export function getPatternForWeek(date: Date, cycleLength: number, anchorDate: string = DEFAULT_ROTATION_ANCHOR): number {
+  if (cycleLength <= 1) return 0;
+  const weeksSinceAnchor = differenceInCalendarWeeks(date, parseISO(anchorDate), { weekStartsOn: 1 });
+  return ((weeksSinceAnchor % cycleLength) + cycleLength) % cycleLength;
 }
 
-function isHoliday(date: Date): { isHoliday: boolean; holidayName?: string } {
+function isHoliday(date: Date, holidays: PublicHoliday[]): { isHoliday: boolean; holidayName?: string } {
   const dateStr = format(date, 'yyyy-MM-dd');
-  const holiday = PUBLIC_HOLIDAYS.find(h => h.date === dateStr);
+  const holiday = holidays.find(h => h.date === dateStr);
   return {
     isHoliday: !!holiday,
     holidayName: holiday?.name
   };
 }
 
-// Helper function to get shift for a staff member on a given day
-// Uses SHIFT_PATTERNS for legacy staff, DEFAULT_SHIFT_PATTERNS for new staff
-function getShiftForStaff(
+// Helper function to get the rotation for a staff member
+// Uses database rotation patterns (staff-specific first, then role default) when provided,
+// falling back to SHIFT_PATTERNS for legacy staff and DEFAULT_SHIFT_PATTERNS for new staff
+function getRotationForStaff(
   staffId: string,
   role: string,
-  dayOfWeek: number,
-  patternIndex: number
-): ShiftDefinition | null {
-  // Check if this staff has a pattern in SHIFT_PATTERNS (legacy staff)
-  const pattern = SHIFT_PATTERNS[patternIndex];
-  if (pattern.dailyShifts[staffId]) {
-    return pattern.dailyShifts[staffId][dayOfWeek] || null;
-  }
-
-  // Use DEFAULT_SHIFT_PATTERNS for new staff based on their role
-  const defaultPattern = DEFAULT_SHIFT_PATTERNS[role];
-  if (defaultPattern && defaultPattern[patternIndex]) {
-    return defaultPattern[patternIndex][dayOfWeek] || null;
+  rotationPatterns?: RotationPattern[]
+): { weeks: RotationWeek[]; anchorDate: string } {
+  if (rotationPatterns && rotationPatterns.length > 0) {
+    const rotation =
+      rotationPatterns.find(p => p.staffId === staffId) ??
+      rotationPatterns.find(p => !p.staffId && p.role === role);
+    if (rotation && rotation.weeks.length > 0) {
+      return { weeks: rotation.weeks, anchorDate: rotation.anchorDate || DEFAULT_ROTATION_ANCHOR };
+    }
   }
 
-  // Fallback: no shift (off day)
-  return null;
+  return { weeks: getHardcodedWeeks(staffId, role), anchorDate: DEFAULT_ROTATION_ANCHOR };
 }
 
 export function generateMonthSchedule(
   month: number,
   year: number,
-  staffMembers?: (StaffMember | DatabaseStaffMember)[]
+  staffMembers?: (StaffMember | DatabaseStaffMember)[],
+  rotationPatterns?: RotationPattern[],
+  holidays: PublicHoliday[] = [],
+  shiftCatalog: ShiftCatalog = SHIFT_DEFINITIONS,
+  seasons: ShiftSeason[] = []
 ): MonthSchedule {
   // Use provided staff list or fall back to legacy STAFF_MEMBERS
   const staffList = staffMembers ?? STAFF_MEMBERS;
@@ -94,13 +73,15 @@ export function generateMonthSchedule(
 
   const allDays = eachDayOfInterval({ start: startDate, end: endDate });
 
+  // Resolve each staff member's rotation once; each rotation keeps its own cycle anchor
+  const rotations = new Map(staffList.map(staff => [staff.id, getRotationForStaff(staff.id, staff.role, rotationPatterns)]));
+
   const days: DaySchedule[] = allDays.map(date => {
     const dayOfWeek = getDay(date);
-    const isoWeek = getISOWeek(date);
-    const patternIndex = getPatternForWeek(isoWeek);
-    const holidayInfo = isHoliday(date);
+    const holidayInfo = isHoliday(date, holidays);
+    const season = findSeasonForDate(seasons, format(date, 'yyyy-MM-dd'));
 
-    const staffShifts: { [staffId: string]: { shift: ShiftDefinition | null; isOverride: boolean; isLeave: boolean; leaveType?: 'AL' | 'RL' | 'EL' } } = {};
+    const staffShifts: DaySchedule['staffShifts'] = {};
 
     // Filter staff who are active on this date
     const activeStaff = staffList.filter(staff => {
@@ -126,20 +107,30 @@ export function generateMonthSchedule(
     });
 
     activeStaff.forEach(staff => {
+      const rotation = rotations.get(staff.id)!;
+      const cycleLength = rotation.weeks.length;
+      const cycleWeek = cycleLength > 0
+        ? { index: getPatternForWeek(date, cycleLength, rotation.anchorDate), length: cycleLength }
+        : undefined;
+
       if (holidayInfo.isHoliday) {
         // Block all staff on public holidays
         staffShifts[staff.id] = {
           shift: null,
           isOverride: false,
           isLeave: false,
+          cycleWeek,
         };
       } else {
-        // Use pattern-based shift (from SHIFT_PATTERNS or DEFAULT_SHIFT_PATTERNS)
-        const shift = getShiftForStaff(staff.id, staff.role, dayOfWeek, patternIndex);
+        // Use pattern-based shift (from database rotations, SHIFT_PATTERNS or DEFAULT_SHIFT_PATTERNS),
+        // swapped for its seasonal equivalent during a season
+        const patternKey = cycleWeek ? rotation.weeks[cycleWeek.index][dayOfWeek] : null;
+        const shiftKey = patternKey ? seasonalShiftKey(patternKey, season) : null;
         staffShifts[staff.id] = {
-          shift,
+          shift: shiftKey ? shiftCatalog[shiftKey] || null : null,
           isOverride: false,
           isLeave: false,
+          cycleWeek,
         };
       }
     });
@@ -149,6 +140,7 @@ export function generateMonthSchedule(
       dayOfWeek,
       isHoliday: holidayInfo.isHoliday,
       holidayName: holidayInfo.holidayName,
+      ...(season && { seasonName: season.name }),
       isCurrentMonth: date.getMonth() === month - 1,
       staffShifts,
     };
@@ -233,27 +225,28 @@ export function getWeeklyHourSummaries(
       });
     });
 
-  // Process replacement staff
-  const replacementHoursByWeek: { [week: number]: { [name: string]: number } } = {};
+  // Process replacement staff, one row per registry temp (or per name for shifts typed before the registry)
+  const replacementHoursByWeek: { [week: number]: { [tempKey: string]: { name: string; hours: number } } } = {};
   schedule.days.forEach(day => {
     if (day.replacementShifts) {
       const week = getISOWeek(day.date);
       if (!replacementHoursByWeek[week]) replacementHoursByWeek[week] = {};
 
       day.replacementShifts.forEach(rep => {
-        if (!replacementHoursByWeek[week][rep.tempStaffName]) {
-          replacementHoursByWeek[week][rep.tempStaffName] = 0;
+        const tempKey = rep.tempStaffId || normalizeTempName(rep.tempStaffName);
+        if (!replacementHoursByWeek[week][tempKey]) {
+          replacementHoursByWeek[week][tempKey] = { name: rep.tempStaffName.trim(), hours: 0 };
         }
-        replacementHoursByWeek[week][rep.tempStaffName] += rep.workHours;
+        replacementHoursByWeek[week][tempKey].hours += rep.workHours;
       });
     }
   });
 
-  Object.entries(replacementHoursByWeek).forEach(([weekStr, names]) => {
+  Object.entries(replacementHoursByWeek).forEach(([weekStr, temps]) => {
     const week = parseInt(weekStr);
-    Object.entries(names).forEach(([name, hours]) => {
+    Object.entries(temps).forEach(([tempKey, { name, hours }]) => {
       summaries.push({
-        staffId: `temp-${name}`,
+        staffId: `temp-${tempKey}`,
         staffName: `${name} (Temp)`,
         targetHours: 0, // Temps have no target hours
         actualHours: hours,
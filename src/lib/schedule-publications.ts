@@ -0,0 +1,161 @@
+import type { Prisma, ReplacementShift, ScheduleOverride, SchedulePublication } from '@/generated/prisma';
+import type { AuditActor } from '@/lib/audit-log';
+
+// A ScheduleOverride row as stored in SchedulePublication.replacedRows
+export interface PublishedRow {
+  date: string; // ISO timestamp, so restored rows keep the exact stored date
+  staffId: string;
+  shiftType: string | null;
+  isLeave: boolean;
+  leaveType: string | null;
+  customStartTime: string | null;
+  customEndTime: string | null;
+  customWorkHours: number | null;
+  leavePortion?: string | null; // missing on publishes from before part-day leave
+  leaveHours?: number | null;
+}
+
+// A ReplacementShift row as stored in SchedulePublication.replacedReplacements
+export interface PublishedReplacement {
+  date: string; // ISO timestamp
+  originalStaffId: string;
+  tempStaffId: string | null;
+  tempStaffName: string;
+  startTime: string;
+  endTime: string;
+  workHours: number;
+}
+
+// A LeaveHistory row (and balance increment, when field is set) made by a publish
+export interface PublishedLeaveChange {
+  historyId: string;
+  staffId: string;
+  year: number;
+  field: 'alUsed' | 'rlUsed' | 'mlUsed' | 'matUsed' | null;
+  amount?: number; // days deducted; missing (a full day) on publishes from before part-day leave
+}
+
+export function toPublishedRow(row: ScheduleOverride): PublishedRow {
+  return {
+    date: row.date.toISOString(),
+    staffId: row.staffId,
+    shiftType: row.shiftType,
+    isLeave: row.isLeave,
+    leaveType: row.leaveType,
+    customStartTime: row.customStartTime,
+    customEndTime: row.customEndTime,
+    customWorkHours: row.customWorkHours,
+    leavePortion: row.leavePortion,
+    leaveHours: row.leaveHours,
+  };
+}
+
+export function toPublishedReplacement(row: ReplacementShift): PublishedReplacement {
+  return {
+    date: row.date.toISOString(),
+    originalStaffId: row.originalStaffId,
+    tempStaffId: row.tempStaffId,
+    tempStaffName: row.tempStaffName,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    workHours: row.workHours,
+  };
+}
+
+// Parse replacedRows back into override-shaped rows (dates as Date)
+export function parseReplacedRows(publication: SchedulePublication) {
+  return (JSON.parse(publication.replacedRows) as PublishedRow[]).map((row) => ({ ...row, date: new Date(row.date) }));
+}
+
+// Parse replacedReplacements back into replacement rows, or null for publishes that didn't record them
+export function parseReplacedReplacements(publication: SchedulePublication) {
+  if (publication.replacedReplacements === null) return null;
+  return (JSON.parse(publication.replacedReplacements) as PublishedReplacement[]).map((row) => ({
+    ...row,
+    date: new Date(row.date),
+  }));
+}
+
+export function monthRange(year: number, month: number) {
+  return { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) };
+}
+
+/**
+ * Record a publish of a month: the override and replacement rows it replaced and the leave changes it made.
+ */
+export async function recordPublication(
+  tx: Prisma.TransactionClient,
+  actor: AuditActor,
+  publication: {
+    year: number;
+    month: number;
+    replacedRows: ScheduleOverride[];
+    replacedReplacements: ReplacementShift[];
+    leaveChanges: PublishedLeaveChange[];
+  }
+): Promise<SchedulePublication> {
+  const { year, month } = publication;
+  const latest = await tx.schedulePublication.findFirst({
+    where: { year, month },
+    orderBy: { version: 'desc' },
+  });
+
+  return tx.schedulePublication.create({
+    data: {
+      year,
+      month,
+      version: (latest?.version ?? 0) + 1,
+      replacedRows: JSON.stringify(publication.replacedRows.map(toPublishedRow)),
+      leaveChanges: JSON.stringify(publication.leaveChanges),
+      replacedReplacements: JSON.stringify(publication.replacedReplacements.map(toPublishedReplacement)),
+      publishedById: actor.id,
+      publishedByName: actor.name,
+    },
+  });
+}
+
+/**
+ * Undo a publish and every later publish of the same month: the month's overrides (and
+ * replacement shifts, when the publish recorded them) go back to the rows the publish replaced,
+ * and the LeaveHistory rows and balance increments those publishes made are removed.
+ * Returns the publications that were undone.
+ */
+export async function rollbackPublication(
+  tx: Prisma.TransactionClient,
+  publication: SchedulePublication
+): Promise<SchedulePublication[]> {
+  const { year, month } = publication;
+  const undone = await tx.schedulePublication.findMany({
+    where: { year, month, version: { gte: publication.version }, rolledBackAt: null },
+    orderBy: { version: 'desc' },
+  });
+
+  for (const undo of undone) {
+    for (const change of JSON.parse(undo.leaveChanges) as PublishedLeaveChange[]) {
+      // Skip rows already removed elsewhere (e.g. maternity ended early) so balances aren't reversed twice
+      const deleted = await tx.leaveHistory.deleteMany({ where: { id: change.historyId } });
+      if (deleted.count > 0 && change.field) {
+        await tx.leaveBalance.updateMany({
+          where: { staffId: change.staffId, year: change.year },
+          data: { [change.field]: { decrement: change.amount ?? 1 } },
+        });
+      }
+    }
+  }
+
+  await tx.scheduleOverride.deleteMany({ where: { date: monthRange(year, month) } });
+  await tx.scheduleOverride.createMany({ data: parseReplacedRows(publication) });
+
+  const replacements = parseReplacedReplacements(publication);
+  if (replacements) {
+    await tx.replacementShift.deleteMany({ where: { date: monthRange(year, month) } });
+    await tx.replacementShift.createMany({ data: replacements });
+  }
+
+  await tx.schedulePublication.updateMany({
+    where: { id: { in: undone.map((p) => p.id) } },
+    data: { rolledBackAt: new Date() },
+  });
+
+  return undone;
+}
@@ -0,0 +1,9 @@
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
+import { buildShiftCatalog, toShiftTypeEntry, type ShiftCatalog } from '@/lib/shift-types';
+
+// The shift catalog from the ShiftType table, retired types included so stored keys resolve
+export async function getShiftCatalog(db: Prisma.TransactionClient | typeof prisma = prisma): Promise<ShiftCatalog> {
+  const rows = await db.shiftType.findMany();
+  return buildShiftCatalog(rows.map(toShiftTypeEntry));
+}
@@ -0,0 +1,141 @@
+import { SHIFT_DEFINITIONS, SHIFT_PATTERNS, DEFAULT_SHIFT_PATTERNS } from '@/staff-data';
+import type { ShiftDefinition, RotationWeek, RotationPattern } from '@/types/schedule';
+import type { ShiftCatalog } from '@/lib/shift-types';
+
+const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6];
+
+export const MAX_ROTATION_WEEKS = 8;
+
+// Monday of ISO week 1 of 2025: keeps two-week rotations on pattern 0 for odd ISO weeks
+export const DEFAULT_ROTATION_ANCHOR = '2024-12-30';
+
+// Find the SHIFT_DEFINITIONS key for a hardcoded shift definition
+function toShiftKey(shift: ShiftDefinition | null | undefined): string | null {
+  if (!shift) return null;
+  const key = Object.keys(SHIFT_DEFINITIONS).find(k => SHIFT_DEFINITIONS[k] === shift);
+  return key ?? null;
+}
+
+function toRotationWeek(dailyShifts: { [dayOfWeek: number]: ShiftDefinition | null }): RotationWeek {
+  const week: RotationWeek = {};
+  DAYS_OF_WEEK.forEach(day => {
+    week[day] = toShiftKey(dailyShifts[day]);
+  });
+  return week;
+}
+
+/**
+ * Get the hardcoded rotation for a staff member or role as shift keys.
+ * Legacy staff use SHIFT_PATTERNS, everyone else uses DEFAULT_SHIFT_PATTERNS by role.
+ */
+export function getHardcodedWeeks(staffId: string | null, role: string): RotationWeek[] {
+  if (staffId && SHIFT_PATTERNS.every(p => p.dailyShifts[staffId])) {
+    return SHIFT_PATTERNS.map(p => toRotationWeek(p.dailyShifts[staffId]));
+  }
+
+  const defaultPattern = DEFAULT_SHIFT_PATTERNS[role];
+  if (!defaultPattern) return [];
+  return Object.keys(defaultPattern)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(patternId => toRotationWeek(defaultPattern[patternId]));
+}
+
+/**
+ * Build the seed rotations from the hardcoded patterns:
+ * one per legacy staff member in SHIFT_PATTERNS, one per role in DEFAULT_SHIFT_PATTERNS.
+ */
+export function getSeedPatterns(): { staffId: string | null; role: string | null; weeks: RotationWeek[] }[] {
+  const staffIds = Object.keys(SHIFT_PATTERNS[0].dailyShifts);
+  const staffSeeds = staffIds.map(staffId => ({
+    staffId,
+    role: null,
+    weeks: SHIFT_PATTERNS.map(p => toRotationWeek(p.dailyShifts[staffId])),
+  }));
+
+  const roleSeeds = Object.keys(DEFAULT_SHIFT_PATTERNS).map(role => ({
+    staffId: null,
+    role,
+    weeks: getHardcodedWeeks(null, role),
+  }));
+
+  return [...staffSeeds, ...roleSeeds];
+}
+
+/**
+ * Validate rotation weeks from a request body against the shift catalog; retired shift types
+ * can't be used in a new version. Returns an error message, or null when valid.
+ */
+export function validateWeeks(weeks: unknown, shiftCatalog: ShiftCatalog): string | null {
+  if (!Array.isArray(weeks) || weeks.length === 0) {
+    return 'weeks must be a non-empty array';
+  }
+
+  if (weeks.length > MAX_ROTATION_WEEKS) {
+    return `A rotation can have at most ${MAX_ROTATION_WEEKS} weeks`;
+  }
+
+  for (const [index, week] of weeks.entries()) {
+    if (!week || typeof week !== 'object') {
+      return `Week ${index + 1} is not an object`;
+    }
+    for (const day of DAYS_OF_WEEK) {
+      const key = (week as Record<string, unknown>)[day];
+      if (key === null || key === undefined) continue;
+      if (typeof key !== 'string' || !shiftCatalog[key]) {
+        return `Week ${index + 1} has an unknown shift type: ${String(key)}`;
+      }
+      if (shiftCatalog[key].retired) {
+        return `Week ${index + 1} uses a retired shift type: ${shiftCatalog[key].type}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate an anchor date from a request body (YYYY-MM-DD).
+ * Returns an error message, or null when valid.
+ */
+export function validateAnchorDate(anchorDate: unknown): string | null {
+  if (typeof anchorDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(anchorDate)) {
+    return 'anchorDate must be a date in YYYY-MM-DD format';
+  }
+  if (isNaN(new Date(anchorDate).getTime())) {
+    return 'anchorDate is not a valid date';
+  }
+  return null;
+}
+
+// Normalise weeks so every day of week is present (missing days become off)
+export function normalizeWeeks(weeks: RotationWeek[]): RotationWeek[] {
+  return weeks.map(week => {
+    const normalized: RotationWeek = {};
+    DAYS_OF_WEEK.forEach(day => {
+      normalized[day] = week[day] ?? null;
+    });
+    return normalized;
+  });
+}
+
+// Transform a ShiftPattern database record to the API shape
+export function toRotationPattern(record: {
+  id: string;
+  staffId: string | null;
+  role: string | null;
+  version: number;
+  weeks: string;
+  anchorDate: Date | null;
+  createdAt: Date;
+}): RotationPattern {
+  return {
+    id: record.id,
+    staffId: record.staffId,
+    role: record.role,
+    version: record.version,
+    weeks: JSON.parse(record.weeks) as RotationWeek[],
+    anchorDate: record.anchorDate?.toISOString().slice(0, 10) || null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,99 @@
+// Seasonal shift sets (e.g. Ramadan): lookups and validation. Pure (no Prisma) so the Calendar can import it.
+import type { ShiftCatalog } from '@/lib/shift-types';
+
+export interface ShiftSeason {
+  id: string;
+  name: string; // "Ramadan 2027"
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+  shiftMap: Record<string, string>; // pattern shift key -> seasonal shift key
+  isActive: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Map a ShiftSeason database row to the shape used here
+export function toShiftSeason(row: {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  shiftMap: string;
+  isActive: boolean;
+}): ShiftSeason {
+  return {
+    id: row.id,
+    name: row.name,
+    startDate: row.startDate.toISOString().slice(0, 10),
+    endDate: row.endDate.toISOString().slice(0, 10),
+    shiftMap: JSON.parse(row.shiftMap) as Record<string, string>,
+    isActive: row.isActive,
+  };
+}
+
+// The active season covering a day (yyyy-MM-dd), or null
+export function findSeasonForDate(seasons: ShiftSeason[], dateKey: string): ShiftSeason | null {
+  return seasons.find((s) => s.isActive && s.startDate <= dateKey && dateKey <= s.endDate) ?? null;
+}
+
+// Active seasons overlapping a date range, earliest first
+export function seasonsInRange(seasons: ShiftSeason[], from: string, to: string): ShiftSeason[] {
+  return seasons
+    .filter((s) => s.isActive && s.startDate <= to && from <= s.endDate)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// The shift a pattern key becomes during a season; keys the season doesn't map stay as they are
+export function seasonalShiftKey(key: string, season: ShiftSeason | null): string {
+  return season?.shiftMap[key] ?? key;
+}
+
+// Another active season whose dates overlap these, or null
+export function findOverlappingSeason(
+  seasons: ShiftSeason[],
+  season: { id?: string; startDate: string; endDate: string }
+): ShiftSeason | null {
+  return (
+    seasons.find(
+      (s) => s.id !== season.id && s.isActive && s.startDate <= season.endDate && season.startDate <= s.endDate
+    ) ?? null
+  );
+}
+
+// Returns an error message for invalid season fields, or null when they are valid
+export function validateShiftSeason(
+  season: { name?: unknown; startDate?: unknown; endDate?: unknown; shiftMap?: unknown },
+  shiftCatalog: ShiftCatalog
+): string | null {
+  const { name, startDate, endDate, shiftMap } = season;
+  if (typeof name !== 'string' || name.trim() === '') {
+    return 'name is required';
+  }
+  if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) || isNaN(new Date(startDate).getTime())) {
+    return 'startDate must be a date in YYYY-MM-DD format';
+  }
+  if (typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) || isNaN(new Date(endDate).getTime())) {
+    return 'endDate must be a date in YYYY-MM-DD format';
+  }
+  if (endDate < startDate) {
+    return 'endDate cannot be before startDate';
+  }
+  if (!shiftMap || typeof shiftMap !== 'object' || Array.isArray(shiftMap) || Object.keys(shiftMap).length === 0) {
+    return 'shiftMap must map at least one pattern shift to a seasonal shift';
+  }
+  for (const [from, to] of Object.entries(shiftMap)) {
+    if (!shiftCatalog[from]) {
+      return `Unknown shift type: ${from}`;
+    }
+    if (typeof to !== 'string' || !shiftCatalog[to]) {
+      return `Unknown seasonal shift type for ${shiftCatalog[from].type}: ${String(to)}`;
+    }
+    if (shiftCatalog[to].retired) {
+      return `${shiftCatalog[to].type} (${to}) is retired and can't be used in a season`;
+    }
+    if (from === to) {
+      return `${from} can't be mapped to itself`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+import { format, getISOWeek } from 'date-fns';
+import type { Prisma } from '@/generated/prisma';
+import { getMonthSchedule } from '@/lib/month-schedule';
+import { openDraftMonths } from '@/lib/schedule-drafts';
+import { findShiftKey } from '@/lib/shift-types';
+import { getShiftCatalog } from '@/lib/shift-catalog';
+import type { MonthSchedule, DaySchedule, ShiftDefinition } from '@/types/schedule';
+
+export const SWAP_STATUSES = ['proposed', 'accepted', 'approved', 'declined', 'rejected', 'cancelled'] as const;
+export type SwapStatus = (typeof SWAP_STATUSES)[number];
+
+export interface SwapChange {
+  staffId: string;
+  date: Date;
+  shift: ShiftDefinition | null; // null = off
+}
+
+export interface SwapHoursCheck {
+  staffId: string;
+  week: number; // ISO week
+  target: number;
+  before: number;
+  after: number;
+}
+
+export interface SwapPlan {
+  changes: SwapChange[];
+  hours: SwapHoursCheck[];
+}
+
+function isSameShift(a: ShiftDefinition | null, b: ShiftDefinition | null): boolean {
+  if (!a || !b) return a === b;
+  return a.startTime === b.startTime && a.endTime === b.endTime && a.workHours === b.workHours;
+}
+
+function findDay(schedule: MonthSchedule, date: Date): DaySchedule | undefined {
+  const dateKey = format(date, 'yyyy-MM-dd');
+  return schedule.days.find((day) => format(day.date, 'yyyy-MM-dd') === dateKey);
+}
+
+// Hours worked by a staff member in the ISO week containing date, with pending changes applied
+function getWeekHours(schedule: MonthSchedule, staffId: string, date: Date, changes: SwapChange[]): number {
+  const week = getISOWeek(date);
+  return schedule.days
+    .filter((day) => getISOWeek(day.date) === week)
+    .reduce((total, day) => {
+      const staffShift = day.staffShifts[staffId];
+      if (!staffShift) return total;
+      const change = changes.find(
+        (c) => c.staffId === staffId && format(c.date, 'yyyy-MM-dd') === format(day.date, 'yyyy-MM-dd')
+      );
+      if (change) return total + (change.shift?.workHours || 0);
+      return total + (staffShift.shift && !staffShift.isLeave ? staffShift.shift.workHours : 0);
+    }, 0);
+}
+
+/**
+ * Work out the schedule changes for a swap against the current admin view (drafts included).
+ * The two staff exchange their assignments on both dates. Returns an error message when the
+ * swap isn't possible, including when either person's weekly hours would move off target.
+ */
+export async function planSwap(swap: {
+  requesterId: string;
+  colleagueId: string;
+  requesterDate: Date;
+  colleagueDate: Date;
+  staff: Record<string, { name: string; weeklyHours: number }>;
+}): Promise<{ plan: SwapPlan } | { error: string }> {
+  const schedules = new Map<string, MonthSchedule>();
+  const getSchedule = async (date: Date) => {
+    const key = `${date.getFullYear()}-${date.getMonth() + 1}`;
+    if (!schedules.has(key)) {
+      schedules.set(key, await getMonthSchedule(date.getFullYear(), date.getMonth() + 1, 'admin'));
+    }
+    return schedules.get(key)!;
+  };
+
+  const staffIds = [swap.requesterId, swap.colleagueId];
+  const dates = format(swap.requesterDate, 'yyyy-MM-dd') === format(swap.colleagueDate, 'yyyy-MM-dd')
+    ? [swap.requesterDate]
+    : [swap.requesterDate, swap.colleagueDate];
+
+  const changes: SwapChange[] = [];
+
+  for (const date of dates) {
+    const day = findDay(await getSchedule(date), date);
+    const dateLabel = format(date, 'd MMM yyyy');
+    if (!day) return { error: `No schedule found for ${dateLabel}` };
+    if (day.isHoliday) return { error: `${dateLabel} is a public holiday` };
+
+    const [requesterShift, colleagueShift] = staffIds.map((id) => day.staffShifts[id]);
+    if (!requesterShift || !colleagueShift) {
+      return { error: `Both staff must be employed on ${dateLabel}` };
+    }
+    if (requesterShift.isLeave || colleagueShift.isLeave) {
+      return { error: `Leave on ${dateLabel} cannot be swapped` };
+    }
+    if (isSameShift(requesterShift.shift, colleagueShift.shift)) continue;
+
+    changes.push(
+      { staffId: swap.requesterId, date, shift: colleagueShift.shift },
+      { staffId: swap.colleagueId, date, shift: requesterShift.shift }
+    );
+  }
+
+  if (changes.length === 0) {
+    return { error: 'Both staff already have the same shifts on these dates' };
+  }
+
+  // Check each affected week once per staff member
+  const hours: SwapHoursCheck[] = [];
+  for (const staffId of staffIds) {
+    const seenWeeks = new Set<number>();
+    for (const date of dates) {
+      const week = getISOWeek(date);
+      if (seenWeeks.has(week)) continue;
+      seenWeeks.add(week);
+
+      const schedule = await getSchedule(date);
+      hours.push({
+        staffId,
+        week,
+        target: swap.staff[staffId].weeklyHours,
+        before: getWeekHours(schedule, staffId, date, []),
+        after: getWeekHours(schedule, staffId, date, changes),
+      });
+    }
+  }
+
+  // Block swaps that move a week away from target (weeks already off target, e.g. with leave, may stay so)
+  const offTarget = hours.find(
+    (h) => h.after !== h.target && Math.abs(h.after - h.target) > Math.abs(h.before - h.target)
+  );
+  if (offTarget) {
+    return {
+      error: `${swap.staff[offTarget.staffId].name} would work ${offTarget.after}h in week ${offTarget.week} (target ${offTarget.target}h)`,
+    };
+  }
+
+  return { plan: { changes, hours } };
+}
+
+/**
+ * Write swap changes into ScheduleDraft, opening a draft for each affected month.
+ */
+export async function applySwapToDrafts(tx: Prisma.TransactionClient, changes: SwapChange[]): Promise<void> {
+  await openDraftMonths(tx, changes.map((c) => c.date));
+  const shiftCatalog = await getShiftCatalog(tx);
+
+  for (const change of changes) {
+    const shiftType = change.shift && change.shift.type !== 'custom' ? findShiftKey(change.shift, shiftCatalog) : null;
+    const custom = change.shift && !shiftType ? change.shift : null;
+    const data = {
+      shiftType,
+      isLeave: false,
+      leaveType: null,
+      customStartTime: custom?.startTime ?? null,
+      customEndTime: custom?.endTime ?? null,
+      customWorkHours: custom?.workHours ?? null,
+      leavePortion: null,
+      leaveHours: null,
+    };
+
+    await tx.scheduleDraft.upsert({
+      where: { date_staffId: { date: change.date, staffId: change.staffId } },
+      update: data,
+      create: { date: change.date, staffId: change.staffId, ...data },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+// Shift type catalog shapes, lookups and validation. Pure (no Prisma) so the Calendar can import it.
+import { SHIFT_DEFINITIONS } from '@/staff-data';
+import type { ShiftDefinition } from '@/types/schedule';
+
+export const SHIFT_TIMINGS = ['early', 'late'] as const;
+export type ShiftTiming = (typeof SHIFT_TIMINGS)[number];
+
+export interface ShiftTypeEntry {
+  id: string;
+  key: string;
+  label: string;
+  timing: ShiftTiming | null;
+  startTime: string; // "09:15"
+  endTime: string; // "19:15"
+  workHours: number; // paid hours
+  breakHours: number;
+  color: string; // "#2563eb"
+  isSeasonal: boolean; // e.g. Ramadan shifts, swapped in by a season
+  isActive: boolean;
+  sortOrder: number;
+}
+
+// Shift definitions by key: every shift type, retired ones included, so stored keys always resolve
+export type ShiftCatalog = Record<string, ShiftDefinition>;
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_]*$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Map a ShiftType database row to the shape used here
+export function toShiftTypeEntry(row: Omit<ShiftTypeEntry, 'timing'> & { timing: string | null }): ShiftTypeEntry {
+  return {
+    id: row.id,
+    key: row.key,
+    label: row.label,
+    timing: row.timing as ShiftTiming | null,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    workHours: row.workHours,
+    breakHours: row.breakHours,
+    color: row.color,
+    isSeasonal: row.isSeasonal,
+    isActive: row.isActive,
+    sortOrder: row.sortOrder,
+  };
+}
+
+export function toShiftDefinition(entry: ShiftTypeEntry): ShiftDefinition {
+  return {
+    type: entry.label,
+    timing: entry.timing,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    workHours: entry.workHours,
+    color: entry.color,
+    ...(!entry.isActive && { retired: true }),
+    ...(entry.isSeasonal && { seasonal: true }),
+  };
+}
+
+/**
+ * The catalog from the ShiftType rows, in sort order. The built-in SHIFT_DEFINITIONS fill in any
+ * key without a row, so the timetable still works before the table is loaded (or offline).
+ */
+export function buildShiftCatalog(entries: ShiftTypeEntry[]): ShiftCatalog {
+  const catalog: ShiftCatalog = {};
+  [...entries]
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.key.localeCompare(b.key))
+    .forEach((entry) => {
+      catalog[entry.key] = toShiftDefinition(entry);
+    });
+  Object.entries(SHIFT_DEFINITIONS).forEach(([key, def]) => {
+    if (!catalog[key]) catalog[key] = def;
+  });
+  return catalog;
+}
+
+// Keys of the shifts that can still be assigned, in catalog order
+export function offeredShiftKeys(catalog: ShiftCatalog): string[] {
+  return Object.keys(catalog).filter((key) => !catalog[key].retired);
+}
+
+/**
+ * Key of the shift with these times and hours, or null (a custom time). Offered shifts win, so a
+ * retired type only matches cells that still use it.
+ */
+export function findShiftKey(
+  shift: { startTime: string; endTime: string; workHours: number },
+  catalog: ShiftCatalog
+): string | null {
+  const matches = Object.keys(catalog).filter((key) => {
+    const def = catalog[key];
+    return def.startTime === shift.startTime && def.endTime === shift.endTime && def.workHours === shift.workHours;
+  });
+  return matches.find((key) => !catalog[key].retired) ?? matches[0] ?? null;
+}
+
+// Returns an error message for invalid shift type fields, or null when they are valid
+export function validateShiftType(shiftType: {
+  key?: unknown;
+  label?: unknown;
+  timing?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+  workHours?: unknown;
+  breakHours?: unknown;
+  color?: unknown;
+  isSeasonal?: unknown;
+}): string | null {
+  const { key, label, timing, startTime, endTime, workHours, breakHours, color, isSeasonal } = shiftType;
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+    return 'key must be lowercase letters, digits and underscores, e.g. "10h_early"';
+  }
+  if (key.startsWith('custom') || key.startsWith('leave')) {
+    return 'key cannot start with "custom" or "leave"';
+  }
+  if (typeof label !== 'string' || label.trim() === '') {
+    return 'label is required';
+  }
+  // The label becomes the shift's type, and "custom" marks hand-entered times
+  if (label.trim().toLowerCase() === 'custom') {
+    return 'label cannot be "custom"';
+  }
+  if (timing !== null && timing !== undefined && !SHIFT_TIMINGS.includes(timing as ShiftTiming)) {
+    return `timing must be one of: ${SHIFT_TIMINGS.join(', ')}, or empty`;
+  }
+  if (typeof startTime !== 'string' || !TIME_PATTERN.test(startTime)) {
+    return 'startTime must be a time like "09:15"';
+  }
+  if (typeof endTime !== 'string' || !TIME_PATTERN.test(endTime)) {
+    return 'endTime must be a time like "21:45"';
+  }
+  if (toMinutes(endTime) <= toMinutes(startTime)) {
+    return 'endTime must be after startTime';
+  }
+  if (typeof workHours !== 'number' || !(workHours > 0)) {
+    return 'workHours must be more than 0';
+  }
+  if (typeof breakHours !== 'number' || !(breakHours >= 0)) {
+    return 'breakHours must be 0 or more';
+  }
+  if (workHours + breakHours > (toMinutes(endTime) - toMinutes(startTime)) / 60) {
+    return 'workHours plus breakHours cannot be longer than the shift';
+  }
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+    return 'color must be a hex colour like "#2563eb"';
+  }
+  if (isSeasonal !== undefined && typeof isSeasonal !== 'boolean') {
+    return 'isSeasonal must be true or false';
+  }
+  return null;
+}
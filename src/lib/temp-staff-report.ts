@@ -0,0 +1,62 @@
+import prisma from '@/lib/prisma';
+import { format } from 'date-fns';
+import { normalizeTempName, toTempStaffMember, type TempStaffReportRow } from '@/lib/temp-staff';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Hours and cost per temp for the replacement shifts dated from..to (inclusive), split by month.
+ * Shifts entered before the registry have no tempStaffId; they are grouped by name, ignoring
+ * case and spacing, and have no rate.
+ */
+export async function buildTempStaffReport(from: Date, to: Date): Promise<TempStaffReportRow[]> {
+  const [temps, shifts] = await Promise.all([
+    prisma.tempStaff.findMany(),
+    prisma.replacementShift.findMany({
+      where: { date: { gte: from, lte: to } },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+  const tempsById = new Map(temps.map((t) => [t.id, toTempStaffMember(t)]));
+
+  const rows = new Map<string, TempStaffReportRow>();
+  for (const shift of shifts) {
+    const temp = shift.tempStaffId ? tempsById.get(shift.tempStaffId) : undefined;
+    const key = temp ? temp.id : `name:${normalizeTempName(shift.tempStaffName)}`;
+    const row = rows.get(key) || {
+      tempStaffId: temp?.id || null,
+      name: temp?.name || shift.tempStaffName.trim(),
+      qualification: temp?.qualification || null,
+      hourlyRate: temp?.hourlyRate ?? null,
+      shifts: 0,
+      hours: 0,
+      cost: null,
+      months: [],
+    };
+
+    const month = format(shift.date, 'yyyy-MM');
+    let monthRow = row.months.find((m) => m.month === month);
+    if (!monthRow) {
+      monthRow = { month, shifts: 0, hours: 0, cost: null };
+      row.months.push(monthRow);
+    }
+    row.shifts++;
+    row.hours += shift.workHours;
+    monthRow.shifts++;
+    monthRow.hours += shift.workHours;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      hours: round(row.hours),
+      cost: row.hourlyRate !== null ? round(row.hours * row.hourlyRate) : null,
+      months: row.months.map((m) => ({
+        ...m,
+        hours: round(m.hours),
+        cost: row.hourlyRate !== null ? round(m.hours * row.hourlyRate) : null,
+      })),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
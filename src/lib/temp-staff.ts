@@ -0,0 +1,69 @@
+// Temp (locum) staff registry shapes and validation. Pure (no Prisma) so the Calendar can import it.
+
+export const TEMP_QUALIFICATIONS = ['Pharmacist', 'Assistant Pharmacist'] as const;
+export type TempQualification = (typeof TEMP_QUALIFICATIONS)[number];
+
+export interface TempStaffMember {
+  id: string;
+  name: string;
+  qualification: TempQualification;
+  phone: string | null;
+  email: string | null;
+  hourlyRate: number | null;
+  notes: string | null;
+  isActive: boolean;
+}
+
+// Hours and cost for one temp over a period, with a line per month
+export interface TempStaffReportRow {
+  tempStaffId: string | null; // null for names typed before the registry
+  name: string;
+  qualification: TempQualification | null;
+  hourlyRate: number | null;
+  shifts: number;
+  hours: number;
+  cost: number | null; // null when no hourly rate is set
+  months: { month: string; shifts: number; hours: number; cost: number | null }[]; // month as "yyyy-MM"
+}
+
+// Names compare ignoring case and spacing, so "Aina" and " aina " are the same temp
+export function normalizeTempName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Map a TempStaff database row to the shape used here
+export function toTempStaffMember(row: Omit<TempStaffMember, 'qualification'> & { qualification: string }): TempStaffMember {
+  return {
+    id: row.id,
+    name: row.name,
+    qualification: row.qualification as TempQualification,
+    phone: row.phone,
+    email: row.email,
+    hourlyRate: row.hourlyRate,
+    notes: row.notes,
+    isActive: row.isActive,
+  };
+}
+
+// Returns an error message for invalid temp fields, or null when they are valid
+export function validateTempStaff(temp: {
+  name?: unknown;
+  qualification?: unknown;
+  hourlyRate?: unknown;
+  email?: unknown;
+}): string | null {
+  const { name, qualification, hourlyRate, email } = temp;
+  if (typeof name !== 'string' || name.trim() === '') {
+    return 'name is required';
+  }
+  if (!TEMP_QUALIFICATIONS.includes(qualification as TempQualification)) {
+    return `qualification must be one of: ${TEMP_QUALIFICATIONS.join(', ')}`;
+  }
+  if (hourlyRate !== null && hourlyRate !== undefined && (typeof hourlyRate !== 'number' || !(hourlyRate >= 0))) {
+    return 'hourlyRate must be a positive number';
+  }
+  if (email && (typeof email !== 'string' || !/^\S+@\S+\.\S+$/.test(email))) {
+    return 'email must be a valid email address';
+  }
+  return null;
+}
@@ -0,0 +1,235 @@
+import prisma from '@/lib/prisma';
+import { format, getISOWeek, addDays } from 'date-fns';
+import { getStaffColors } from '@/staff-data';
+import { getMonthSchedule, parseOffDays } from '@/lib/month-schedule';
+import { getWeeklyHourSummaries } from '@/lib/schedule-generator';
+import { describePartialLeave } from '@/lib/partial-leave';
+import { buildPdf, fitText, textWidth, PAGE_HEIGHT, PAGE_WIDTH, type PdfPage, type PdfShape } from '@/lib/pdf';
+import type { DaySchedule, MonthSchedule } from '@/types/schedule';
+import type { DatabaseStaffMember } from '@/hooks/useStaff';
+
+const MARGIN = 28;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const LINE_SIZE = 6.5;
+
+const GRAY_TEXT = '#6b7280';
+const BORDER = '#d1d5db';
+const HOLIDAY_RED = '#dc2626';
+
+// One line per working or on-leave staff member, then the replacement notes
+function dayLines(day: DaySchedule, staffMembers: DatabaseStaffMember[]): { text: string; color: string | null }[] {
+  const lines: { text: string; color: string | null }[] = [];
+  for (const staff of staffMembers) {
+    const staffShift = day.staffShifts[staff.id];
+    if (!staffShift) continue;
+    const color = getStaffColors(staff.id, staff.colorIndex).hex;
+    const isReplaced = day.replacementShifts?.some((rep) => rep.originalStaffId === staff.id);
+
+    if (staffShift.isLeave) {
+      lines.push({ text: `${staff.name} ${staffShift.leaveType || 'AL'}`, color });
+    } else if (staffShift.shift && !isReplaced) {
+      const { startTime, endTime } = staffShift.shift;
+      const partial = staffShift.partialLeave ? ` (${describePartialLeave(staffShift.partialLeave)})` : '';
+      lines.push({ text: `${staff.name} ${startTime}-${endTime}${partial}`, color });
+    }
+  }
+
+  for (const rep of day.replacementShifts || []) {
+    const original = staffMembers.find((s) => s.id === rep.originalStaffId);
+    lines.push({
+      text: `${rep.tempStaffName} ${rep.startTime}-${rep.endTime} for ${original?.name || rep.originalStaffId}`,
+      color: null,
+    });
+  }
+  return lines;
+}
+
+function calendarPage(schedule: MonthSchedule, staffMembers: DatabaseStaffMember[], printedAt: Date): PdfPage {
+  const shapes: PdfShape[] = [];
+  const monthLabel = format(new Date(schedule.year, schedule.month - 1), 'MMMM yyyy');
+
+  shapes.push({ kind: 'text', x: MARGIN, y: MARGIN + 12, text: `Pharmacy Timetable - ${monthLabel}`, size: 16, bold: true });
+  const printed = `Published schedule, printed ${format(printedAt, 'd MMM yyyy')}`;
+  shapes.push({ kind: 'text', x: PAGE_WIDTH - MARGIN - textWidth(printed, 7), y: MARGIN + 12, text: printed, size: 7, color: GRAY_TEXT });
+
+  // Legend
+  let legendX = MARGIN;
+  for (const staff of staffMembers) {
+    shapes.push({ kind: 'rect', x: legendX, y: MARGIN + 20, width: 7, height: 7, fill: getStaffColors(staff.id, staff.colorIndex).hex });
+    const label = fitText(staff.name, 90, 8);
+    shapes.push({ kind: 'text', x: legendX + 10, y: MARGIN + 26.5, text: label, size: 8 });
+    legendX += 10 + textWidth(label, 8) + 14;
+  }
+
+  // Grid
+  const gridTop = MARGIN + 36;
+  const headerHeight = 14;
+  const colWidth = (PAGE_WIDTH - MARGIN * 2) / 7;
+  const weeks = Math.ceil(schedule.days.length / 7);
+  const rowHeight = (PAGE_HEIGHT - MARGIN - gridTop - headerHeight) / weeks;
+
+  WEEKDAYS.forEach((name, col) => {
+    const x = MARGIN + col * colWidth;
+    shapes.push({ kind: 'rect', x, y: gridTop, width: colWidth, height: headerHeight, fill: '#f9fafb', stroke: BORDER });
+    shapes.push({ kind: 'text', x: x + 4, y: gridTop + 10, text: name, size: 8, bold: true, color: GRAY_TEXT });
+  });
+
+  schedule.days.forEach((day, i) => {
+    const x = MARGIN + (i % 7) * colWidth;
+    const y = gridTop + headerHeight + Math.floor(i / 7) * rowHeight;
+    const fill = !day.isCurrentMonth ? '#f3f4f6' : day.isHoliday ? '#fef2f2' : undefined;
+    shapes.push({ kind: 'rect', x, y, width: colWidth, height: rowHeight, fill, stroke: BORDER });
+    shapes.push({
+      kind: 'text',
+      x: x + 4,
+      y: y + 10,
+      text: format(day.date, 'd'),
+      size: 8,
+      bold: true,
+      color: day.isCurrentMonth ? '#111827' : '#9ca3af',
+    });
+    if (!day.isCurrentMonth) return;
+
+    let lineY = y + 10;
+    if (day.isHoliday && day.holidayName) {
+      const name = fitText(day.holidayName, colWidth - 22, LINE_SIZE, true);
+      shapes.push({ kind: 'text', x: x + 16, y: lineY, text: name, size: LINE_SIZE, bold: true, color: HOLIDAY_RED });
+    }
+
+    const lines = dayLines(day, staffMembers);
+    const lineHeight = 8;
+    const capacity = Math.max(0, Math.floor((y + rowHeight - 3 - lineY) / lineHeight));
+    const shown = lines.length > capacity ? lines.slice(0, Math.max(0, capacity - 1)) : lines;
+
+    for (const line of shown) {
+      lineY += lineHeight;
+      if (line.color) {
+        shapes.push({ kind: 'rect', x: x + 4, y: lineY - 5, width: 5, height: 5, fill: line.color });
+      }
+      shapes.push({
+        kind: 'text',
+        x: x + (line.color ? 12 : 4),
+        y: lineY,
+        text: fitText(line.text, colWidth - (line.color ? 15 : 7), LINE_SIZE),
+        size: LINE_SIZE,
+        color: line.color ? '#111827' : GRAY_TEXT,
+      });
+    }
+    if (shown.length < lines.length) {
+      lineY += lineHeight;
+      shapes.push({ kind: 'text', x: x + 4, y: lineY, text: `+${lines.length - shown.length} more`, size: LINE_SIZE, color: GRAY_TEXT });
+    }
+  });
+
+  return shapes;
+}
+
+// A staff member's weekly hours against their target for the month
+function staffHoursPage(schedule: MonthSchedule, staff: DatabaseStaffMember, staffMembers: DatabaseStaffMember[]): PdfPage {
+  const shapes: PdfShape[] = [];
+  const monthLabel = format(new Date(schedule.year, schedule.month - 1), 'MMMM yyyy');
+  const color = getStaffColors(staff.id, staff.colorIndex).hex;
+
+  shapes.push({ kind: 'rect', x: MARGIN, y: MARGIN, width: 6, height: 22, fill: color });
+  shapes.push({ kind: 'text', x: MARGIN + 14, y: MARGIN + 12, text: staff.name, size: 16, bold: true });
+  shapes.push({
+    kind: 'text',
+    x: MARGIN + 14,
+    y: MARGIN + 22,
+    text: `${staff.role} - weekly hours, ${monthLabel} (target ${staff.weeklyHours}h per week)`,
+    size: 8,
+    color: GRAY_TEXT,
+  });
+
+  // First grid day of each ISO week, for the date range column
+  const weekStarts = new Map<number, Date>();
+  schedule.days.forEach((day) => {
+    const week = getISOWeek(day.date);
+    if (!weekStarts.has(week)) weekStarts.set(week, day.date);
+  });
+
+  const summaries = getWeeklyHourSummaries(schedule, staffMembers)
+    .filter((s) => s.staffId === staff.id)
+    .sort((a, b) => (weekStarts.get(a.week)?.getTime() || 0) - (weekStarts.get(b.week)?.getTime() || 0));
+
+  const columns = [
+    { label: 'Week', x: MARGIN },
+    { label: 'Dates', x: MARGIN + 60 },
+    { label: 'Target', x: MARGIN + 220 },
+    { label: 'Worked', x: MARGIN + 290 },
+    { label: 'Difference', x: MARGIN + 360 },
+  ];
+  const tableWidth = 440;
+  let y = MARGIN + 48;
+  shapes.push({ kind: 'rect', x: MARGIN, y: y - 11, width: tableWidth, height: 16, fill: '#f9fafb' });
+  columns.forEach((col) => shapes.push({ kind: 'text', x: col.x + 4, y, text: col.label, size: 9, bold: true, color: GRAY_TEXT }));
+
+  let totalTarget = 0;
+  let totalActual = 0;
+  for (const summary of summaries) {
+    y += 18;
+    const start = weekStarts.get(summary.week);
+    const dates = start ? `${format(start, 'd MMM')} - ${format(addDays(start, 6), 'd MMM')}` : '';
+    const diff = summary.actualHours - summary.targetHours;
+    totalTarget += summary.targetHours;
+    totalActual += summary.actualHours;
+
+    shapes.push({ kind: 'line', x1: MARGIN, y1: y - 12, x2: MARGIN + tableWidth, y2: y - 12, color: BORDER });
+    shapes.push({ kind: 'text', x: columns[0].x + 4, y, text: `W${summary.week}`, size: 9 });
+    shapes.push({ kind: 'text', x: columns[1].x + 4, y, text: dates, size: 9 });
+    shapes.push({ kind: 'text', x: columns[2].x + 4, y, text: `${summary.targetHours}h`, size: 9 });
+    shapes.push({ kind: 'text', x: columns[3].x + 4, y, text: `${summary.actualHours}h`, size: 9, bold: true });
+    shapes.push({
+      kind: 'text',
+      x: columns[4].x + 4,
+      y,
+      text: `${diff > 0 ? '+' : ''}${diff}h`,
+      size: 9,
+      color: diff < 0 ? HOLIDAY_RED : diff > 0 ? '#d97706' : '#16a34a',
+    });
+  }
+
+  y += 18;
+  shapes.push({ kind: 'line', x1: MARGIN, y1: y - 12, x2: MARGIN + tableWidth, y2: y - 12, color: '#9ca3af', width: 1 });
+  shapes.push({ kind: 'text', x: columns[0].x + 4, y, text: 'Total', size: 9, bold: true });
+  shapes.push({ kind: 'text', x: columns[2].x + 4, y, text: `${totalTarget}h`, size: 9, bold: true });
+  shapes.push({ kind: 'text', x: columns[3].x + 4, y, text: `${totalActual}h`, size: 9, bold: true });
+  shapes.push({ kind: 'text', x: columns[4].x + 4, y, text: `${totalActual - totalTarget > 0 ? '+' : ''}${totalActual - totalTarget}h`, size: 9, bold: true });
+
+  return shapes;
+}
+
+/**
+ * The published month as a printable A4 landscape PDF: a colour-coded calendar page, plus
+ * (with staffPages) one page per staff member with their weekly hour totals.
+ */
+export async function buildTimetablePdf(year: number, month: number, staffPages: boolean): Promise<Buffer> {
+  const [schedule, staff] = await Promise.all([
+    getMonthSchedule(year, month),
+    prisma.staff.findMany({ where: { isActive: true }, orderBy: { name: 'asc' } }),
+  ]);
+
+  const staffMembers: DatabaseStaffMember[] = staff.map((s) => ({
+    id: s.staffId,
+    name: s.name,
+    role: s.role as DatabaseStaffMember['role'],
+    weeklyHours: s.weeklyHours,
+    defaultOffDays: parseOffDays(s.defaultOffDays),
+    startDate: s.startDate,
+    endDate: s.endDate,
+    colorIndex: s.colorIndex,
+  }));
+
+  // Only staff employed at some point in the month
+  const inMonth = staffMembers.filter((member) =>
+    schedule.days.some((day) => day.isCurrentMonth && day.staffShifts[member.id])
+  );
+
+  const pages = [calendarPage(schedule, inMonth, new Date())];
+  if (staffPages) {
+    pages.push(...inMonth.map((member) => staffHoursPage(schedule, member, inMonth)));
+  }
+
+  const monthLabel = format(new Date(year, month - 1), 'MMMM yyyy');
+  return buildPdf(`Pharmacy Timetable - ${monthLabel}`, pages);
+}
@@ -0,0 +1,22 @@
+import type { User, Staff } from '@/generated/prisma';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Lowercase letters, digits, dot, dash and underscore
+export function isValidUsername(username: string): boolean {
+  return /^[a-z0-9._-]{3,32}$/.test(username);
+}
+
+// Never expose passwordHash
+export function toUserResponse(user: User & { staff: Staff | null }) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    staffId: user.staffId,
+    staffName: user.staff?.name || null,
+    isActive: user.isActive,
+    lastLoginAt: user.lastLoginAt?.toISOString() || null,
+    createdAt: user.createdAt.toISOString(),
+  };
+}
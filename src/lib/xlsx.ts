@@ -0,0 +1,279 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export type CellValue = string | number | null;
+
+// Largest uncompressed file read from a workbook; a month's rota sheet is well under 1 MB
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+
+// A workbook entry that inflates past MAX_ENTRY_BYTES (e.g. a ZIP bomb)
+export class WorkbookTooLargeError extends Error {
+  constructor(name: string) {
+    super(`${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB uncompressed`);
+    this.name = 'WorkbookTooLargeError';
+  }
+}
+
+// Escape text for XML element content and attributes
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters for a 0-based index: 0 → A, 25 → Z, 26 → AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1)));
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+// 0-based index for column letters: A → 0, AA → 26
+function columnIndex(name: string): number {
+  let index = 0;
+  for (const char of name.toUpperCase()) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function sheetXml(rows: CellValue[][]): string {
+  const rowXml = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : ''; // bold header row
+      if (value === null || value === '') return '';
+      if (typeof value === 'number') return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rowXml.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Minimal ZIP archive (deflate, no extra fields), which is all an .xlsx container needs
+function zip(files: { name: string; content: string }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const raw = Buffer.from(file.content);
+    const data = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Inflate a deflated entry, refusing to grow it past MAX_ENTRY_BYTES
+function inflateEntry(name: string, raw: Buffer): Buffer {
+  try {
+    return inflateRawSync(raw, { maxOutputLength: MAX_ENTRY_BYTES });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw new WorkbookTooLargeError(name);
+    throw error;
+  }
+}
+
+// Files in a ZIP archive by name (stored or deflated entries only)
+function unzip(data: Buffer): Map<string, Buffer> {
+  let end = data.length - 22;
+  while (end >= 0 && data.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const files = new Map<string, Buffer>();
+  const count = data.readUInt16LE(end + 10);
+  let pos = data.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    const method = data.readUInt16LE(pos + 10);
+    const compressedSize = data.readUInt32LE(pos + 20);
+    const nameLength = data.readUInt16LE(pos + 28);
+    const extraLength = data.readUInt16LE(pos + 30);
+    const commentLength = data.readUInt16LE(pos + 32);
+    const localOffset = data.readUInt32LE(pos + 42);
+    const name = data.toString('utf8', pos + 46, pos + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, raw);
+    else if (method === 8) files.set(name, inflateEntry(name, raw));
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// Concatenated <t> text of a string item (plain or rich text)
+function itemText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (m) => unescapeXml(m[1])).join('');
+}
+
+/**
+ * Read the first sheet of an Excel workbook (.xlsx) as rows of cell text. Cells are returned as
+ * stored: numbers as their digits, formulas as their cached value. Missing cells are ''.
+ */
+export function readWorkbook(data: Buffer): string[][] {
+  const files = unzip(data);
+  const read = (name: string) => files.get(name)?.toString('utf8');
+
+  // First sheet listed in the workbook, through its relationship
+  const workbook = read('xl/workbook.xml') || '';
+  const relId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const rels = read('xl/_rels/workbook.xml.rels') || '';
+  const target = Array.from(rels.matchAll(/<Relationship\s[^>]*>/g))
+    .map((m) => m[0])
+    .find((rel) => rel.includes(`Id="${relId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('Workbook has no worksheet');
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g), (m) => itemText(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\s([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowIndex = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] || rows.length + 1) - 1;
+    const row: string[] = [];
+    for (const cell of rowMatch[2].matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] || '';
+      const ref = attrs.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const type = attrs.match(/\bt="(\w+)"/)?.[1];
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 'inlineStr') text = itemText(body);
+      else if (type === 's' && value !== undefined) text = sharedStrings[Number(value)] ?? '';
+      else if (value !== undefined) text = unescapeXml(value);
+
+      const col = ref ? columnIndex(ref) : row.length;
+      while (row.length < col) row.push('');
+      row[col] = text;
+    }
+    rows[rowIndex] = row;
+  }
+  return Array.from(rows, (row) => row || []);
+}
+
+/**
+ * Render a single-sheet Excel workbook (.xlsx). The first row is treated as a bold, frozen
+ * header; numbers are written as numeric cells and everything else as text.
+ */
+export function buildWorkbook(sheetName: string, rows: CellValue[][]): Buffer {
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: sheetXml(rows) },
+  ]);
+}
@@ -1,17 +1,31 @@
-import { auth } from '@/lib/auth';
+import NextAuth from 'next-auth';
 import { NextResponse } from 'next/server';
+import { authConfig } from '@/lib/auth.config';
+import { canAccessApi, canEditRota } from '@/lib/permissions';
+
+// Middleware runs on the edge runtime, so it uses the Prisma-free auth config
+const { auth } = NextAuth(authConfig);
 
 export default auth((req) => {
   const { pathname } = req.nextUrl;
   const isLoggedIn = !!req.auth;
+  const user = req.auth?.user;
 
-  // Protect /admin/* routes
-  if (pathname.startsWith('/admin')) {
+  // Protect /admin/* and /me routes
+  if (pathname.startsWith('/admin') || pathname === '/me') {
     if (!isLoggedIn) {
       const loginUrl = new URL('/login', req.url);
       loginUrl.searchParams.set('from', pathname);
       return NextResponse.redirect(loginUrl);
     }
+
+    // Staff accounts only get their own page, not the admin panel
+    if (pathname.startsWith('/admin') && !canEditRota(user?.role)) {
+      const meUrl = req.nextUrl.clone();
+      meUrl.pathname = '/me';
+      meUrl.search = '';
+      return NextResponse.redirect(meUrl);
+    }
   }
 
   // Protect state-changing API routes (POST/PUT/DELETE)
@@ -26,16 +40,31 @@ export default auth((req) => {
       return NextResponse.next();
     }
 
+    // Calendar feeds are authorised by the per-staff token in the route itself,
+    // since phone calendar apps can't log in
+    if (req.method === 'GET' && pathname.startsWith('/api/calendar/')) {
+      return NextResponse.next();
+    }
+
     // Allow GET requests on public data routes
     // SECURITY: Only schedule data is public - staff and leave data require auth
     if (req.method === 'GET') {
       const publicGetRoutes = [
         '/api/overrides', // Schedule data is meant to be publicly viewable
+        '/api/shift-patterns', // Rotation patterns drive the public timetable
+        '/api/holidays', // Holidays are shown on the public timetable
+        '/api/shift-types', // The shift catalog labels and colours the public timetable
+        '/api/shift-seasons', // Seasons swap shifts on the public timetable
       ];
       const isPublicGetRoute = publicGetRoutes.some((route) =>
         pathname.startsWith(route)
       );
-      if (isPublicGetRoute) {
+      // ...except the draft previews and the admin view of a month, which show unpublished changes
+      const isDraftPreview =
+        pathname === '/api/overrides/diff' ||
+        pathname === '/api/overrides/auto-schedule' ||
+        (pathname === '/api/overrides' && req.nextUrl.searchParams.get('view') === 'admin');
+      if (isPublicGetRoute && !isDraftPreview) {
         return NextResponse.next();
       }
     }
@@ -44,11 +73,16 @@ export default auth((req) => {
     if (!isLoggedIn) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
+
+    // ...and a role allowed to use the route (see lib/permissions.ts)
+    if (!canAccessApi(user ?? {}, req.method, pathname, req.nextUrl.searchParams)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
   }
 
   return NextResponse.next();
 });
 
 export const config = {
-  matcher: ['/admin/:path*', '/api/:path*'],
+  matcher: ['/admin/:path*', '/me', '/api/:path*'],
 };
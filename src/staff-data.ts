@@ -156,6 +156,7 @@ export const SHIFT_DEFINITIONS: { [key: string]: ShiftDefinition } = {
     startTime: "09:15",
     endTime: "17:15",
     workHours: 8,
+    seasonal: true,
   },
   "11h_ramadan": {
     type: "11h",
@@ -163,11 +164,15 @@ export const SHIFT_DEFINITIONS: { [key: string]: ShiftDefinition } = {
     startTime: "09:45",
     endTime: "21:45",
     workHours: 11,
+    seasonal: true,
   },
 }
 
-// Keys for Ramadan-specific shifts (used to separate them in dropdown UI)
-export const RAMADAN_SHIFT_KEYS: Set<keyof typeof SHIFT_DEFINITIONS> = new Set(["9h_early_ramadan", "11h_ramadan"]);
+// Pattern shifts and their Ramadan equivalents, the starting point for a new season's shift map
+export const RAMADAN_SHIFT_MAP: { [key: string]: string } = {
+  "9h_early": "9h_early_ramadan",
+  "11h": "11h_ramadan",
+};
 
 // Pattern 0 (Odd ISO Weeks)
 const PATTERN_0: ShiftPattern = {
@@ -4,6 +4,7 @@ import { DefaultJWT } from 'next-auth/jwt';
 declare module 'next-auth' {
   interface User extends DefaultUser {
     role?: string;
+    staffId?: string | null;
   }
 
   interface Session extends DefaultSession {
@@ -13,6 +14,7 @@ declare module 'next-auth' {
       email?: string | null;
       image?: string | null;
       role?: string;
+      staffId?: string | null;
     };
   }
 }
@@ -20,5 +22,6 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT extends DefaultJWT {
     role?: string;
+    staffId?: string | null;
   }
 }
@@ -12,6 +12,16 @@ export interface ShiftDefinition {
   startTime: string;
   endTime: string;
   workHours: number;
+  color?: string; // shift type colour, for catalog shifts
+  retired?: boolean; // retired shift type: still resolves, no longer offered
+  seasonal?: boolean; // seasonal shift type (e.g. Ramadan), offered apart from the everyday shifts
+}
+
+// Part-day leave: a morning or evening half day, or a number of hours
+export interface PartialLeave {
+  leaveType: 'AL' | 'RL' | 'EL' | 'ML';
+  portion: 'am' | 'pm' | 'hours';
+  hours: number | null; // only for portion "hours"
 }
 
 export interface ShiftPattern {
@@ -28,6 +38,7 @@ export interface DaySchedule {
   dayOfWeek: number;
   isHoliday: boolean;
   holidayName?: string;
+  seasonName?: string; // Shift season in effect, e.g. "Ramadan 2027"
   isCurrentMonth: boolean;
   staffShifts: {
     [staffId: string]: {
@@ -35,6 +46,8 @@ export interface DaySchedule {
       isOverride: boolean;
       isLeave: boolean;
       leaveType?: 'AL' | 'RL' | 'EL' | 'ML' | 'MAT';
+      partialLeave?: PartialLeave; // Leave for part of the day; shift holds the shortened working time
+      cycleWeek?: { index: number; length: number }; // Rotation week in use (0-based)
     };
   };
   replacementShifts?: ReplacementShift[];
@@ -43,10 +56,12 @@ export interface DaySchedule {
 export interface ReplacementShift {
   id: string; // Unique ID for the replacement shift
   originalStaffId: string;
+  tempStaffId?: string | null; // TempStaff registry entry; missing for names typed before the registry
   tempStaffName: string;
   startTime: string;
   endTime: string;
   workHours: number;
+  breakHours?: number; // Break entered with a new replacement; the server works out workHours from it
 }
 
 export interface MonthSchedule {
@@ -61,8 +76,10 @@ export interface MonthSchedule {
 }
 
 export interface PublicHoliday {
+  id?: string;
   date: string; // YYYY-MM-DD
   name: string;
+  state?: string; // "ALL" for nationwide, otherwise a state code
 }
 
 export interface WeeklyHourSummary {
@@ -72,4 +89,18 @@ export interface WeeklyHourSummary {
   actualHours: number;
   isUnderTarget: boolean;
   week: number;
-} 
\ No newline at end of file
+}
+
+// A rotation week maps day of week (0=Sunday) to a SHIFT_DEFINITIONS key, or null for off
+export type RotationWeek = { [dayOfWeek: number]: string | null };
+
+// Database-backed rotation pattern for a staff member or a role
+export interface RotationPattern {
+  id: string;
+  staffId: string | null;
+  role: string | null;
+  version: number;
+  weeks: RotationWeek[];
+  anchorDate: string | null; // YYYY-MM-DD, null uses the default anchor
+  createdAt?: string;
+}